@@ -0,0 +1,22 @@
+/** @type {import('jest').Config} */
+const jestConfig = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  transform: {
+    '^.+\\.tsx?$': [
+      'ts-jest',
+      {
+        tsconfig: {
+          isolatedModules: true,
+          module: 'commonjs',
+          jsx: 'react-jsx',
+        },
+      },
+    ],
+  },
+}
+
+module.exports = jestConfig
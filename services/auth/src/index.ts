@@ -170,7 +170,7 @@ app.get('/verify', async (req, res) => {
     // Get user
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
-      select: { id: true, email: true, name: true }
+      select: { id: true, email: true, name: true, role: true }
     })
 
     if (!user) {
@@ -194,6 +194,10 @@ app.get('/metrics', metricsEndpoint)
 
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // Express closes a response that has already started
+  if (res.headersSent) {
+    return next(err)
+  }
   console.error(err.stack)
   res.status(500).json({
     error: 'Internal Server Error',
@@ -63,11 +63,14 @@ io.on('connection', (socket) => {
 app.post('/notify', async (req, res) => {
   try {
     const { userIds, userId, type, data } = notificationSchema.parse(req.body)
+    const { title, message } = getNotificationText(type)
 
     // Create notification in database
     const notification = await prisma.notification.create({
       data: {
         type,
+        title,
+        message,
         data,
         userId: userId || userIds?.[0]
       }
@@ -87,7 +90,7 @@ app.post('/notify', async (req, res) => {
       })
 
       if (user?.settings?.emailNotifications) {
-        const emailContent = generateEmailContent(type, data)
+        const emailContent = generateEmailContent(title, message)
         await transporter.sendMail({
           from: process.env.SMTP_USER,
           to: user.email,
@@ -171,40 +174,25 @@ app.delete('/notifications/:id', async (req, res) => {
   }
 })
 
+// Title and message of each notification type
+const NOTIFICATION_TEXT: Record<string, { title: string; message: string }> = {
+  follow: { title: 'New Follower', message: 'Someone followed you on Ominex!' },
+  like: { title: 'New Like', message: 'Someone liked your post on Ominex!' },
+  comment: { title: 'New Comment', message: 'Someone commented on your post on Ominex!' },
+  new_post: { title: 'New Post', message: 'Someone you follow posted new content on Ominex!' },
+  mention: { title: 'New Mention', message: 'Someone mentioned you in a post on Ominex!' }
+}
+
+function getNotificationText(type: string): { title: string; message: string } {
+  return NOTIFICATION_TEXT[type] || { title: 'New Notification', message: 'You have a new notification on Ominex!' }
+}
+
 // Helper function to generate email content
-function generateEmailContent(type: string, data: any): string {
-  switch (type) {
-    case 'follow':
-      return `
-        <h2>New Follower</h2>
-        <p>Someone followed you on Ominex!</p>
-      `
-    case 'like':
-      return `
-        <h2>New Like</h2>
-        <p>Someone liked your post on Ominex!</p>
-      `
-    case 'comment':
-      return `
-        <h2>New Comment</h2>
-        <p>Someone commented on your post on Ominex!</p>
-      `
-    case 'new_post':
-      return `
-        <h2>New Post</h2>
-        <p>Someone you follow posted new content on Ominex!</p>
-      `
-    case 'mention':
-      return `
-        <h2>New Mention</h2>
-        <p>Someone mentioned you in a post on Ominex!</p>
-      `
-    default:
-      return `
-        <h2>New Notification</h2>
-        <p>You have a new notification on Ominex!</p>
-      `
-  }
+function generateEmailContent(title: string, message: string): string {
+  return `
+    <h2>${title}</h2>
+    <p>${message}</p>
+  `
 }
 
 // Health check endpoint
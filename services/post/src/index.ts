@@ -1,10 +1,11 @@
 import express from 'express'
 import cors from 'cors'
 import helmet from 'helmet'
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, UserRole } from '@prisma/client'
 import { z } from 'zod'
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3'
 import { metricsMiddleware, metricsEndpoint } from '../../../src/middleware/metrics'
+import { requireWorkspacePermission } from '../../../src/middleware/workspace'
 import { cache } from '../../../src/lib/cache'
 
 const app = express()
@@ -66,8 +67,15 @@ const authenticate = async (req: express.Request, res: express.Response, next: e
   }
 }
 
+// Authors may change their own posts; admins moderate everyone's
+const canModify = (post: { authorId: string }, user: { id: string; role?: UserRole }) =>
+  post.authorId === user.id || user.role === UserRole.ADMIN
+
+// Every route checks the user's workspace role when the request names a
+// workspace, and works in the user's personal scope otherwise
+
 // Routes
-app.post('/posts', authenticate, async (req, res) => {
+app.post('/posts', authenticate, requireWorkspacePermission('posts:publish', { optional: true }), async (req, res) => {
   try {
     const { content, media, scheduledFor, visibility } = createPostSchema.parse(req.body)
 
@@ -122,7 +130,7 @@ app.post('/posts', authenticate, async (req, res) => {
   }
 })
 
-app.get('/posts', authenticate, async (req, res) => {
+app.get('/posts', authenticate, requireWorkspacePermission('content:view', { optional: true }), async (req, res) => {
   try {
     const { page = 1, limit = 10 } = req.query
     const skip = (Number(page) - 1) * Number(limit)
@@ -175,7 +183,7 @@ app.get('/posts', authenticate, async (req, res) => {
   }
 })
 
-app.get('/posts/:id', authenticate, async (req, res) => {
+app.get('/posts/:id', authenticate, requireWorkspacePermission('content:view', { optional: true }), async (req, res) => {
   try {
     const post = await prisma.post.findUnique({
       where: { id: req.params.id },
@@ -212,7 +220,7 @@ app.get('/posts/:id', authenticate, async (req, res) => {
   }
 })
 
-app.put('/posts/:id', authenticate, async (req, res) => {
+app.put('/posts/:id', authenticate, requireWorkspacePermission('posts:publish', { optional: true }), async (req, res) => {
   try {
     const updates = updatePostSchema.parse(req.body)
 
@@ -224,7 +232,7 @@ app.put('/posts/:id', authenticate, async (req, res) => {
       return res.status(404).json({ error: 'Post not found' })
     }
 
-    if (post.authorId !== req.user.id) {
+    if (!canModify(post, req.user)) {
       return res.status(403).json({ error: 'Not authorized' })
     }
 
@@ -244,7 +252,7 @@ app.put('/posts/:id', authenticate, async (req, res) => {
 
     // Invalidate cache
     await cache.delete(`post:${post.id}`)
-    await cache.delete(`user:${req.user.id}:posts`)
+    await cache.delete(`user:${post.authorId}:posts`)
 
     res.json(updatedPost)
   } catch (error) {
@@ -257,7 +265,7 @@ app.put('/posts/:id', authenticate, async (req, res) => {
   }
 })
 
-app.delete('/posts/:id', authenticate, async (req, res) => {
+app.delete('/posts/:id', authenticate, requireWorkspacePermission('posts:publish', { optional: true }), async (req, res) => {
   try {
     const post = await prisma.post.findUnique({
       where: { id: req.params.id }
@@ -267,7 +275,7 @@ app.delete('/posts/:id', authenticate, async (req, res) => {
       return res.status(404).json({ error: 'Post not found' })
     }
 
-    if (post.authorId !== req.user.id) {
+    if (!canModify(post, req.user)) {
       return res.status(403).json({ error: 'Not authorized' })
     }
 
@@ -277,7 +285,7 @@ app.delete('/posts/:id', authenticate, async (req, res) => {
 
     // Invalidate cache
     await cache.delete(`post:${post.id}`)
-    await cache.delete(`user:${req.user.id}:posts`)
+    await cache.delete(`user:${post.authorId}:posts`)
 
     res.json({ message: 'Post deleted successfully' })
   } catch (error) {
@@ -286,7 +294,7 @@ app.delete('/posts/:id', authenticate, async (req, res) => {
   }
 })
 
-app.post('/posts/:id/like', authenticate, async (req, res) => {
+app.post('/posts/:id/like', authenticate, requireWorkspacePermission('content:view', { optional: true }), async (req, res) => {
   try {
     const like = await prisma.like.create({
       data: {
@@ -319,7 +327,7 @@ app.post('/posts/:id/like', authenticate, async (req, res) => {
   }
 })
 
-app.delete('/posts/:id/like', authenticate, async (req, res) => {
+app.delete('/posts/:id/like', authenticate, requireWorkspacePermission('content:view', { optional: true }), async (req, res) => {
   try {
     await prisma.like.delete({
       where: {
@@ -337,7 +345,7 @@ app.delete('/posts/:id/like', authenticate, async (req, res) => {
   }
 })
 
-app.post('/posts/:id/comments', authenticate, async (req, res) => {
+app.post('/posts/:id/comments', authenticate, requireWorkspacePermission('inbox:reply', { optional: true }), async (req, res) => {
   try {
     const { content } = z.object({ content: z.string().max(1000) }).parse(req.body)
 
@@ -396,6 +404,10 @@ app.get('/metrics', metricsEndpoint)
 
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // Express closes a response that has already started
+  if (res.headersSent) {
+    return next(err)
+  }
   console.error(err.stack)
   res.status(500).json({
     error: 'Internal Server Error',
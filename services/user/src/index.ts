@@ -4,7 +4,15 @@ import helmet from 'helmet'
 import { PrismaClient } from '@prisma/client'
 import { z } from 'zod'
 import { metricsMiddleware, metricsEndpoint } from '../../../src/middleware/metrics'
+import { WorkspaceRequest, requireWorkspacePermission } from '../../../src/middleware/workspace'
 import { cache } from '../../../src/lib/cache'
+import {
+  WorkspaceAccessError,
+  getWorkspaces,
+  inviteMember,
+  getInvitationUrl,
+  removeMember
+} from '../../../src/lib/workspaces'
 
 const app = express()
 const prisma = new PrismaClient()
@@ -32,6 +40,18 @@ const updateSettingsSchema = z.object({
   timezone: z.string().optional()
 })
 
+const workspaceRole = z.enum(['ADMIN', 'EDITOR', 'CONTRIBUTOR', 'VIEWER'])
+
+const inviteMemberSchema = z.object({
+  email: z.string().email(),
+  role: workspaceRole,
+  allAccounts: z.boolean().optional(),
+  grants: z.array(z.object({
+    accountId: z.string(),
+    role: workspaceRole
+  })).optional()
+})
+
 // Authentication middleware
 const authenticate = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
   try {
@@ -262,6 +282,90 @@ app.delete('/follow/:userId', authenticate, async (req, res) => {
   }
 })
 
+app.get('/workspaces', authenticate, async (req, res) => {
+  try {
+    res.json(await getWorkspaces(req.user.id))
+  } catch (error) {
+    console.error('Get workspaces error:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+app.get(
+  '/workspaces/:workspaceId/members',
+  authenticate,
+  requireWorkspacePermission('content:view'),
+  async (req: WorkspaceRequest, res) => {
+    try {
+      const members = await prisma.workspaceMember.findMany({
+        where: { workspaceId: req.params.workspaceId },
+        include: { grants: true },
+        orderBy: { createdAt: 'asc' }
+      })
+      const users = await prisma.user.findMany({
+        where: { id: { in: members.map(m => m.userId) } },
+        select: {
+          id: true,
+          name: true,
+          avatar: true
+        }
+      })
+
+      res.json(members.map(m => ({
+        ...m,
+        user: users.find(u => u.id === m.userId) || null
+      })))
+    } catch (error) {
+      console.error('Get workspace members error:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+)
+
+app.post(
+  '/workspaces/:workspaceId/invitations',
+  authenticate,
+  requireWorkspacePermission('members:manage'),
+  async (req, res) => {
+    try {
+      const input = inviteMemberSchema.parse(req.body)
+      const { invitation, token } = await inviteMember(req.user.id, req.params.workspaceId, input)
+
+      // The link is also returned, for sharing it when the email does not arrive
+      res.status(201).json({ invitation, url: getInvitationUrl(token) })
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: error.errors })
+      } else if (error instanceof WorkspaceAccessError) {
+        res.status(error.status).json({ error: error.message })
+      } else {
+        console.error('Invite workspace member error:', error)
+        res.status(500).json({ error: 'Internal server error' })
+      }
+    }
+  }
+)
+
+// Members may remove themselves; removing others is checked against their role
+app.delete(
+  '/workspaces/:workspaceId/members/:userId',
+  authenticate,
+  requireWorkspacePermission('content:view'),
+  async (req, res) => {
+    try {
+      const removed = await removeMember(req.user.id, req.params.workspaceId, req.params.userId)
+      res.json({ removed })
+    } catch (error) {
+      if (error instanceof WorkspaceAccessError) {
+        res.status(error.status).json({ error: error.message })
+      } else {
+        console.error('Remove workspace member error:', error)
+        res.status(500).json({ error: 'Internal server error' })
+      }
+    }
+  }
+)
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ status: 'healthy' })
@@ -272,6 +376,10 @@ app.get('/metrics', metricsEndpoint)
 
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // Express closes a response that has already started
+  if (res.headersSent) {
+    return next(err)
+  }
   console.error(err.stack)
   res.status(500).json({
     error: 'Internal Server Error',
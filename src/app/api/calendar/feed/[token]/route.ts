@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { ContentCalendar } from "@/lib/social/content-calendar";
+
+// Calendar apps cannot sign in, so the secret token in the link is the only
+// credential
+export async function GET(
+  req: Request,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const token = params.token.replace(/\.ics$/, "");
+    const feed = await ContentCalendar.getInstance().getFeed(token);
+
+    if (!feed) {
+      return new NextResponse("Not found", { status: 404 });
+    }
+
+    return new NextResponse(feed, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="content-calendar.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("[CALENDAR_FEED]", error);
+    return new NextResponse("Internal error", { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { acceptInvitation } from "@/lib/workspaces";
+
+// Joins the workspace as the signed-in user; the invitation must have been
+// sent to their email address
+export async function POST(
+  req: Request,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    try {
+      const member = await acceptInvitation(session.user.id, params.token);
+      return NextResponse.json(member);
+    } catch (error) {
+      return new NextResponse((error as Error).message, { status: 400 });
+    }
+  } catch (error) {
+    console.error("[INVITATION_ACCEPT]", error);
+    return new NextResponse("Internal error", { status: 500 });
+  }
+}
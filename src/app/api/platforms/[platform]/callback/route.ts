@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Platform } from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { completePlatformConnection } from "@/lib/platforms";
+import { WorkspaceAccessError } from "@/lib/workspaces";
+import { SocialService } from "@/lib/social/social-service";
+
+// Registered as the OAuth redirect URI of each platform's SocialConfig
+export async function GET(
+  req: Request,
+  { params }: { params: { platform: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const platform = params.platform.toUpperCase() as Platform;
+    if (!Object.values(Platform).includes(platform)) {
+      return new NextResponse("Platform not found", { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const state = searchParams.get("state");
+    const code = searchParams.get("code");
+
+    if (!state) {
+      return new NextResponse("Missing OAuth state", { status: 400 });
+    }
+
+    const pending = await prisma.oAuthState.findUnique({
+      where: { state },
+      select: { returnTo: true },
+    });
+    const redirectUrl = new URL(pending?.returnTo || "/", req.url);
+    redirectUrl.searchParams.set("platform", platform);
+
+    // The user denied access or the provider reported an error
+    if (!code) {
+      redirectUrl.searchParams.set(
+        "error",
+        searchParams.get("error") || "access_denied"
+      );
+      return NextResponse.redirect(redirectUrl);
+    }
+
+    await SocialService.getInstance().initialize();
+
+    try {
+      await completePlatformConnection(session.user.id, platform, state, code);
+    } catch (error) {
+      console.error("[PLATFORM_CALLBACK]", error);
+      redirectUrl.searchParams.set(
+        "error",
+        error instanceof WorkspaceAccessError ? "forbidden" : "connection_failed"
+      );
+      return NextResponse.redirect(redirectUrl);
+    }
+
+    redirectUrl.searchParams.set("connected", "true");
+    return NextResponse.redirect(redirectUrl);
+  } catch (error) {
+    console.error("[PLATFORM_CALLBACK]", error);
+    return new NextResponse("Internal error", { status: 500 });
+  }
+}
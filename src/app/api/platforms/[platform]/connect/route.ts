@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Platform } from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import { connectPlatform } from "@/lib/platforms";
+import { WorkspaceAccessError, getMembership } from "@/lib/workspaces";
+import { SocialService } from "@/lib/social/social-service";
+
+export async function GET(
+  req: Request,
+  { params }: { params: { platform: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const platform = params.platform.toUpperCase() as Platform;
+    if (!Object.values(Platform).includes(platform)) {
+      return new NextResponse("Platform not found", { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const returnTo = searchParams.get("returnTo");
+    const workspaceId = searchParams.get("workspaceId");
+
+    if (workspaceId && !(await getMembership(session.user.id, workspaceId))) {
+      return new NextResponse("Workspace not found", { status: 404 });
+    }
+
+    await SocialService.getInstance().initialize();
+    const authUrl = await connectPlatform(session.user.id, platform, {
+      instanceUrl: searchParams.get("instanceUrl") || undefined,
+      workspaceId: workspaceId || undefined,
+      // Only allow same-origin paths to avoid an open redirect
+      returnTo:
+        returnTo && returnTo.startsWith("/") && !returnTo.startsWith("//")
+          ? returnTo
+          : undefined,
+    });
+
+    return NextResponse.redirect(authUrl);
+  } catch (error) {
+    if (error instanceof WorkspaceAccessError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+    console.error("[PLATFORM_CONNECT]", error);
+    return new NextResponse("Internal error", { status: 500 });
+  }
+}
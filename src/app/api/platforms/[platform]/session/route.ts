@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Platform } from "@prisma/client";
+import { authOptions } from "@/lib/auth";
+import { connectPlatformSession } from "@/lib/platforms";
+import { WorkspaceAccessError, getMembership } from "@/lib/workspaces";
+import { SocialService } from "@/lib/social/social-service";
+
+// Connects a platform that signs in with a password (e.g. a Bluesky app
+// password) rather than an OAuth redirect
+export async function POST(
+  req: Request,
+  { params }: { params: { platform: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const platform = params.platform.toUpperCase() as Platform;
+    if (!Object.values(Platform).includes(platform)) {
+      return new NextResponse("Platform not found", { status: 404 });
+    }
+
+    const { identifier, password, instanceUrl, workspaceId } = await req.json();
+    if (!identifier || !password) {
+      return new NextResponse("Missing identifier or password", { status: 400 });
+    }
+
+    if (workspaceId && !(await getMembership(session.user.id, workspaceId))) {
+      return new NextResponse("Workspace not found", { status: 404 });
+    }
+
+    await SocialService.getInstance().initialize();
+    const account = await connectPlatformSession(
+      session.user.id,
+      platform,
+      identifier,
+      password,
+      {
+        instanceUrl: instanceUrl || undefined,
+        workspaceId: workspaceId || undefined,
+      }
+    );
+
+    return NextResponse.json({
+      id: account.id,
+      platform: account.platform,
+      platformUsername: account.platformUsername,
+    });
+  } catch (error) {
+    if (error instanceof WorkspaceAccessError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+    // Connector errors carry the platform's status, e.g. 401 for a wrong password
+    const status = (error as { status?: number })?.status;
+    if (status && status >= 400 && status < 500) {
+      return new NextResponse((error as Error).message, { status });
+    }
+    console.error("[PLATFORM_SESSION]", error);
+    return new NextResponse("Internal error", { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { Platform } from "@prisma/client";
+import {
+  WebhookRequest,
+  getWebhookHandler,
+  ingestWebhookEvents,
+} from "@/lib/webhooks";
+
+function getHandler(platformParam: string) {
+  const platform = platformParam.toUpperCase() as Platform;
+  if (!Object.values(Platform).includes(platform)) {
+    return null;
+  }
+  return getWebhookHandler(platform) || null;
+}
+
+async function toWebhookRequest(req: Request): Promise<WebhookRequest> {
+  return {
+    method: req.method,
+    headers: req.headers,
+    query: new URL(req.url).searchParams,
+    // Signatures are computed over the exact bytes the platform sent
+    rawBody: req.method === "GET" ? "" : await req.text(),
+  };
+}
+
+function challengeResponse(challenge: string | Record<string, string>) {
+  if (typeof challenge === "string") {
+    return new NextResponse(challenge, {
+      status: 200,
+      headers: { "Content-Type": "text/plain" },
+    });
+  }
+  return NextResponse.json(challenge);
+}
+
+// Subscription verification handshakes (Meta hub.challenge, X CRC)
+export async function GET(
+  req: Request,
+  { params }: { params: { platform: string } }
+) {
+  try {
+    const handler = getHandler(params.platform);
+    if (!handler) {
+      return new NextResponse("Platform not found", { status: 404 });
+    }
+
+    const challenge = handler.handleChallenge?.(await toWebhookRequest(req));
+    if (challenge === null || challenge === undefined) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    return challengeResponse(challenge);
+  } catch (error) {
+    console.error("[WEBHOOK_CHALLENGE]", error);
+    return new NextResponse("Internal error", { status: 500 });
+  }
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: { platform: string } }
+) {
+  try {
+    const handler = getHandler(params.platform);
+    if (!handler) {
+      return new NextResponse("Platform not found", { status: 404 });
+    }
+
+    const webhookRequest = await toWebhookRequest(req);
+    if (!handler.verifySignature(webhookRequest)) {
+      return new NextResponse("Invalid signature", { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(webhookRequest.rawBody);
+    } catch {
+      return new NextResponse("Invalid payload", { status: 400 });
+    }
+
+    // Some platforms confirm subscriptions with a signed POST
+    const challenge = handler.handleChallenge?.(webhookRequest, body);
+    if (challenge !== null && challenge !== undefined) {
+      return challengeResponse(challenge);
+    }
+
+    const events = handler.parseEvents(body, webhookRequest);
+    const ingested = await ingestWebhookEvents(events);
+
+    return NextResponse.json({ received: events.length, ingested });
+  } catch (error) {
+    // A non-2xx response makes the platform redeliver the event
+    console.error("[WEBHOOK]", error);
+    return new NextResponse("Internal error", { status: 500 });
+  }
+}
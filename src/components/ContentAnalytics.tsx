@@ -1,4 +1,5 @@
-import React, { useEffect, useState } from 'react'
+import React, { useMemo, useState } from 'react'
+import { gql, useQuery } from '@apollo/client'
 import {
   Box,
   Typography,
@@ -11,6 +12,8 @@ import {
   ListItemText,
   ListItemIcon,
   Divider,
+  MenuItem,
+  TextField,
 } from '@mui/material'
 import {
   TrendingUp,
@@ -19,62 +22,100 @@ import {
   EmojiEvents,
   TrendingDown,
 } from '@mui/icons-material'
-import { ai } from '../lib/ai'
-import { useAuth } from '../hooks/useAuth'
+
+type Granularity = 'HOUR' | 'DAY' | 'WEEK'
+
+interface MetricCounts {
+  views: number
+  likes: number
+  comments: number
+  shares: number
+  engagement: number
+}
 
 interface AnalyticsData {
-  engagement: {
-    likes: number
-    comments: number
-    shares: number
-    views: number
-  }
-  audience: {
+  granularity: Granularity
+  totals: MetricCounts & {
     followers: number
-    activeUsers: number
-    peakHours: string[]
+    followerChange: number
   }
-  performance: {
-    topPosts: Array<{
-      id: string
-      title: string
-      engagement: number
-    }>
-    growth: number
+  buckets: Array<MetricCounts & { start: string }>
+  topPosts: Array<MetricCounts & {
+    postId: string
+    platform: string
+    content: string
+  }>
+}
+
+const GET_ANALYTICS = gql`
+  query GetAnalytics($input: AnalyticsQueryInput) {
+    analytics(input: $input) {
+      granularity
+      totals {
+        views
+        likes
+        comments
+        shares
+        engagement
+        followers
+        followerChange
+      }
+      buckets {
+        start
+        views
+        likes
+        comments
+        shares
+        engagement
+      }
+      topPosts {
+        postId
+        platform
+        content
+        views
+        likes
+        comments
+        shares
+        engagement
+      }
+    }
   }
-  recommendations: {
-    bestTimeToPost: string
-    contentSuggestions: string[]
-    audienceInsights: string[]
+`
+
+const RANGES = [
+  { label: 'Last 24 hours', days: 1, granularity: 'HOUR' as Granularity },
+  { label: 'Last 7 days', days: 7, granularity: 'DAY' as Granularity },
+  { label: 'Last 30 days', days: 30, granularity: 'DAY' as Granularity },
+  { label: 'Last 90 days', days: 90, granularity: 'WEEK' as Granularity },
+]
+
+function formatBucket(start: string, granularity: Granularity): string {
+  const date = new Date(start)
+  if (granularity === 'HOUR') {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
   }
+  return granularity === 'WEEK' ? `Week of ${date.toLocaleDateString()}` : date.toLocaleDateString()
 }
 
 export function ContentAnalytics() {
-  const { user } = useAuth()
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<Error | null>(null)
-  const [analytics, setAnalytics] = useState<AnalyticsData | null>(null)
-
-  useEffect(() => {
-    const loadAnalytics = async () => {
-      if (!user) return
+  const [rangeIndex, setRangeIndex] = useState(2)
+  const range = RANGES[rangeIndex]
+  // Fixed on mount so re-renders do not refetch with a moving range
+  const [to] = useState(() => new Date())
 
-      try {
-        setLoading(true)
-        setError(null)
+  const from = useMemo(() => new Date(to.getTime() - range.days * 24 * 60 * 60 * 1000), [to, range])
 
-        const data = await ai.getAnalytics(user.id)
-        setAnalytics(data)
-      } catch (error) {
-        console.error('Error loading analytics:', error)
-        setError(error instanceof Error ? error : new Error('Failed to load analytics'))
-      } finally {
-        setLoading(false)
-      }
-    }
+  const { data, loading, error } = useQuery<{ analytics: AnalyticsData }>(GET_ANALYTICS, {
+    variables: {
+      input: { from, to, granularity: range.granularity },
+    },
+  })
+  const analytics = data?.analytics
 
-    loadAnalytics()
-  }, [user])
+  // Growth of the follower count over the selected range
+  const growth = analytics && analytics.totals.followers - analytics.totals.followerChange > 0
+    ? (analytics.totals.followerChange / (analytics.totals.followers - analytics.totals.followerChange)) * 100
+    : 0
 
   if (error) {
     return (
@@ -102,9 +143,23 @@ export function ContentAnalytics() {
 
   return (
     <Box>
-      <Typography variant="h5" gutterBottom>
-        Content Analytics
-      </Typography>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Typography variant="h5">
+          Content Analytics
+        </Typography>
+        <TextField
+          select
+          size="small"
+          value={rangeIndex}
+          onChange={(event) => setRangeIndex(Number(event.target.value))}
+        >
+          {RANGES.map((option, index) => (
+            <MenuItem key={option.label} value={index}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
 
       <Grid container spacing={3}>
         {/* Engagement Metrics */}
@@ -120,7 +175,7 @@ export function ContentAnalytics() {
                 </ListItemIcon>
                 <ListItemText
                   primary="Total Views"
-                  secondary={analytics.engagement.views.toLocaleString()}
+                  secondary={analytics.totals.views.toLocaleString()}
                 />
               </ListItem>
               <ListItem>
@@ -129,7 +184,7 @@ export function ContentAnalytics() {
                 </ListItemIcon>
                 <ListItemText
                   primary="Likes"
-                  secondary={analytics.engagement.likes.toLocaleString()}
+                  secondary={analytics.totals.likes.toLocaleString()}
                 />
               </ListItem>
               <ListItem>
@@ -138,7 +193,7 @@ export function ContentAnalytics() {
                 </ListItemIcon>
                 <ListItemText
                   primary="Comments"
-                  secondary={analytics.engagement.comments.toLocaleString()}
+                  secondary={analytics.totals.comments.toLocaleString()}
                 />
               </ListItem>
               <ListItem>
@@ -147,7 +202,7 @@ export function ContentAnalytics() {
                 </ListItemIcon>
                 <ListItemText
                   primary="Shares"
-                  secondary={analytics.engagement.shares.toLocaleString()}
+                  secondary={analytics.totals.shares.toLocaleString()}
                 />
               </ListItem>
             </List>
@@ -167,25 +222,27 @@ export function ContentAnalytics() {
                 </ListItemIcon>
                 <ListItemText
                   primary="Followers"
-                  secondary={analytics.audience.followers.toLocaleString()}
+                  secondary={analytics.totals.followers.toLocaleString()}
                 />
               </ListItem>
               <ListItem>
                 <ListItemIcon>
-                  <Timer color="primary" />
+                  {analytics.totals.followerChange >= 0
+                    ? <TrendingUp color="success" />
+                    : <TrendingDown color="error" />}
                 </ListItemIcon>
                 <ListItemText
-                  primary="Active Users"
-                  secondary={analytics.audience.activeUsers.toLocaleString()}
+                  primary="Follower Change"
+                  secondary={`${analytics.totals.followerChange >= 0 ? '+' : ''}${analytics.totals.followerChange.toLocaleString()} (${growth.toFixed(1)}%)`}
                 />
               </ListItem>
               <ListItem>
                 <ListItemIcon>
-                  <TrendingUp color="primary" />
+                  <Timer color="primary" />
                 </ListItemIcon>
                 <ListItemText
-                  primary="Peak Hours"
-                  secondary={analytics.audience.peakHours.join(', ')}
+                  primary="Engagement Rate"
+                  secondary={`${(analytics.totals.engagement * 100).toFixed(1)}%`}
                 />
               </ListItem>
             </List>
@@ -199,26 +256,16 @@ export function ContentAnalytics() {
               Performance Analysis
             </Typography>
             <List>
-              <ListItem>
-                <ListItemIcon>
-                  <TrendingUp color={analytics.performance.growth >= 0 ? 'success' : 'error'} />
-                </ListItemIcon>
-                <ListItemText
-                  primary="Growth Rate"
-                  secondary={`${analytics.performance.growth.toFixed(1)}%`}
-                />
-              </ListItem>
-              <Divider />
               <ListItem>
                 <ListItemText
                   primary="Top Performing Posts"
                   secondary={
                     <List>
-                      {analytics.performance.topPosts.map((post) => (
-                        <ListItem key={post.id}>
+                      {analytics.topPosts.map((post) => (
+                        <ListItem key={post.postId}>
                           <ListItemText
-                            primary={post.title}
-                            secondary={`Engagement: ${post.engagement.toLocaleString()}`}
+                            primary={post.content.slice(0, 80)}
+                            secondary={`${post.platform} · Engagement: ${(post.likes + post.comments + post.shares).toLocaleString()}`}
                           />
                         </ListItem>
                       ))}
@@ -226,50 +273,18 @@ export function ContentAnalytics() {
                   }
                 />
               </ListItem>
-            </List>
-          </Paper>
-        </Grid>
-
-        {/* AI Recommendations */}
-        <Grid item xs={12}>
-          <Paper sx={{ p: 2 }}>
-            <Typography variant="h6" gutterBottom>
-              AI Recommendations
-            </Typography>
-            <List>
-              <ListItem>
-                <ListItemIcon>
-                  <Timer color="primary" />
-                </ListItemIcon>
-                <ListItemText
-                  primary="Best Time to Post"
-                  secondary={analytics.recommendations.bestTimeToPost}
-                />
-              </ListItem>
-              <Divider />
-              <ListItem>
-                <ListItemText
-                  primary="Content Suggestions"
-                  secondary={
-                    <List>
-                      {analytics.recommendations.contentSuggestions.map((suggestion, index) => (
-                        <ListItem key={index}>
-                          <ListItemText primary={suggestion} />
-                        </ListItem>
-                      ))}
-                    </List>
-                  }
-                />
-              </ListItem>
               <Divider />
               <ListItem>
                 <ListItemText
-                  primary="Audience Insights"
+                  primary="Activity"
                   secondary={
                     <List>
-                      {analytics.recommendations.audienceInsights.map((insight, index) => (
-                        <ListItem key={index}>
-                          <ListItemText primary={insight} />
+                      {analytics.buckets.map((bucket) => (
+                        <ListItem key={bucket.start}>
+                          <ListItemText
+                            primary={formatBucket(bucket.start, analytics.granularity)}
+                            secondary={`${bucket.views.toLocaleString()} views · ${bucket.likes.toLocaleString()} likes · ${bucket.comments.toLocaleString()} comments · ${bucket.shares.toLocaleString()} shares`}
+                          />
                         </ListItem>
                       ))}
                     </List>
@@ -282,4 +297,4 @@ export function ContentAnalytics() {
       </Grid>
     </Box>
   )
-} 
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
+import { gql, useQuery } from '@apollo/client'
 import {
   Box,
   Card,
@@ -14,6 +15,13 @@ import {
   Tabs,
   Tab,
   useTheme,
+  CircularProgress,
+  Alert,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
 } from '@mui/material'
 import {
   MonetizationOn,
@@ -21,6 +29,7 @@ import {
   ShoppingCart,
   TrendingUp,
   Settings,
+  Insights,
 } from '@mui/icons-material'
 import { useUser } from '../contexts/UserContext'
 import { monetization } from '../lib/monetization'
@@ -48,6 +57,243 @@ function TabPanel(props: TabPanelProps) {
   )
 }
 
+interface MetricDelta {
+  current: number | null
+  change: number | null
+  changeRate: number | null
+}
+
+interface DashboardMetrics {
+  impressions: number | null
+  reach: number | null
+  interactions: number
+  engagementRate: number | null
+  followerEngagementRate: number | null
+  followers: number
+}
+
+interface DashboardDeltas {
+  impressions: MetricDelta
+  reach: MetricDelta
+  interactions: MetricDelta
+  engagementRate: MetricDelta
+  followers: MetricDelta
+}
+
+interface AnalyticsDashboard {
+  metrics: DashboardMetrics
+  deltas: DashboardDeltas
+  platforms: Array<{
+    platform: string
+    accounts: number
+    metrics: DashboardMetrics
+    deltas: DashboardDeltas
+  }>
+  topPosts: Array<{
+    postId: string
+    platform: string
+    content: string
+    metrics: {
+      impressions: number | null
+      interactions: number
+      engagementRate: number | null
+    }
+  }>
+}
+
+const DELTA_FIELDS = `
+  current
+  change
+  changeRate
+`
+
+const METRIC_FIELDS = `
+  impressions
+  reach
+  interactions
+  engagementRate
+  followerEngagementRate
+  followers
+`
+
+const GET_ANALYTICS_DASHBOARD = gql`
+  query GetAnalyticsDashboard($input: AnalyticsDashboardInput) {
+    analyticsDashboard(input: $input) {
+      metrics { ${METRIC_FIELDS} }
+      deltas {
+        impressions { ${DELTA_FIELDS} }
+        reach { ${DELTA_FIELDS} }
+        interactions { ${DELTA_FIELDS} }
+        engagementRate { ${DELTA_FIELDS} }
+        followers { ${DELTA_FIELDS} }
+      }
+      platforms {
+        platform
+        accounts
+        metrics { ${METRIC_FIELDS} }
+        deltas {
+          interactions { ${DELTA_FIELDS} }
+          engagementRate { ${DELTA_FIELDS} }
+          followers { ${DELTA_FIELDS} }
+        }
+      }
+      topPosts {
+        postId
+        platform
+        content
+        metrics {
+          impressions
+          interactions
+          engagementRate
+        }
+      }
+    }
+  }
+`
+
+const SUBSCRIPTION_TIERS = [
+  { name: 'basic', price: 5, benefits: ['Basic content access'] },
+  { name: 'premium', price: 15, benefits: ['All basic benefits', 'Exclusive content'] },
+  { name: 'exclusive', price: 30, benefits: ['All premium benefits', 'Direct messaging'] },
+]
+
+const PERIODS = [
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 },
+]
+
+function formatCount(value: number | null): string {
+  return value === null ? '—' : value.toLocaleString()
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(2)}%`
+}
+
+function formatChange(delta?: MetricDelta): string {
+  if (!delta || delta.changeRate === null) return ''
+  return `${delta.changeRate >= 0 ? '+' : ''}${(delta.changeRate * 100).toFixed(1)}% vs previous period`
+}
+
+function PerformancePanel() {
+  const [period, setPeriod] = useState(PERIODS[1].days)
+  const [to] = useState(() => new Date())
+  const from = useMemo(() => new Date(to.getTime() - period * 24 * 60 * 60 * 1000), [to, period])
+  const { data, loading, error } = useQuery<{ analyticsDashboard: AnalyticsDashboard }>(
+    GET_ANALYTICS_DASHBOARD,
+    { variables: { input: { from, to } } }
+  )
+
+  if (error) {
+    return <Alert severity="error">{error.message}</Alert>
+  }
+  if (loading || !data) {
+    return (
+      <Box display="flex" justifyContent="center" p={4}>
+        <CircularProgress />
+      </Box>
+    )
+  }
+
+  const dashboard = data.analyticsDashboard
+  const summary = [
+    { label: 'Impressions', value: formatCount(dashboard.metrics.impressions), delta: dashboard.deltas.impressions },
+    { label: 'Reach', value: formatCount(dashboard.metrics.reach), delta: dashboard.deltas.reach },
+    { label: 'Interactions', value: formatCount(dashboard.metrics.interactions), delta: dashboard.deltas.interactions },
+    { label: 'Engagement Rate', value: formatRate(dashboard.metrics.engagementRate), delta: dashboard.deltas.engagementRate },
+    { label: 'Followers', value: formatCount(dashboard.metrics.followers), delta: dashboard.deltas.followers },
+  ]
+
+  return (
+    <Grid container spacing={3}>
+      <Grid item xs={12}>
+        <FormControl size="small">
+          <InputLabel>Period</InputLabel>
+          <Select
+            value={period}
+            label="Period"
+            onChange={e => setPeriod(Number(e.target.value))}
+          >
+            {PERIODS.map(option => (
+              <MenuItem key={option.days} value={option.days}>{option.label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Grid>
+
+      {summary.map(item => (
+        <Grid item xs={12} sm={6} md key={item.label}>
+          <Card sx={{ ...glassmorphismStyles }}>
+            <CardContent>
+              <Typography variant="body2" color="text.secondary">{item.label}</Typography>
+              <Typography variant="h5">{item.value}</Typography>
+              <Typography variant="caption" color="text.secondary">{formatChange(item.delta)}</Typography>
+            </CardContent>
+          </Card>
+        </Grid>
+      ))}
+
+      <Grid item xs={12}>
+        <Card sx={{ ...glassmorphismStyles }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>
+              Platform Comparison
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Platform</TableCell>
+                  <TableCell align="right">Impressions</TableCell>
+                  <TableCell align="right">Interactions</TableCell>
+                  <TableCell align="right">Engagement Rate</TableCell>
+                  <TableCell align="right">Per Follower</TableCell>
+                  <TableCell align="right">Followers</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {dashboard.platforms.map(row => (
+                  <TableRow key={row.platform}>
+                    <TableCell>{row.platform}</TableCell>
+                    <TableCell align="right">{formatCount(row.metrics.impressions)}</TableCell>
+                    <TableCell align="right">
+                      {formatCount(row.metrics.interactions)}
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        {formatChange(row.deltas.interactions)}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{formatRate(row.metrics.engagementRate)}</TableCell>
+                    <TableCell align="right">{formatRate(row.metrics.followerEngagementRate)}</TableCell>
+                    <TableCell align="right">{formatCount(row.metrics.followers)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </Grid>
+
+      <Grid item xs={12}>
+        <Card sx={{ ...glassmorphismStyles }}>
+          <CardContent>
+            <Typography variant="h6" gutterBottom>
+              Top Posts
+            </Typography>
+            {dashboard.topPosts.map(post => (
+              <Box key={post.postId} sx={{ mb: 2 }}>
+                <Typography variant="body1">{post.content.slice(0, 120)}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {post.platform} • {formatCount(post.metrics.interactions)} interactions • {formatRate(post.metrics.engagementRate)} engagement
+                </Typography>
+              </Box>
+            ))}
+          </CardContent>
+        </Card>
+      </Grid>
+    </Grid>
+  )
+}
+
 export function CreatorDashboard() {
   const theme = useTheme()
   const { user } = useUser()
@@ -58,11 +304,6 @@ export function CreatorDashboard() {
     contentRevenue: 0,
     adRevenue: 0,
   })
-  const [subscriptionTiers, setSubscriptionTiers] = useState([
-    { name: 'basic', price: 5, benefits: ['Basic content access'] },
-    { name: 'premium', price: 15, benefits: ['All basic benefits', 'Exclusive content'] },
-    { name: 'exclusive', price: 30, benefits: ['All premium benefits', 'Direct messaging'] },
-  ])
   const [newContent, setNewContent] = useState({
     title: '',
     description: '',
@@ -72,19 +313,18 @@ export function CreatorDashboard() {
   })
 
   useEffect(() => {
-    if (user) {
-      loadRevenue()
-    }
-  }, [user])
+    if (!user) return
 
-  const loadRevenue = async () => {
-    try {
-      const revenueData = await monetization.calculateCreatorRevenue(user!.id)
-      setRevenue(revenueData)
-    } catch (error) {
-      console.error('Error loading revenue:', error)
+    const loadRevenue = async () => {
+      try {
+        const revenueData = await monetization.calculateCreatorRevenue(user.id)
+        setRevenue(revenueData)
+      } catch (error) {
+        console.error('Error loading revenue:', error)
+      }
     }
-  }
+    loadRevenue()
+  }, [user])
 
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue)
@@ -196,12 +436,13 @@ export function CreatorDashboard() {
           <Tab icon={<Subscriptions />} label="Subscriptions" />
           <Tab icon={<ShoppingCart />} label="Exclusive Content" />
           <Tab icon={<Settings />} label="Settings" />
+          <Tab icon={<Insights />} label="Performance" />
         </Tabs>
       </Box>
 
       <TabPanel value={tabValue} index={0}>
         <Grid container spacing={3}>
-          {subscriptionTiers.map(tier => (
+          {SUBSCRIPTION_TIERS.map(tier => (
             <Grid item xs={12} md={4} key={tier.name}>
               <Card
                 sx={{
@@ -354,6 +595,10 @@ export function CreatorDashboard() {
           </CardContent>
         </Card>
       </TabPanel>
+
+      <TabPanel value={tabValue} index={3}>
+        <PerformancePanel />
+      </TabPanel>
     </Box>
   )
 } 
\ No newline at end of file
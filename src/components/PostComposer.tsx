@@ -0,0 +1,361 @@
+import React, { useDeferredValue, useMemo, useState } from 'react'
+import { gql, useMutation, useQuery } from '@apollo/client'
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Alert,
+  Button,
+  Checkbox,
+  Chip,
+  FormControlLabel,
+  FormGroup,
+  Stack,
+  Tab,
+  Tabs,
+  TextField,
+} from '@mui/material'
+
+type Severity = 'ERROR' | 'WARNING'
+
+interface ConnectedAccount {
+  id: string
+  platform: string
+  platformUsername: string | null
+}
+
+interface ContentIssue {
+  platform: string
+  field: string
+  severity: Severity
+  code: string
+  message: string
+}
+
+interface PostingSlot {
+  start: string
+}
+
+// Text and media a platform publishes instead of the master draft. Null
+// fields fall back to the master draft.
+interface Variant {
+  platform: string
+  content: string | null
+  mediaUrls: string[] | null
+}
+
+const GET_CONNECTED_ACCOUNTS = gql`
+  query GetConnectedAccounts($workspaceId: ID) {
+    connectedAccounts(workspaceId: $workspaceId) {
+      id
+      platform
+      platformUsername
+    }
+  }
+`
+
+const GET_CONTENT_ISSUES = gql`
+  query GetContentIssues($input: ContentCheckInput!) {
+    contentIssues(input: $input) {
+      platform
+      field
+      severity
+      code
+      message
+    }
+  }
+`
+
+const GET_SUGGESTED_POSTING_SLOTS = gql`
+  query GetSuggestedPostingSlots($input: PostingSlotsInput) {
+    suggestedPostingSlots(input: $input) {
+      start
+    }
+  }
+`
+
+const CREATE_CROSS_PLATFORM_POST = gql`
+  mutation CreateCrossPlatformPost($input: CreateCrossPlatformPostInput!) {
+    createCrossPlatformPost(input: $input) {
+      publishId
+      status
+    }
+  }
+`
+
+const SCHEDULE_POST = gql`
+  mutation SchedulePost($input: SchedulePostInput!) {
+    schedulePost(input: $input) {
+      id
+      scheduledAt
+    }
+  }
+`
+
+const SUGGESTED_SLOT_COUNT = 3
+
+// The value a datetime-local field takes, in the browser's time zone
+function toLocalInput(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000)
+  return local.toISOString().slice(0, 16)
+}
+
+// One URL per line
+function parseMediaUrls(text: string): string[] {
+  return text.split('\n').map((line) => line.trim()).filter(Boolean)
+}
+
+interface PostComposerProps {
+  workspaceId?: string
+  draftId?: string // the approved draft, for accounts with an approval chain
+  onDone?: () => void
+}
+
+/**
+ * One master draft and an optional variant of it per platform. The variants
+ * are checked against each platform's content rules while they are written,
+ * and nothing is sent while any of them has an error. The times the selected
+ * accounts' audiences engage most are offered for scheduling.
+ */
+export function PostComposer({ workspaceId, draftId, onDone }: PostComposerProps) {
+  const [content, setContent] = useState('')
+  const [media, setMedia] = useState('')
+  const [accountIds, setAccountIds] = useState<string[]>([])
+  const [variants, setVariants] = useState<Record<string, Variant>>({})
+  const [tab, setTab] = useState('MASTER')
+  const [scheduledAt, setScheduledAt] = useState('')
+  // Retried submits of the same post are published once
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID())
+
+  const { data: accountData, loading: accountsLoading } = useQuery<{ connectedAccounts: ConnectedAccount[] }>(
+    GET_CONNECTED_ACCOUNTS,
+    { variables: { workspaceId } }
+  )
+  const accounts = useMemo<ConnectedAccount[]>(() => accountData?.connectedAccounts ?? [], [accountData])
+
+  const platforms = useMemo(
+    () => Array.from(new Set<string>(
+      accounts.filter((account) => accountIds.includes(account.id)).map((account) => account.platform)
+    )),
+    [accounts, accountIds]
+  )
+
+  const input = {
+    content,
+    mediaUrls: parseMediaUrls(media),
+    // Only the variants of platforms the post goes to
+    variants: platforms.flatMap((platform) => (variants[platform] ? [variants[platform]] : [])),
+    platforms,
+  }
+  // Checked at low priority so typing stays responsive
+  const checkedInput = useDeferredValue(input)
+
+  const { data: issueData } = useQuery<{ contentIssues: ContentIssue[] }>(GET_CONTENT_ISSUES, {
+    variables: { input: checkedInput },
+    skip: platforms.length === 0,
+  })
+  const issues: ContentIssue[] = issueData?.contentIssues ?? []
+  const hasErrors = issues.some((issue) => issue.severity === 'ERROR')
+
+  const { data: slotData } = useQuery<{ suggestedPostingSlots: PostingSlot[] }>(GET_SUGGESTED_POSTING_SLOTS, {
+    variables: { input: { workspaceId, accountIds, count: SUGGESTED_SLOT_COUNT } },
+    skip: accountIds.length === 0,
+  })
+  const slots: PostingSlot[] = slotData?.suggestedPostingSlots ?? []
+
+  const [createPost, { loading: publishing, error: publishError }] = useMutation(CREATE_CROSS_PLATFORM_POST)
+  const [schedulePost, { loading: scheduling, error: scheduleError }] = useMutation(SCHEDULE_POST)
+  const submitError = publishError || scheduleError
+
+  const toggleAccount = (accountId: string) => {
+    setAccountIds((current) =>
+      current.includes(accountId) ? current.filter((id) => id !== accountId) : [...current, accountId]
+    )
+  }
+
+  const setVariant = (platform: string, changes: Partial<Variant>) => {
+    setVariants((current) => ({
+      ...current,
+      [platform]: { ...(current[platform] ?? { platform, content: null, mediaUrls: null }), ...changes },
+    }))
+  }
+
+  const resetVariant = (platform: string) => {
+    setVariants((current) => {
+      const next = { ...current }
+      delete next[platform]
+      return next
+    })
+  }
+
+  const reset = () => {
+    setContent('')
+    setMedia('')
+    setVariants({})
+    setScheduledAt('')
+    setTab('MASTER')
+    setIdempotencyKey(crypto.randomUUID())
+  }
+
+  const submit = async () => {
+    const post = { ...input, accountIds, workspaceId, draftId }
+    try {
+      if (scheduledAt) {
+        await schedulePost({ variables: { input: { ...post, scheduledAt: new Date(scheduledAt) } } })
+      } else {
+        await createPost({ variables: { input: { ...post, idempotencyKey } } })
+      }
+    } catch {
+      // Shown from the mutation's error
+      return
+    }
+    reset()
+    onDone?.()
+  }
+
+  if (accountsLoading) {
+    return (
+      <Box display="flex" justifyContent="center" p={4}>
+        <CircularProgress />
+      </Box>
+    )
+  }
+
+  if (accounts.length === 0) {
+    return (
+      <Alert severity="info">
+        Connect an account to start posting.
+      </Alert>
+    )
+  }
+
+  // A platform that was deselected falls back to the master tab
+  const activeTab = platforms.includes(tab) ? tab : 'MASTER'
+  const variant = activeTab === 'MASTER' ? null : variants[activeTab]
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="h6" gutterBottom>
+        New Post
+      </Typography>
+
+      <FormGroup row>
+        {accounts.map((account) => (
+          <FormControlLabel
+            key={account.id}
+            control={
+              <Checkbox
+                checked={accountIds.includes(account.id)}
+                onChange={() => toggleAccount(account.id)}
+              />
+            }
+            label={`${account.platform}${account.platformUsername ? ` @${account.platformUsername}` : ''}`}
+          />
+        ))}
+      </FormGroup>
+
+      <Tabs value={activeTab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+        <Tab label="All platforms" value="MASTER" />
+        {platforms.map((platform) => (
+          <Tab key={platform} label={variants[platform] ? `${platform} *` : platform} value={platform} />
+        ))}
+      </Tabs>
+
+      {activeTab === 'MASTER' ? (
+        <Stack spacing={2}>
+          <TextField
+            label="Post"
+            multiline
+            minRows={4}
+            value={content}
+            onChange={(event) => setContent(event.target.value)}
+          />
+          <TextField
+            label="Media URLs, one per line"
+            multiline
+            minRows={2}
+            value={media}
+            onChange={(event) => setMedia(event.target.value)}
+          />
+        </Stack>
+      ) : (
+        <Stack spacing={2}>
+          <TextField
+            label={`Post on ${activeTab}`}
+            multiline
+            minRows={4}
+            value={variant?.content ?? content}
+            onChange={(event) => setVariant(activeTab, { content: event.target.value })}
+          />
+          <TextField
+            label={`Media URLs on ${activeTab}, one per line`}
+            multiline
+            minRows={2}
+            value={variant?.mediaUrls ? variant.mediaUrls.join('\n') : media}
+            onChange={(event) => setVariant(activeTab, { mediaUrls: parseMediaUrls(event.target.value) })}
+          />
+          <Box>
+            <Button disabled={!variant} onClick={() => resetVariant(activeTab)}>
+              Use the post for all platforms
+            </Button>
+          </Box>
+        </Stack>
+      )}
+
+      <Stack spacing={1} mt={2}>
+        {issues.map((issue) => (
+          <Alert key={`${issue.platform}:${issue.code}:${issue.message}`} severity={issue.severity === 'ERROR' ? 'error' : 'warning'}>
+            {issue.platform}: {issue.message}
+          </Alert>
+        ))}
+        {submitError && (
+          <Alert severity="error">
+            {submitError.message}
+          </Alert>
+        )}
+      </Stack>
+
+      {slots.length > 0 && (
+        <Stack direction="row" spacing={1} alignItems="center" mt={2}>
+          <Typography variant="body2" color="text.secondary">
+            Best times:
+          </Typography>
+          {slots.map((slot) => {
+            const value = toLocalInput(new Date(slot.start))
+            return (
+              <Chip
+                key={slot.start}
+                label={new Date(slot.start).toLocaleString(undefined, {
+                  weekday: 'short',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}
+                color={scheduledAt === value ? 'primary' : 'default'}
+                onClick={() => setScheduledAt(value)}
+              />
+            )
+          })}
+        </Stack>
+      )}
+
+      <Box display="flex" justifyContent="space-between" alignItems="center" mt={2}>
+        <TextField
+          label="Schedule for"
+          type="datetime-local"
+          size="small"
+          value={scheduledAt}
+          onChange={(event) => setScheduledAt(event.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <Button
+          variant="contained"
+          disabled={platforms.length === 0 || hasErrors || publishing || scheduling}
+          onClick={submit}
+        >
+          {scheduledAt ? 'Schedule' : 'Publish now'}
+        </Button>
+      </Box>
+    </Paper>
+  )
+}
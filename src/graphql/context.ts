@@ -0,0 +1,8 @@
+// Passed to every resolver; `user` is only set for requests carrying a valid
+// bearer token
+export interface Context {
+  user?: {
+    id: string
+    email: string
+  }
+}
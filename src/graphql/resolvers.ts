@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client'
 import { withCache, withErrorHandling } from '../lib/mongodb'
 import { pubsub } from './pubsub'
+import { Context } from './context'
 import { GraphQLScalarType } from 'graphql'
 import { DateTimeResolver, JSONResolver } from 'graphql-scalars'
 
@@ -10,14 +11,6 @@ const prisma = new PrismaClient()
 const DateTime = DateTimeResolver
 const JSON = JSONResolver
 
-// Context type
-interface Context {
-  user?: {
-    id: string
-    email: string
-  }
-}
-
 // Query resolvers
 const Query = {
   me: async (_: any, __: any, context: Context) => {
@@ -0,0 +1,151 @@
+import { ReviewDecision } from '@prisma/client'
+import { Context } from '../context'
+import { readVariants } from '../../lib/platforms/content-rules'
+import {
+  ApprovalChainInput,
+  ApprovalWorkflow,
+  PostDraftFilter,
+  PostDraftInput
+} from '../../lib/social/approval-workflow'
+
+const approvalWorkflow = ApprovalWorkflow.getInstance()
+
+export const approvalsResolvers = {
+  Query: {
+    postDrafts: async (
+      _: any,
+      { filter }: { filter?: PostDraftFilter },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return approvalWorkflow.getDrafts(context.user.id, filter || {})
+    },
+
+    postDraft: async (
+      _: any,
+      { id }: { id: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return approvalWorkflow.getDraft(context.user.id, id)
+    },
+
+    approvalChains: async (
+      _: any,
+      { workspaceId }: { workspaceId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return approvalWorkflow.getApprovalChains(context.user.id, workspaceId)
+    }
+  },
+
+  Mutation: {
+    createPostDraft: async (
+      _: any,
+      { input }: { input: PostDraftInput },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return approvalWorkflow.createDraft(context.user.id, input)
+    },
+
+    updatePostDraft: async (
+      _: any,
+      { id, input }: { id: string; input: Partial<Omit<PostDraftInput, 'workspaceId'>> },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return approvalWorkflow.updateDraft(context.user.id, id, input)
+    },
+
+    submitPostDraft: async (
+      _: any,
+      { id }: { id: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return approvalWorkflow.submitDraft(context.user.id, id)
+    },
+
+    reviewPostDraft: async (
+      _: any,
+      { id, version, decision, comment }: {
+        id: string
+        version: number
+        decision: ReviewDecision
+        comment?: string
+      },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return approvalWorkflow.reviewDraft(context.user.id, id, version, decision, comment)
+    },
+
+    commentOnPostDraft: async (
+      _: any,
+      { id, content }: { id: string; content: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return approvalWorkflow.commentOnDraft(context.user.id, id, content)
+    },
+
+    deletePostDraft: async (
+      _: any,
+      { id }: { id: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return approvalWorkflow.deleteDraft(context.user.id, id)
+    },
+
+    setApprovalChain: async (
+      _: any,
+      { workspaceId, input }: { workspaceId: string; input: ApprovalChainInput },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return approvalWorkflow.setApprovalChain(context.user.id, workspaceId, input)
+    },
+
+    deleteApprovalChain: async (
+      _: any,
+      { chainId }: { chainId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return approvalWorkflow.deleteApprovalChain(context.user.id, chainId)
+    }
+  },
+
+  PostDraft: {
+    variants: (draft: { variants: unknown }) => readVariants(draft.variants)
+  },
+
+  PostDraftVersion: {
+    variants: (version: { variants: unknown }) => readVariants(version.variants)
+  }
+}
@@ -1,8 +1,40 @@
 import { CrossPlatformService } from '../../lib/social/cross-platform-service'
 import { Context } from '../context'
+import { env } from '../../lib/env'
 import { SocialPlatform } from '../../lib/social/types'
+import { UneditableStrategy } from '../../lib/platforms'
+import { getAnalyticsSeries } from '../../lib/platforms/analytics-store'
+import { PlatformVariant, readVariants } from '../../lib/platforms/content-rules'
+import { getAnalyticsDashboard } from '../../lib/platforms/dashboard'
+import { getEngagementHeatmap, suggestPostingSlots } from '../../lib/platforms/posting-times'
+import {
+  CalendarEntryInput,
+  CalendarSlotInput,
+  ContentCalendar,
+  ContentPlanInput
+} from '../../lib/social/content-calendar'
+import {
+  PostQueueInput,
+  PostQueueItemInput,
+  PostQueueService,
+  PostQueueSlotInput
+} from '../../lib/social/post-queues'
+import { InboxFilter, SocialInbox } from '../../lib/social/social-inbox'
+import {
+  ConversationAssignment,
+  ConversationFilter,
+  SlaPolicyInput,
+  TeamInbox
+} from '../../lib/social/team-inbox'
+import { AnalyticsGranularity, ConversationStatus } from '@prisma/client'
+
+const DEFAULT_ANALYTICS_RANGE = 30 * 24 * 60 * 60 * 1000
 
 const crossPlatformService = CrossPlatformService.getInstance()
+const contentCalendar = ContentCalendar.getInstance()
+const postQueueService = PostQueueService.getInstance()
+const socialInbox = SocialInbox.getInstance()
+const teamInbox = TeamInbox.getInstance()
 
 export const crossPlatformResolvers = {
   Query: {
@@ -14,7 +46,7 @@ export const crossPlatformResolvers = {
       if (!context.user) {
         throw new Error('Authentication required')
       }
-      return crossPlatformService.getCrossPlatformPost(id)
+      return crossPlatformService.getCrossPlatformPost(context.user.id, id)
     },
 
     crossPlatformComments: async (
@@ -41,13 +73,261 @@ export const crossPlatformResolvers = {
 
     scheduledPosts: async (
       _: any,
-      __: any,
+      { workspaceId }: { workspaceId?: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return crossPlatformService.getScheduledPosts(context.user.id, workspaceId)
+    },
+
+    crossPlatformPublish: async (
+      _: any,
+      { id }: { id: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return crossPlatformService.getPublish(context.user.id, id)
+    },
+
+    crossPostGroup: async (
+      _: any,
+      { groupId }: { groupId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return crossPlatformService.getCrossPostGroup(context.user.id, groupId)
+    },
+
+    contentIssues: async (
+      _: any,
+      { input }: {
+        input: {
+          content: string
+          mediaUrls?: string[]
+          variants?: PlatformVariant[]
+          platforms: SocialPlatform[]
+        }
+      },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return crossPlatformService.getContentIssues(input)
+    },
+
+    analytics: async (
+      _: any,
+      { input }: {
+        input?: {
+          workspaceId?: string
+          from?: Date
+          to?: Date
+          granularity?: AnalyticsGranularity
+          platforms?: SocialPlatform[]
+          accountIds?: string[]
+        }
+      },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      const { workspaceId, from, to = new Date(), granularity, platforms, accountIds } = input || {}
+      return getAnalyticsSeries(context.user.id, {
+        workspaceId,
+        from: from || new Date(to.getTime() - DEFAULT_ANALYTICS_RANGE),
+        to,
+        granularity: granularity || AnalyticsGranularity.DAY,
+        platforms,
+        accountIds
+      })
+    },
+
+    analyticsDashboard: async (
+      _: any,
+      { input }: {
+        input?: {
+          workspaceId?: string
+          from?: Date
+          to?: Date
+          platforms?: SocialPlatform[]
+          accountIds?: string[]
+          topPostCount?: number
+        }
+      },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      const { from, to = new Date(), ...filter } = input || {}
+      return getAnalyticsDashboard(context.user.id, {
+        from: from || new Date(to.getTime() - DEFAULT_ANALYTICS_RANGE),
+        to,
+        ...filter
+      })
+    },
+
+    engagementHeatmap: async (
+      _: any,
+      { accountId }: { accountId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return getEngagementHeatmap(context.user.id, accountId)
+    },
+
+    suggestedPostingSlots: async (
+      _: any,
+      { input }: {
+        input?: {
+          workspaceId?: string
+          platforms?: SocialPlatform[]
+          accountIds?: string[]
+          after?: Date
+          count?: number
+        }
+      },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return suggestPostingSlots(context.user.id, input || {})
+    },
+
+    calendar: async (
+      _: any,
+      { from, to, platforms, workspaceId }: {
+        from: Date
+        to: Date
+        platforms?: SocialPlatform[]
+        workspaceId?: string
+      },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return contentCalendar.getCalendar(context.user.id, from, to, platforms || [], workspaceId)
+    },
+
+    postQueues: async (
+      _: any,
+      { workspaceId }: { workspaceId?: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return postQueueService.getQueues(context.user.id, workspaceId)
+    },
+
+    postQueue: async (
+      _: any,
+      { id }: { id: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return postQueueService.getQueue(context.user.id, id)
+    },
+
+    upcomingQueuePosts: async (
+      _: any,
+      { queueId }: { queueId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return postQueueService.getUpcomingPosts(context.user.id, queueId)
+    },
+
+    inbox: async (
+      _: any,
+      { filter }: { filter?: InboxFilter },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return socialInbox.getInbox(context.user.id, filter || {})
+    },
+
+    inboxThread: async (
+      _: any,
+      { itemId }: { itemId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return socialInbox.getThread(context.user.id, itemId)
+    },
+
+    conversations: async (
+      _: any,
+      { filter }: { filter?: ConversationFilter },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.getConversations(context.user.id, filter || {})
+    },
+
+    conversation: async (
+      _: any,
+      { id }: { id: string },
       context: Context
     ) => {
       if (!context.user) {
         throw new Error('Authentication required')
       }
-      return crossPlatformService.getScheduledPosts(context.user.id)
+      return teamInbox.getConversation(context.user.id, id)
+    },
+
+    supportAgents: async (_: any, __: any, context: Context) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.getAgents(context.user.id)
+    },
+
+    supportQueues: async (_: any, __: any, context: Context) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.getQueues(context.user.id)
+    },
+
+    supportSlaPolicy: async (_: any, __: any, context: Context) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.getSlaPolicy(context.user.id)
+    },
+
+    teamInboxReport: async (
+      _: any,
+      { from, to }: { from: Date; to?: Date },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.getReport(context.user.id, new Date(from), to ? new Date(to) : new Date())
     }
   },
 
@@ -58,8 +338,13 @@ export const crossPlatformResolvers = {
         input: {
           content: string
           mediaUrls?: string[]
+          variants?: PlatformVariant[]
           platforms: SocialPlatform[]
+          accountIds?: string[]
+          workspaceId?: string
           scheduledAt?: Date
+          idempotencyKey?: string
+          draftId?: string
           metadata?: Record<string, any>
         }
       },
@@ -71,14 +356,61 @@ export const crossPlatformResolvers = {
       return crossPlatformService.createCrossPlatformPost(context.user.id, input)
     },
 
+    retryFailedPublishTargets: async (
+      _: any,
+      { publishId }: { publishId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return crossPlatformService.retryFailedTargets(context.user.id, publishId)
+    },
+
+    editCrossPostGroup: async (
+      _: any,
+      { groupId, input }: {
+        groupId: string
+        input: {
+          content: string
+          mediaUrls?: string[]
+          metadata?: Record<string, any>
+          uneditable?: UneditableStrategy
+        }
+      },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      const { uneditable, ...edit } = input
+      return crossPlatformService.editCrossPostGroup(context.user.id, groupId, edit, uneditable)
+    },
+
+    deleteCrossPostGroup: async (
+      _: any,
+      { groupId }: { groupId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return crossPlatformService.deleteCrossPostGroup(context.user.id, groupId)
+    },
+
     schedulePost: async (
       _: any,
       { input }: {
         input: {
           content: string
           mediaUrls?: string[]
+          variants?: PlatformVariant[]
           platforms: SocialPlatform[]
-          scheduledAt: Date
+          accountIds?: string[]
+          workspaceId?: string
+          scheduledAt?: Date
+          autoSchedule?: boolean
+          draftId?: string
           metadata?: Record<string, any>
         }
       },
@@ -101,6 +433,429 @@ export const crossPlatformResolvers = {
       return crossPlatformService.cancelScheduledPost(context.user.id, postId)
     },
 
+    reschedulePost: async (
+      _: any,
+      { postId, scheduledAt }: { postId: string; scheduledAt: Date },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return crossPlatformService.rescheduleScheduledPost(context.user.id, postId, scheduledAt)
+    },
+
+    createCalendarEntry: async (
+      _: any,
+      { input }: { input: CalendarEntryInput },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return contentCalendar.createEntry(context.user.id, input)
+    },
+
+    updateCalendarEntry: async (
+      _: any,
+      { entryId, input }: {
+        entryId: string
+        input: Partial<Omit<CalendarEntryInput, 'plannedAt' | 'slotId'>>
+      },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return contentCalendar.updateEntry(context.user.id, entryId, input)
+    },
+
+    moveCalendarEntry: async (
+      _: any,
+      { entryId, plannedAt }: { entryId: string; plannedAt: Date },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return contentCalendar.moveEntry(context.user.id, entryId, plannedAt)
+    },
+
+    scheduleCalendarEntry: async (
+      _: any,
+      { entryId }: { entryId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return contentCalendar.scheduleEntry(context.user.id, entryId)
+    },
+
+    unscheduleCalendarEntry: async (
+      _: any,
+      { entryId }: { entryId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return contentCalendar.unscheduleEntry(context.user.id, entryId)
+    },
+
+    deleteCalendarEntry: async (
+      _: any,
+      { entryId }: { entryId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return contentCalendar.deleteEntry(context.user.id, entryId)
+    },
+
+    importContentPlan: async (
+      _: any,
+      { input }: { input: ContentPlanInput },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return contentCalendar.importContentPlan(context.user.id, input)
+    },
+
+    createCalendarSlot: async (
+      _: any,
+      { input }: { input: CalendarSlotInput },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return contentCalendar.createSlot(context.user.id, input)
+    },
+
+    updateCalendarSlot: async (
+      _: any,
+      { slotId, input }: {
+        slotId: string
+        input: Partial<Omit<CalendarSlotInput, 'workspaceId'>> & { active?: boolean }
+      },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return contentCalendar.updateSlot(context.user.id, slotId, input)
+    },
+
+    deleteCalendarSlot: async (
+      _: any,
+      { slotId }: { slotId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return contentCalendar.deleteSlot(context.user.id, slotId)
+    },
+
+    rotateCalendarFeed: async (_: any, __: any, context: Context) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      const token = await contentCalendar.rotateFeedToken(context.user.id)
+      return {
+        url: `${env.NEXT_PUBLIC_APP_URL}/api/calendar/feed/${token}.ics`
+      }
+    },
+
+    createPostQueue: async (
+      _: any,
+      { input }: { input: PostQueueInput },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return postQueueService.createQueue(context.user.id, input)
+    },
+
+    updatePostQueue: async (
+      _: any,
+      { queueId, input }: {
+        queueId: string
+        input: Partial<Omit<PostQueueInput, 'workspaceId'>>
+      },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return postQueueService.updateQueue(context.user.id, queueId, input)
+    },
+
+    deletePostQueue: async (
+      _: any,
+      { queueId }: { queueId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return postQueueService.deleteQueue(context.user.id, queueId)
+    },
+
+    pausePostQueue: async (
+      _: any,
+      { queueId }: { queueId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return postQueueService.pauseQueue(context.user.id, queueId)
+    },
+
+    resumePostQueue: async (
+      _: any,
+      { queueId }: { queueId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return postQueueService.resumeQueue(context.user.id, queueId)
+    },
+
+    addPostQueueSlot: async (
+      _: any,
+      { queueId, input }: { queueId: string; input: PostQueueSlotInput },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return postQueueService.addSlot(context.user.id, queueId, input)
+    },
+
+    removePostQueueSlot: async (
+      _: any,
+      { slotId }: { slotId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return postQueueService.removeSlot(context.user.id, slotId)
+    },
+
+    addPostQueueItem: async (
+      _: any,
+      { queueId, input }: { queueId: string; input: PostQueueItemInput },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return postQueueService.addItem(context.user.id, queueId, input)
+    },
+
+    updatePostQueueItem: async (
+      _: any,
+      { itemId, input }: {
+        itemId: string
+        input: Partial<PostQueueItemInput> & { active?: boolean }
+      },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return postQueueService.updateItem(context.user.id, itemId, input)
+    },
+
+    removePostQueueItem: async (
+      _: any,
+      { itemId }: { itemId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return postQueueService.removeItem(context.user.id, itemId)
+    },
+
+    markInboxItemsRead: async (
+      _: any,
+      { itemIds, read }: { itemIds: string[]; read?: boolean },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return socialInbox.markRead(context.user.id, itemIds, read ?? true)
+    },
+
+    markInboxItemsDone: async (
+      _: any,
+      { itemIds, done }: { itemIds: string[]; done?: boolean },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return socialInbox.markDone(context.user.id, itemIds, done ?? true)
+    },
+
+    replyToInboxItem: async (
+      _: any,
+      { itemId, content }: { itemId: string; content: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return socialInbox.reply(context.user.id, itemId, content)
+    },
+
+    assignConversation: async (
+      _: any,
+      { conversationId, input }: { conversationId: string; input: ConversationAssignment },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.assign(context.user.id, conversationId, input)
+    },
+
+    setConversationStatus: async (
+      _: any,
+      { conversationId, status }: { conversationId: string; status: ConversationStatus },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.setStatus(context.user.id, conversationId, status)
+    },
+
+    addConversationNote: async (
+      _: any,
+      { conversationId, content }: { conversationId: string; content: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.addNote(context.user.id, conversationId, content)
+    },
+
+    startConversationReply: async (
+      _: any,
+      { conversationId }: { conversationId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.startReply(context.user.id, conversationId)
+    },
+
+    stopConversationReply: async (
+      _: any,
+      { conversationId }: { conversationId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.stopReply(context.user.id, conversationId)
+    },
+
+    replyToConversation: async (
+      _: any,
+      { conversationId, content, expectedVersion, status }: {
+        conversationId: string
+        content: string
+        expectedVersion: number
+        status?: ConversationStatus
+      },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.reply(context.user.id, conversationId, content, expectedVersion, status)
+    },
+
+    addSupportAgent: async (
+      _: any,
+      { agentId }: { agentId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.addAgent(context.user.id, agentId)
+    },
+
+    removeSupportAgent: async (
+      _: any,
+      { agentId }: { agentId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.removeAgent(context.user.id, agentId)
+    },
+
+    createSupportQueue: async (
+      _: any,
+      { input }: { input: { name: string; agentIds?: string[] } },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.createQueue(context.user.id, input.name, input.agentIds)
+    },
+
+    updateSupportQueue: async (
+      _: any,
+      { queueId, input }: { queueId: string; input: { name?: string; agentIds?: string[] } },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.updateQueue(context.user.id, queueId, input)
+    },
+
+    deleteSupportQueue: async (
+      _: any,
+      { queueId }: { queueId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.deleteQueue(context.user.id, queueId)
+    },
+
+    updateSupportSlaPolicy: async (
+      _: any,
+      { input }: { input: SlaPolicyInput },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return teamInbox.updateSlaPolicy(context.user.id, input)
+    },
+
     syncComments: async (
       _: any,
       { postId, platform }: { postId: string; platform: SocialPlatform },
@@ -124,11 +879,24 @@ export const crossPlatformResolvers = {
     }
   },
 
+  CrossPlatformPost: {
+    // Copies are grouped by the publish that created them
+    groupId: (post: { publishId: string | null }) => post.publishId
+  },
+
+  CrossPlatformPublish: {
+    variants: (publish: { variants: unknown }) => readVariants(publish.variants)
+  },
+
+  ScheduledPost: {
+    variants: (post: { variants: unknown }) => readVariants(post.variants)
+  },
+
   Subscription: {
     crossPlatformPostUpdate: {
       subscribe: (
         _: any,
-        { postId }: { postId: string },
+        __: { postId: string },
         context: Context
       ) => {
         if (!context.user) {
@@ -155,7 +923,7 @@ export const crossPlatformResolvers = {
     crossPlatformCommentUpdate: {
       subscribe: (
         _: any,
-        { postId }: { postId: string },
+        __: { postId: string },
         context: Context
       ) => {
         if (!context.user) {
@@ -182,7 +950,7 @@ export const crossPlatformResolvers = {
     crossPlatformReactionUpdate: {
       subscribe: (
         _: any,
-        { postId }: { postId: string },
+        __: { postId: string },
         context: Context
       ) => {
         if (!context.user) {
@@ -8,13 +8,13 @@ export const socialResolvers = {
   Query: {
     socialAuthUrl: async (
       _: any,
-      { platform }: { platform: SocialPlatform },
+      { platform, instanceUrl }: { platform: SocialPlatform; instanceUrl?: string },
       context: Context
     ) => {
       if (!context.user) {
         throw new Error('Authentication required')
       }
-      return socialService.getAuthUrl(platform)
+      return socialService.getAuthUrl(platform, instanceUrl)
     },
 
     socialProfile: async (
@@ -25,7 +25,7 @@ export const socialResolvers = {
       if (!context.user) {
         throw new Error('Authentication required')
       }
-      return socialService.getProfile(platform, userId)
+      return socialService.getProfile(context.user.id, platform, userId)
     },
 
     socialPosts: async (
@@ -40,7 +40,7 @@ export const socialResolvers = {
       if (!context.user) {
         throw new Error('Authentication required')
       }
-      return socialService.getPosts(platform, userId, limit)
+      return socialService.getPosts(context.user.id, platform, userId, limit)
     },
 
     socialStats: async (
@@ -51,7 +51,7 @@ export const socialResolvers = {
       if (!context.user) {
         throw new Error('Authentication required')
       }
-      return socialService.getStats(platform, userId)
+      return socialService.getStats(context.user.id, platform, userId)
     },
 
     socialComments: async (
@@ -74,35 +74,61 @@ export const socialResolvers = {
   Mutation: {
     socialAuthCallback: async (
       _: any,
-      { platform, code }: { platform: SocialPlatform; code: string },
+      {
+        platform,
+        code,
+        instanceUrl
+      }: { platform: SocialPlatform; code: string; instanceUrl?: string },
       context: Context
     ) => {
       if (!context.user) {
         throw new Error('Authentication required')
       }
-      return socialService.handleAuthCallback(platform, code)
+      return socialService.handleAuthCallback(context.user.id, platform, code, instanceUrl)
+    },
+
+    socialCreateSession: async (
+      _: any,
+      {
+        platform,
+        identifier,
+        password,
+        instanceUrl
+      }: { platform: SocialPlatform; identifier: string; password: string; instanceUrl?: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return socialService.createSession(
+        context.user.id,
+        platform,
+        identifier,
+        password,
+        instanceUrl
+      )
     },
 
     socialRefreshToken: async (
       _: any,
-      { platform }: { platform: SocialPlatform },
+      { platform, userId }: { platform: SocialPlatform; userId: string },
       context: Context
     ) => {
       if (!context.user) {
         throw new Error('Authentication required')
       }
-      return socialService.refreshToken(platform)
+      return socialService.refreshToken(context.user.id, platform, userId)
     },
 
     socialRevokeToken: async (
       _: any,
-      { platform }: { platform: SocialPlatform },
+      { platform, userId }: { platform: SocialPlatform; userId: string },
       context: Context
     ) => {
       if (!context.user) {
         throw new Error('Authentication required')
       }
-      await socialService.revokeToken(platform)
+      await socialService.revokeToken(context.user.id, platform, userId)
       return true
     },
 
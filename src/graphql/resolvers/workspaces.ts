@@ -0,0 +1,195 @@
+import { Platform, WorkspaceRole } from '@prisma/client'
+import { Context } from '../context'
+import { disconnectAccount, getAccounts } from '../../lib/platforms'
+import {
+  InvitationInput,
+  MemberAccessInput,
+  acceptInvitation,
+  createWorkspace,
+  deleteWorkspace,
+  getInvitationUrl,
+  getInvitations,
+  getWorkspace,
+  getWorkspaces,
+  inviteMember,
+  moveAccount,
+  removeMember,
+  renameWorkspace,
+  revokeInvitation,
+  setMemberAccess,
+  updateMemberRole
+} from '../../lib/workspaces'
+
+export const workspacesResolvers = {
+  Query: {
+    workspaces: async (_: any, __: any, context: Context) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return getWorkspaces(context.user.id)
+    },
+
+    workspace: async (
+      _: any,
+      { id }: { id: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return getWorkspace(context.user.id, id)
+    },
+
+    workspaceInvitations: async (
+      _: any,
+      { workspaceId }: { workspaceId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return getInvitations(context.user.id, workspaceId)
+    },
+
+    connectedAccounts: async (
+      _: any,
+      { workspaceId, platform }: { workspaceId?: string; platform?: Platform },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return getAccounts(context.user.id, platform, workspaceId)
+    }
+  },
+
+  Mutation: {
+    createWorkspace: async (
+      _: any,
+      { name }: { name: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      const workspace = await createWorkspace(context.user.id, name)
+      return { ...workspace, role: WorkspaceRole.OWNER }
+    },
+
+    renameWorkspace: async (
+      _: any,
+      { workspaceId, name }: { workspaceId: string; name: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return renameWorkspace(context.user.id, workspaceId, name)
+    },
+
+    deleteWorkspace: async (
+      _: any,
+      { workspaceId }: { workspaceId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return deleteWorkspace(context.user.id, workspaceId)
+    },
+
+    inviteWorkspaceMember: async (
+      _: any,
+      { workspaceId, input }: { workspaceId: string; input: InvitationInput },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      const { invitation, token } = await inviteMember(context.user.id, workspaceId, input)
+      return { invitation, url: getInvitationUrl(token) }
+    },
+
+    revokeWorkspaceInvitation: async (
+      _: any,
+      { invitationId }: { invitationId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return revokeInvitation(context.user.id, invitationId)
+    },
+
+    acceptWorkspaceInvitation: async (
+      _: any,
+      { token }: { token: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return acceptInvitation(context.user.id, token)
+    },
+
+    updateWorkspaceMemberRole: async (
+      _: any,
+      { workspaceId, userId, role }: { workspaceId: string; userId: string; role: WorkspaceRole },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return updateMemberRole(context.user.id, workspaceId, userId, role)
+    },
+
+    setWorkspaceMemberAccess: async (
+      _: any,
+      { workspaceId, userId, input }: {
+        workspaceId: string
+        userId: string
+        input: MemberAccessInput
+      },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return setMemberAccess(context.user.id, workspaceId, userId, input)
+    },
+
+    removeWorkspaceMember: async (
+      _: any,
+      { workspaceId, userId }: { workspaceId: string; userId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return removeMember(context.user.id, workspaceId, userId)
+    },
+
+    moveAccountToWorkspace: async (
+      _: any,
+      { accountId, workspaceId }: { accountId: string; workspaceId?: string | null },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      return moveAccount(context.user.id, accountId, workspaceId || null)
+    },
+
+    disconnectAccount: async (
+      _: any,
+      { accountId }: { accountId: string },
+      context: Context
+    ) => {
+      if (!context.user) {
+        throw new Error('Authentication required')
+      }
+      await disconnectAccount(context.user.id, accountId)
+      return true
+    }
+  }
+}
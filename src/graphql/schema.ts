@@ -98,12 +98,50 @@ export const typeDefs = gql`
   type Notification {
     id: ID!
     type: String!
+    title: String!
+    message: String!
     data: JSON!
     read: Boolean!
     createdAt: DateTime!
     user: User!
   }
 
+  # Connections
+  type PageInfo {
+    hasNextPage: Boolean!
+    endCursor: String
+  }
+
+  type UserEdge {
+    cursor: String!
+    node: User!
+  }
+
+  type UserConnection {
+    edges: [UserEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type PostEdge {
+    cursor: String!
+    node: Post!
+  }
+
+  type PostConnection {
+    edges: [PostEdge!]!
+    pageInfo: PageInfo!
+  }
+
+  type NotificationEdge {
+    cursor: String!
+    node: Notification!
+  }
+
+  type NotificationConnection {
+    edges: [NotificationEdge!]!
+    pageInfo: PageInfo!
+  }
+
   # Input Types
   input CreateUserInput {
     email: String!
@@ -7,7 +7,7 @@ export const aiTypeDefs = `
     finalScore: Float!
   }
 
-  type InteractionContext {
+  input InteractionContext {
     timeOfDay: Int!
     dayOfWeek: Int!
     deviceType: String!
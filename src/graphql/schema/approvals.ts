@@ -0,0 +1,137 @@
+export const approvalsTypeDefs = `
+  enum PostDraftStatus {
+    DRAFT
+    IN_REVIEW
+    CHANGES_REQUESTED
+    APPROVED
+    REJECTED
+    PUBLISHED
+  }
+
+  enum ReviewDecision {
+    APPROVED
+    CHANGES_REQUESTED
+    REJECTED
+  }
+
+  type PostDraft {
+    id: ID!
+    userId: ID!
+    workspaceId: ID
+    content: String!
+    mediaUrls: [String!]!
+    variants: [PlatformVariant!]!
+    platforms: [SocialPlatform!]!
+    accountIds: [ID!]!
+    metadata: JSON
+    status: PostDraftStatus!
+    version: Int!
+    steps: JSON
+    currentStep: Int!
+    submittedAt: DateTime
+    decidedAt: DateTime
+    publishedAt: DateTime
+    scheduledPostId: ID
+    publishId: ID
+    postIds: [ID!]!
+    versions: [PostDraftVersion!]
+    comments: [PostDraftComment!]
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type PostDraftVersion {
+    id: ID!
+    version: Int!
+    content: String!
+    mediaUrls: [String!]!
+    variants: [PlatformVariant!]!
+    platforms: [SocialPlatform!]!
+    accountIds: [ID!]!
+    metadata: JSON
+    editedById: ID!
+    createdAt: DateTime!
+  }
+
+  type PostDraftComment {
+    id: ID!
+    draftId: ID!
+    version: Int!
+    authorId: ID!
+    content: String
+    decision: ReviewDecision
+    step: Int
+    createdAt: DateTime!
+  }
+
+  type ApprovalChain {
+    id: ID!
+    workspaceId: ID!
+    accountId: ID
+    exemptRole: WorkspaceRole
+    createdById: ID!
+    steps: [ApprovalStep!]!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type ApprovalStep {
+    id: ID!
+    position: Int!
+    name: String
+    reviewerIds: [ID!]!
+    minRole: WorkspaceRole
+  }
+
+  input PostDraftInput {
+    workspaceId: ID
+    content: String!
+    mediaUrls: [String!]
+    variants: [PlatformVariantInput!]
+    accountIds: [ID!]!
+    metadata: JSON
+  }
+
+  input UpdatePostDraftInput {
+    content: String
+    mediaUrls: [String!]
+    variants: [PlatformVariantInput!]
+    accountIds: [ID!]
+    metadata: JSON
+  }
+
+  input PostDraftFilterInput {
+    workspaceId: ID
+    statuses: [PostDraftStatus!]
+    awaitingReview: Boolean
+  }
+
+  input ApprovalStepInput {
+    name: String
+    reviewerIds: [ID!]
+    minRole: WorkspaceRole
+  }
+
+  input ApprovalChainInput {
+    accountId: ID
+    exemptRole: WorkspaceRole
+    steps: [ApprovalStepInput!]!
+  }
+
+  extend type Query {
+    postDrafts(filter: PostDraftFilterInput): [PostDraft!]!
+    postDraft(id: ID!): PostDraft!
+    approvalChains(workspaceId: ID!): [ApprovalChain!]!
+  }
+
+  extend type Mutation {
+    createPostDraft(input: PostDraftInput!): PostDraft!
+    updatePostDraft(id: ID!, input: UpdatePostDraftInput!): PostDraft!
+    submitPostDraft(id: ID!): PostDraft!
+    reviewPostDraft(id: ID!, version: Int!, decision: ReviewDecision!, comment: String): PostDraft!
+    commentOnPostDraft(id: ID!, content: String!): PostDraftComment!
+    deletePostDraft(id: ID!): Boolean!
+    setApprovalChain(workspaceId: ID!, input: ApprovalChainInput!): ApprovalChain!
+    deleteApprovalChain(chainId: ID!): Boolean!
+  }
+`
@@ -2,32 +2,135 @@ export const crossPlatformTypeDefs = `
   type CrossPlatformPost {
     id: ID!
     userId: ID!
+    workspaceId: ID
     platform: SocialPlatform!
+    accountId: ID
     postId: ID!
+    threadPostIds: [ID!]!
+    groupId: ID
     content: String!
     mediaUrls: [String!]!
     scheduledAt: DateTime
     metadata: JSON
+    status: CrossPostStatus!
+    lastError: String
+    editedAt: DateTime
+    deletedAt: DateTime
     createdAt: DateTime!
     updatedAt: DateTime!
   }
 
+  enum CrossPostStatus {
+    LIVE
+    OUTDATED
+    DELETED
+  }
+
+  enum CrossPostGroupStatus {
+    LIVE
+    PARTIALLY_OUTDATED
+    PARTIALLY_DELETED
+    DELETED
+  }
+
+  type CrossPostGroup {
+    groupId: ID!
+    content: String!
+    mediaUrls: [String!]!
+    status: CrossPostGroupStatus!
+    copies: [CrossPlatformPost!]!
+  }
+
+  enum CopyOutcomeStatus {
+    UPDATED
+    REPOSTED
+    NOT_EDITABLE
+    DELETED
+    FAILED
+  }
+
+  type CrossPostCopyOutcome {
+    platform: SocialPlatform!
+    accountId: ID
+    postId: ID!
+    status: CopyOutcomeStatus!
+    newPostId: ID
+    error: String
+  }
+
+  type CrossPostChangeResult {
+    group: CrossPostGroup!
+    outcomes: [CrossPostCopyOutcome!]!
+  }
+
+  enum UneditableStrategy {
+    SKIP
+    REPOST
+  }
+
   type CrossPlatformComment {
     id: ID!
     userId: ID!
     platform: SocialPlatform!
+    accountId: ID
+    kind: InboxItemKind!
     postId: ID!
     commentId: ID!
+    parentCommentId: ID
+    authorId: String
+    authorUsername: String
+    url: String
+    isOwn: Boolean!
     content: String!
     createdAt: DateTime!
     likesCount: Int
     repliesCount: Int
     isLiked: Boolean
+    sentiment: CommentSentiment
+    readAt: DateTime
+    doneAt: DateTime
+    repliedAt: DateTime
     metadata: JSON
-    createdAt: DateTime!
     updatedAt: DateTime!
   }
 
+  enum InboxItemKind {
+    COMMENT
+    REPLY
+    MENTION
+  }
+
+  enum CommentSentiment {
+    POSITIVE
+    NEUTRAL
+    NEGATIVE
+  }
+
+  enum InboxStatus {
+    UNREAD
+    OPEN
+    DONE
+    ALL
+  }
+
+  type InboxPage {
+    items: [CrossPlatformComment!]!
+    nextCursor: ID
+    unreadCount: Int!
+  }
+
+  type InboxThreadPost {
+    platform: SocialPlatform!
+    postId: ID!
+    content: String
+  }
+
+  type InboxThread {
+    item: CrossPlatformComment!
+    post: InboxThreadPost!
+    comments: [CrossPlatformComment!]!
+  }
+
   type CrossPlatformReaction {
     id: ID!
     userId: ID!
@@ -51,45 +154,810 @@ export const crossPlatformTypeDefs = `
     isLiked: Boolean!
   }
 
+  # A platform's own text or media; fields left out come from the master draft
+  type PlatformVariant {
+    platform: SocialPlatform!
+    content: String
+    mediaUrls: [String!]
+  }
+
+  enum ContentIssueSeverity {
+    ERROR
+    WARNING
+  }
+
+  type ContentIssue {
+    platform: SocialPlatform!
+    field: String!
+    severity: ContentIssueSeverity!
+    code: String!
+    message: String!
+  }
+
   type ScheduledPost {
     id: ID!
     userId: ID!
+    workspaceId: ID
     content: String!
     mediaUrls: [String!]!
+    variants: [PlatformVariant!]!
     platforms: [SocialPlatform!]!
+    accountIds: [ID!]!
     scheduledAt: DateTime!
     metadata: JSON
+    status: ScheduledPostStatus!
+    attempts: Int!
+    nextAttemptAt: DateTime!
+    publishId: ID
+    publish: CrossPlatformPublish
+    lastError: String
+    publishedAt: DateTime
+    cancelledAt: DateTime
+    queueItemId: ID
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  enum ScheduledPostStatus {
+    PENDING
+    CLAIMED
+    PUBLISHED
+    PARTIALLY_PUBLISHED
+    FAILED
+    CANCELLED
+  }
+
+  enum PublishAttemptStatus {
+    PENDING
+    IN_PROGRESS
+    SUCCEEDED
+    FAILED
+  }
+
+  enum PublishStatus {
+    IN_PROGRESS
+    SUCCEEDED
+    PARTIALLY_FAILED
+    FAILED
+  }
+
+  type PublishAttempt {
+    id: ID!
+    platform: SocialPlatform!
+    accountId: ID!
+    status: PublishAttemptStatus!
+    attemptCount: Int!
+    platformPostId: ID
+    errorCode: String
+    errorMessage: String
+    lastAttemptAt: DateTime
+  }
+
+  type CrossPlatformPublish {
+    id: ID!
+    userId: ID!
+    workspaceId: ID
+    content: String!
+    mediaUrls: [String!]!
+    variants: [PlatformVariant!]!
+    platforms: [SocialPlatform!]!
+    accountIds: [ID!]!
+    metadata: JSON
+    attempts: [PublishAttempt!]!
     createdAt: DateTime!
     updatedAt: DateTime!
   }
 
+  type CrossPlatformPublishResult {
+    publishId: ID!
+    status: PublishStatus!
+    posts: [SocialMediaPost!]!
+    attempts: [PublishAttempt!]!
+  }
+
+  enum AnalyticsGranularity {
+    HOUR
+    DAY
+    WEEK
+  }
+
+  type AnalyticsBucket {
+    start: DateTime!
+    views: Int!
+    likes: Int!
+    comments: Int!
+    shares: Int!
+    engagement: Float!
+  }
+
+  type AnalyticsTotals {
+    views: Int!
+    likes: Int!
+    comments: Int!
+    shares: Int!
+    engagement: Float!
+    followers: Int!
+    followerChange: Int!
+  }
+
+  type FollowerPoint {
+    start: DateTime!
+    accountId: ID!
+    platform: SocialPlatform!
+    followers: Int!
+    following: Int!
+  }
+
+  type AnalyticsTopPost {
+    postId: ID!
+    platform: SocialPlatform!
+    accountId: ID
+    content: String!
+    views: Int!
+    likes: Int!
+    comments: Int!
+    shares: Int!
+    engagement: Float!
+  }
+
+  type AnalyticsSeries {
+    granularity: AnalyticsGranularity!
+    from: DateTime!
+    to: DateTime!
+    totals: AnalyticsTotals!
+    buckets: [AnalyticsBucket!]!
+    followers: [FollowerPoint!]!
+    topPosts: [AnalyticsTopPost!]!
+  }
+
+  type NormalizedMetrics {
+    impressions: Int
+    reach: Int
+    interactions: Int!
+    engagementRate: Float
+    followerEngagementRate: Float
+  }
+
+  type DashboardMetrics {
+    impressions: Int
+    reach: Int
+    interactions: Int!
+    engagementRate: Float
+    followerEngagementRate: Float
+    followers: Int!
+  }
+
+  type MetricDelta {
+    current: Float
+    previous: Float
+    change: Float
+    changeRate: Float
+  }
+
+  type DashboardDeltas {
+    impressions: MetricDelta!
+    reach: MetricDelta!
+    interactions: MetricDelta!
+    engagementRate: MetricDelta!
+    followers: MetricDelta!
+  }
+
+  type MetricCounts {
+    views: Int!
+    likes: Int!
+    comments: Int!
+    shares: Int!
+  }
+
+  type PlatformComparison {
+    platform: SocialPlatform!
+    accounts: Int!
+    counts: MetricCounts!
+    metrics: DashboardMetrics!
+    deltas: DashboardDeltas!
+  }
+
+  type DashboardTopPost {
+    postId: ID!
+    platform: SocialPlatform!
+    accountId: ID
+    content: String!
+    views: Int!
+    likes: Int!
+    comments: Int!
+    shares: Int!
+    metrics: NormalizedMetrics!
+  }
+
+  type AnalyticsDashboard {
+    from: DateTime!
+    to: DateTime!
+    previousFrom: DateTime!
+    previousTo: DateTime!
+    metrics: DashboardMetrics!
+    deltas: DashboardDeltas!
+    platforms: [PlatformComparison!]!
+    topPosts: [DashboardTopPost!]!
+  }
+
+  type HeatmapCell {
+    weekday: Int!
+    hour: Int!
+    score: Float!
+    posts: Int!
+  }
+
+  type EngagementHeatmap {
+    accountId: ID!
+    platform: SocialPlatform!
+    timezone: String!
+    posts: Int!
+    basedOnHistory: Boolean!
+    cells: [HeatmapCell!]!
+  }
+
+  type PostingSlot {
+    start: DateTime!
+    timezone: String!
+    weekday: Int!
+    hour: Int!
+    score: Float!
+  }
+
+  enum CalendarItemKind {
+    ENTRY
+    SCHEDULED_POST
+    PUBLISH
+  }
+
+  enum CalendarItemStatus {
+    DRAFT
+    SCHEDULED
+    PUBLISHING
+    PUBLISHED
+    FAILED
+    CANCELLED
+  }
+
+  type CalendarItem {
+    id: ID!
+    kind: CalendarItemKind!
+    status: CalendarItemStatus!
+    title: String
+    content: String!
+    mediaUrls: [String!]!
+    platforms: [SocialPlatform!]!
+    accountIds: [ID!]!
+    at: DateTime!
+    entryId: ID
+    scheduledPostId: ID
+    publishId: ID
+    slotId: ID
+  }
+
+  type CalendarSlotOccurrence {
+    slotId: ID!
+    label: String
+    platforms: [SocialPlatform!]!
+    accountIds: [ID!]!
+    start: DateTime!
+    filled: Boolean!
+  }
+
+  type CalendarRange {
+    from: DateTime!
+    to: DateTime!
+    timezone: String!
+    items: [CalendarItem!]!
+    slots: [CalendarSlotOccurrence!]!
+  }
+
+  type CalendarEntry {
+    id: ID!
+    workspaceId: ID
+    title: String
+    content: String!
+    mediaUrls: [String!]!
+    platforms: [SocialPlatform!]!
+    accountIds: [ID!]!
+    plannedAt: DateTime!
+    source: String!
+    slotId: ID
+    draftId: ID
+    scheduledPostId: ID
+    metadata: JSON
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type CalendarSlot {
+    id: ID!
+    workspaceId: ID
+    label: String
+    platforms: [SocialPlatform!]!
+    accountIds: [ID!]!
+    weekday: Int!
+    hour: Int!
+    minute: Int!
+    active: Boolean!
+  }
+
+  type CalendarFeed {
+    url: String!
+  }
+
+  enum PostQueueStatus {
+    ACTIVE
+    PAUSED
+  }
+
+  type PostQueueSlot {
+    id: ID!
+    accountId: ID!
+    weekday: Int!
+    hour: Int!
+    minute: Int!
+  }
+
+  type PostQueueItem {
+    id: ID!
+    content: String!
+    mediaUrls: [String!]!
+    variations: JSON
+    recurrence: String
+    accountIds: [ID!]!
+    draftId: ID
+    startsAt: DateTime!
+    nextRunAt: DateTime
+    active: Boolean!
+    timesScheduled: Int!
+    lastScheduledAt: DateTime
+    lastError: String
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type PostQueue {
+    id: ID!
+    workspaceId: ID
+    name: String!
+    status: PostQueueStatus!
+    minRepeatDays: Int!
+    pausedAt: DateTime
+    slots: [PostQueueSlot!]!
+    items: [PostQueueItem!]!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  enum ConversationChannel {
+    MESSAGE
+    COMMENT
+  }
+
+  enum ConversationStatus {
+    OPEN
+    PENDING
+    CLOSED
+  }
+
+  enum ConversationEventType {
+    ASSIGNED
+    STATUS_CHANGED
+    REPLIED
+    FIRST_RESPONSE
+    RESOLVED
+    SLA_BREACHED
+  }
+
+  type Conversation {
+    id: ID!
+    userId: ID!
+    channel: ConversationChannel!
+    platform: SocialPlatform!
+    accountId: ID
+    counterpartId: String
+    counterpartName: String
+    preview: String
+    status: ConversationStatus!
+    assigneeId: ID
+    queueId: ID
+    version: Int!
+    replyingId: ID
+    replyingUntil: DateTime
+    lastInboundAt: DateTime!
+    lastReplyAt: DateTime
+    openedAt: DateTime!
+    firstResponseDueAt: DateTime
+    firstRespondedAt: DateTime
+    firstResponderId: ID
+    resolutionDueAt: DateTime
+    resolvedAt: DateTime
+    resolvedById: ID
+    firstResponseBreachedAt: DateTime
+    resolutionBreachedAt: DateTime
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type ConversationPage {
+    conversations: [Conversation!]!
+    nextCursor: ID
+  }
+
+  type ConversationMessage {
+    id: ID!
+    content: String!
+    senderId: String
+    fromCustomer: Boolean!
+    createdAt: DateTime!
+  }
+
+  type ConversationNote {
+    id: ID!
+    conversationId: ID!
+    authorId: ID!
+    content: String!
+    createdAt: DateTime!
+  }
+
+  type ConversationEvent {
+    id: ID!
+    type: ConversationEventType!
+    actorId: ID
+    durationSeconds: Int
+    data: JSON
+    createdAt: DateTime!
+  }
+
+  type ConversationDetails {
+    conversation: Conversation!
+    messages: [ConversationMessage!]!
+    comments: [CrossPlatformComment!]!
+    notes: [ConversationNote!]!
+    events: [ConversationEvent!]!
+  }
+
+  type ReplyLease {
+    conversationId: ID!
+    acquired: Boolean!
+    replyingId: ID
+    replyingUntil: DateTime
+    version: Int!
+  }
+
+  type SupportAgent {
+    id: ID!
+    agentId: ID!
+    createdAt: DateTime!
+  }
+
+  type SupportQueue {
+    id: ID!
+    userId: ID!
+    name: String!
+    agentIds: [ID!]!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type SupportSlaPolicy {
+    firstResponseMinutes: Int!
+    resolutionMinutes: Int!
+  }
+
+  type AgentResponseStats {
+    agentId: ID
+    firstResponses: Int!
+    avgFirstResponseSeconds: Float
+    resolved: Int!
+    avgResolutionSeconds: Float
+    breaches: Int!
+  }
+
+  type PlatformResponseStats {
+    platform: SocialPlatform!
+    firstResponses: Int!
+    avgFirstResponseSeconds: Float
+    resolved: Int!
+    avgResolutionSeconds: Float
+    breaches: Int!
+  }
+
+  type TeamInboxReport {
+    from: DateTime!
+    to: DateTime!
+    agents: [AgentResponseStats!]!
+    platforms: [PlatformResponseStats!]!
+  }
+
+  enum ContentPlanFrequency {
+    daily
+    weekly
+    monthly
+  }
+
+  input PlatformVariantInput {
+    platform: SocialPlatform!
+    content: String
+    mediaUrls: [String!]
+  }
+
   input CreateCrossPlatformPostInput {
+    workspaceId: ID
     content: String!
     mediaUrls: [String!]
+    variants: [PlatformVariantInput!]
     platforms: [SocialPlatform!]!
+    accountIds: [ID!]
     scheduledAt: DateTime
+    idempotencyKey: String
+    draftId: ID
+    metadata: JSON
+  }
+
+  input ContentCheckInput {
+    content: String!
+    mediaUrls: [String!]
+    variants: [PlatformVariantInput!]
+    platforms: [SocialPlatform!]!
+  }
+
+  input EditCrossPostGroupInput {
+    content: String!
+    mediaUrls: [String!]
     metadata: JSON
+    uneditable: UneditableStrategy
   }
 
   input SchedulePostInput {
+    workspaceId: ID
     content: String!
     mediaUrls: [String!]
+    variants: [PlatformVariantInput!]
     platforms: [SocialPlatform!]!
-    scheduledAt: DateTime!
+    accountIds: [ID!]
+    scheduledAt: DateTime
+    autoSchedule: Boolean
+    draftId: ID
     metadata: JSON
   }
 
+  input CalendarEntryInput {
+    workspaceId: ID
+    title: String
+    content: String!
+    mediaUrls: [String!]
+    platforms: [SocialPlatform!]!
+    accountIds: [ID!]
+    plannedAt: DateTime
+    slotId: ID
+    draftId: ID
+    metadata: JSON
+  }
+
+  input UpdateCalendarEntryInput {
+    title: String
+    content: String
+    mediaUrls: [String!]
+    platforms: [SocialPlatform!]
+    accountIds: [ID!]
+    draftId: ID
+    metadata: JSON
+  }
+
+  input CalendarSlotInput {
+    workspaceId: ID
+    label: String
+    platforms: [SocialPlatform!]!
+    accountIds: [ID!]
+    weekday: Int!
+    hour: Int!
+    minute: Int
+  }
+
+  input UpdateCalendarSlotInput {
+    label: String
+    platforms: [SocialPlatform!]
+    accountIds: [ID!]
+    weekday: Int
+    hour: Int
+    minute: Int
+    active: Boolean
+  }
+
+  input ImportContentPlanInput {
+    workspaceId: ID
+    topics: [String!]!
+    frequency: ContentPlanFrequency!
+    duration: Int!
+    platforms: [SocialPlatform!]!
+    accountIds: [ID!]
+  }
+
+  input InboxFilterInput {
+    status: InboxStatus
+    platforms: [SocialPlatform!]
+    accountIds: [ID!]
+    kinds: [InboxItemKind!]
+    sentiments: [CommentSentiment!]
+    search: String
+    cursor: ID
+    limit: Int
+  }
+
+  input ConversationFilterInput {
+    statuses: [ConversationStatus!]
+    channels: [ConversationChannel!]
+    platforms: [SocialPlatform!]
+    assigneeId: ID
+    unassigned: Boolean
+    queueId: ID
+    breached: Boolean
+    cursor: ID
+    limit: Int
+  }
+
+  input ConversationAssignmentInput {
+    assigneeId: ID
+    queueId: ID
+  }
+
+  input SupportQueueInput {
+    name: String!
+    agentIds: [ID!]
+  }
+
+  input UpdateSupportQueueInput {
+    name: String
+    agentIds: [ID!]
+  }
+
+  input SupportSlaPolicyInput {
+    firstResponseMinutes: Int
+    resolutionMinutes: Int
+  }
+
+  input PostQueueInput {
+    workspaceId: ID
+    name: String!
+    minRepeatDays: Int
+  }
+
+  input UpdatePostQueueInput {
+    name: String
+    minRepeatDays: Int
+  }
+
+  input PostQueueSlotInput {
+    accountId: ID!
+    weekday: Int!
+    hour: Int!
+    minute: Int
+  }
+
+  input PostQueueItemInput {
+    content: String!
+    mediaUrls: [String!]
+    variations: JSON
+    recurrence: String
+    accountIds: [ID!]
+    draftId: ID
+    startsAt: DateTime
+  }
+
+  input UpdatePostQueueItemInput {
+    content: String
+    mediaUrls: [String!]
+    variations: JSON
+    recurrence: String
+    accountIds: [ID!]
+    draftId: ID
+    startsAt: DateTime
+    active: Boolean
+  }
+
+  input PostingSlotsInput {
+    workspaceId: ID
+    platforms: [SocialPlatform!]
+    accountIds: [ID!]
+    after: DateTime
+    count: Int
+  }
+
+  input AnalyticsQueryInput {
+    workspaceId: ID
+    from: DateTime
+    to: DateTime
+    granularity: AnalyticsGranularity
+    platforms: [SocialPlatform!]
+    accountIds: [ID!]
+  }
+
+  input AnalyticsDashboardInput {
+    workspaceId: ID
+    from: DateTime
+    to: DateTime
+    platforms: [SocialPlatform!]
+    accountIds: [ID!]
+    topPostCount: Int
+  }
+
   extend type Query {
     crossPlatformPost(id: ID!): CrossPlatformPost!
     crossPlatformComments(postId: ID!): [CrossPlatformComment!]!
     aggregatedReactions(postId: ID!): AggregatedReactions!
-    scheduledPosts: [ScheduledPost!]!
+    scheduledPosts(workspaceId: ID): [ScheduledPost!]!
+    crossPlatformPublish(id: ID!): CrossPlatformPublish!
+    crossPostGroup(groupId: ID!): CrossPostGroup!
+    contentIssues(input: ContentCheckInput!): [ContentIssue!]!
+    analytics(input: AnalyticsQueryInput): AnalyticsSeries!
+    analyticsDashboard(input: AnalyticsDashboardInput): AnalyticsDashboard!
+    engagementHeatmap(accountId: ID!): EngagementHeatmap!
+    suggestedPostingSlots(input: PostingSlotsInput): [PostingSlot!]!
+    calendar(from: DateTime!, to: DateTime!, platforms: [SocialPlatform!], workspaceId: ID): CalendarRange!
+    postQueues(workspaceId: ID): [PostQueue!]!
+    postQueue(id: ID!): PostQueue!
+    upcomingQueuePosts(queueId: ID!): [ScheduledPost!]!
+    inbox(filter: InboxFilterInput): InboxPage!
+    inboxThread(itemId: ID!): InboxThread!
+    conversations(filter: ConversationFilterInput): ConversationPage!
+    conversation(id: ID!): ConversationDetails!
+    supportAgents: [SupportAgent!]!
+    supportQueues: [SupportQueue!]!
+    supportSlaPolicy: SupportSlaPolicy!
+    teamInboxReport(from: DateTime!, to: DateTime): TeamInboxReport!
   }
 
   extend type Mutation {
-    createCrossPlatformPost(input: CreateCrossPlatformPostInput!): [SocialMediaPost!]!
+    createCrossPlatformPost(input: CreateCrossPlatformPostInput!): CrossPlatformPublishResult!
+    retryFailedPublishTargets(publishId: ID!): CrossPlatformPublishResult!
+    editCrossPostGroup(groupId: ID!, input: EditCrossPostGroupInput!): CrossPostChangeResult!
+    deleteCrossPostGroup(groupId: ID!): CrossPostChangeResult!
     schedulePost(input: SchedulePostInput!): ScheduledPost!
     cancelScheduledPost(postId: ID!): Boolean!
+    reschedulePost(postId: ID!, scheduledAt: DateTime!): Boolean!
+    createCalendarEntry(input: CalendarEntryInput!): CalendarEntry!
+    updateCalendarEntry(entryId: ID!, input: UpdateCalendarEntryInput!): CalendarEntry!
+    moveCalendarEntry(entryId: ID!, plannedAt: DateTime!): CalendarEntry!
+    scheduleCalendarEntry(entryId: ID!): CalendarEntry!
+    unscheduleCalendarEntry(entryId: ID!): CalendarEntry!
+    deleteCalendarEntry(entryId: ID!): Boolean!
+    importContentPlan(input: ImportContentPlanInput!): [CalendarEntry!]!
+    createCalendarSlot(input: CalendarSlotInput!): CalendarSlot!
+    updateCalendarSlot(slotId: ID!, input: UpdateCalendarSlotInput!): CalendarSlot!
+    deleteCalendarSlot(slotId: ID!): Boolean!
+    rotateCalendarFeed: CalendarFeed!
+    createPostQueue(input: PostQueueInput!): PostQueue!
+    updatePostQueue(queueId: ID!, input: UpdatePostQueueInput!): PostQueue!
+    deletePostQueue(queueId: ID!): Boolean!
+    pausePostQueue(queueId: ID!): PostQueue!
+    resumePostQueue(queueId: ID!): PostQueue!
+    addPostQueueSlot(queueId: ID!, input: PostQueueSlotInput!): PostQueueSlot!
+    removePostQueueSlot(slotId: ID!): Boolean!
+    addPostQueueItem(queueId: ID!, input: PostQueueItemInput!): PostQueueItem!
+    updatePostQueueItem(itemId: ID!, input: UpdatePostQueueItemInput!): PostQueueItem!
+    removePostQueueItem(itemId: ID!): Boolean!
+    markInboxItemsRead(itemIds: [ID!]!, read: Boolean): Int!
+    markInboxItemsDone(itemIds: [ID!]!, done: Boolean): Int!
+    replyToInboxItem(itemId: ID!, content: String!): CrossPlatformComment!
+    assignConversation(conversationId: ID!, input: ConversationAssignmentInput!): Conversation!
+    setConversationStatus(conversationId: ID!, status: ConversationStatus!): Conversation!
+    addConversationNote(conversationId: ID!, content: String!): ConversationNote!
+    startConversationReply(conversationId: ID!): ReplyLease!
+    stopConversationReply(conversationId: ID!): Boolean!
+    replyToConversation(
+      conversationId: ID!
+      content: String!
+      expectedVersion: Int!
+      status: ConversationStatus
+    ): Conversation!
+    addSupportAgent(agentId: ID!): SupportAgent!
+    removeSupportAgent(agentId: ID!): Boolean!
+    createSupportQueue(input: SupportQueueInput!): SupportQueue!
+    updateSupportQueue(queueId: ID!, input: UpdateSupportQueueInput!): SupportQueue!
+    deleteSupportQueue(queueId: ID!): Boolean!
+    updateSupportSlaPolicy(input: SupportSlaPolicyInput!): SupportSlaPolicy!
     syncComments(postId: ID!, platform: SocialPlatform!): [SocialMediaComment!]!
     syncReactions(postId: ID!, platform: SocialPlatform!): Boolean!
   }
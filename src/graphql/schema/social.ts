@@ -82,6 +82,11 @@ export const socialTypeDefs = `
     PINTEREST
     TELEGRAM
     DISCORD
+    WHATSAPP
+    TWITCH
+    MEDIUM
+    WECHAT
+    THREADS
     MASTODON
     BLUESKY
   }
@@ -95,7 +100,7 @@ export const socialTypeDefs = `
   }
 
   extend type Query {
-    socialAuthUrl(platform: SocialPlatform!): String!
+    socialAuthUrl(platform: SocialPlatform!, instanceUrl: String): String!
     socialProfile(platform: SocialPlatform!, userId: ID!): SocialMediaProfile!
     socialPosts(platform: SocialPlatform!, userId: ID!, limit: Int): [SocialMediaPost!]!
     socialStats(platform: SocialPlatform!, userId: ID!): SocialMediaStats!
@@ -103,9 +108,10 @@ export const socialTypeDefs = `
   }
 
   extend type Mutation {
-    socialAuthCallback(platform: SocialPlatform!, code: String!): SocialMediaAuth!
-    socialRefreshToken(platform: SocialPlatform!): SocialMediaAuth!
-    socialRevokeToken(platform: SocialPlatform!): Boolean!
+    socialAuthCallback(platform: SocialPlatform!, code: String!, instanceUrl: String): SocialMediaAuth!
+    socialCreateSession(platform: SocialPlatform!, identifier: String!, password: String!, instanceUrl: String): SocialMediaAuth!
+    socialRefreshToken(platform: SocialPlatform!, userId: ID!): SocialMediaAuth!
+    socialRevokeToken(platform: SocialPlatform!, userId: ID!): Boolean!
     socialCreatePost(platform: SocialPlatform!, content: String!, mediaUrls: [String!]): SocialMediaPost!
     socialUpdatePost(platform: SocialPlatform!, postId: ID!, content: String!): SocialMediaPost!
     socialDeletePost(platform: SocialPlatform!, postId: ID!): Boolean!
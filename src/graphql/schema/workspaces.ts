@@ -0,0 +1,101 @@
+export const workspacesTypeDefs = `
+  enum WorkspaceRole {
+    OWNER
+    ADMIN
+    EDITOR
+    CONTRIBUTOR
+    VIEWER
+  }
+
+  type Workspace {
+    id: ID!
+    name: String!
+    createdById: ID!
+    role: WorkspaceRole
+    members: [WorkspaceMember!]
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type WorkspaceMember {
+    id: ID!
+    workspaceId: ID!
+    userId: ID!
+    role: WorkspaceRole!
+    allAccounts: Boolean!
+    grants: [WorkspaceAccountGrant!]!
+    createdAt: DateTime!
+  }
+
+  type WorkspaceAccountGrant {
+    id: ID!
+    accountId: ID!
+    role: WorkspaceRole!
+  }
+
+  type WorkspaceInvitation {
+    id: ID!
+    workspaceId: ID!
+    email: String!
+    role: WorkspaceRole!
+    allAccounts: Boolean!
+    grants: JSON
+    invitedById: ID!
+    expiresAt: DateTime!
+    createdAt: DateTime!
+  }
+
+  type WorkspaceInvitationResult {
+    invitation: WorkspaceInvitation!
+    url: String!
+  }
+
+  type WorkspaceAccount {
+    id: ID!
+    userId: ID!
+    workspaceId: ID
+    platform: SocialPlatform!
+    platformUsername: String
+    platformAvatar: String
+    status: String!
+    createdAt: DateTime!
+  }
+
+  input AccountGrantInput {
+    accountId: ID!
+    role: WorkspaceRole!
+  }
+
+  input WorkspaceInvitationInput {
+    email: String!
+    role: WorkspaceRole!
+    allAccounts: Boolean
+    grants: [AccountGrantInput!]
+  }
+
+  input WorkspaceMemberAccessInput {
+    allAccounts: Boolean!
+    grants: [AccountGrantInput!]!
+  }
+
+  extend type Query {
+    workspaces: [Workspace!]!
+    workspace(id: ID!): Workspace!
+    workspaceInvitations(workspaceId: ID!): [WorkspaceInvitation!]!
+    connectedAccounts(workspaceId: ID, platform: SocialPlatform): [WorkspaceAccount!]!
+  }
+
+  extend type Mutation {
+    createWorkspace(name: String!): Workspace!
+    renameWorkspace(workspaceId: ID!, name: String!): Workspace!
+    deleteWorkspace(workspaceId: ID!): Boolean!
+    inviteWorkspaceMember(workspaceId: ID!, input: WorkspaceInvitationInput!): WorkspaceInvitationResult!
+    revokeWorkspaceInvitation(invitationId: ID!): Boolean!
+    acceptWorkspaceInvitation(token: String!): WorkspaceMember!
+    updateWorkspaceMemberRole(workspaceId: ID!, userId: ID!, role: WorkspaceRole!): WorkspaceMember!
+    setWorkspaceMemberAccess(workspaceId: ID!, userId: ID!, input: WorkspaceMemberAccessInput!): WorkspaceMember!
+    removeWorkspaceMember(workspaceId: ID!, userId: ID!): Boolean!
+    moveAccountToWorkspace(accountId: ID!, workspaceId: ID): WorkspaceAccount!
+    disconnectAccount(accountId: ID!): Boolean!
+  }
+`
@@ -4,10 +4,27 @@ import { ApolloServerPluginDrainHttpServer } from 'apollo-server-core'
 import { createServer } from 'http'
 import { typeDefs } from './schema'
 import { resolvers } from './resolvers'
+import { Context } from './context'
+import { aiTypeDefs } from './schema/ai'
+import { approvalsTypeDefs } from './schema/approvals'
+import { crossPlatformTypeDefs } from './schema/cross-platform'
+import { socialTypeDefs } from './schema/social'
+import { workspacesTypeDefs } from './schema/workspaces'
+import { aiResolvers } from './resolvers/ai'
+import { approvalsResolvers } from './resolvers/approvals'
+import { crossPlatformResolvers } from './resolvers/cross-platform'
+import { socialResolvers } from './resolvers/social'
+import { workspacesResolvers } from './resolvers/workspaces'
 import { connectToMongoDB } from '../lib/mongodb'
 import { PrismaClient } from '@prisma/client'
-import { verifyToken } from '../lib/auth'
+import { auth } from '../lib/auth'
 import { metricsMiddleware, metricsEndpoint } from '../middleware/metrics'
+import { PostScheduler } from '../lib/social/post-scheduler'
+import { QueueScheduler } from '../lib/social/queue-scheduler'
+import { SlaMonitor } from '../lib/social/sla-monitor'
+import { SocialService } from '../lib/social/social-service'
+import { TokenRefresher } from '../lib/platforms/token-refresher'
+import { getUnifiedMessenger } from '../lib/messaging/unified-messenger'
 
 const prisma = new PrismaClient()
 
@@ -24,15 +41,31 @@ async function startServer() {
 
   // Create Apollo Server
   const server = new ApolloServer({
-    typeDefs,
-    resolvers,
-    context: async ({ req }) => {
+    // The base schema plus the modules that extend its Query, Mutation and
+    // Subscription types
+    typeDefs: [
+      typeDefs,
+      aiTypeDefs,
+      approvalsTypeDefs,
+      crossPlatformTypeDefs,
+      socialTypeDefs,
+      workspacesTypeDefs
+    ],
+    resolvers: [
+      resolvers,
+      aiResolvers,
+      approvalsResolvers,
+      crossPlatformResolvers,
+      socialResolvers,
+      workspacesResolvers
+    ],
+    context: async ({ req }): Promise<Context> => {
       const token = req.headers.authorization?.split(' ')[1]
       if (!token) return {}
 
       try {
-        const user = await verifyToken(token)
-        return { user }
+        const { userId, email } = auth.verifyToken(token)
+        return { user: { id: userId, email } }
       } catch (error) {
         console.error('Token verification error:', error)
         return {}
@@ -89,10 +122,37 @@ async function startServer() {
     console.log(`🚀 Server ready at http://localhost:${PORT}${server.graphqlPath}`)
   })
 
+  await SocialService.getInstance().initialize()
+
+  // Start publishing due scheduled posts
+  const scheduler = PostScheduler.getInstance()
+  scheduler.start()
+
+  // Keep post queues filled with upcoming scheduled posts
+  const queueScheduler = QueueScheduler.getInstance()
+  queueScheduler.start()
+
+  // Alert support agents about conversations past their SLA
+  const slaMonitor = SlaMonitor.getInstance()
+  slaMonitor.start()
+
+  // Renew connected account tokens ahead of expiry
+  const tokenRefresher = TokenRefresher.getInstance()
+  tokenRefresher.start()
+
+  // Send queued direct messages through their platform connectors
+  const messenger = getUnifiedMessenger()
+  messenger.start()
+
   // Handle graceful shutdown
   const shutdown = async () => {
     console.log('Shutting down server...')
     await server.stop()
+    await queueScheduler.stop()
+    await scheduler.stop()
+    await slaMonitor.stop()
+    await tokenRefresher.stop()
+    await messenger.stop()
     await prisma.$disconnect()
     process.exit(0)
   }
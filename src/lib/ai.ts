@@ -84,6 +84,28 @@ export class AIService {
     }
   }
 
+  // One sentiment per text, in order, from a single request
+  async classifySentiments(texts: string[]): Promise<Array<ContentAnalysis['sentiment'] | null>> {
+    const response = await this.client.chat.completions.create({
+      model: 'gpt-4',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a sentiment analysis expert. Classify each text in the given JSON array as positive, negative or neutral, and answer with a JSON array of the labels in the same order.',
+        },
+        {
+          role: 'user',
+          content: JSON.stringify(texts),
+        },
+      ],
+      temperature: 0,
+      max_tokens: 20 * texts.length,
+    })
+
+    const labels = JSON.parse(response.choices[0].message.content || '[]')
+    return texts.map((_, index) => (Array.isArray(labels) ? labels[index] : null) ?? null)
+  }
+
   async generateContentSuggestion(
     platform: string,
     targetAudience: string[],
@@ -118,6 +140,30 @@ export class AIService {
     }
   }
 
+  async rewriteForPlatform(
+    content: string,
+    platform: string,
+    limits: { maxLength: number; maxHashtags?: number }
+  ): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: 'gpt-4',
+      messages: [
+        {
+          role: 'system',
+          content: `You are a social media editor for ${platform}. Adapt the user's post to ${platform} while keeping its meaning, links and voice. Stay within ${limits.maxLength} characters${limits.maxHashtags !== undefined ? ` and ${limits.maxHashtags} hashtags` : ''}. Reply with the post text only.`,
+        },
+        {
+          role: 'user',
+          content,
+        },
+      ],
+      temperature: 0.5,
+      max_tokens: 1000,
+    })
+
+    return (response.choices[0].message.content || '').trim()
+  }
+
   async optimizeHashtags(content: string, platform: string): Promise<string[]> {
     const response = await this.client.chat.completions.create({
       model: 'gpt-4',
@@ -0,0 +1,53 @@
+import crypto from 'crypto'
+
+jest.mock('./env', () => ({ env: { ENCRYPTION_KEY: 'test-encryption-key' } }))
+
+describe('encrypt and decrypt', () => {
+  let pbkdf2: jest.SpyInstance
+  let lib: typeof import('./crypto')
+
+  beforeEach(() => {
+    pbkdf2 = jest.spyOn(crypto, 'pbkdf2')
+    jest.isolateModules(() => {
+      lib = require('./crypto')
+    })
+  })
+
+  afterEach(() => {
+    pbkdf2.mockRestore()
+  })
+
+  it('round-trips text', async () => {
+    const encrypted = await lib.encrypt('access-token')
+
+    expect(encrypted).not.toContain('access-token')
+    await expect(lib.decrypt(encrypted)).resolves.toBe('access-token')
+  })
+
+  it('derives the key once for everything the process encrypts and decrypts', async () => {
+    const encrypted = await Promise.all(['a', 'b', 'c'].map((text) => lib.encrypt(text)))
+    await Promise.all(encrypted.map((text) => lib.decrypt(text)))
+
+    expect(pbkdf2).toHaveBeenCalledTimes(1)
+    // Each message still gets its own IV
+    expect(new Set(encrypted).size).toBe(3)
+  })
+
+  it('decrypts text another process encrypted under its own salt', async () => {
+    let other: typeof import('./crypto') = lib
+    jest.isolateModules(() => {
+      other = require('./crypto')
+    })
+    const encrypted = await other.encrypt('refresh-token')
+
+    await expect(lib.decrypt(encrypted)).resolves.toBe('refresh-token')
+    expect(pbkdf2).toHaveBeenCalledTimes(2)
+  })
+
+  it('rejects tampered text', async () => {
+    const buffer = Buffer.from(await lib.encrypt('access-token'), 'base64')
+    buffer[buffer.length - 1] ^= 1
+
+    await expect(lib.decrypt(buffer.toString('base64'))).rejects.toThrow()
+  })
+})
@@ -1,4 +1,5 @@
 import crypto from 'crypto'
+import { promisify } from 'util'
 import { env } from './env'
 
 const ALGORITHM = 'aes-256-gcm'
@@ -6,20 +7,48 @@ const IV_LENGTH = 16
 const SALT_LENGTH = 64
 const TAG_LENGTH = 16
 const KEY_LENGTH = 32
+const KEY_CACHE_SIZE = 100
 
-export async function encrypt(text: string): Promise<string> {
-  // Generate a random IV and salt
-  const iv = crypto.randomBytes(IV_LENGTH)
-  const salt = crypto.randomBytes(SALT_LENGTH)
+const pbkdf2 = promisify(crypto.pbkdf2)
 
-  // Derive key from password and salt
-  const key = crypto.pbkdf2Sync(
+// Deriving a key is deliberately slow, so a process encrypts everything
+// under one salt and remembers the keys of the salts it has decrypted
+const derivedKeys = new Map<string, Promise<Buffer>>()
+let processSalt: Buffer | null = null
+
+function deriveKey(salt: Buffer): Promise<Buffer> {
+  const cacheKey = salt.toString('base64')
+  const cached = derivedKeys.get(cacheKey)
+  if (cached) {
+    return cached
+  }
+
+  const key = pbkdf2(
     env.ENCRYPTION_KEY,
     salt,
     100000, // Number of iterations
     KEY_LENGTH,
     'sha512'
   )
+  key.catch(() => derivedKeys.delete(cacheKey))
+
+  if (derivedKeys.size >= KEY_CACHE_SIZE) {
+    derivedKeys.delete(derivedKeys.keys().next().value as string)
+  }
+  derivedKeys.set(cacheKey, key)
+  return key
+}
+
+export async function encrypt(text: string): Promise<string> {
+  // Generate a random IV; the salt is shared by everything this process encrypts
+  const iv = crypto.randomBytes(IV_LENGTH)
+  if (!processSalt) {
+    processSalt = crypto.randomBytes(SALT_LENGTH)
+  }
+  const salt = processSalt
+
+  // Derive key from password and salt
+  const key = await deriveKey(salt)
 
   // Create cipher
   const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
@@ -50,13 +79,7 @@ export async function decrypt(encryptedText: string): Promise<string> {
   const encrypted = buffer.slice(SALT_LENGTH + IV_LENGTH + TAG_LENGTH)
 
   // Derive key from password and salt
-  const key = crypto.pbkdf2Sync(
-    env.ENCRYPTION_KEY,
-    salt,
-    100000, // Number of iterations
-    KEY_LENGTH,
-    'sha512'
-  )
+  const key = await deriveKey(salt)
 
   // Create decipher
   const decipher = crypto.createDecipheriv(ALGORITHM, key, iv)
@@ -1,12 +1,16 @@
 import { z } from 'zod'
 
 const envSchema = z.object({
+  // App
+  NEXT_PUBLIC_APP_URL: z.string().url(),
+
   // Database
   DATABASE_URL: z.string().url(),
   
   // JWT
   JWT_SECRET: z.string().min(1),
   JWT_EXPIRES_IN: z.string().min(1),
+  ENCRYPTION_KEY: z.string().min(1),
   
   // API Keys
   FACEBOOK_APP_ID: z.string().min(1),
@@ -39,6 +43,8 @@ const envSchema = z.object({
   WECHAT_APP_SECRET: z.string().min(1),
   THREADS_API_KEY: z.string().min(1),
   THREADS_API_SECRET: z.string().min(1),
+  META_WEBHOOK_VERIFY_TOKEN: z.string().min(1),
+  TWITCH_WEBHOOK_SECRET: z.string().min(1),
   
   // Redis
   REDIS_URL: z.string().url(),
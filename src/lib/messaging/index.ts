@@ -42,6 +42,18 @@ export class MessagingService {
     }
 
     try {
+      const sender = await prisma.user.findUnique({
+        where: { id: senderId },
+        select: {
+          id: true,
+          name: true,
+          avatar: true,
+        },
+      })
+      if (!sender) {
+        throw new Error('Sender not found')
+      }
+
       // Encrypt message content
       const encryptedContent = await crypto.encrypt(content, this.encryptionKey)
 
@@ -79,12 +91,12 @@ export class MessagingService {
       await notifications.createNotification({
         type: 'message',
         title: 'New Message',
-        message: `New message from ${message.sender.name}`,
+        message: `New message from ${sender.name}`,
         data: {
           messageId: message.id,
-          senderId: message.sender.id,
-          senderName: message.sender.name,
-          senderAvatar: message.sender.avatar,
+          senderId: sender.id,
+          senderName: sender.name,
+          senderAvatar: sender.avatar,
         },
         userId: receiverId,
       })
@@ -168,11 +180,14 @@ export class MessagingService {
     try {
       const conversations = await prisma.message.groupBy({
         by: ['senderId', 'receiverId'],
+        // Messages with people outside the app are in the unified inbox
         where: {
           OR: [
             { senderId: userId },
             { receiverId: userId },
           ],
+          senderId: { not: null },
+          receiverId: { not: null },
         },
         _max: {
           createdAt: true,
@@ -184,7 +199,7 @@ export class MessagingService {
 
       const conversationDetails = await Promise.all(
         conversations.map(async (conv) => {
-          const otherUserId = conv.senderId === userId ? conv.receiverId : conv.senderId
+          const otherUserId = (conv.senderId === userId ? conv.receiverId : conv.senderId) as string
           const user = await prisma.user.findUnique({
             where: { id: otherUserId },
             select: {
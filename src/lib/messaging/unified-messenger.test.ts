@@ -0,0 +1,133 @@
+import { Platform } from '@prisma/client'
+import { UnifiedMessage, UnifiedMessenger } from './unified-messenger'
+
+jest.mock('@prisma/client', () => {
+  class PrismaClientKnownRequestError extends Error {
+    constructor(message: string, public code: string) {
+      super(message)
+    }
+  }
+
+  return {
+    Prisma: { PrismaClientKnownRequestError },
+    Platform: { WHATSAPP: 'WHATSAPP', TELEGRAM: 'TELEGRAM', INSTAGRAM: 'INSTAGRAM' },
+    MessageDeliveryStatus: { QUEUED: 'QUEUED', SENT: 'SENT', DELIVERED: 'DELIVERED', READ: 'READ', FAILED: 'FAILED' }
+  }
+})
+jest.mock('../db', () => ({
+  prisma: {
+    account: { findFirst: jest.fn(), findUnique: jest.fn() },
+    message: { create: jest.fn(), update: jest.fn() },
+    messageDelivery: { findMany: jest.fn(), findUnique: jest.fn(), updateMany: jest.fn() }
+  }
+}))
+jest.mock('../ai', () => ({ ai: {} }))
+jest.mock('../crypto', () => ({ encrypt: async (text: string) => text, decrypt: async (text: string) => text }))
+jest.mock('../platforms', () => ({ getAccount: jest.fn(), getAccountProvider: jest.fn() }))
+jest.mock('../workspaces/access', () => ({ getAccessibleAccounts: jest.fn() }))
+jest.mock('../websocket', () => ({ getWebSocketService: () => ({ emitToUser: jest.fn() }) }))
+
+const { prisma: mockPrisma } = jest.requireMock('../db')
+const { getAccount, getAccountProvider } = jest.requireMock('../platforms')
+const { getAccessibleAccounts } = jest.requireMock('../workspaces/access')
+
+const account = { id: 'acc-1', platform: 'TELEGRAM' }
+
+function message(changes: Partial<UnifiedMessage>): UnifiedMessage {
+  return {
+    id: 'message-1',
+    content: 'Hello',
+    senderId: 'user-1',
+    platform: 'TELEGRAM' as Platform,
+    isRead: false,
+    timestamp: new Date(),
+    metadata: { isEdited: false },
+    ...changes
+  }
+}
+
+describe('UnifiedMessenger.sendMessage', () => {
+  const messenger = new UnifiedMessenger()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.message.create.mockResolvedValue({})
+  })
+
+  it('sends only through an account the sender may reply with', async () => {
+    getAccount.mockRejectedValue(new Error('Account acc-2 not found'))
+
+    await expect(
+      messenger.sendMessage(message({ accountId: 'acc-2', externalReceiverId: 'tg-42' }))
+    ).rejects.toThrow('Account acc-2 not found')
+
+    expect(getAccount).toHaveBeenCalledWith('user-1', 'acc-2', 'inbox:reply')
+    expect(mockPrisma.message.create).not.toHaveBeenCalled()
+  })
+
+  it('reaches a user of the app through their own account on the platform', async () => {
+    getAccessibleAccounts.mockResolvedValue([account])
+    mockPrisma.account.findFirst.mockResolvedValue({ id: 'acc-9', platformUserId: 'tg-7' })
+
+    await messenger.sendMessage(message({ receiverId: 'user-2' }))
+
+    expect(getAccessibleAccounts).toHaveBeenCalledWith('user-1', 'inbox:reply', { platform: 'TELEGRAM' })
+    expect(mockPrisma.message.create.mock.calls[0][0].data).toMatchObject({
+      senderId: 'user-1',
+      receiverId: 'user-2',
+      externalReceiverId: 'tg-7',
+      accountId: 'acc-1'
+    })
+  })
+})
+
+describe('UnifiedMessenger.tick', () => {
+  const messenger = new UnifiedMessenger()
+  const connector = { name: 'Telegram', sendDirectMessage: jest.fn() }
+  const job = {
+    id: 'delivery-1',
+    messageId: 'message-1',
+    senderId: 'user-1',
+    attempts: 1,
+    maxAttempts: 5,
+    message: {
+      id: 'message-1',
+      accountId: 'acc-1',
+      externalReceiverId: 'tg-42',
+      content: 'Hello',
+      media: []
+    }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    mockPrisma.messageDelivery.findMany.mockResolvedValue([{ id: 'delivery-1' }])
+    mockPrisma.messageDelivery.findUnique.mockResolvedValue(job)
+    mockPrisma.messageDelivery.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.account.findUnique.mockResolvedValue(account)
+    getAccountProvider.mockResolvedValue(connector)
+    connector.sendDirectMessage.mockResolvedValue('platform-message-1')
+  })
+
+  it('does not send a message whose lease another worker took over', async () => {
+    mockPrisma.messageDelivery.updateMany
+      .mockResolvedValueOnce({ count: 1 }) // the claim
+      .mockResolvedValueOnce({ count: 0 }) // the renewal before sending
+
+    await messenger.tick()
+
+    expect(connector.sendDirectMessage).not.toHaveBeenCalled()
+  })
+
+  it('does not queue a sent message again when recording the send fails', async () => {
+    mockPrisma.message.update.mockRejectedValue(new Error('Connection lost'))
+
+    await messenger.tick()
+
+    expect(connector.sendDirectMessage).toHaveBeenCalledTimes(1)
+    const statuses = mockPrisma.messageDelivery.updateMany.mock.calls.map(([args]: any[]) => args.data.status)
+    expect(statuses).toContain('SENT')
+    expect(statuses).not.toContain('QUEUED')
+  })
+})
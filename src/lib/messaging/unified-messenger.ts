@@ -1,7 +1,17 @@
-import { Platform } from '@prisma/client'
+import {
+  Account,
+  Message,
+  MessageDelivery,
+  MessageDeliveryStatus,
+  Platform,
+  Prisma,
+} from '@prisma/client'
+import { randomUUID } from 'crypto'
+import { hostname } from 'os'
 import { prisma } from '../db'
 import { ai } from '../ai'
-import { getUnifiedManager } from '../platforms/unified-manager'
+import { getAccount, getAccountProvider } from '../platforms'
+import { getAccessibleAccounts } from '../workspaces/access'
 import { getWebSocketService } from '../websocket'
 import { encrypt, decrypt } from '../crypto'
 
@@ -15,9 +25,15 @@ export interface UnifiedMessage {
     size?: number
   }>
   senderId: string
-  receiverId: string
+  // One of the two is set. A user of the app is reached through their
+  // account on the platform.
+  receiverId?: string // app user id of the recipient
+  externalReceiverId?: string // platform user id of a recipient outside the app
   platform: Platform
+  accountId?: string // connected account the message goes through
+  conversationId?: string // team inbox conversation
   isRead: boolean
+  deliveryStatus?: MessageDeliveryStatus // messages sent from the app
   timestamp: Date
   metadata: {
     replyTo?: string
@@ -45,86 +61,409 @@ export interface CallSession {
   }
 }
 
+export interface MessageOutboxConfig {
+  pollInterval: number // in milliseconds
+  batchSize: number
+  leaseDuration: number // in milliseconds
+  retryBaseDelay: number // in milliseconds
+  retryMaxDelay: number // in milliseconds
+}
+
+const DEFAULT_OUTBOX_CONFIG: MessageOutboxConfig = {
+  pollInterval: 1000,
+  batchSize: 20,
+  // Longer than the worst-case send: the connector may wait a minute in the
+  // outbound queue before its 30s request
+  leaseDuration: 3 * 60 * 1000,
+  retryBaseDelay: 15 * 1000,
+  retryMaxDelay: 30 * 60 * 1000,
+}
+
+// Connector errors that sending again cannot fix
+const PERMANENT_ERRORS = new Set([
+  'ACCOUNT_NOT_FOUND',
+  'NOT_FOUND',
+  'PROVIDER_NOT_FOUND',
+  'UNSUPPORTED_FEATURE',
+  'VALIDATION_FAILED',
+])
+
+// Receipts only move a message forward
+const RECEIPT_ORDER: MessageDeliveryStatus[] = [
+  MessageDeliveryStatus.SENT,
+  MessageDeliveryStatus.DELIVERED,
+  MessageDeliveryStatus.READ,
+]
+
+type OutboxJob = MessageDelivery & { message: Message }
+
+/**
+ * Sends messages through the connector of their platform, as the connected
+ * account they belong to. `sendMessage` only writes the message and its
+ * outbox entry; the outbox is worked off by any number of replicas, which
+ * claim entries with a lease on the row, retry failures with backoff and
+ * report every status change to the sender's sockets.
+ */
 export class UnifiedMessenger {
-  private unifiedManager: any
-  private ws: any
   private activeCalls: Map<string, CallSession>
-  private messageQueue: Map<string, UnifiedMessage[]>
+  private config: MessageOutboxConfig
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+  private pollTimer: NodeJS.Timeout | null = null
+  private ticking = false
+  private activeJobs = new Set<Promise<void>>()
 
-  constructor() {
-    this.unifiedManager = getUnifiedManager()
-    this.ws = getWebSocketService()
+  constructor(config: Partial<MessageOutboxConfig> = {}) {
     this.activeCalls = new Map()
-    this.messageQueue = new Map()
+    this.config = { ...DEFAULT_OUTBOX_CONFIG, ...config }
+  }
+
+  start(): void {
+    if (this.pollTimer) return
+
+    this.pollTimer = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error('Message outbox tick failed:', error)
+      })
+    }, this.config.pollInterval)
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+
+    // Let in-flight sends finish so their results are recorded
+    await Promise.allSettled(Array.from(this.activeJobs))
+  }
+
+  async tick(): Promise<number> {
+    if (this.ticking) return 0
+    this.ticking = true
+
+    try {
+      const jobs = await this.claimDueMessages()
+      await Promise.all(jobs.map((job) => this.track(this.deliverMessage(job))))
+      return jobs.length
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  private track(job: Promise<void>): Promise<void> {
+    this.activeJobs.add(job)
+    return job.finally(() => {
+      this.activeJobs.delete(job)
+    })
+  }
+
+  // Queues the message for sending. The message id doubles as the
+  // idempotency key: sending the same id again returns the queued message.
+  async sendMessage(message: UnifiedMessage): Promise<string> {
+    const account = await this.getSenderAccount(message)
+    const externalReceiverId = await this.getRecipientId(message)
+
+    try {
+      await prisma.message.create({
+        data: {
+          id: message.id,
+          senderId: message.senderId,
+          receiverId: message.receiverId,
+          externalReceiverId,
+          platform: message.platform,
+          accountId: account.id,
+          conversationId: message.conversationId,
+          content: await encrypt(message.content),
+          media: message.media,
+          isRead: false,
+          metadata: message.metadata,
+          delivery: {
+            create: { senderId: message.senderId },
+          },
+        },
+      })
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return message.id
+      }
+      throw error
+    }
+
+    this.emitStatus(message.senderId, message.id, {
+      status: MessageDeliveryStatus.QUEUED,
+      platform: message.platform,
+      accountId: account.id,
+      conversationId: message.conversationId,
+    })
+    return message.id
   }
 
-  async initialize(): Promise<void> {
-    // Start message queue processor
-    setInterval(() => {
-      this.processMessageQueue()
-    }, 1000) // Process every second
+  // Queues a failed message again with a fresh set of attempts
+  async retryMessage(userId: string, messageId: string): Promise<boolean> {
+    const { count } = await prisma.messageDelivery.updateMany({
+      where: {
+        messageId,
+        senderId: userId,
+        status: MessageDeliveryStatus.FAILED,
+      },
+      data: {
+        status: MessageDeliveryStatus.QUEUED,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lastError: null,
+        failedAt: null,
+      },
+    })
+    if (count === 0) return false
+
+    this.emitStatus(userId, messageId, { status: MessageDeliveryStatus.QUEUED })
+    return true
   }
 
-  private async processMessageQueue(): Promise<void> {
-    for (const [userId, messages] of this.messageQueue.entries()) {
-      if (messages.length === 0) continue
+  /**
+   * Applies a delivery or read receipt from the platform. Receipts name the
+   * message, or only the recipient when the platform reports everything sent
+   * to them up to `at` (Messenger's read watermark).
+   */
+  async recordReceipt(
+    accountId: string,
+    status: 'DELIVERED' | 'READ',
+    receipt: { platformMessageId?: string; recipientId?: string; at?: Date }
+  ): Promise<number> {
+    if (!receipt.platformMessageId && !receipt.recipientId) return 0
+
+    const at = receipt.at || new Date()
+    const earlier = RECEIPT_ORDER.slice(0, RECEIPT_ORDER.indexOf(status))
+
+    const deliveries = await prisma.messageDelivery.findMany({
+      where: {
+        status: { in: earlier },
+        message: receipt.platformMessageId
+          ? { accountId, platformMessageId: receipt.platformMessageId }
+          : { accountId, externalReceiverId: receipt.recipientId, createdAt: { lte: at } },
+      },
+      select: { id: true, messageId: true, senderId: true },
+    })
 
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        include: { accounts: true },
+    let updated = 0
+    for (const delivery of deliveries) {
+      const { count } = await prisma.messageDelivery.updateMany({
+        where: { id: delivery.id, status: { in: earlier } },
+        data: status === MessageDeliveryStatus.READ
+          ? { status, readAt: at }
+          : { status, deliveredAt: at },
       })
+      if (count === 0) continue
 
-      if (!user) continue
+      if (status === MessageDeliveryStatus.READ) {
+        await prisma.message.update({
+          where: { id: delivery.messageId },
+          data: { isRead: true },
+        })
+      }
+      this.emitStatus(delivery.senderId, delivery.messageId, { status })
+      updated++
+    }
+    return updated
+  }
 
-      for (const message of messages) {
-        try {
-          await this.deliverMessage(message, user)
-        } catch (error) {
-          console.error(`Error delivering message to user ${userId}:`, error)
-        }
+  // The account the sender may answer messages with
+  private async getSenderAccount(message: UnifiedMessage): Promise<Account> {
+    const account = message.accountId
+      ? await getAccount(message.senderId, message.accountId, 'inbox:reply')
+      : (await getAccessibleAccounts(message.senderId, 'inbox:reply', { platform: message.platform }))[0]
+
+    if (!account) {
+      throw new Error(`No ${message.platform} account to send the message from`)
+    }
+    if (account.platform !== message.platform) {
+      throw new Error(`Account ${account.id} is not a ${message.platform} account`)
+    }
+    return account
+  }
+
+  private async getRecipientId(message: UnifiedMessage): Promise<string> {
+    if (message.externalReceiverId) return message.externalReceiverId
+
+    const account = message.receiverId
+      ? await prisma.account.findFirst({
+          where: { userId: message.receiverId, platform: message.platform },
+          orderBy: { createdAt: 'asc' },
+        })
+      : null
+    if (!account) {
+      throw new Error(`The recipient has no ${message.platform} account to receive the message`)
+    }
+    return account.platformUserId
+  }
+
+  private async claimDueMessages(): Promise<OutboxJob[]> {
+    const now = new Date()
+    const claimable = {
+      status: MessageDeliveryStatus.QUEUED,
+      nextAttemptAt: { lte: now },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+    }
+
+    const candidates = await prisma.messageDelivery.findMany({
+      where: claimable,
+      select: { id: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: this.config.batchSize,
+    })
+
+    const claimed: OutboxJob[] = []
+    for (const { id } of candidates) {
+      // The conditional update is the claim: only one worker moves the lease
+      const { count } = await prisma.messageDelivery.updateMany({
+        where: { id, ...claimable },
+        data: {
+          lockedBy: this.workerId,
+          lockedUntil: new Date(now.getTime() + this.config.leaseDuration),
+          attempts: { increment: 1 },
+        },
+      })
+
+      if (count === 1) {
+        const job = await prisma.messageDelivery.findUnique({
+          where: { id },
+          include: { message: true },
+        })
+        if (job) claimed.push(job)
+      }
+    }
+
+    return claimed
+  }
+
+  private async deliverMessage(job: OutboxJob): Promise<void> {
+    const { message } = job
+    let platformMessageId: string
+
+    try {
+      const account = message.accountId
+        ? await prisma.account.findUnique({ where: { id: message.accountId } })
+        : null
+      if (!account) {
+        await this.releaseMessage(job, {
+          code: 'ACCOUNT_NOT_FOUND',
+          message: `Account ${message.accountId} is no longer connected`,
+        })
+        return
+      }
+
+      const connector = await getAccountProvider(account)
+      if (!connector.sendDirectMessage) {
+        await this.releaseMessage(job, {
+          code: 'UNSUPPORTED_FEATURE',
+          message: `${connector.name} does not support direct messages`,
+        })
+        return
       }
 
-      this.messageQueue.set(userId, [])
+      // Stop if the lease was taken over while the message waited
+      if (!(await this.renewLease(job.id))) {
+        return
+      }
+
+      platformMessageId = await connector.sendDirectMessage({
+        recipientId: message.externalReceiverId as string,
+        content: await decrypt(message.content),
+        mediaUrls: (message.media as Array<{ url: string }>).map((item) => item.url),
+        // Connectors that support it drop a resend after a lost response
+        idempotencyKey: message.id,
+      })
+    } catch (error) {
+      console.error(`Error delivering message ${message.id}:`, error)
+      await this.releaseMessage(job, error as any)
+      return
+    }
+
+    // The message is out: the entry is settled first, so a failure from
+    // here on cannot queue it again
+    try {
+      const sentAt = new Date()
+      const settled = await this.settle(job.id, { status: MessageDeliveryStatus.SENT, sentAt, lastError: null })
+      await prisma.message.update({
+        where: { id: message.id },
+        data: { platformMessageId },
+      })
+      if (settled) {
+        this.emitStatus(job.senderId, message.id, {
+          status: MessageDeliveryStatus.SENT,
+          platformMessageId,
+          sentAt,
+        })
+      }
+    } catch (error) {
+      console.error(`Error recording sent message ${message.id}:`, error)
     }
   }
 
-  private async deliverMessage(message: UnifiedMessage, user: any): Promise<void> {
-    const account = user.accounts.find((acc: any) => acc.platform === message.platform)
-    if (!account) return
+  private async renewLease(id: string): Promise<boolean> {
+    const { count } = await prisma.messageDelivery.updateMany({
+      where: { id, status: MessageDeliveryStatus.QUEUED, lockedBy: this.workerId },
+      data: { lockedUntil: new Date(Date.now() + this.config.leaseDuration) },
+    })
+    return count === 1
+  }
+
+  private async releaseMessage(job: OutboxJob, error: any): Promise<void> {
+    const lastError = error?.message || 'Delivery failed'
+
+    if (job.attempts < job.maxAttempts && !PERMANENT_ERRORS.has(error?.code)) {
+      // A rate limit carries the time the platform accepts calls again
+      const delay = Math.max(this.getRetryDelay(job.attempts), (error?.retryAfter || 0) * 1000)
+      const nextAttemptAt = new Date(Date.now() + delay)
+      if (await this.settle(job.id, { status: MessageDeliveryStatus.QUEUED, nextAttemptAt, lastError })) {
+        this.emitStatus(job.senderId, job.messageId, {
+          status: MessageDeliveryStatus.QUEUED,
+          attempts: job.attempts,
+          nextAttemptAt,
+          error: lastError,
+        })
+      }
+      return
+    }
 
-    // Encrypt message content
-    const encryptedContent = await encrypt(message.content)
+    if (await this.settle(job.id, { status: MessageDeliveryStatus.FAILED, failedAt: new Date(), lastError })) {
+      this.emitStatus(job.senderId, job.messageId, {
+        status: MessageDeliveryStatus.FAILED,
+        attempts: job.attempts,
+        error: lastError,
+      })
+    }
+  }
 
-    // Store in database
-    const dbMessage = await prisma.message.create({
+  // Only the lease holder may settle the entry, so a worker whose lease ran
+  // out cannot overwrite the outcome of the one that took over
+  private async settle(id: string, data: Prisma.MessageDeliveryUpdateManyMutationInput): Promise<boolean> {
+    const { count } = await prisma.messageDelivery.updateMany({
+      where: { id, status: MessageDeliveryStatus.QUEUED, lockedBy: this.workerId },
       data: {
-        senderId: message.senderId,
-        receiverId: message.receiverId,
-        platform: message.platform,
-        content: encryptedContent,
-        media: message.media,
-        isRead: false,
-        metadata: message.metadata,
+        ...data,
+        lockedBy: null,
+        lockedUntil: null,
       },
     })
+    return count === 1
+  }
 
-    // Send through WebSocket if user is online
-    this.ws.emitToUser(message.receiverId, 'new_message', {
-      messageId: dbMessage.id,
-      senderId: message.senderId,
-      content: message.content,
-      platform: message.platform,
-      timestamp: new Date(),
-    })
+  private getRetryDelay(attempts: number): number {
+    const delay = this.config.retryBaseDelay * Math.pow(2, Math.max(0, attempts - 1))
+    return Math.min(delay, this.config.retryMaxDelay)
   }
 
-  async sendMessage(message: UnifiedMessage): Promise<string> {
-    // Add to message queue
-    const queue = this.messageQueue.get(message.receiverId) || []
-    queue.push(message)
-    this.messageQueue.set(message.receiverId, queue)
+  private emitStatus(userId: string, messageId: string, data: Record<string, any>): void {
+    this.emit(userId, 'message_status', { messageId, ...data })
+  }
 
-    return message.id
+  private emit(userId: string, event: string, data: any): void {
+    try {
+      getWebSocketService().emitToUser(userId, event, data)
+    } catch {
+      // No socket server in this process; clients pick the change up on refresh
+    }
   }
 
   async getUnifiedInbox(userId: string, filters?: {
@@ -145,6 +484,7 @@ export class UnifiedMessenger {
       include: {
         sender: true,
         receiver: true,
+        delivery: true,
       },
       orderBy: {
         createdAt: 'desc',
@@ -158,13 +498,17 @@ export class UnifiedMessenger {
         return {
           id: msg.id,
           content: decryptedContent,
-          media: msg.media,
-          senderId: msg.senderId,
-          receiverId: msg.receiverId,
+          media: msg.media as UnifiedMessage['media'],
+          senderId: msg.senderId ?? (msg.externalSenderId as string),
+          receiverId: msg.receiverId ?? undefined,
+          externalReceiverId: msg.externalReceiverId ?? undefined,
           platform: msg.platform,
+          accountId: msg.accountId ?? undefined,
+          conversationId: msg.conversationId ?? undefined,
           isRead: msg.isRead,
+          deliveryStatus: msg.delivery?.status,
           timestamp: msg.createdAt,
-          metadata: msg.metadata,
+          metadata: msg.metadata as UnifiedMessage['metadata'],
         }
       })
     )
@@ -245,13 +589,13 @@ export class UnifiedMessenger {
     this.activeCalls.set(session.id, session)
 
     // Notify participants
-    this.ws.emitToUser(callerId, 'call_initiated', {
+    this.emit(callerId, 'call_initiated', {
       sessionId: session.id,
       type,
       receiverId,
     })
 
-    this.ws.emitToUser(receiverId, 'incoming_call', {
+    this.emit(receiverId, 'incoming_call', {
       sessionId: session.id,
       type,
       callerId,
@@ -285,7 +629,7 @@ export class UnifiedMessenger {
 
     // Notify participants
     for (const participant of session.participants) {
-      this.ws.emitToUser(participant.userId, 'call_ended', {
+      this.emit(participant.userId, 'call_ended', {
         sessionId,
         duration: session.endTime.getTime() - session.startTime.getTime(),
       })
@@ -305,7 +649,7 @@ export class UnifiedMessenger {
 
     // Notify participants
     for (const participant of session.participants) {
-      this.ws.emitToUser(participant.userId, 'call_quality_updated', {
+      this.emit(participant.userId, 'call_quality_updated', {
         sessionId,
         quality,
       })
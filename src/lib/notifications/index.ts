@@ -13,12 +13,15 @@ export interface Notification {
   userId: string
 }
 
+const isServer = typeof window === 'undefined'
+
 export class NotificationService {
   private static instance: NotificationService
   private webPushEnabled: boolean
 
+  // Also used by server code, which has no push support of its own
   private constructor() {
-    this.webPushEnabled = 'serviceWorker' in navigator && 'PushManager' in window
+    this.webPushEnabled = !isServer && 'serviceWorker' in navigator && 'PushManager' in window
   }
 
   static getInstance(): NotificationService {
@@ -50,15 +53,20 @@ export class NotificationService {
 
   async createNotification(notification: Omit<Notification, 'id' | 'createdAt' | 'read'>) {
     try {
-      const savedNotification = await prisma.notification.create({
+      const savedNotification = (await prisma.notification.create({
         data: {
           ...notification,
+          data: notification.data ?? {},
           read: false,
         },
-      })
+      })) as Notification
 
       // Emit real-time notification
-      realtime.emit('notification:new', savedNotification)
+      if (isServer) {
+        await this.emitToUser(notification.userId, 'notification', savedNotification)
+      } else {
+        realtime.emit('notification:new', savedNotification)
+      }
 
       // Send push notification
       await this.sendPushNotification(savedNotification)
@@ -168,7 +176,23 @@ export class NotificationService {
     }
   }
 
+  // The server reaches the user's socket directly. Server-only modules are
+  // loaded here so the browser bundle does not pull them in.
+  private async emitToUser(userId: string, event: string, data: any) {
+    try {
+      const { getWebSocketService } = await import('../websocket')
+      getWebSocketService().emitToUser(userId, event, data)
+    } catch (error) {
+      // Not running alongside the socket server; the notification is stored
+    }
+  }
+
   private async sendEmailNotification(notification: Notification) {
+    if (isServer) {
+      await this.sendServerEmail(notification)
+      return
+    }
+
     try {
       const user = await prisma.user.findUnique({
         where: { id: notification.userId },
@@ -194,6 +218,30 @@ export class NotificationService {
     }
   }
 
+  private async sendServerEmail(notification: Notification) {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: notification.userId },
+        select: {
+          email: true,
+          settings: { select: { emailNotifications: true } },
+        },
+      })
+
+      if (!user?.email || user.settings?.emailNotifications === false) return
+
+      const { email } = await import('../email')
+      await email.sendNotificationEmail(
+        user.email,
+        notification.title,
+        notification.message,
+        notification.data?.actionUrl || `${env.APP_URL}/notifications`
+      )
+    } catch (error) {
+      console.error('Error sending email notification:', error)
+    }
+  }
+
   private generateEmailHtml(notification: Notification): string {
     return `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
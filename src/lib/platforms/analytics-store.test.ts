@@ -0,0 +1,92 @@
+import { Platform } from '@prisma/client'
+import { saveAnalyticsSnapshot } from './analytics-store'
+
+jest.mock('@prisma/client', () => {
+  class PrismaClientKnownRequestError extends Error {
+    constructor(message: string, public code: string) {
+      super(message)
+    }
+  }
+
+  return {
+    Prisma: { PrismaClientKnownRequestError },
+    AnalyticsGranularity: { HOUR: 'HOUR', DAY: 'DAY', WEEK: 'WEEK' }
+  }
+})
+jest.mock('../db', () => {
+  const tx = {
+    analytics: { findFirst: jest.fn(), updateMany: jest.fn(), create: jest.fn() },
+    post: { findUnique: jest.fn() },
+    analyticsRollup: { upsert: jest.fn() }
+  }
+  return {
+    mockTx: tx,
+    prisma: { $transaction: jest.fn((run: (client: typeof tx) => unknown) => run(tx)) }
+  }
+})
+jest.mock('../workspaces/access', () => ({}))
+
+const { mockTx } = jest.requireMock('../db')
+
+const TODAY = new Date('2025-01-02T00:00:00Z')
+const YESTERDAY = new Date('2025-01-01T00:00:00Z')
+const MASTODON = 'MASTODON' as Platform
+
+function snapshot(date: Date, views: number, likes: number) {
+  return { id: `snapshot-${date.getTime()}`, postId: 'post-1', date, views, likes, comments: 0, shares: 0 }
+}
+
+function counts(views: number, likes: number) {
+  return { views, likes, comments: 0, shares: 0, engagement: 0, date: new Date('2025-01-02T09:30:00Z') }
+}
+
+describe('saveAnalyticsSnapshot', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockTx.post.findUnique.mockResolvedValue({ userId: 'user-1', accountId: 'acc-1' })
+    mockTx.analytics.create.mockImplementation(async ({ data }: { data: object }) => data)
+  })
+
+  it('only records a baseline for the first snapshot of a post', async () => {
+    mockTx.analytics.findFirst.mockResolvedValue(null)
+
+    await saveAnalyticsSnapshot('post-1', MASTODON, counts(5000, 200))
+
+    expect(mockTx.analytics.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ postId: 'post-1', date: TODAY, views: 5000 })
+    })
+    expect(mockTx.analyticsRollup.upsert).not.toHaveBeenCalled()
+  })
+
+  it('adds the change since the previous day to the rollups', async () => {
+    mockTx.analytics.findFirst.mockResolvedValue(snapshot(YESTERDAY, 100, 10))
+
+    await saveAnalyticsSnapshot('post-1', MASTODON, counts(150, 12))
+
+    expect(mockTx.analyticsRollup.upsert).toHaveBeenCalledTimes(3)
+    expect(mockTx.analyticsRollup.upsert.mock.calls[1][0]).toMatchObject({
+      where: { accountId_granularity_bucketStart: { accountId: 'acc-1', granularity: 'DAY', bucketStart: TODAY } },
+      update: { views: { increment: 50 }, likes: { increment: 2 } }
+    })
+  })
+
+  it('retries against the counts a concurrent sync stored, so a change is counted once', async () => {
+    mockTx.analytics.findFirst
+      .mockResolvedValueOnce(snapshot(TODAY, 100, 10))
+      .mockResolvedValueOnce(snapshot(TODAY, 140, 11))
+    // The other sync replaced today's counts first
+    mockTx.analytics.updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 })
+
+    await saveAnalyticsSnapshot('post-1', MASTODON, counts(150, 12))
+
+    expect(mockTx.analytics.updateMany).toHaveBeenLastCalledWith({
+      where: { id: `snapshot-${TODAY.getTime()}`, views: 140, likes: 11, comments: 0, shares: 0 },
+      data: expect.objectContaining({ views: 150, likes: 12 })
+    })
+    expect(mockTx.analyticsRollup.upsert).toHaveBeenCalledTimes(3)
+    expect(mockTx.analyticsRollup.upsert.mock.calls[0][0].update).toMatchObject({
+      views: { increment: 10 },
+      likes: { increment: 1 }
+    })
+  })
+})
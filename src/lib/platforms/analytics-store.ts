@@ -0,0 +1,531 @@
+import { Account, AnalyticsGranularity, Platform, Prisma } from '@prisma/client'
+import { prisma } from '../db'
+import { getWorkspaceScope, inScope } from '../workspaces/access'
+
+export interface MetricCounts {
+  views: number
+  likes: number
+  comments: number
+  shares: number
+}
+
+export interface MetricSnapshot extends MetricCounts {
+  engagement: number
+  date?: Date
+}
+
+export interface AnalyticsFilter {
+  workspaceId?: string | null // the user's personal accounts when not set
+  platforms?: Platform[]
+  accountIds?: string[]
+}
+
+export interface AnalyticsQuery extends AnalyticsFilter {
+  from: Date
+  to: Date
+  granularity: AnalyticsGranularity
+}
+
+export interface AnalyticsBucket extends MetricCounts {
+  start: Date
+  engagement: number
+}
+
+export interface FollowerPoint {
+  start: Date
+  accountId: string
+  platform: Platform
+  followers: number
+  following: number
+}
+
+export interface TopPost extends MetricCounts {
+  postId: string
+  platform: Platform
+  accountId: string | null
+  content: string
+  engagement: number
+}
+
+export interface AnalyticsSeries {
+  granularity: AnalyticsGranularity
+  from: Date
+  to: Date
+  totals: AnalyticsBucket & {
+    followers: number
+    followerChange: number
+  }
+  buckets: AnalyticsBucket[]
+  followers: FollowerPoint[]
+  topPosts: TopPost[]
+}
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+const BUCKET_LENGTH: Record<AnalyticsGranularity, number> = {
+  HOUR,
+  DAY,
+  WEEK: 7 * DAY,
+}
+
+// Keeps a single query from expanding into an unbounded series
+const MAX_BUCKETS = 2000
+const TOP_POST_COUNT = 5
+
+export function getBucketStart(date: Date, granularity: AnalyticsGranularity): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  switch (granularity) {
+    case 'HOUR':
+      return new Date(start.getTime() + date.getUTCHours() * HOUR)
+    case 'DAY':
+      return start
+    case 'WEEK':
+      // Weeks start on Monday
+      return new Date(start.getTime() - ((start.getUTCDay() + 6) % 7) * DAY)
+  }
+}
+
+// Analytics keep one row per post per UTC day; repeated syncs on the same
+// day overwrite that day's counts instead of appending rows
+export function getSnapshotDate(date: Date = new Date()): Date {
+  return getBucketStart(date, 'DAY')
+}
+
+function getEngagement(counts: MetricCounts): number {
+  return (counts.likes + counts.comments + counts.shares) / (counts.views || 1)
+}
+
+// A snapshot written concurrently for the same post is retried against the
+// counts that won
+const SNAPSHOT_ATTEMPTS = 3
+
+class SnapshotConflictError extends Error {}
+
+/**
+ * Stores the post's counts as today's snapshot and adds the change since the
+ * previous snapshot to the account's hourly, daily and weekly rollups. The
+ * first snapshot of a post only records a baseline, since its counts were
+ * gained over the post's lifetime and not in the current buckets.
+ *
+ * Today's snapshot is only replaced while it still holds the counts the
+ * change was taken from, so concurrent syncs of a post never count the same
+ * change twice.
+ */
+export async function saveAnalyticsSnapshot(
+  postId: string,
+  platform: Platform,
+  analytics: MetricSnapshot
+) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await writeSnapshot(postId, platform, analytics)
+    } catch (error) {
+      const conflict =
+        error instanceof SnapshotConflictError ||
+        (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')
+      if (!conflict || attempt >= SNAPSHOT_ATTEMPTS) throw error
+    }
+  }
+}
+
+async function writeSnapshot(postId: string, platform: Platform, analytics: MetricSnapshot) {
+  const counts = {
+    views: analytics.views,
+    likes: analytics.likes,
+    comments: analytics.comments,
+    shares: analytics.shares,
+    engagement: analytics.engagement,
+  }
+  const capturedAt = analytics.date || new Date()
+  const date = getSnapshotDate(capturedAt)
+
+  return prisma.$transaction(async (tx) => {
+    const previous = await tx.analytics.findFirst({
+      where: {
+        postId,
+        date: { lte: date },
+      },
+      orderBy: { date: 'desc' },
+    })
+
+    let snapshot
+    if (previous && previous.date.getTime() === date.getTime()) {
+      const { count } = await tx.analytics.updateMany({
+        where: {
+          id: previous.id,
+          views: previous.views,
+          likes: previous.likes,
+          comments: previous.comments,
+          shares: previous.shares,
+        },
+        data: counts,
+      })
+      if (count === 0) {
+        throw new SnapshotConflictError(`Analytics of post ${postId} changed while saving`)
+      }
+      snapshot = { ...previous, ...counts }
+    } else {
+      // A concurrent first write of the day fails on the unique key and is retried
+      snapshot = await tx.analytics.create({
+        data: {
+          postId,
+          platform,
+          date,
+          ...counts,
+        },
+      })
+    }
+
+    const post = await tx.post.findUnique({
+      where: { id: postId },
+      select: { userId: true, accountId: true },
+    })
+    // Posts from before connected accounts existed have nothing to roll up to
+    if (previous && post?.accountId) {
+      await addToRollups(tx, { ...post, accountId: post.accountId, platform }, capturedAt, {
+        views: counts.views - previous.views,
+        likes: counts.likes - previous.likes,
+        comments: counts.comments - previous.comments,
+        shares: counts.shares - previous.shares,
+      })
+    }
+
+    return snapshot
+  })
+}
+
+// Counts can go down (unlikes, deleted comments), so changes may be negative
+async function addToRollups(
+  tx: Prisma.TransactionClient,
+  owner: { userId: string; accountId: string; platform: Platform },
+  at: Date,
+  change: MetricCounts
+): Promise<void> {
+  if (!change.views && !change.likes && !change.comments && !change.shares) return
+
+  for (const granularity of Object.values(AnalyticsGranularity)) {
+    const bucketStart = getBucketStart(at, granularity)
+    await tx.analyticsRollup.upsert({
+      where: {
+        accountId_granularity_bucketStart: {
+          accountId: owner.accountId,
+          granularity,
+          bucketStart,
+        },
+      },
+      update: {
+        views: { increment: change.views },
+        likes: { increment: change.likes },
+        comments: { increment: change.comments },
+        shares: { increment: change.shares },
+      },
+      create: {
+        ...owner,
+        granularity,
+        bucketStart,
+        ...change,
+      },
+    })
+  }
+}
+
+// Keeps the last counts seen in each hour
+export async function recordFollowerSnapshot(
+  account: Pick<Account, 'id' | 'platform'>,
+  followers: number,
+  following: number,
+  at: Date = new Date()
+) {
+  const capturedAt = getBucketStart(at, 'HOUR')
+
+  return prisma.followerSnapshot.upsert({
+    where: {
+      accountId_capturedAt: { accountId: account.id, capturedAt },
+    },
+    update: { followers, following },
+    create: {
+      accountId: account.id,
+      platform: account.platform,
+      followers,
+      following,
+      capturedAt,
+    },
+  })
+}
+
+// Accounts in the filter's scope that the user may view
+export async function findAccounts(userId: string, filter: AnalyticsFilter = {}) {
+  const scope = await getWorkspaceScope(userId, filter.workspaceId)
+  const accounts = await prisma.account.findMany({
+    where: {
+      ...scope.where,
+      ...(filter.platforms?.length ? { platform: { in: filter.platforms } } : {}),
+      ...(filter.accountIds?.length ? { id: { in: filter.accountIds } } : {}),
+    },
+    select: { id: true, platform: true },
+  })
+  return accounts.filter((account) => inScope(scope, [account.id]))
+}
+
+// Lifetime totals of the posts on the matching accounts, from each post's
+// latest snapshot
+export async function getMetricTotals(
+  userId: string,
+  filter: AnalyticsFilter = {}
+): Promise<MetricSnapshot> {
+  const accountIds = (await findAccounts(userId, filter)).map((account) => account.id)
+  const latest = await prisma.analytics.findMany({
+    where: {
+      post: {
+        accountId: { in: accountIds },
+      },
+    },
+    distinct: ['postId'],
+    orderBy: [{ postId: 'asc' }, { date: 'desc' }],
+  })
+
+  const totals = sumCounts(latest)
+  return {
+    ...totals,
+    engagement: getEngagement(totals),
+    date: new Date(),
+  }
+}
+
+function sumCounts(rows: MetricCounts[]): MetricCounts {
+  return rows.reduce(
+    (totals, row) => ({
+      views: totals.views + row.views,
+      likes: totals.likes + row.likes,
+      comments: totals.comments + row.comments,
+      shares: totals.shares + row.shares,
+    }),
+    { views: 0, likes: 0, comments: 0, shares: 0 }
+  )
+}
+
+/**
+ * Metrics gained per time bucket across the matching accounts, with every
+ * bucket in the range present (empty ones as zeros), follower history at the
+ * same granularity and the posts that gained the most engagement in the range.
+ */
+export async function getAnalyticsSeries(
+  userId: string,
+  query: AnalyticsQuery
+): Promise<AnalyticsSeries> {
+  const { granularity } = query
+  const from = getBucketStart(query.from, granularity)
+  const to = query.to
+
+  if (from > to) {
+    throw new Error('Analytics range must start before it ends')
+  }
+  if ((to.getTime() - from.getTime()) / BUCKET_LENGTH[granularity] > MAX_BUCKETS) {
+    throw new Error(`Analytics range is too long for ${granularity.toLowerCase()} buckets`)
+  }
+
+  const accountIds = (await findAccounts(userId, query)).map((account) => account.id)
+
+  const rollups = await prisma.analyticsRollup.groupBy({
+    by: ['bucketStart'],
+    where: {
+      accountId: { in: accountIds },
+      granularity,
+      bucketStart: { gte: from, lte: to },
+    },
+    _sum: {
+      views: true,
+      likes: true,
+      comments: true,
+      shares: true,
+    },
+  })
+  const sums = new Map(rollups.map((rollup) => [rollup.bucketStart.getTime(), rollup._sum]))
+
+  const buckets: AnalyticsBucket[] = []
+  for (let start = from.getTime(); start <= to.getTime(); start += BUCKET_LENGTH[granularity]) {
+    const sum = sums.get(start)
+    const counts = {
+      views: sum?.views || 0,
+      likes: sum?.likes || 0,
+      comments: sum?.comments || 0,
+      shares: sum?.shares || 0,
+    }
+    buckets.push({ start: new Date(start), ...counts, engagement: getEngagement(counts) })
+  }
+
+  const followers = await getFollowerHistory(accountIds, from, to, granularity)
+  const totals = sumCounts(buckets)
+
+  return {
+    granularity,
+    from,
+    to,
+    totals: {
+      start: from,
+      ...totals,
+      engagement: getEngagement(totals),
+      ...getFollowerTotals(followers),
+    },
+    buckets,
+    followers,
+    topPosts: await getTopPosts(accountIds, from, to),
+  }
+}
+
+// Metrics gained in the range per platform, from the daily rollups
+export async function getPlatformTotals(
+  accountIds: string[],
+  from: Date,
+  to: Date
+): Promise<Map<Platform, MetricCounts>> {
+  const rollups = await prisma.analyticsRollup.groupBy({
+    by: ['platform'],
+    where: {
+      accountId: { in: accountIds },
+      granularity: AnalyticsGranularity.DAY,
+      bucketStart: { gte: getBucketStart(from, 'DAY'), lt: to },
+    },
+    _sum: {
+      views: true,
+      likes: true,
+      comments: true,
+      shares: true,
+    },
+  })
+
+  return new Map(
+    rollups.map((rollup) => [
+      rollup.platform,
+      {
+        views: rollup._sum.views || 0,
+        likes: rollup._sum.likes || 0,
+        comments: rollup._sum.comments || 0,
+        shares: rollup._sum.shares || 0,
+      },
+    ])
+  )
+}
+
+// The follower counts of each account as last seen at the given time
+export async function getFollowerCounts(accountIds: string[], at: Date = new Date()) {
+  return prisma.followerSnapshot.findMany({
+    where: {
+      accountId: { in: accountIds },
+      capturedAt: { lte: at },
+    },
+    distinct: ['accountId'],
+    orderBy: [{ accountId: 'asc' }, { capturedAt: 'desc' }],
+  })
+}
+
+// The last snapshot of each account in each bucket
+async function getFollowerHistory(
+  accountIds: string[],
+  from: Date,
+  to: Date,
+  granularity: AnalyticsGranularity
+): Promise<FollowerPoint[]> {
+  const snapshots = await prisma.followerSnapshot.findMany({
+    where: {
+      accountId: { in: accountIds },
+      capturedAt: { gte: from, lte: to },
+    },
+    orderBy: { capturedAt: 'asc' },
+  })
+
+  const points = new Map<string, FollowerPoint>()
+  for (const snapshot of snapshots) {
+    const start = getBucketStart(snapshot.capturedAt, granularity)
+    points.set(`${snapshot.accountId}:${start.getTime()}`, {
+      start,
+      accountId: snapshot.accountId,
+      platform: snapshot.platform,
+      followers: snapshot.followers,
+      following: snapshot.following,
+    })
+  }
+
+  return Array.from(points.values())
+}
+
+function getFollowerTotals(points: FollowerPoint[]): { followers: number; followerChange: number } {
+  const firstByAccount = new Map<string, FollowerPoint>()
+  const lastByAccount = new Map<string, FollowerPoint>()
+  for (const point of points) {
+    if (!firstByAccount.has(point.accountId)) {
+      firstByAccount.set(point.accountId, point)
+    }
+    lastByAccount.set(point.accountId, point)
+  }
+
+  let followers = 0
+  let followerChange = 0
+  for (const [accountId, last] of lastByAccount) {
+    followers += last.followers
+    followerChange += last.followers - (firstByAccount.get(accountId) as FollowerPoint).followers
+  }
+  return { followers, followerChange }
+}
+
+// Posts on the accounts ranked by the likes, comments and shares gained
+// within the range
+export async function getTopPosts(
+  accountIds: string[],
+  from: Date,
+  to: Date,
+  limit: number = TOP_POST_COUNT
+): Promise<TopPost[]> {
+  const fromDate = getSnapshotDate(from)
+  const latest = await prisma.analytics.findMany({
+    where: {
+      date: { gte: fromDate, lte: to },
+      post: {
+        accountId: { in: accountIds },
+      },
+    },
+    distinct: ['postId'],
+    orderBy: [{ postId: 'asc' }, { date: 'desc' }],
+    include: {
+      post: {
+        select: { content: true, accountId: true },
+      },
+    },
+  })
+
+  // The last snapshot before the range is the baseline for the gain
+  const baselines = await prisma.analytics.findMany({
+    where: {
+      postId: { in: latest.map((snapshot) => snapshot.postId) },
+      date: { lt: fromDate },
+    },
+    distinct: ['postId'],
+    orderBy: [{ postId: 'asc' }, { date: 'desc' }],
+  })
+  const baselineByPost = new Map<string, MetricCounts>(
+    baselines.map((baseline) => [baseline.postId, baseline])
+  )
+
+  const gained = latest.map((snapshot) => {
+    const baseline = baselineByPost.get(snapshot.postId)
+    const counts = {
+      views: snapshot.views - (baseline?.views || 0),
+      likes: snapshot.likes - (baseline?.likes || 0),
+      comments: snapshot.comments - (baseline?.comments || 0),
+      shares: snapshot.shares - (baseline?.shares || 0),
+    }
+    return {
+      postId: snapshot.postId,
+      platform: snapshot.platform,
+      accountId: snapshot.post.accountId,
+      content: snapshot.post.content,
+      ...counts,
+      engagement: getEngagement(counts),
+    }
+  })
+
+  return gained
+    .sort((a, b) => b.likes + b.comments + b.shares - (a.likes + a.comments + a.shares))
+    .slice(0, limit)
+}
@@ -0,0 +1,56 @@
+import { Platform } from '@prisma/client'
+import { countCharacters, getContentRules, resolveVariant, validateVariant } from './content-rules'
+
+const BLUESKY = 'BLUESKY' as Platform
+const MASTODON = 'MASTODON' as Platform
+
+describe('content rules', () => {
+  it('counts user-perceived characters on platforms that count graphemes', () => {
+    // One family emoji is seven code points
+    const family = '\u{1F468}‍\u{1F469}‍\u{1F467}‍\u{1F466}'
+
+    expect(countCharacters(`Hi ${family}`, getContentRules(BLUESKY))).toBe(4)
+    expect(countCharacters(`Hi ${family}`, { ...getContentRules(BLUESKY), countGraphemes: false })).toBe(10)
+  })
+
+  it('counts every link as a fixed length where the platform does', () => {
+    const text = `Read https://example.com/${'a'.repeat(100)}`
+
+    expect(countCharacters(text, getContentRules(MASTODON))).toBe(5 + 23)
+  })
+
+  it('publishes a platform its variant, falling back to the master draft per field', () => {
+    const master = { content: 'Hello', mediaUrls: ['https://cdn.example/a.png'] }
+    const variants = [{ platform: BLUESKY, content: 'Hello, sky' }]
+
+    expect(resolveVariant(master, variants, BLUESKY)).toEqual({
+      content: 'Hello, sky',
+      mediaUrls: ['https://cdn.example/a.png']
+    })
+    expect(resolveVariant(master, variants, MASTODON)).toEqual(master)
+  })
+
+  it('rejects a variant that is too long, unless the platform takes it as a thread', () => {
+    const media = [{ type: 'image' as const, url: 'https://cdn.example/a.png' }]
+
+    expect(validateVariant('INSTAGRAM' as Platform, { content: 'a'.repeat(2201), media })).toEqual([
+      expect.objectContaining({ severity: 'ERROR', code: 'CONTENT_TOO_LONG' })
+    ])
+    expect(validateVariant(BLUESKY, { content: 'a'.repeat(301) })).toEqual([
+      expect.objectContaining({ severity: 'WARNING', code: 'SPLIT_INTO_THREAD' })
+    ])
+  })
+
+  it('rejects a link too long for one post of a thread', () => {
+    const content = `${'Words '.repeat(50)}https://example.com/${'a'.repeat(300)}`
+
+    expect(validateVariant(BLUESKY, { content })).toEqual([
+      expect.objectContaining({ severity: 'WARNING', code: 'SPLIT_INTO_THREAD' }),
+      expect.objectContaining({ severity: 'ERROR', code: 'UNSPLITTABLE_WORD' })
+    ])
+    // Mastodon counts every link as 23 characters
+    expect(validateVariant(MASTODON, { content: content.repeat(2) })).toEqual([
+      expect.objectContaining({ severity: 'WARNING', code: 'SPLIT_INTO_THREAD' })
+    ])
+  })
+})
@@ -0,0 +1,368 @@
+import { Platform } from '@prisma/client'
+
+export interface MediaItem {
+  type: 'image' | 'video' | 'audio'
+  url: string
+  caption?: string
+  width?: number
+  height?: number
+  duration?: number // in seconds
+  size?: number // in bytes
+}
+
+// The text and media published to one platform
+export interface PostVariant {
+  content: string
+  media?: MediaItem[]
+}
+
+// A platform's own text or media in place of the master draft's. Publishes,
+// scheduled posts and drafts store a list of these as JSON.
+export type PlatformVariant = {
+  platform: Platform
+  content?: string | null
+  mediaUrls?: string[] | null
+}
+
+// CLICKABLE: links in the text become links. NOT_CLICKABLE: the platform
+// shows them as plain text (captions on Instagram, TikTok, ...).
+export type LinkHandling = 'CLICKABLE' | 'NOT_CLICKABLE'
+
+export interface PlatformContentRules {
+  maxLength: number
+  threadable?: boolean // long posts are split into a reply thread
+  urlLength?: number // platforms that count every link as a fixed length
+  countGraphemes?: boolean // count user-perceived characters, not code points
+  maxHashtags?: number
+  linkHandling: LinkHandling
+  requiresMedia?: boolean
+  maxMedia: number
+  mediaTypes: Array<MediaItem['type']>
+  allowMixedMedia: boolean // images and video in the same post
+  maxImageSize?: number // in bytes
+  maxVideoDuration?: number // in seconds
+  aspectRatio?: { min: number; max: number } // width / height
+}
+
+export type ContentIssueSeverity = 'ERROR' | 'WARNING'
+
+export interface ContentIssue {
+  platform: Platform
+  field: 'content' | 'media' | 'links' | 'hashtags'
+  severity: ContentIssueSeverity
+  code: string
+  message: string
+}
+
+const MB = 1024 * 1024
+
+export const PLATFORM_CONTENT_RULES: Record<Platform, PlatformContentRules> = {
+  FACEBOOK: {
+    maxLength: 63206,
+    linkHandling: 'CLICKABLE',
+    maxMedia: 10,
+    mediaTypes: ['image', 'video'],
+    allowMixedMedia: true,
+    maxImageSize: 10 * MB,
+    maxVideoDuration: 240 * 60,
+  },
+  INSTAGRAM: {
+    maxLength: 2200,
+    maxHashtags: 30,
+    linkHandling: 'NOT_CLICKABLE',
+    requiresMedia: true,
+    maxMedia: 10,
+    mediaTypes: ['image', 'video'],
+    allowMixedMedia: true,
+    maxImageSize: 8 * MB,
+    maxVideoDuration: 90,
+    aspectRatio: { min: 4 / 5, max: 1.91 },
+  },
+  TWITTER: {
+    maxLength: 280,
+    threadable: true,
+    urlLength: 23,
+    linkHandling: 'CLICKABLE',
+    maxMedia: 4,
+    mediaTypes: ['image', 'video'],
+    allowMixedMedia: false,
+    maxImageSize: 5 * MB,
+    maxVideoDuration: 140,
+  },
+  LINKEDIN: {
+    maxLength: 3000,
+    linkHandling: 'CLICKABLE',
+    maxMedia: 9,
+    mediaTypes: ['image', 'video'],
+    allowMixedMedia: false,
+    maxImageSize: 8 * MB,
+    maxVideoDuration: 10 * 60,
+  },
+  TIKTOK: {
+    maxLength: 2200,
+    linkHandling: 'NOT_CLICKABLE',
+    requiresMedia: true,
+    maxMedia: 1,
+    mediaTypes: ['video'],
+    allowMixedMedia: false,
+    maxVideoDuration: 10 * 60,
+    aspectRatio: { min: 9 / 16, max: 1 },
+  },
+  YOUTUBE: {
+    maxLength: 5000,
+    maxHashtags: 15,
+    linkHandling: 'CLICKABLE',
+    requiresMedia: true,
+    maxMedia: 1,
+    mediaTypes: ['video'],
+    allowMixedMedia: false,
+    maxVideoDuration: 12 * 60 * 60,
+  },
+  SNAPCHAT: {
+    maxLength: 250,
+    linkHandling: 'NOT_CLICKABLE',
+    requiresMedia: true,
+    maxMedia: 1,
+    mediaTypes: ['image', 'video'],
+    allowMixedMedia: false,
+    maxImageSize: 5 * MB,
+    maxVideoDuration: 60,
+    aspectRatio: { min: 9 / 16, max: 9 / 16 },
+  },
+  REDDIT: {
+    maxLength: 40000,
+    linkHandling: 'CLICKABLE',
+    maxMedia: 20,
+    mediaTypes: ['image', 'video'],
+    allowMixedMedia: false,
+    maxImageSize: 20 * MB,
+    maxVideoDuration: 15 * 60,
+  },
+  DISCORD: {
+    maxLength: 2000,
+    linkHandling: 'CLICKABLE',
+    maxMedia: 10,
+    mediaTypes: ['image', 'video', 'audio'],
+    allowMixedMedia: true,
+    maxImageSize: 25 * MB,
+  },
+  TELEGRAM: {
+    maxLength: 4096,
+    linkHandling: 'CLICKABLE',
+    maxMedia: 10,
+    mediaTypes: ['image', 'video', 'audio'],
+    allowMixedMedia: true,
+    maxImageSize: 10 * MB,
+  },
+  WHATSAPP: {
+    maxLength: 4096,
+    linkHandling: 'CLICKABLE',
+    maxMedia: 1,
+    mediaTypes: ['image', 'video', 'audio'],
+    allowMixedMedia: false,
+    maxImageSize: 5 * MB,
+  },
+  PINTEREST: {
+    maxLength: 500,
+    maxHashtags: 20,
+    linkHandling: 'CLICKABLE',
+    requiresMedia: true,
+    maxMedia: 1,
+    mediaTypes: ['image', 'video'],
+    allowMixedMedia: false,
+    maxImageSize: 20 * MB,
+    maxVideoDuration: 15 * 60,
+    aspectRatio: { min: 1 / 3.5, max: 1.91 },
+  },
+  TWITCH: {
+    maxLength: 500,
+    linkHandling: 'CLICKABLE',
+    maxMedia: 0,
+    mediaTypes: [],
+    allowMixedMedia: false,
+  },
+  MEDIUM: {
+    maxLength: 100000,
+    linkHandling: 'CLICKABLE',
+    maxMedia: 50,
+    mediaTypes: ['image', 'video'],
+    allowMixedMedia: true,
+    maxImageSize: 25 * MB,
+  },
+  WECHAT: {
+    maxLength: 2000,
+    linkHandling: 'NOT_CLICKABLE',
+    maxMedia: 9,
+    mediaTypes: ['image', 'video'],
+    allowMixedMedia: false,
+    maxImageSize: 10 * MB,
+    maxVideoDuration: 15 * 60,
+  },
+  THREADS: {
+    maxLength: 500,
+    threadable: true,
+    maxHashtags: 1,
+    linkHandling: 'CLICKABLE',
+    maxMedia: 10,
+    mediaTypes: ['image', 'video'],
+    allowMixedMedia: true,
+    maxImageSize: 8 * MB,
+    maxVideoDuration: 5 * 60,
+  },
+  MASTODON: {
+    maxLength: 500,
+    threadable: true,
+    urlLength: 23,
+    linkHandling: 'CLICKABLE',
+    maxMedia: 4,
+    mediaTypes: ['image', 'video', 'audio'],
+    allowMixedMedia: false,
+    maxImageSize: 16 * MB,
+  },
+  BLUESKY: {
+    maxLength: 300,
+    threadable: true,
+    countGraphemes: true,
+    linkHandling: 'CLICKABLE',
+    maxMedia: 4,
+    mediaTypes: ['image', 'video'],
+    allowMixedMedia: false,
+    maxImageSize: 1 * MB,
+    maxVideoDuration: 3 * 60,
+  },
+}
+
+const URL_PATTERN = /https?:\/\/[^\s]+/g
+const HASHTAG_PATTERN = /(^|\s)#[\p{L}\p{N}_]+/gu
+// Links, mentions and hashtags, which a thread never cuts in half
+export const UNBREAKABLE_WORD = /^(https?:\/\/|www\.|@|#)/
+
+export function countCharacters(text: string, rules: PlatformContentRules): number {
+  let counted = text
+  let fixedLength = 0
+  if (rules.urlLength) {
+    counted = text.replace(URL_PATTERN, () => {
+      fixedLength += rules.urlLength as number
+      return ''
+    })
+  }
+
+  if (rules.countGraphemes && typeof Intl !== 'undefined' && typeof Intl.Segmenter === 'function') {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+    return Array.from(segmenter.segment(counted)).length + fixedLength
+  }
+  return Array.from(counted).length + fixedLength
+}
+
+// The links, mentions and hashtags too long for one part of a thread of
+// `total` parts, numbering included. Without a count, assumes the longest
+// numbering a thread could need.
+export function findUnsplittableWords(content: string, rules: PlatformContentRules, total = 99): string[] {
+  const limit = rules.maxLength - countCharacters(` ${total}/${total}`, rules)
+  return content.split(/\s+/).filter((word) => UNBREAKABLE_WORD.test(word) && countCharacters(word, rules) > limit)
+}
+
+const VIDEO_EXTENSIONS = ['mp4', 'mov', 'm4v', 'webm', 'avi']
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'wav', 'ogg', 'aac']
+
+// For media known only by URL, e.g. the mediaUrls of a cross-platform post
+export function mediaTypeFromUrl(url: string): MediaItem['type'] {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase() || ''
+  if (VIDEO_EXTENSIONS.includes(extension)) return 'video'
+  if (AUDIO_EXTENSIONS.includes(extension)) return 'audio'
+  return 'image'
+}
+
+// Variants as stored in a JSON column
+export function readVariants(value: unknown): PlatformVariant[] {
+  return Array.isArray(value) ? (value as PlatformVariant[]) : []
+}
+
+// What the platform publishes: its variant's text and media where set, the
+// master draft's otherwise
+export function resolveVariant(
+  master: { content: string; mediaUrls: string[] },
+  variants: PlatformVariant[] | null | undefined,
+  platform: Platform
+): { content: string; mediaUrls: string[] } {
+  const variant = variants?.find((item) => item.platform === platform)
+  return {
+    content: variant?.content ?? master.content,
+    mediaUrls: variant?.mediaUrls ?? master.mediaUrls,
+  }
+}
+
+export function getContentRules(platform: Platform): PlatformContentRules {
+  return PLATFORM_CONTENT_RULES[platform]
+}
+
+// Returns every rule the variant breaks on the platform. ERROR issues block
+// publishing; WARNING issues are shown to the user but do not.
+export function validateVariant(platform: Platform, variant: PostVariant): ContentIssue[] {
+  const rules = getContentRules(platform)
+  const issues: ContentIssue[] = []
+  const issue = (
+    field: ContentIssue['field'],
+    severity: ContentIssueSeverity,
+    code: string,
+    message: string
+  ) => issues.push({ platform, field, severity, code, message })
+
+  const content = variant.content || ''
+  const media = variant.media || []
+
+  const length = countCharacters(content, rules)
+  if (length > rules.maxLength && rules.threadable) {
+    issue('content', 'WARNING', 'SPLIT_INTO_THREAD', `${length} characters, will be posted as a thread on ${platform}`)
+    for (const word of findUnsplittableWords(content, rules)) {
+      issue('content', 'ERROR', 'UNSPLITTABLE_WORD', `${word.slice(0, 30)}… is too long for one post of a ${platform} thread`)
+    }
+  } else if (length > rules.maxLength) {
+    issue('content', 'ERROR', 'CONTENT_TOO_LONG', `${length} characters, ${platform} allows ${rules.maxLength}`)
+  }
+  if (!content.trim() && media.length === 0) {
+    issue('content', 'ERROR', 'CONTENT_EMPTY', 'Add text or media')
+  }
+
+  const hashtags = content.match(HASHTAG_PATTERN) || []
+  if (rules.maxHashtags !== undefined && hashtags.length > rules.maxHashtags) {
+    issue('hashtags', 'ERROR', 'TOO_MANY_HASHTAGS', `${hashtags.length} hashtags, ${platform} allows ${rules.maxHashtags}`)
+  }
+
+  if (rules.linkHandling === 'NOT_CLICKABLE' && content.match(URL_PATTERN)) {
+    issue('links', 'WARNING', 'LINKS_NOT_CLICKABLE', `Links are not clickable in ${platform} posts`)
+  }
+
+  if (rules.requiresMedia && media.length === 0) {
+    issue('media', 'ERROR', 'MEDIA_REQUIRED', `${platform} posts need an image or video`)
+  }
+  if (media.length > rules.maxMedia) {
+    issue('media', 'ERROR', 'TOO_MANY_MEDIA', `${media.length} attachments, ${platform} allows ${rules.maxMedia}`)
+  }
+  if (!rules.allowMixedMedia && new Set(media.map((item) => item.type)).size > 1) {
+    issue('media', 'ERROR', 'MIXED_MEDIA', `${platform} does not allow different media types in one post`)
+  }
+
+  media.forEach((item, index) => {
+    const label = `Attachment ${index + 1}`
+    if (!rules.mediaTypes.includes(item.type)) {
+      issue('media', 'ERROR', 'UNSUPPORTED_MEDIA_TYPE', `${label}: ${platform} does not accept ${item.type}`)
+      return
+    }
+    if (item.type === 'image' && rules.maxImageSize && item.size && item.size > rules.maxImageSize) {
+      issue('media', 'ERROR', 'MEDIA_TOO_LARGE', `${label}: images on ${platform} must be under ${Math.floor(rules.maxImageSize / MB)} MB`)
+    }
+    if (item.type === 'video' && rules.maxVideoDuration && item.duration && item.duration > rules.maxVideoDuration) {
+      issue('media', 'ERROR', 'VIDEO_TOO_LONG', `${label}: videos on ${platform} must be at most ${rules.maxVideoDuration} seconds`)
+    }
+    if (rules.aspectRatio && item.width && item.height) {
+      const ratio = item.width / item.height
+      // Allow for rounding in the reported dimensions
+      if (ratio < rules.aspectRatio.min - 0.01 || ratio > rules.aspectRatio.max + 0.01) {
+        issue('media', 'WARNING', 'ASPECT_RATIO', `${label}: ${platform} crops media outside ${rules.aspectRatio.min.toFixed(2)}-${rules.aspectRatio.max.toFixed(2)} width/height`)
+      }
+    }
+  })
+
+  return issues
+}
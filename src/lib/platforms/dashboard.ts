@@ -0,0 +1,180 @@
+import { Platform } from '@prisma/client'
+import {
+  AnalyticsFilter,
+  MetricCounts,
+  findAccounts,
+  getBucketStart,
+  getFollowerCounts,
+  getPlatformTotals,
+  getTopPosts,
+} from './analytics-store'
+import { NormalizedMetrics, combineMetrics, normalizeMetrics } from './metrics'
+
+export interface DashboardQuery extends AnalyticsFilter {
+  from: Date
+  to: Date
+  topPostCount?: number
+}
+
+export interface MetricDelta {
+  current: number | null
+  previous: number | null
+  change: number | null
+  changeRate: number | null // change relative to the previous value
+}
+
+export interface DashboardMetrics extends NormalizedMetrics {
+  followers: number
+}
+
+export interface DashboardDeltas {
+  impressions: MetricDelta
+  reach: MetricDelta
+  interactions: MetricDelta
+  engagementRate: MetricDelta
+  followers: MetricDelta
+}
+
+export interface PlatformComparison {
+  platform: Platform
+  accounts: number
+  counts: MetricCounts
+  metrics: DashboardMetrics
+  deltas: DashboardDeltas
+}
+
+export interface DashboardTopPost extends MetricCounts {
+  postId: string
+  platform: Platform
+  accountId: string | null
+  content: string
+  metrics: NormalizedMetrics
+}
+
+export interface AnalyticsDashboard {
+  from: Date
+  to: Date
+  previousFrom: Date
+  previousTo: Date
+  metrics: DashboardMetrics
+  deltas: DashboardDeltas
+  platforms: PlatformComparison[]
+  topPosts: DashboardTopPost[]
+}
+
+const EMPTY_COUNTS: MetricCounts = { views: 0, likes: 0, comments: 0, shares: 0 }
+
+function getDelta(current: number | null, previous: number | null): MetricDelta {
+  const change = current !== null && previous !== null ? current - previous : null
+  return {
+    current,
+    previous,
+    change,
+    changeRate: change !== null && previous ? change / previous : null,
+  }
+}
+
+function getDeltas(current: DashboardMetrics, previous: DashboardMetrics): DashboardDeltas {
+  return {
+    impressions: getDelta(current.impressions, previous.impressions),
+    reach: getDelta(current.reach, previous.reach),
+    interactions: getDelta(current.interactions, previous.interactions),
+    engagementRate: getDelta(current.engagementRate, previous.engagementRate),
+    followers: getDelta(current.followers, previous.followers),
+  }
+}
+
+function sumFollowers(snapshots: Array<{ platform: Platform; followers: number }>, platform?: Platform): number {
+  return snapshots
+    .filter((snapshot) => !platform || snapshot.platform === platform)
+    .reduce((total, snapshot) => total + snapshot.followers, 0)
+}
+
+/**
+ * Normalized metrics for the range compared with the period of the same
+ * length just before it, overall and per platform, plus the posts that
+ * gained the most interactions. Ranges start at a UTC day boundary.
+ */
+export async function getAnalyticsDashboard(
+  userId: string,
+  query: DashboardQuery
+): Promise<AnalyticsDashboard> {
+  const from = getBucketStart(query.from, 'DAY')
+  const to = query.to
+  if (from >= to) {
+    throw new Error('Dashboard range must start before it ends')
+  }
+  const previousFrom = new Date(from.getTime() - (to.getTime() - from.getTime()))
+  const previousTo = from
+
+  const accounts = await findAccounts(userId, query)
+  const accountIds = accounts.map((account) => account.id)
+
+  const [current, previous, followers, previousFollowers, topPosts] = await Promise.all([
+    getPlatformTotals(accountIds, from, to),
+    getPlatformTotals(accountIds, previousFrom, previousTo),
+    getFollowerCounts(accountIds, to),
+    getFollowerCounts(accountIds, previousTo),
+    getTopPosts(accountIds, from, to, query.topPostCount),
+  ])
+
+  const platforms = Array.from(new Set(accounts.map((account) => account.platform)))
+  const comparisons = platforms.map((platform): PlatformComparison => {
+    const counts = current.get(platform) || EMPTY_COUNTS
+    const platformFollowers = sumFollowers(followers, platform)
+    const previousPlatformFollowers = sumFollowers(previousFollowers, platform)
+    const metrics = {
+      ...normalizeMetrics(platform, counts, platformFollowers),
+      followers: platformFollowers,
+    }
+    const previousMetrics = {
+      ...normalizeMetrics(platform, previous.get(platform) || EMPTY_COUNTS, previousPlatformFollowers),
+      followers: previousPlatformFollowers,
+    }
+
+    return {
+      platform,
+      accounts: accounts.filter((account) => account.platform === platform).length,
+      counts,
+      metrics,
+      deltas: getDeltas(metrics, previousMetrics),
+    }
+  })
+
+  const totalFollowers = sumFollowers(followers)
+  const previousTotalFollowers = sumFollowers(previousFollowers)
+  const metrics = {
+    ...combineMetrics(comparisons.map((comparison) => comparison.metrics), totalFollowers),
+    followers: totalFollowers,
+  }
+  const previousMetrics = {
+    ...combineMetrics(
+      platforms.map((platform) =>
+        normalizeMetrics(platform, previous.get(platform) || EMPTY_COUNTS)
+      ),
+      previousTotalFollowers
+    ),
+    followers: previousTotalFollowers,
+  }
+
+  return {
+    from,
+    to,
+    previousFrom,
+    previousTo,
+    metrics,
+    deltas: getDeltas(metrics, previousMetrics),
+    platforms: comparisons.sort((a, b) => b.metrics.interactions - a.metrics.interactions),
+    topPosts: topPosts.map((post) => ({
+      postId: post.postId,
+      platform: post.platform,
+      accountId: post.accountId,
+      content: post.content,
+      views: post.views,
+      likes: post.likes,
+      comments: post.comments,
+      shares: post.shares,
+      metrics: normalizeMetrics(post.platform, post),
+    })),
+  }
+}
@@ -1,16 +1,25 @@
-import { Platform } from '@prisma/client'
-import { env } from '../env'
+import { Account, AccountStatus, Platform } from '@prisma/client'
 import { prisma } from '../db'
-import { rateLimiters } from '../rate-limit'
-import { s3 } from '../s3'
-
-export interface PlatformConfig {
-  name: Platform
-  apiKey: string
-  apiSecret: string
-  baseUrl: string
-  scopes: string[]
-}
+import { encrypt } from '../crypto'
+import {
+  WorkspacePermission,
+  getAccessibleAccounts,
+  getWorkspaceScope,
+  requireAccountPermission,
+  requireWorkspacePermission,
+} from '../workspaces/access'
+import { BaseSocialProvider } from '../social/base-provider'
+import { SocialService } from '../social/social-service'
+import { SocialMediaAuth, SocialMediaPost } from '../social/types'
+import {
+  OAuthStateOptions,
+  createOAuthState,
+  consumeOAuthState,
+  generateCodeChallenge,
+  getAccountAuth,
+} from './oauth'
+import { splitIntoThread } from './thread-splitter'
+import { saveAnalyticsSnapshot } from './analytics-store'
 
 export interface PlatformPost {
   content: string
@@ -32,245 +41,420 @@ export interface PlatformAnalytics {
   date: Date
 }
 
-export abstract class BasePlatform {
-  protected config: PlatformConfig
-  protected rateLimiter: any
+// Platform access goes through the shared connector registry in lib/social.
+// The helpers below adapt connector types to the PlatformPost/PlatformAnalytics
+// shapes used by the unified manager.
+export async function getPlatformInstance(platform: Platform): Promise<BaseSocialProvider> {
+  return SocialService.getInstance().getProvider(platform)
+}
 
-  constructor(config: PlatformConfig) {
-    this.config = config
-    this.rateLimiter = rateLimiters[config.name.toLowerCase()]
+export function toConnectorPost(
+  post: PlatformPost
+): Omit<SocialMediaPost, 'platform' | 'postId' | 'userId'> {
+  return {
+    content: post.content,
+    mediaUrls: post.media?.map((item) => item.url),
+    createdAt: post.scheduledFor || new Date(),
+    metadata: {
+      ...post.metadata,
+      media: post.media,
+    },
   }
-
-  abstract connect(): Promise<void>
-  abstract disconnect(): Promise<void>
-  abstract createPost(post: PlatformPost): Promise<string>
-  abstract deletePost(postId: string): Promise<void>
-  abstract getAnalytics(postId: string): Promise<PlatformAnalytics>
-  abstract getFollowers(): Promise<number>
-  abstract getFollowing(): Promise<number>
-  abstract getProfile(): Promise<{
-    username: string
-    name: string
-    avatar: string
-    bio: string
-  }>
 }
 
-export class FacebookPlatform extends BasePlatform {
-  constructor() {
-    super({
-      name: Platform.FACEBOOK,
-      apiKey: env.FACEBOOK_APP_ID,
-      apiSecret: env.FACEBOOK_APP_SECRET,
-      baseUrl: 'https://graph.facebook.com/v18.0',
-      scopes: ['pages_manage_posts', 'pages_read_engagement'],
-    })
-  }
+// The platform posts that make up one stored post: every part of a thread,
+// root first, or just the post itself
+export function getPostPartIds(rootPostId: string, threadPostIds: string[] = []): string[] {
+  return threadPostIds.length > 0 ? threadPostIds : [rootPostId]
+}
 
-  async connect(): Promise<void> {
-    // Implement Facebook OAuth flow
-  }
+// Analytics of a thread are the totals over all of its parts
+export async function getConnectorAnalytics(
+  instance: BaseSocialProvider,
+  postIds: string | string[]
+): Promise<PlatformAnalytics> {
+  const ids = Array.isArray(postIds) ? postIds : [postIds]
+  const metrics = await Promise.all(ids.map((id) => instance.getEngagementMetrics(id)))
 
-  async disconnect(): Promise<void> {
-    // Implement Facebook disconnect
+  return {
+    views: metrics.reduce((sum, item) => sum + item.views, 0),
+    likes: metrics.reduce((sum, item) => sum + item.likes, 0),
+    comments: metrics.reduce((sum, item) => sum + item.comments, 0),
+    shares: metrics.reduce((sum, item) => sum + item.shares, 0),
+    engagement: metrics.reduce((sum, item) => sum + item.engagementRate, 0) / (metrics.length || 1),
+    date: new Date(),
   }
+}
 
-  async createPost(post: PlatformPost): Promise<string> {
-    // Implement Facebook post creation
-    return ''
+/**
+ * Publishes the post, split into a reply thread when it is too long for the
+ * platform. Media goes on the first part and every later part replies to the
+ * one before it. If a part fails, the parts already posted are deleted so a
+ * retry starts from a clean slate. Returns the parts in order.
+ */
+export async function publishThread(
+  instance: BaseSocialProvider,
+  post: Omit<SocialMediaPost, 'platform' | 'postId' | 'userId'>
+): Promise<SocialMediaPost[]> {
+  const parts = splitIntoThread(post.content, instance.platform)
+  const published: SocialMediaPost[] = []
+
+  try {
+    for (const [index, content] of parts.entries()) {
+      const previous = published[index - 1]
+      published.push(await instance.createPost({
+        ...post,
+        content,
+        mediaUrls: index === 0 ? post.mediaUrls : undefined,
+        metadata: {
+          ...post.metadata,
+          ...(index > 0 && { mediaDescriptions: undefined, media: undefined }),
+          inReplyToId: previous ? previous.postId : post.metadata?.inReplyToId,
+          idempotencyKey: post.metadata?.idempotencyKey && parts.length > 1
+            ? `${post.metadata.idempotencyKey}:${index + 1}`
+            : post.metadata?.idempotencyKey,
+        },
+      }))
+    }
+  } catch (error) {
+    if (published.length > 0) {
+      await deletePostCopy(instance, published.map((part) => part.postId)).catch((cleanupError) => {
+        console.error(`Error removing partial ${instance.platform} thread:`, cleanupError)
+      })
+    }
+    throw error
   }
 
-  async deletePost(postId: string): Promise<void> {
-    // Implement Facebook post deletion
-  }
+  return published
+}
 
-  async getAnalytics(postId: string): Promise<PlatformAnalytics> {
-    // Implement Facebook analytics
-    return {
-      views: 0,
-      likes: 0,
-      comments: 0,
-      shares: 0,
-      engagement: 0,
-      date: new Date(),
-    }
-  }
+// What to do with a copy on a platform that cannot edit posts
+export type UneditableStrategy = 'SKIP' | 'REPOST'
 
-  async getFollowers(): Promise<number> {
-    // Implement Facebook followers count
-    return 0
-  }
+export type CopyOutcomeStatus = 'UPDATED' | 'REPOSTED' | 'NOT_EDITABLE' | 'DELETED' | 'FAILED'
 
-  async getFollowing(): Promise<number> {
-    // Implement Facebook following count
-    return 0
-  }
+// Result of fanning an edit or delete out to one copy of a cross-post
+export interface CopyOutcome {
+  platform: Platform
+  accountId: string | null
+  postId: string // platform post id the change was applied to
+  status: CopyOutcomeStatus
+  newPostId?: string // set when the copy was deleted and reposted
+  error?: string
+}
 
-  async getProfile(): Promise<{
-    username: string
-    name: string
-    avatar: string
-    bio: string
-  }> {
-    // Implement Facebook profile fetch
-    return {
-      username: '',
-      name: '',
-      avatar: '',
-      bio: '',
-    }
-  }
+export interface PostEdit {
+  content: string
+  mediaUrls?: string[]
+  metadata?: Record<string, any>
 }
 
-export class InstagramPlatform extends BasePlatform {
-  constructor() {
-    super({
-      name: Platform.INSTAGRAM,
-      apiKey: env.INSTAGRAM_APP_ID,
-      apiSecret: env.INSTAGRAM_APP_SECRET,
-      baseUrl: 'https://graph.instagram.com',
-      scopes: ['instagram_basic', 'instagram_content_publish'],
-    })
-  }
+export type CopyEditResult = Pick<CopyOutcome, 'status' | 'newPostId' | 'error'> & {
+  threadPostIds?: string[] // all parts of the replacement when it is a thread
+}
 
-  async connect(): Promise<void> {
-    // Implement Instagram OAuth flow
+// Edits one platform copy in place, or replaces it when the platform has no
+// edit support and the caller asked for a repost. Threads are only edited in
+// place when both the old and the new content are a single post.
+export async function editPostCopy(
+  instance: BaseSocialProvider,
+  postIds: string[],
+  edit: PostEdit,
+  strategy: UneditableStrategy = 'SKIP'
+): Promise<CopyEditResult> {
+  const isThread = postIds.length > 1 || splitIntoThread(edit.content, instance.platform).length > 1
+  if (instance.supports('EDIT_POSTS') && !isThread) {
+    await instance.updatePost(postIds[0], edit)
+    return { status: 'UPDATED' }
   }
 
-  async disconnect(): Promise<void> {
-    // Implement Instagram disconnect
+  if (strategy !== 'REPOST') {
+    return { status: 'NOT_EDITABLE' }
   }
 
-  async createPost(post: PlatformPost): Promise<string> {
-    // Implement Instagram post creation
-    return ''
+  // Publish the replacement first so the post is never missing entirely
+  const replacement = await publishThread(instance, {
+    content: edit.content,
+    mediaUrls: edit.mediaUrls,
+    createdAt: new Date(),
+    metadata: edit.metadata,
+  })
+  const result: CopyEditResult = {
+    status: 'REPOSTED',
+    newPostId: replacement[0].postId,
+    threadPostIds: replacement.length > 1 ? replacement.map((part) => part.postId) : [],
   }
 
-  async deletePost(postId: string): Promise<void> {
-    // Implement Instagram post deletion
+  try {
+    await deletePostCopy(instance, postIds)
+  } catch (error) {
+    result.error = `Original copy could not be deleted: ${(error as Error)?.message || 'unknown error'}`
   }
+  return result
+}
 
-  async getAnalytics(postId: string): Promise<PlatformAnalytics> {
-    // Implement Instagram analytics
-    return {
-      views: 0,
-      likes: 0,
-      comments: 0,
-      shares: 0,
-      engagement: 0,
-      date: new Date(),
+// Deletes a post or every part of a thread, last part first. Parts that are
+// already gone count as deleted.
+export async function deletePostCopy(
+  instance: BaseSocialProvider,
+  postIds: string | string[]
+): Promise<void> {
+  const ids = Array.isArray(postIds) ? postIds : [postIds]
+
+  for (const postId of [...ids].reverse()) {
+    try {
+      await instance.deletePost(postId)
+    } catch (error) {
+      if ((error as any)?.status !== 404) {
+        throw error
+      }
     }
   }
+}
 
-  async getFollowers(): Promise<number> {
-    // Implement Instagram followers count
-    return 0
-  }
-
-  async getFollowing(): Promise<number> {
-    // Implement Instagram following count
-    return 0
+// Starts an authorization-code + PKCE connect flow and returns the provider
+// URL to redirect the user to. The flow is finished by completePlatformConnection.
+// Connecting into a workspace takes a role that may manage its accounts.
+export async function connectPlatform(
+  userId: string,
+  platform: Platform,
+  options: OAuthStateOptions = {}
+): Promise<string> {
+  const socialService = SocialService.getInstance()
+  socialService.getProvider(platform).requireFeature('AUTH')
+  if (options.workspaceId) {
+    await requireWorkspacePermission(userId, options.workspaceId, 'accounts:manage')
   }
 
-  async getProfile(): Promise<{
-    username: string
-    name: string
-    avatar: string
-    bio: string
-  }> {
-    // Implement Instagram profile fetch
-    return {
-      username: '',
-      name: '',
-      avatar: '',
-      bio: '',
-    }
-  }
+  const oauthState = await createOAuthState(userId, platform, options)
+  return socialService.getAuthUrl(platform, options.instanceUrl, {
+    state: oauthState.state,
+    codeChallenge: generateCodeChallenge(oauthState.codeVerifier),
+    nonce: oauthState.nonce,
+  })
 }
 
-// Add more platform implementations here...
+export async function completePlatformConnection(
+  userId: string,
+  platform: Platform,
+  state: string,
+  code: string
+): Promise<Account> {
+  const oauthState = await consumeOAuthState(state, userId, platform)
+  // The role may have changed while the user was away at the provider
+  if (oauthState.workspaceId) {
+    await requireWorkspacePermission(userId, oauthState.workspaceId, 'accounts:manage')
+  }
+  const { auth, provider } = await SocialService.getInstance().exchangeAuthCode(
+    platform,
+    code,
+    oauthState.instanceUrl || undefined,
+    {
+      codeVerifier: oauthState.codeVerifier,
+      nonce: oauthState.nonce,
+    }
+  )
 
-export const platforms = {
-  [Platform.FACEBOOK]: new FacebookPlatform(),
-  [Platform.INSTAGRAM]: new InstagramPlatform(),
-  // Add more platform instances here...
+  return saveConnectedAccount(userId, platform, auth, provider, {
+    instanceUrl: oauthState.instanceUrl,
+    workspaceId: oauthState.workspaceId,
+  })
 }
 
-export async function getPlatformInstance(platform: Platform): Promise<BasePlatform> {
-  const instance = platforms[platform]
-  if (!instance) {
-    throw new Error(`Platform ${platform} not supported`)
+// Connects a network that signs in with a password instead of OAuth, such
+// as Bluesky with an app password. The password is only used for this
+// sign-in; the account keeps the session tokens it returns.
+export async function connectPlatformSession(
+  userId: string,
+  platform: Platform,
+  identifier: string,
+  password: string,
+  options: { instanceUrl?: string; workspaceId?: string } = {}
+): Promise<Account> {
+  if (options.workspaceId) {
+    await requireWorkspacePermission(userId, options.workspaceId, 'accounts:manage')
   }
-  return instance
+
+  const { auth, provider } = await SocialService.getInstance().openSession(
+    platform,
+    identifier,
+    password,
+    options.instanceUrl
+  )
+
+  return saveConnectedAccount(userId, platform, auth, provider, {
+    // Later calls must go to the server the session lives on, e.g. a PDS
+    instanceUrl: provider.baseUrl,
+    workspaceId: options.workspaceId || null,
+  })
 }
 
-export async function connectPlatform(userId: string, platform: Platform): Promise<void> {
-  const instance = await getPlatformInstance(platform)
-  await instance.connect()
+async function saveConnectedAccount(
+  userId: string,
+  platform: Platform,
+  auth: SocialMediaAuth,
+  provider: BaseSocialProvider,
+  { instanceUrl, workspaceId }: { instanceUrl: string | null; workspaceId: string | null }
+): Promise<Account> {
+  const profile = await provider.getProfile(auth.userId)
+
+  const credentials = {
+    platformUserId: auth.userId,
+    accessToken: await encrypt(auth.accessToken),
+    refreshToken: auth.refreshToken ? await encrypt(auth.refreshToken) : null,
+    tokenExpiresAt: auth.tokenExpiresAt || null,
+    platformUsername: profile.username,
+    platformAvatar: profile.avatarUrl || null,
+    instanceUrl,
+    // Reconnecting clears a NEEDS_REAUTH state left by the token refresher
+    status: AccountStatus.ACTIVE,
+    lastStatusUpdate: new Date(),
+    lastRefreshError: null,
+  }
 
-  // Store platform connection in database
-  await prisma.account.create({
-    data: {
+  return prisma.account.upsert({
+    where: {
+      userId_platform_platformUserId: {
+        userId,
+        platform,
+        platformUserId: auth.userId,
+      },
+    },
+    // A reconnect keeps the account where it is; it only moves through moveAccount
+    update: credentials,
+    create: {
       userId,
       platform,
-      platformUserId: '', // Get from OAuth response
-      accessToken: '', // Get from OAuth response
-      refreshToken: '', // Get from OAuth response
-      tokenExpiresAt: new Date(), // Calculate from OAuth response
+      workspaceId,
+      ...credentials,
     },
   })
 }
 
-export async function disconnectPlatform(userId: string, platform: Platform): Promise<void> {
-  const instance = await getPlatformInstance(platform)
-  await instance.disconnect()
+// Returns a connector authenticated as the given account
+export async function getAccountProvider(account: Account): Promise<BaseSocialProvider> {
+  return SocialService.getInstance().createAccountProvider(
+    account.platform,
+    await getAccountAuth(account),
+    account.instanceUrl
+  )
+}
 
-  // Remove platform connection from database
-  await prisma.account.delete({
-    where: {
-      userId_platform: {
-        userId,
+// Accounts the user may view: their personal ones, or a workspace's
+export async function getAccounts(
+  userId: string,
+  platform?: Platform,
+  workspaceId?: string | null
+): Promise<Account[]> {
+  return getAccessibleAccounts(userId, 'content:view', { workspaceId, platform })
+}
+
+// Returns the account if the user's role on it allows `permission`
+export async function getAccount(
+  userId: string,
+  accountId: string,
+  permission: WorkspacePermission = 'content:view'
+): Promise<Account> {
+  return requireAccountPermission(userId, accountId, permission)
+}
+
+// Resolves publish targets to connected accounts. Accounts picked in
+// `accountIds` are used for their platform; every other platform falls back
+// to the earliest connected account on it that the user may publish with,
+// among their personal accounts or the workspace's.
+export async function resolveAccounts(
+  userId: string,
+  platforms: Platform[],
+  accountIds: string[] = [],
+  workspaceId?: string | null
+): Promise<Account[]> {
+  const selected = accountIds.length > 0
+    ? await Promise.all(
+        Array.from(new Set(accountIds)).map((id) => requireAccountPermission(userId, id, 'posts:publish'))
+      )
+    : []
+
+  const stray = selected.find((account) => !platforms.includes(account.platform))
+  if (stray) {
+    throw new Error(`Account ${stray.id} is not on one of the selected platforms`)
+  }
+
+  const scope = await getWorkspaceScope(userId, workspaceId, 'posts:publish')
+  const accounts: Account[] = []
+  for (const platform of Array.from(new Set(platforms))) {
+    const chosen = selected.filter((account) => account.platform === platform)
+    if (chosen.length > 0) {
+      accounts.push(...chosen)
+      continue
+    }
+
+    const candidates = await prisma.account.findMany({
+      where: {
+        ...scope.where,
         platform,
+        status: { not: AccountStatus.NEEDS_REAUTH },
       },
-    },
-  })
+      orderBy: {
+        createdAt: 'asc',
+      },
+    })
+    const fallback = candidates.find((account) => !scope.accountIds || scope.accountIds.has(account.id))
+
+    if (!fallback) {
+      throw new Error(`Platform ${platform} not connected`)
+    }
+    accounts.push(fallback)
+  }
+
+  return accounts
 }
 
-export async function createPlatformPost(
+// Posts created before accounts were tracked only know their platform
+async function getPostAccount(
   userId: string,
-  platform: Platform,
-  post: PlatformPost
-): Promise<string> {
-  const instance = await getPlatformInstance(platform)
-  const platformPostId = await instance.createPost(post)
+  post: { accountId: string | null; platform: Platform }
+): Promise<Account> {
+  if (post.accountId) {
+    return getAccount(userId, post.accountId, 'posts:publish')
+  }
 
-  // Store post in database
-  const dbPost = await prisma.post.create({
-    data: {
-      userId,
-      platform,
-      platformPostId,
-      type: 'POST',
-      content: post.content,
-      media: post.media,
-      metadata: post.metadata,
-      isPublished: !post.scheduledFor,
-      isScheduled: !!post.scheduledFor,
-      scheduledFor: post.scheduledFor,
-      publishedAt: !post.scheduledFor ? new Date() : undefined,
+  const [account] = await resolveAccounts(userId, [post.platform])
+  return account
+}
+
+export async function disconnectAccount(userId: string, accountId: string): Promise<void> {
+  const account = await getAccount(userId, accountId, 'accounts:manage')
+
+  const instance = await getAccountProvider(account)
+  await instance.revokeToken()
+
+  // Remove platform connection from database
+  await prisma.account.delete({
+    where: {
+      id: account.id,
     },
   })
-
-  return dbPost.id
 }
 
 export async function deletePlatformPost(
   userId: string,
-  platform: Platform,
   postId: string
 ): Promise<void> {
-  const instance = await getPlatformInstance(platform)
-  await instance.deletePost(postId)
+  const post = await prisma.post.findFirst({
+    where: {
+      id: postId,
+      userId,
+    },
+  })
+
+  if (!post) {
+    throw new Error(`Post ${postId} not found`)
+  }
+
+  if (post.platformPostId) {
+    const instance = await getAccountProvider(await getPostAccount(userId, post))
+    await deletePostCopy(instance, getPostPartIds(post.platformPostId, post.threadPostIds))
+  }
 
   // Remove post from database
   await prisma.post.delete({
@@ -282,27 +466,34 @@ export async function deletePlatformPost(
 
 export async function getPlatformAnalytics(
   userId: string,
-  platform: Platform,
   postId: string
 ): Promise<PlatformAnalytics> {
-  const instance = await getPlatformInstance(platform)
-  const analytics = await instance.getAnalytics(postId)
-
-  // Store analytics in database
-  await prisma.analytics.create({
-    data: {
-      postId,
-      platform,
-      ...analytics,
+  const post = await prisma.post.findFirst({
+    where: {
+      id: postId,
+      userId,
     },
   })
 
+  if (!post) {
+    throw new Error(`Post ${postId} not found`)
+  }
+
+  const instance = await getAccountProvider(await getPostAccount(userId, post))
+  const analytics = await getConnectorAnalytics(
+    instance,
+    getPostPartIds(post.platformPostId || '', post.threadPostIds)
+  )
+
+  // Store analytics in database
+  await saveAnalyticsSnapshot(postId, post.platform, analytics)
+
   return analytics
 }
 
 export async function getPlatformStats(
   userId: string,
-  platform: Platform
+  accountId: string
 ): Promise<{
   followers: number
   following: number
@@ -313,16 +504,18 @@ export async function getPlatformStats(
     bio: string
   }
 }> {
-  const instance = await getPlatformInstance(platform)
-  const [followers, following, profile] = await Promise.all([
-    instance.getFollowers(),
-    instance.getFollowing(),
-    instance.getProfile(),
-  ])
+  const account = await getAccount(userId, accountId)
+  const instance = await getAccountProvider(account)
+  const profile = await instance.getProfile(account.platformUserId)
 
   return {
-    followers,
-    following,
-    profile,
+    followers: profile.followersCount || 0,
+    following: profile.followingCount || 0,
+    profile: {
+      username: profile.username,
+      name: profile.displayName || '',
+      avatar: profile.avatarUrl || '',
+      bio: profile.bio || '',
+    },
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,38 @@
+import { Platform } from '@prisma/client'
+import { combineMetrics, normalizeMetrics } from './metrics'
+
+const counts = { views: 1000, likes: 40, comments: 5, shares: 5 }
+
+describe('normalizeMetrics', () => {
+  it('fills in only the view metric the platform reports', () => {
+    expect(normalizeMetrics('TWITTER' as Platform, counts, 500)).toEqual({
+      impressions: 1000,
+      reach: null,
+      interactions: 50,
+      engagementRate: 0.05,
+      followerEngagementRate: 0.1
+    })
+    expect(normalizeMetrics('INSTAGRAM' as Platform, counts)).toMatchObject({
+      impressions: null,
+      reach: 1000,
+      engagementRate: null
+    })
+    expect(normalizeMetrics('MASTODON' as Platform, counts)).toMatchObject({ impressions: null, reach: null })
+  })
+
+  it('combines only the platforms that report a metric into its total', () => {
+    const combined = combineMetrics([
+      normalizeMetrics('TWITTER' as Platform, counts),
+      normalizeMetrics('INSTAGRAM' as Platform, { ...counts, views: 300 }),
+      normalizeMetrics('MASTODON' as Platform, counts)
+    ])
+
+    expect(combined).toEqual({
+      impressions: 1000,
+      reach: 300,
+      interactions: 150,
+      engagementRate: 0.05,
+      followerEngagementRate: null
+    })
+  })
+})
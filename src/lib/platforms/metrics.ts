@@ -0,0 +1,117 @@
+import { Platform } from '@prisma/client'
+import { MetricCounts } from './analytics-store'
+
+// What a platform's view count measures. IMPRESSIONS: every time the post
+// was shown. REACH: unique accounts that saw it. PLAYS: video or stream
+// plays. NONE: the platform reports no views.
+export type ViewMetric = 'IMPRESSIONS' | 'REACH' | 'PLAYS' | 'NONE'
+
+// What a platform's share count measures. RESHARES: reposts to the sharer's
+// own followers (retweets, boosts). SENDS: the post sent on to someone
+// (forwards, share sheet, DMs). NONE: the platform reports no shares.
+export type ShareMetric = 'RESHARES' | 'SENDS' | 'NONE'
+
+export interface PlatformMetricDefinition {
+  views: ViewMetric
+  shares: ShareMetric
+}
+
+// Metrics that can be compared between platforms. Impressions and reach are
+// null when the platform does not report them.
+export interface NormalizedMetrics {
+  impressions: number | null
+  reach: number | null
+  interactions: number // likes, comments and shares
+  engagementRate: number | null // interactions per impression
+  followerEngagementRate: number | null // interactions per follower
+}
+
+export const PLATFORM_METRIC_DEFINITIONS: Record<Platform, PlatformMetricDefinition> = {
+  FACEBOOK: { views: 'IMPRESSIONS', shares: 'RESHARES' },
+  INSTAGRAM: { views: 'REACH', shares: 'SENDS' },
+  TWITTER: { views: 'IMPRESSIONS', shares: 'RESHARES' },
+  LINKEDIN: { views: 'IMPRESSIONS', shares: 'RESHARES' },
+  TIKTOK: { views: 'PLAYS', shares: 'SENDS' },
+  YOUTUBE: { views: 'PLAYS', shares: 'SENDS' },
+  SNAPCHAT: { views: 'PLAYS', shares: 'SENDS' },
+  REDDIT: { views: 'NONE', shares: 'RESHARES' },
+  DISCORD: { views: 'NONE', shares: 'NONE' },
+  TELEGRAM: { views: 'REACH', shares: 'SENDS' },
+  WHATSAPP: { views: 'NONE', shares: 'SENDS' },
+  PINTEREST: { views: 'IMPRESSIONS', shares: 'RESHARES' },
+  TWITCH: { views: 'PLAYS', shares: 'NONE' },
+  MEDIUM: { views: 'IMPRESSIONS', shares: 'NONE' },
+  WECHAT: { views: 'REACH', shares: 'SENDS' },
+  THREADS: { views: 'IMPRESSIONS', shares: 'RESHARES' },
+  MASTODON: { views: 'NONE', shares: 'RESHARES' },
+  BLUESKY: { views: 'NONE', shares: 'RESHARES' },
+}
+
+export function getMetricDefinition(platform: Platform): PlatformMetricDefinition {
+  return PLATFORM_METRIC_DEFINITIONS[platform]
+}
+
+function rate(value: number, base: number | null): number | null {
+  return base ? value / base : null
+}
+
+// Maps raw platform counts onto impressions, reach and interactions. Plays
+// count as impressions of the video. Only what the platform reports is
+// filled in; the other view metric stays null.
+export function normalizeMetrics(
+  platform: Platform,
+  counts: MetricCounts,
+  followers?: number
+): NormalizedMetrics {
+  const definition = getMetricDefinition(platform)
+  const interactions = counts.likes + counts.comments + counts.shares
+
+  let impressions: number | null = null
+  let reach: number | null = null
+  switch (definition.views) {
+    case 'IMPRESSIONS':
+    case 'PLAYS':
+      impressions = counts.views
+      break
+    case 'REACH':
+      reach = counts.views
+      break
+  }
+
+  return {
+    impressions,
+    reach,
+    interactions,
+    engagementRate: rate(interactions, impressions),
+    followerEngagementRate: rate(interactions, followers || null),
+  }
+}
+
+// Totals over several platforms. Impressions and reach only include the
+// platforms that report them, and the engagement rate only the platforms
+// that report impressions.
+export function combineMetrics(metrics: NormalizedMetrics[], followers?: number): NormalizedMetrics {
+  let impressions: number | null = null
+  let reach: number | null = null
+  let interactions = 0
+  let viewedInteractions = 0
+
+  for (const item of metrics) {
+    interactions += item.interactions
+    if (item.impressions !== null) {
+      impressions = (impressions || 0) + item.impressions
+      viewedInteractions += item.interactions
+    }
+    if (item.reach !== null) {
+      reach = (reach || 0) + item.reach
+    }
+  }
+
+  return {
+    impressions,
+    reach,
+    interactions,
+    engagementRate: rate(viewedInteractions, impressions),
+    followerEngagementRate: rate(interactions, followers || null),
+  }
+}
@@ -0,0 +1,96 @@
+import crypto from 'crypto'
+import { Account, OAuthState, Platform } from '@prisma/client'
+import { prisma } from '../db'
+import { decrypt } from '../crypto'
+import { SocialMediaAuth } from '../social/types'
+
+const STATE_TTL = 10 * 60 * 1000 // 10 minutes
+
+export interface OAuthStateOptions {
+  instanceUrl?: string
+  returnTo?: string // app path to send the user back to once connected
+  workspaceId?: string // workspace the account is connected into
+}
+
+function toBase64Url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// RFC 7636: 32 random bytes give a 43 character verifier
+export function generateCodeVerifier(): string {
+  return toBase64Url(crypto.randomBytes(32))
+}
+
+export function generateCodeChallenge(verifier: string): string {
+  return toBase64Url(crypto.createHash('sha256').update(verifier).digest())
+}
+
+export async function createOAuthState(
+  userId: string,
+  platform: Platform,
+  options: OAuthStateOptions = {}
+): Promise<OAuthState> {
+  // Abandoned flows never reach the callback, so clear them out here
+  await prisma.oAuthState.deleteMany({
+    where: {
+      userId,
+      expiresAt: { lt: new Date() },
+    },
+  })
+
+  return prisma.oAuthState.create({
+    data: {
+      state: toBase64Url(crypto.randomBytes(32)),
+      userId,
+      platform,
+      codeVerifier: generateCodeVerifier(),
+      nonce: toBase64Url(crypto.randomBytes(16)),
+      returnTo: options.returnTo,
+      instanceUrl: options.instanceUrl,
+      workspaceId: options.workspaceId,
+      expiresAt: new Date(Date.now() + STATE_TTL),
+    },
+  })
+}
+
+// States are single use: the row is deleted before it is validated so a
+// replayed callback never finds it again
+export async function consumeOAuthState(
+  state: string,
+  userId: string,
+  platform: Platform
+): Promise<OAuthState> {
+  const stored = await prisma.oAuthState.findUnique({
+    where: { state },
+  })
+  if (!stored) {
+    throw new Error('Invalid or expired OAuth state')
+  }
+
+  const { count } = await prisma.oAuthState.deleteMany({
+    where: { id: stored.id },
+  })
+  if (count === 0) {
+    throw new Error('Invalid or expired OAuth state')
+  }
+
+  if (stored.expiresAt < new Date()) {
+    throw new Error('Invalid or expired OAuth state')
+  }
+  if (stored.userId !== userId || stored.platform !== platform) {
+    throw new Error('OAuth state does not match this connection request')
+  }
+
+  return stored
+}
+
+// Rebuilds connector auth from the encrypted credentials stored on an Account
+export async function getAccountAuth(account: Account): Promise<SocialMediaAuth> {
+  return {
+    platform: account.platform,
+    userId: account.platformUserId,
+    accessToken: await decrypt(account.accessToken),
+    refreshToken: account.refreshToken ? await decrypt(account.refreshToken) : undefined,
+    tokenExpiresAt: account.tokenExpiresAt || undefined,
+  }
+}
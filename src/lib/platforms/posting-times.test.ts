@@ -0,0 +1,150 @@
+import { getEngagementHeatmap, getLocalHours, suggestPostingSlots } from './posting-times'
+
+jest.mock('@prisma/client', () => ({
+  ScheduledPostStatus: { PENDING: 'PENDING', CLAIMED: 'CLAIMED' },
+}))
+jest.mock('../db', () => ({
+  prisma: {
+    userSettings: { findUnique: jest.fn() },
+    post: { findMany: jest.fn() },
+    scheduledPost: { findMany: jest.fn() },
+    calendarEntry: { findMany: jest.fn() },
+  },
+}))
+jest.mock('./index', () => ({ getAccount: jest.fn(), resolveAccounts: jest.fn() }))
+jest.mock('../workspaces/access', () => ({ getAccessibleAccounts: jest.fn() }))
+
+const { prisma: mockPrisma } = jest.requireMock('../db')
+const { getAccount } = jest.requireMock('./index')
+const { getAccessibleAccounts } = jest.requireMock('../workspaces/access')
+
+const account = { id: 'acc-1', platform: 'MASTODON' }
+
+// A published post with its latest analytics
+function published(publishedAt: string, interactions: number) {
+  return {
+    publishedAt: new Date(publishedAt),
+    analytics: [{ likes: interactions, comments: 0, shares: 0 }],
+  }
+}
+
+// The heatmap history, or nothing for posts handed to the platform's scheduler
+function mockPosts(history: ReturnType<typeof published>[]) {
+  mockPrisma.post.findMany.mockImplementation(async ({ where }: { where: { isScheduled?: boolean } }) => (where.isScheduled ? [] : history))
+}
+
+describe('getLocalHours', () => {
+  it('follows the local clock across a daylight saving change', () => {
+    // New York skips from 02:00 to 03:00 on 9 March 2025
+    const hours = getLocalHours(
+      new Date('2025-03-09T05:30:00Z'),
+      new Date('2025-03-09T08:00:00Z'),
+      'America/New_York'
+    )
+
+    expect(hours.map((hour) => hour.hour)).toEqual([1, 3, 4])
+    expect(hours[1].start).toEqual(new Date('2025-03-09T07:00:00Z'))
+  })
+
+  it('starts hours on the local hour in zones with a half-hour offset', () => {
+    const hours = getLocalHours(new Date('2025-01-06T00:10:00Z'), new Date('2025-01-06T02:00:00Z'), 'Asia/Kolkata')
+
+    expect(hours.map((hour) => hour.start)).toEqual([
+      new Date('2025-01-06T00:30:00Z'),
+      new Date('2025-01-06T01:30:00Z'),
+    ])
+    expect(hours[0]).toMatchObject({ weekday: 1, hour: 6, day: 6 })
+  })
+})
+
+describe('getEngagementHeatmap', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    getAccount.mockResolvedValue(account)
+  })
+
+  it('uses the default activity curve while the account has no history', async () => {
+    mockPosts([])
+
+    const heatmap = await getEngagementHeatmap('user-1', 'acc-1', 'UTC')
+
+    expect(heatmap.basedOnHistory).toBe(false)
+    expect(heatmap.cells).toHaveLength(7 * 24)
+    // Monday 03:00 is quieter than Monday 12:00, and weekends a little quieter
+    expect(heatmap.cells[24 + 3].score).toBeLessThan(heatmap.cells[24 + 12].score)
+    expect(heatmap.cells[6 * 24 + 12].score).toBeLessThan(heatmap.cells[24 + 12].score)
+  })
+
+  it('lifts the hours where posts did better than average and their neighbours', async () => {
+    // Four average Monday noon posts and two strong Tuesday 15:00 posts
+    mockPosts([
+      ...['06', '13', '20', '27'].map((day) => published(`2025-01-${day}T12:00:00Z`, 10)),
+      published('2025-01-07T15:00:00Z', 40),
+      published('2025-01-14T15:00:00Z', 40),
+    ])
+
+    const heatmap = await getEngagementHeatmap('user-1', 'acc-1', 'UTC')
+    const score = (weekday: number, hour: number) => heatmap.cells[weekday * 24 + hour].score
+
+    expect(heatmap.basedOnHistory).toBe(true)
+    expect(heatmap.cells[2 * 24 + 15].posts).toBe(2)
+    expect(score(2, 15)).toBeGreaterThan(score(1, 12))
+    expect(score(2, 14)).toBeGreaterThan(score(3, 14))
+    expect(score(2, 16)).toBeGreaterThan(score(3, 16))
+  })
+
+  it('places posts by the local hour and wraps Saturday night into Sunday morning', async () => {
+    mockPosts([])
+    const baseline = await getEngagementHeatmap('user-1', 'acc-1', 'America/New_York')
+    // Saturday 23:00 in New York is Sunday 04:00 UTC
+    mockPosts([published('2025-01-12T04:00:00Z', 30), published('2025-01-13T17:00:00Z', 10)])
+
+    const heatmap = await getEngagementHeatmap('user-1', 'acc-1', 'America/New_York')
+
+    expect(heatmap.cells[6 * 24 + 23].posts).toBe(1)
+    expect(heatmap.cells[0].score).toBeGreaterThan(baseline.cells[0].score)
+  })
+})
+
+describe('suggestPostingSlots', () => {
+  const after = new Date('2025-01-06T00:00:00Z') // Monday
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    getAccount.mockResolvedValue(account)
+    getAccessibleAccounts.mockResolvedValue([account])
+    mockPrisma.userSettings.findUnique.mockResolvedValue({ timezone: 'UTC' })
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([])
+    mockPrisma.calendarEntry.findMany.mockResolvedValue([])
+    mockPosts([])
+  })
+
+  it('suggests the best hours first and spreads them out', async () => {
+    const slots = await suggestPostingSlots('user-1', { after, horizon: 24 * 60 * 60 * 1000, count: 3 })
+
+    expect(slots).toHaveLength(3)
+    expect(slots[0].start).toEqual(new Date('2025-01-06T12:00:00Z'))
+    expect(slots[0].score).toBeGreaterThanOrEqual(slots[1].score)
+    expect(slots[1].score).toBeGreaterThanOrEqual(slots[2].score)
+    for (const slot of slots) {
+      for (const other of slots.filter((item) => item !== slot)) {
+        expect(Math.abs(slot.start.getTime() - other.start.getTime())).toBeGreaterThanOrEqual(3 * 60 * 60 * 1000)
+      }
+    }
+  })
+
+  it('skips hours that already have a post planned for one of the accounts', async () => {
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([{ scheduledAt: new Date('2025-01-06T12:00:00Z') }])
+    mockPrisma.calendarEntry.findMany.mockResolvedValue([{ plannedAt: new Date('2025-01-06T13:00:00Z') }])
+
+    const slots = await suggestPostingSlots('user-1', { after, horizon: 24 * 60 * 60 * 1000, count: 1 })
+
+    expect(slots[0].start).toEqual(new Date('2025-01-06T18:00:00Z'))
+  })
+
+  it('needs at least one account', async () => {
+    getAccessibleAccounts.mockResolvedValue([])
+
+    await expect(suggestPostingSlots('user-1', { after })).rejects.toThrow('Select at least one account')
+  })
+})
@@ -0,0 +1,335 @@
+import { Platform, ScheduledPostStatus } from '@prisma/client'
+import { prisma } from '../db'
+import { getAccessibleAccounts } from '../workspaces/access'
+import { getAccount, resolveAccounts } from './index'
+
+export interface HeatmapCell {
+  weekday: number // 0 is Sunday, in the user's timezone
+  hour: number // 0-23, in the user's timezone
+  score: number // expected interactions relative to the account's average post
+  posts: number // posts published in this hour that the score is based on
+}
+
+export interface EngagementHeatmap {
+  accountId: string
+  platform: Platform
+  timezone: string
+  posts: number
+  basedOnHistory: boolean // false while there are too few posts to go on
+  cells: HeatmapCell[] // 7 x 24, Sunday 00:00 first
+}
+
+export interface PostingSlot {
+  start: Date
+  timezone: string
+  weekday: number
+  hour: number
+  score: number
+}
+
+export interface PostingSlotOptions {
+  workspaceId?: string | null
+  platforms?: Platform[]
+  accountIds?: string[]
+  after?: Date
+  count?: number
+  horizon?: number // in milliseconds
+}
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+const LOOKBACK = 90 * DAY
+// Posts keep collecting interactions for a while; newer ones would rank low
+const MATURITY = 2 * DAY
+// Below this many posts the heatmap leans on the default curve
+const MIN_POSTS = 5
+// How many posts' worth of weight the default curve carries in every cell
+const PRIOR_WEIGHT = 2
+// Share of a post's weight given to the hours either side of it
+const NEIGHBOUR_WEIGHT = 0.5
+// Suggested slots are spread out at least this far
+const MIN_SLOT_GAP = 3 * HOUR
+const DEFAULT_HORIZON = 7 * DAY
+const AUTO_SCHEDULE_HORIZON = 3 * DAY
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Typical audience activity by local hour, used until an account has its
+// own history: quiet overnight, peaks mid-morning, lunch and early evening
+const DEFAULT_HOUR_SCORES = [
+  0.3, 0.2, 0.2, 0.2, 0.2, 0.3, 0.5, 0.8, 1.0, 1.2, 1.2, 1.2,
+  1.3, 1.3, 1.1, 1.0, 1.0, 1.2, 1.3, 1.3, 1.1, 0.9, 0.7, 0.5,
+]
+const WEEKEND_FACTOR = 0.9
+
+function getDefaultScore(weekday: number, hour: number): number {
+  return DEFAULT_HOUR_SCORES[hour] * (weekday === 0 || weekday === 6 ? WEEKEND_FACTOR : 1)
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  })
+}
+
+export interface LocalHour {
+  start: Date
+  year: number
+  month: number // 1-12
+  day: number
+  weekday: number // 0 is Sunday
+  hour: number
+}
+
+function getLocalTime(date: Date, formatter: Intl.DateTimeFormat) {
+  const parts = formatter.formatToParts(date)
+  const part = (type: string) => parts.find((item) => item.type === type)?.value || ''
+  return {
+    year: Number(part('year')),
+    month: Number(part('month')),
+    day: Number(part('day')),
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+    hour: Number(part('hour')) % 24,
+    minute: Number(part('minute')),
+  }
+}
+
+// Every start of an hour in the timezone after `after` and up to `until`.
+// Those are not always on the hour in UTC.
+export function getLocalHours(after: Date, until: Date, timezone: string): LocalHour[] {
+  const formatter = getFormatter(timezone)
+  const hours: LocalHour[] = []
+
+  let start = after.getTime() + (60 - getLocalTime(after, formatter).minute) * 60 * 1000
+  start -= start % (60 * 1000)
+  for (; start <= until.getTime(); start += HOUR) {
+    const { year, month, day, weekday, hour } = getLocalTime(new Date(start), formatter)
+    hours.push({ start: new Date(start), year, month, day, weekday, hour })
+  }
+  return hours
+}
+
+// Falls back to UTC when the setting is missing or not a known zone
+export async function getUserTimezone(userId: string): Promise<string> {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId },
+    select: { timezone: true },
+  })
+
+  const timezone = settings?.timezone || 'UTC'
+  try {
+    getFormatter(timezone)
+    return timezone
+  } catch {
+    return 'UTC'
+  }
+}
+
+/**
+ * Scores every weekday and hour for an account by how well its posts
+ * published then did against the account's average post. Cells with little
+ * history are pulled towards a default activity curve, so a single lucky
+ * post does not make an hour the best one.
+ */
+export async function getEngagementHeatmap(
+  userId: string,
+  accountId: string,
+  timezone?: string
+): Promise<EngagementHeatmap> {
+  const account = await getAccount(userId, accountId)
+  const zone = timezone || (await getUserTimezone(userId))
+
+  const now = Date.now()
+  const posts = await prisma.post.findMany({
+    where: {
+      accountId,
+      isPublished: true,
+      publishedAt: {
+        gte: new Date(now - LOOKBACK),
+        lte: new Date(now - MATURITY),
+      },
+    },
+    select: {
+      publishedAt: true,
+      analytics: {
+        orderBy: { date: 'desc' },
+        take: 1,
+      },
+    },
+  })
+
+  const measured = posts
+    .filter((post) => post.analytics.length > 0)
+    .map((post) => {
+      const latest = post.analytics[0]
+      return {
+        publishedAt: post.publishedAt as Date,
+        interactions: latest.likes + latest.comments + latest.shares,
+      }
+    })
+  const average =
+    measured.reduce((total, post) => total + post.interactions, 0) / (measured.length || 1)
+
+  const sums = new Array(7 * 24).fill(0)
+  const weights = new Array(7 * 24).fill(0)
+  const counts = new Array(7 * 24).fill(0)
+  const formatter = getFormatter(zone)
+
+  if (average > 0) {
+    for (const post of measured) {
+      const { weekday, hour } = getLocalTime(post.publishedAt, formatter)
+      const index = weekday * 24 + hour
+      const relative = post.interactions / average
+      counts[index]++
+
+      for (const [offset, weight] of [[-1, NEIGHBOUR_WEIGHT], [0, 1], [1, NEIGHBOUR_WEIGHT]]) {
+        // Wraps from Saturday night into Sunday morning
+        const cell = (index + offset + 7 * 24) % (7 * 24)
+        sums[cell] += relative * weight
+        weights[cell] += weight
+      }
+    }
+  }
+
+  const cells: HeatmapCell[] = []
+  for (let weekday = 0; weekday < 7; weekday++) {
+    for (let hour = 0; hour < 24; hour++) {
+      const index = weekday * 24 + hour
+      cells.push({
+        weekday,
+        hour,
+        score:
+          (sums[index] + PRIOR_WEIGHT * getDefaultScore(weekday, hour)) /
+          (weights[index] + PRIOR_WEIGHT),
+        posts: counts[index],
+      })
+    }
+  }
+
+  return {
+    accountId: account.id,
+    platform: account.platform,
+    timezone: zone,
+    posts: measured.length,
+    basedOnHistory: average > 0 && measured.length >= MIN_POSTS,
+    cells,
+  }
+}
+
+/**
+ * Upcoming hours ranked by the combined heatmaps of the target accounts,
+ * best first and at least a few hours apart. Hours that already have a
+ * scheduled post for one of the accounts are skipped.
+ */
+export async function suggestPostingSlots(
+  userId: string,
+  options: PostingSlotOptions = {}
+): Promise<PostingSlot[]> {
+  // Without platforms, the given accounts or else every account the user
+  // can publish with
+  const accounts = options.platforms?.length
+    ? await resolveAccounts(userId, options.platforms, options.accountIds, options.workspaceId)
+    : await getAccessibleAccounts(userId, 'posts:publish', {
+        workspaceId: options.workspaceId,
+        accountIds: options.accountIds?.length ? options.accountIds : undefined,
+      })
+  if (accounts.length === 0) {
+    throw new Error('Select at least one account to suggest posting times for')
+  }
+
+  const timezone = await getUserTimezone(userId)
+  const heatmaps = await Promise.all(
+    accounts.map((account) => getEngagementHeatmap(userId, account.id, timezone))
+  )
+  const scores = new Array(7 * 24).fill(0)
+  for (const heatmap of heatmaps) {
+    heatmap.cells.forEach((cell, index) => {
+      scores[index] += cell.score / heatmaps.length
+    })
+  }
+
+  const after = options.after || new Date()
+  const horizon = options.horizon || DEFAULT_HORIZON
+  const accountIds = accounts.map((account) => account.id)
+  const window = {
+    gte: new Date(after.getTime() - HOUR),
+    lte: new Date(after.getTime() + horizon + HOUR),
+  }
+  // Jobs from the scheduler, posts handed to a platform's own scheduling and
+  // drafts already planned on the calendar, whoever in the workspace made them
+  const [jobs, platformScheduled, drafts] = await Promise.all([
+    prisma.scheduledPost.findMany({
+      where: {
+        accountIds: { hasSome: accountIds },
+        status: { in: [ScheduledPostStatus.PENDING, ScheduledPostStatus.CLAIMED] },
+        scheduledAt: window,
+      },
+      select: { scheduledAt: true },
+    }),
+    prisma.post.findMany({
+      where: {
+        accountId: { in: accountIds },
+        isScheduled: true,
+        isPublished: false,
+        scheduledFor: window,
+      },
+      select: { scheduledFor: true },
+    }),
+    prisma.calendarEntry.findMany({
+      where: {
+        accountIds: { hasSome: accountIds },
+        scheduledPostId: null,
+        plannedAt: window,
+      },
+      select: { plannedAt: true },
+    }),
+  ])
+  const taken = [
+    ...jobs.map((job) => job.scheduledAt.getTime()),
+    ...platformScheduled.map((post) => (post.scheduledFor as Date).getTime()),
+    ...drafts.map((draft) => draft.plannedAt.getTime()),
+  ]
+  const isTaken = (start: number) => taken.some((time) => Math.abs(time - start) < HOUR)
+
+  const candidates: PostingSlot[] = getLocalHours(after, new Date(after.getTime() + horizon), timezone)
+    .filter((candidate) => !isTaken(candidate.start.getTime()))
+    .map((candidate) => ({
+      ...candidate,
+      timezone,
+      score: scores[candidate.weekday * 24 + candidate.hour],
+    }))
+
+  const slots: PostingSlot[] = []
+  for (const candidate of candidates.sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime())) {
+    if (slots.some((slot) => Math.abs(slot.start.getTime() - candidate.start.getTime()) < MIN_SLOT_GAP)) {
+      continue
+    }
+    slots.push(candidate)
+    if (slots.length >= (options.count || 5)) break
+  }
+  return slots
+}
+
+// The best free slot in the next few days, for "auto-schedule"
+export async function getNextBestSlot(
+  userId: string,
+  options: Omit<PostingSlotOptions, 'count'> = {}
+): Promise<Date> {
+  const [slot] = await suggestPostingSlots(userId, {
+    horizon: AUTO_SCHEDULE_HORIZON,
+    ...options,
+    count: 1,
+  })
+  if (!slot) {
+    throw new Error('No free posting slot found')
+  }
+  return slot.start
+}
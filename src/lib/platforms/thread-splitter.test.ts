@@ -0,0 +1,66 @@
+import { Platform } from '@prisma/client'
+import { countCharacters, getContentRules } from './content-rules'
+import { splitIntoThread } from './thread-splitter'
+
+const BLUESKY = 'BLUESKY' as Platform
+const rules = getContentRules(BLUESKY)
+
+// The text of a part without its " 2/3" numbering
+const text = (part: string) => part.replace(/ \d+\/\d+$/, '')
+
+function expectToFit(parts: string[]) {
+  parts.forEach((part) => expect(countCharacters(part, rules)).toBeLessThanOrEqual(rules.maxLength))
+}
+
+describe('splitIntoThread', () => {
+  it('keeps content that fits, or goes to a platform without threads, as one post', () => {
+    expect(splitIntoThread('Short', BLUESKY)).toEqual(['Short'])
+    expect(splitIntoThread('a'.repeat(400), 'FACEBOOK' as Platform)).toEqual(['a'.repeat(400)])
+  })
+
+  it('breaks between paragraphs before sentences', () => {
+    const first = 'First paragraph. ' + 'x'.repeat(150)
+    const second = 'Second paragraph. ' + 'y'.repeat(150)
+
+    expect(splitIntoThread(`${first}\n\n${second}`, BLUESKY)).toEqual([`${first} 1/2`, `${second} 2/2`])
+  })
+
+  it('breaks between sentences and rejoins them with a space', () => {
+    const sentences = Array.from({ length: 5 }, (_, index) => `Sentence ${index} ${'z'.repeat(80)}.`)
+
+    const parts = splitIntoThread(sentences.join(' '), BLUESKY)
+
+    expectToFit(parts)
+    expect(parts.map(text).join(' ')).toBe(sentences.join(' '))
+    parts.forEach((part) => expect(text(part)).toMatch(/\.$/))
+  })
+
+  it('leaves room for two-digit numbering once the thread reaches ten parts', () => {
+    // Each paragraph fills a part on its own with single-digit numbering
+    const paragraphs = Array.from({ length: 10 }, (_, index) => `${index}`.padEnd(295, 'w'))
+
+    const parts = splitIntoThread(paragraphs.join('\n\n'), BLUESKY)
+
+    expectToFit(parts)
+    expect(parts.length).toBeGreaterThanOrEqual(10)
+    expect(parts[0]).toMatch(new RegExp(` 1/${parts.length}$`))
+    expect(parts[parts.length - 1]).toMatch(new RegExp(` ${parts.length}/${parts.length}$`))
+  })
+
+  it('cuts a word too long for one post into chunks', () => {
+    const word = 'a'.repeat(700)
+
+    const parts = splitIntoThread(word, BLUESKY)
+
+    expectToFit(parts)
+    expect(parts).toHaveLength(3)
+    expect(parts.map(text).join('')).toBe(word)
+  })
+
+  it('rejects a link too long for one post before anything is posted', () => {
+    const content = `Read this: https://example.com/${'a'.repeat(300)}`
+
+    expect(() => splitIntoThread(content, BLUESKY)).toThrow('too long for one post of a BLUESKY thread')
+    expect(() => splitIntoThread(`${'Words '.repeat(50)}@${'b'.repeat(300)}`, BLUESKY)).toThrow('too long')
+  })
+})
@@ -0,0 +1,120 @@
+import { Platform } from '@prisma/client'
+import {
+  PlatformContentRules,
+  UNBREAKABLE_WORD,
+  countCharacters,
+  findUnsplittableWords,
+  getContentRules,
+} from './content-rules'
+
+interface Piece {
+  text: string
+  separator: string // joins the piece to the text before it in the same part
+}
+
+function splitSentences(paragraph: string): string[] {
+  return paragraph.split(/(?<=[.!?…])\s+/).filter(Boolean)
+}
+
+// Cuts an over-long word that is not a link, mention or hashtag into chunks
+function splitWord(word: string, limit: number, rules: PlatformContentRules): string[] {
+  if (UNBREAKABLE_WORD.test(word)) return [word]
+
+  const chunks: string[] = []
+  let chunk = ''
+  for (const char of Array.from(word)) {
+    if (chunk && countCharacters(chunk + char, rules) > limit) {
+      chunks.push(chunk)
+      chunk = ''
+    }
+    chunk += char
+  }
+  if (chunk) chunks.push(chunk)
+  return chunks
+}
+
+// Breaks the text into the largest units that fit: paragraphs, then
+// sentences, then words
+function toPieces(content: string, limit: number, rules: PlatformContentRules): Piece[] {
+  const fits = (text: string) => countCharacters(text, rules) <= limit
+  const pieces: Piece[] = []
+
+  for (const paragraph of content.split(/\n{2,}/).map((text) => text.trim()).filter(Boolean)) {
+    let separator = '\n\n'
+    if (fits(paragraph)) {
+      pieces.push({ text: paragraph, separator })
+      continue
+    }
+
+    for (const sentence of splitSentences(paragraph)) {
+      if (fits(sentence)) {
+        pieces.push({ text: sentence, separator })
+        separator = ' '
+        continue
+      }
+
+      for (const word of sentence.split(/\s+/).filter(Boolean)) {
+        splitWord(word, limit, rules).forEach((chunk, index) => {
+          pieces.push({ text: chunk, separator: index === 0 ? separator : '' })
+          separator = ' '
+        })
+      }
+    }
+  }
+
+  return pieces
+}
+
+function pack(content: string, limit: number, rules: PlatformContentRules): string[] {
+  const parts: string[] = []
+  let current = ''
+
+  for (const piece of toPieces(content, limit, rules)) {
+    const candidate = current ? current + piece.separator + piece.text : piece.text
+    if (!current || countCharacters(candidate, rules) <= limit) {
+      current = candidate
+      continue
+    }
+    parts.push(current)
+    current = piece.text
+  }
+  if (current) parts.push(current)
+
+  return parts
+}
+
+/**
+ * Splits content that is too long for one post on a threadable platform into
+ * numbered parts ("1/3", "2/3", ...). Breaks fall on paragraph boundaries
+ * where possible, then sentences, then words; links, mentions and hashtags
+ * are never cut, so content with one too long for a part is rejected before
+ * anything is posted. Content that fits, or platforms without threads, give
+ * a single part.
+ */
+export function splitIntoThread(content: string, platform: Platform): string[] {
+  const rules = getContentRules(platform)
+  if (!rules.threadable || countCharacters(content, rules) <= rules.maxLength) {
+    return [content]
+  }
+
+  // The numbering takes room in every part, and how much depends on the
+  // number of parts, so repeat until the count is stable
+  let total = 1
+  let parts: string[] = []
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const reserved = countCharacters(` ${total}/${total}`, rules)
+    parts = pack(content, rules.maxLength - reserved, rules)
+    if (String(parts.length).length <= String(total).length) break
+    total = parts.length
+  }
+
+  const [unsplittable] = findUnsplittableWords(content, rules, parts.length)
+  if (unsplittable) {
+    throw new Error(`${unsplittable.slice(0, 30)}… is too long for one post of a ${platform} thread`)
+  }
+
+  if (parts.length <= 1) {
+    return parts
+  }
+  return parts.map((part, index) => `${part} ${index + 1}/${parts.length}`)
+}
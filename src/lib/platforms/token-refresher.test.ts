@@ -0,0 +1,94 @@
+import { TokenRefresher } from './token-refresher'
+
+jest.mock('@prisma/client', () => ({
+  AccountStatus: { ACTIVE: 'ACTIVE', NEEDS_REAUTH: 'NEEDS_REAUTH' }
+}))
+jest.mock('../db', () => ({
+  prisma: {
+    account: { findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    notification: { create: jest.fn() },
+    user: { findUnique: jest.fn() }
+  }
+}))
+jest.mock('../crypto', () => ({ encrypt: async (text: string) => `encrypted:${text}` }))
+jest.mock('../email', () => ({ email: { sendNotificationEmail: jest.fn() } }))
+jest.mock('../websocket', () => ({ getWebSocketService: () => ({ emitToUser: jest.fn() }) }))
+jest.mock('ioredis', () => ({ Redis: jest.fn() }), { virtual: true })
+jest.mock('../social/providers', () => ({}))
+jest.mock('../social/social-service', () => ({
+  ...jest.requireActual('../social/social-service'),
+  SocialService: { getInstance: () => mockSocialService }
+}))
+jest.mock('./index', () => ({ getAccountProvider: jest.fn() }))
+
+const mockSocialService = { refreshExpiringAuth: jest.fn() }
+
+const { prisma } = jest.requireMock('../db')
+const { email } = jest.requireMock('../email')
+const { getAccountProvider } = jest.requireMock('./index')
+
+const NOW = new Date('2025-01-01T12:00:00Z')
+
+const account = {
+  id: 'acc-1',
+  userId: 'user-1',
+  platform: 'MASTODON',
+  platformUsername: 'ominex',
+  refreshToken: 'encrypted:refresh-1',
+  tokenExpiresAt: new Date(NOW.getTime() + 60 * 1000)
+}
+
+describe('TokenRefresher', () => {
+  const refresher = TokenRefresher.getInstance()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now: NOW })
+    prisma.account.findMany.mockResolvedValue([])
+    prisma.account.updateMany.mockResolvedValue({ count: 1 })
+    prisma.notification.create.mockResolvedValue({ id: 'notification-1' })
+    prisma.user.findUnique.mockResolvedValue({ email: 'owner@ominex.example', settings: null })
+    mockSocialService.refreshExpiringAuth.mockResolvedValue({ refreshed: 0, needsReauth: [] })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('marks an account whose refresh is rejected and tells its owner', async () => {
+    prisma.account.findMany.mockResolvedValue([account])
+    getAccountProvider.mockResolvedValue({
+      refreshToken: jest.fn().mockRejectedValue({ status: 401, message: 'invalid_grant' })
+    })
+
+    await expect(refresher.tick()).resolves.toBe(0)
+
+    expect(prisma.account.update).toHaveBeenCalledWith({
+      where: { id: 'acc-1' },
+      data: expect.objectContaining({ status: 'NEEDS_REAUTH', lastRefreshError: 'invalid_grant' })
+    })
+    expect(prisma.notification.create.mock.calls[0][0].data).toMatchObject({
+      userId: 'user-1',
+      data: { platform: 'MASTODON', accountId: 'acc-1' }
+    })
+    expect(email.sendNotificationEmail).toHaveBeenCalledTimes(1)
+  })
+
+  it('tells the owner of stored credentials that can no longer be refreshed', async () => {
+    mockSocialService.refreshExpiringAuth.mockResolvedValue({
+      refreshed: 0,
+      needsReauth: [{ ownerId: 'owner-2', platform: 'BLUESKY', metadata: { handle: 'ominex.example' } }]
+    })
+
+    await refresher.tick()
+
+    expect(mockSocialService.refreshExpiringAuth).toHaveBeenCalledWith(
+      new Date(NOW.getTime() + 15 * 60 * 1000),
+      5 * 60 * 1000
+    )
+    const { data } = prisma.notification.create.mock.calls[0][0]
+    expect(data.userId).toBe('owner-2')
+    expect(data.message).toContain('ominex.example on BLUESKY')
+    expect(prisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'owner-2' } }))
+  })
+})
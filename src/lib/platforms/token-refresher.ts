@@ -0,0 +1,262 @@
+import { Account, AccountStatus, Platform, SocialAuth } from '@prisma/client'
+import { prisma } from '../db'
+import { encrypt } from '../crypto'
+import { email } from '../email'
+import { getWebSocketService } from '../websocket'
+import { SocialService, requiresReauthorization } from '../social/social-service'
+import { getAccountProvider } from './index'
+
+export interface TokenRefresherConfig {
+  pollInterval: number // in milliseconds
+  refreshWindow: number // refresh tokens expiring within this many milliseconds
+  batchSize: number
+  leaseDuration: number // in milliseconds
+  retryDelay: number // in milliseconds
+}
+
+// Who to ask to reconnect which platform account
+interface ReauthNotice {
+  userId: string
+  platform: Platform
+  username: string | null
+  accountId?: string
+}
+
+const DEFAULT_CONFIG: TokenRefresherConfig = {
+  pollInterval: 60 * 1000,
+  refreshWindow: 15 * 60 * 1000,
+  batchSize: 25,
+  leaseDuration: 60 * 1000,
+  retryDelay: 5 * 60 * 1000
+}
+
+/**
+ * Renews connected account tokens before they expire. Accounts whose refresh
+ * is rejected by the platform are marked NEEDS_REAUTH and their owner is told
+ * to reconnect; reconnecting through the OAuth flow resets the status. The
+ * credentials SocialService stores per owner are renewed the same way.
+ */
+export class TokenRefresher {
+  private static instance: TokenRefresher
+  private config: TokenRefresherConfig
+  private pollTimer: NodeJS.Timeout | null = null
+  private running: Promise<number> | null = null
+
+  private constructor(config: Partial<TokenRefresherConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config }
+  }
+
+  static getInstance(): TokenRefresher {
+    if (!TokenRefresher.instance) {
+      TokenRefresher.instance = new TokenRefresher()
+    }
+    return TokenRefresher.instance
+  }
+
+  start(): void {
+    if (this.pollTimer) return
+
+    this.pollTimer = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error('Token refresher tick failed:', error)
+      })
+    }, this.config.pollInterval)
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+
+    if (this.running) {
+      await this.running.catch(() => undefined)
+    }
+  }
+
+  async tick(): Promise<number> {
+    if (this.running) return 0
+
+    this.running = this.refreshDueAccounts()
+    try {
+      return await this.running
+    } finally {
+      this.running = null
+    }
+  }
+
+  private async refreshDueAccounts(): Promise<number> {
+    const now = new Date()
+    const candidates = await prisma.account.findMany({
+      where: {
+        status: { not: AccountStatus.NEEDS_REAUTH },
+        tokenExpiresAt: { lte: new Date(now.getTime() + this.config.refreshWindow) },
+        OR: [{ refreshLockedUntil: null }, { refreshLockedUntil: { lt: now } }]
+      },
+      orderBy: { tokenExpiresAt: 'asc' },
+      take: this.config.batchSize
+    })
+
+    let refreshed = 0
+    for (const account of candidates) {
+      if (!(await this.claim(account.id))) continue
+
+      if (await this.refreshAccount(account)) {
+        refreshed++
+      }
+    }
+
+    const { needsReauth } = await SocialService.getInstance().refreshExpiringAuth(
+      new Date(now.getTime() + this.config.refreshWindow),
+      this.config.retryDelay
+    )
+    for (const stored of needsReauth) {
+      await this.notifyReauthorizationRequired(this.toReauthNotice(stored))
+    }
+
+    return refreshed
+  }
+
+  // Refresh tokens are often single use, so only one worker may refresh a
+  // given account at a time
+  private async claim(accountId: string): Promise<boolean> {
+    const now = new Date()
+    const { count } = await prisma.account.updateMany({
+      where: {
+        id: accountId,
+        status: { not: AccountStatus.NEEDS_REAUTH },
+        OR: [{ refreshLockedUntil: null }, { refreshLockedUntil: { lt: now } }]
+      },
+      data: { refreshLockedUntil: new Date(now.getTime() + this.config.leaseDuration) }
+    })
+    return count === 1
+  }
+
+  private async refreshAccount(account: Account): Promise<boolean> {
+    if (!account.refreshToken) {
+      // Nothing to refresh with; wait for the token to lapse, then ask the
+      // user to reconnect
+      if (account.tokenExpiresAt && account.tokenExpiresAt <= new Date()) {
+        await this.markNeedsReauthorization(account, 'Access token expired and cannot be refreshed')
+      } else {
+        await this.release(account.id)
+      }
+      return false
+    }
+
+    try {
+      const provider = await getAccountProvider(account)
+      const auth = await provider.refreshToken()
+
+      await prisma.account.update({
+        where: { id: account.id },
+        data: {
+          accessToken: await encrypt(auth.accessToken),
+          // Some platforms rotate refresh tokens, others keep the original
+          refreshToken: auth.refreshToken ? await encrypt(auth.refreshToken) : account.refreshToken,
+          tokenExpiresAt: auth.tokenExpiresAt || null,
+          status: AccountStatus.ACTIVE,
+          lastStatusUpdate: new Date(),
+          lastRefreshError: null,
+          refreshLockedUntil: null
+        }
+      })
+      return true
+    } catch (error) {
+      const message = (error as Error)?.message || 'Token refresh failed'
+      if (requiresReauthorization(error)) {
+        await this.markNeedsReauthorization(account, message)
+      } else {
+        console.error(`Error refreshing ${account.platform} token for account ${account.id}:`, error)
+        await prisma.account.update({
+          where: { id: account.id },
+          data: {
+            lastRefreshError: message,
+            // Keep the lease as a backoff before the next attempt
+            refreshLockedUntil: new Date(
+              Date.now() + Math.max(this.config.retryDelay, ((error as any)?.retryAfter || 0) * 1000)
+            )
+          }
+        })
+      }
+      return false
+    }
+  }
+
+  private async release(accountId: string): Promise<void> {
+    await prisma.account.update({
+      where: { id: accountId },
+      data: { refreshLockedUntil: null }
+    })
+  }
+
+  private async markNeedsReauthorization(account: Account, reason: string): Promise<void> {
+    await prisma.account.update({
+      where: { id: account.id },
+      data: {
+        status: AccountStatus.NEEDS_REAUTH,
+        lastStatusUpdate: new Date(),
+        lastRefreshError: reason,
+        refreshLockedUntil: null
+      }
+    })
+
+    await this.notifyReauthorizationRequired({
+      userId: account.userId,
+      platform: account.platform,
+      username: account.platformUsername,
+      accountId: account.id
+    })
+  }
+
+  private toReauthNotice(stored: SocialAuth): ReauthNotice {
+    const metadata = stored.metadata as Record<string, any> | null
+    return {
+      userId: stored.ownerId,
+      platform: stored.platform as Platform,
+      username: metadata?.username || metadata?.handle || null
+    }
+  }
+
+  private async notifyReauthorizationRequired(notice: ReauthNotice): Promise<void> {
+    const title = `Reconnect your ${notice.platform} account`
+    const message = `We could not renew access to ${notice.username || 'your account'} on ${notice.platform}. Syncing for this account is paused until you reconnect it.`
+    const actionUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/platforms/${notice.platform.toLowerCase()}/connect`
+
+    try {
+      const notification = await prisma.notification.create({
+        data: {
+          userId: notice.userId,
+          type: 'system',
+          title,
+          message,
+          data: {
+            platform: notice.platform,
+            accountId: notice.accountId,
+            actionUrl
+          }
+        }
+      })
+
+      try {
+        getWebSocketService().emitToUser(notice.userId, 'notification', notification)
+      } catch {
+        // No socket server in this process; the stored notification is enough
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: notice.userId },
+        select: {
+          email: true,
+          settings: { select: { emailNotifications: true } }
+        }
+      })
+
+      if (user?.email && user.settings?.emailNotifications !== false) {
+        await email.sendNotificationEmail(user.email, title, message, actionUrl)
+      }
+    } catch (error) {
+      console.error(`Error sending reauthorization notice for ${notice.platform} user ${notice.userId}:`, error)
+    }
+  }
+}
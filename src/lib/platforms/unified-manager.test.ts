@@ -0,0 +1,313 @@
+import { UnifiedPlatformManager } from './unified-manager'
+
+jest.mock('@prisma/client', () => {
+  class PrismaClientKnownRequestError extends Error {
+    constructor(message: string, public code: string) {
+      super(message)
+    }
+  }
+
+  return {
+    Prisma: { PrismaClientKnownRequestError },
+    AccountStatus: { ACTIVE: 'ACTIVE', ERROR: 'ERROR', NEEDS_REAUTH: 'NEEDS_REAUTH' },
+    ContentType: { POST: 'POST' },
+    Platform: { MASTODON: 'MASTODON', BLUESKY: 'BLUESKY' }
+  }
+})
+jest.mock('../db', () => ({
+  prisma: {
+    post: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn()
+    },
+    account: { findMany: jest.fn(), update: jest.fn() },
+    message: { findMany: jest.fn() },
+    crossPlatformSync: { findMany: jest.fn(), updateMany: jest.fn() }
+  }
+}))
+jest.mock('../ai', () => ({ ai: {} }))
+jest.mock('../s3', () => ({ s3: {} }))
+jest.mock('../websocket', () => ({ getWebSocketService: () => ({ emitToUser: jest.fn() }) }))
+jest.mock('../social/social-service', () => ({ SocialService: { getInstance: jest.fn() } }))
+jest.mock('../social/social-inbox', () => ({ SocialInbox: { getInstance: jest.fn() } }))
+jest.mock('../social/team-inbox', () => ({ TeamInbox: { getInstance: jest.fn() } }))
+jest.mock('../social/approval-workflow', () => ({
+  ApprovalWorkflow: { getInstance: () => ({ claimApproval: jest.fn().mockResolvedValue(null) }) }
+}))
+jest.mock('./index', () => ({
+  getAccount: jest.fn(),
+  getAccountProvider: jest.fn(),
+  publishThread: jest.fn(),
+  resolveAccounts: jest.fn(),
+  toConnectorPost: (post: any) => ({ content: post.content, metadata: post.metadata })
+}))
+jest.mock('./content-rules', () => ({ validateVariant: () => [] }))
+jest.mock('./analytics-store', () => ({
+  findAccounts: jest.fn(),
+  getFollowerCounts: jest.fn(),
+  getMetricTotals: jest.fn(),
+  recordFollowerSnapshot: jest.fn()
+}))
+jest.mock('./metrics', () => ({
+  normalizeMetrics: (_platform: string, counts: any, followers?: number) => ({
+    engagementRate: followers ? (counts.likes + counts.comments + counts.shares) / followers : undefined
+  })
+}))
+jest.mock('./posting-times', () => ({ getNextBestSlot: jest.fn() }))
+
+const { prisma } = jest.requireMock('../db')
+const platforms = jest.requireMock('./index')
+const analyticsStore = jest.requireMock('./analytics-store')
+const { SocialInbox } = jest.requireMock('../social/social-inbox')
+
+const NOW = new Date('2025-01-01T12:00:00Z')
+const TTL = 10 * 60 * 1000
+
+const account = { id: 'acc-1', userId: 'user-1', platform: 'MASTODON' }
+const post = { content: 'Hello', platforms: ['MASTODON' as any], idempotencyKey: 'key-1' }
+
+function stored(overrides: Record<string, any> = {}) {
+  return {
+    id: 'post-1',
+    accountId: 'acc-1',
+    platformPostId: 'status-1',
+    createdAt: NOW,
+    ...overrides
+  }
+}
+
+describe('UnifiedPlatformManager idempotent publishing', () => {
+  const manager = new UnifiedPlatformManager()
+  ;(manager as any).platforms.set('MASTODON', {})
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now: NOW })
+    platforms.resolveAccounts.mockResolvedValue([account])
+    platforms.getAccountProvider.mockResolvedValue({})
+    platforms.publishThread.mockResolvedValue([{ postId: 'status-2' }])
+    prisma.post.findMany.mockResolvedValue([])
+    prisma.post.create.mockResolvedValue(stored({ id: 'post-2', platformPostId: null }))
+    prisma.post.update.mockResolvedValue({})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('publishes once and reserves the post row under the key first', async () => {
+    await expect(manager.createUnifiedPost(post, 'user-1')).resolves.toEqual(['post-2'])
+
+    expect(prisma.post.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ accountId: 'acc-1', idempotencyKey: 'key-1', isPublished: false })
+    })
+    expect(platforms.publishThread).toHaveBeenCalledWith(
+      {},
+      expect.objectContaining({ metadata: { idempotencyKey: 'key-1:acc-1' } })
+    )
+    expect(prisma.post.update).toHaveBeenCalledWith({
+      where: { id: 'post-2' },
+      data: expect.objectContaining({ platformPostId: 'status-2', isPublished: true })
+    })
+  })
+
+  it('replays a post already published with the key', async () => {
+    prisma.post.findMany.mockResolvedValue([stored()])
+
+    await expect(manager.createUnifiedPost(post, 'user-1')).resolves.toEqual(['post-1'])
+    expect(prisma.post.create).not.toHaveBeenCalled()
+    expect(platforms.publishThread).not.toHaveBeenCalled()
+  })
+
+  it('rejects a repeat while the reservation is still being published', async () => {
+    prisma.post.findMany.mockResolvedValue([
+      stored({ platformPostId: null, createdAt: new Date(NOW.getTime() - 1000) })
+    ])
+
+    await expect(manager.createUnifiedPost(post, 'user-1')).rejects.toThrow('already being published')
+    expect(prisma.post.deleteMany).not.toHaveBeenCalled()
+    expect(platforms.publishThread).not.toHaveBeenCalled()
+  })
+
+  it('drops an expired reservation and publishes again', async () => {
+    prisma.post.findMany.mockResolvedValue([
+      stored({ platformPostId: null, createdAt: new Date(NOW.getTime() - TTL - 1000) })
+    ])
+    prisma.post.deleteMany.mockResolvedValue({ count: 1 })
+
+    await expect(manager.createUnifiedPost(post, 'user-1')).resolves.toEqual(['post-2'])
+    expect(prisma.post.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'post-1', platformPostId: null }
+    })
+    expect(platforms.publishThread).toHaveBeenCalledTimes(1)
+  })
+
+  it('leaves an expired reservation to the retry that dropped it first', async () => {
+    prisma.post.findMany.mockResolvedValue([
+      stored({ platformPostId: null, createdAt: new Date(NOW.getTime() - TTL - 1000) })
+    ])
+    prisma.post.deleteMany.mockResolvedValue({ count: 0 })
+
+    await expect(manager.createUnifiedPost(post, 'user-1')).rejects.toThrow('already being published')
+    expect(platforms.publishThread).not.toHaveBeenCalled()
+  })
+
+  it('frees the key when the platform rejects the post', async () => {
+    platforms.publishThread.mockRejectedValue(new Error('Server error'))
+
+    await expect(manager.createUnifiedPost(post, 'user-1')).rejects.toThrow('Server error')
+    expect(prisma.post.delete).toHaveBeenCalledWith({ where: { id: 'post-2' } })
+  })
+})
+
+describe('UnifiedPlatformManager.getUnifiedAnalytics', () => {
+  const manager = new UnifiedPlatformManager()
+  ;(manager as any).platforms.set('MASTODON', {})
+
+  const totals = { views: 0, likes: 8, comments: 2, shares: 0, engagement: 0, date: NOW }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    analyticsStore.getMetricTotals.mockResolvedValue(totals)
+  })
+
+  it('totals one account, in the workspace it belongs to', async () => {
+    platforms.getAccount.mockResolvedValue({ id: 'acc-1', platform: 'MASTODON', workspaceId: 'ws-1' })
+    analyticsStore.findAccounts.mockResolvedValue([{ id: 'acc-1' }])
+    analyticsStore.getFollowerCounts.mockResolvedValue([{ accountId: 'acc-1', followers: 100 }])
+
+    await expect(manager.getUnifiedAnalytics('user-1', 'acc-1')).resolves.toMatchObject({
+      likes: 8,
+      engagement: 0.1
+    })
+    expect(analyticsStore.getMetricTotals).toHaveBeenCalledWith('user-1', {
+      workspaceId: 'ws-1',
+      accountIds: ['acc-1']
+    })
+  })
+
+  it('still accepts a platform and totals every account on it', async () => {
+    analyticsStore.findAccounts.mockResolvedValue([{ id: 'acc-1' }, { id: 'acc-2' }])
+    analyticsStore.getFollowerCounts.mockResolvedValue([
+      { accountId: 'acc-1', followers: 60 },
+      { accountId: 'acc-2', followers: 40 }
+    ])
+
+    await expect(manager.getUnifiedAnalytics('user-1', 'MASTODON')).resolves.toMatchObject({
+      engagement: 0.1
+    })
+    expect(platforms.getAccount).not.toHaveBeenCalled()
+    expect(analyticsStore.getMetricTotals).toHaveBeenCalledWith('user-1', { platforms: ['MASTODON'] })
+    expect(analyticsStore.getFollowerCounts).toHaveBeenCalledWith(['acc-1', 'acc-2'])
+  })
+})
+
+describe('UnifiedPlatformManager background sync', () => {
+  const manager = new UnifiedPlatformManager()
+  ;(manager as any).platforms.set('MASTODON', {})
+
+  const LEASE = 5 * 60 * 1000
+  const syncAccount = { ...account, platformUserId: '109', status: 'ACTIVE' }
+  let provider: Record<string, jest.Mock>
+
+  function page(ids: string[], nextCursor: string | null) {
+    return { posts: ids.map((postId) => ({ postId })), nextCursor }
+  }
+
+  function syncState(cursor: string | null) {
+    return { id: 'sync-1', accountId: 'acc-1', cursor, highWaterMark: null, account: syncAccount }
+  }
+
+  // The update that released the account after the sync, if any
+  function completion() {
+    return prisma.crossPlatformSync.updateMany.mock.calls
+      .map(([args]: any[]) => args)
+      .find((args: any) => args.data.lockedBy === null)
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now: NOW })
+    provider = {
+      setPriority: jest.fn(),
+      getPostsPage: jest.fn(),
+      getProfile: jest.fn().mockResolvedValue({ username: 'ominex', followersCount: 10 })
+    }
+    platforms.getAccountProvider.mockResolvedValue(provider)
+    prisma.account.findMany.mockResolvedValue([])
+    prisma.post.findMany.mockResolvedValue([])
+    prisma.message.findMany.mockResolvedValue([])
+    prisma.crossPlatformSync.updateMany.mockResolvedValue({ count: 1 })
+    SocialInbox.getInstance.mockReturnValue({ syncAccount: jest.fn().mockResolvedValue([]) })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('pages back to the stored cursor and stores the newest post as the next one', async () => {
+    prisma.crossPlatformSync.findMany.mockResolvedValue([syncState('status-3')])
+    provider.getPostsPage
+      .mockResolvedValueOnce(page(['status-9', 'status-8'], 'status-8'))
+      .mockResolvedValueOnce(page(['status-4', 'status-3'], 'status-3'))
+
+    await (manager as any).syncPlatformData()
+
+    expect(provider.getPostsPage).toHaveBeenCalledTimes(2)
+    expect(provider.getPostsPage).toHaveBeenLastCalledWith('109', 40, 'status-8')
+    expect(completion()).toMatchObject({
+      where: { id: 'sync-1', lockedBy: expect.any(String) },
+      data: { cursor: 'status-9', syncStatus: 'SUCCESS' }
+    })
+  })
+
+  it('reads a single page on the first sync of an account', async () => {
+    prisma.crossPlatformSync.findMany.mockResolvedValue([syncState(null)])
+    provider.getPostsPage.mockResolvedValue(page(['status-9'], 'status-9'))
+
+    await (manager as any).syncPlatformData()
+
+    expect(provider.getPostsPage).toHaveBeenCalledTimes(1)
+    expect(completion()?.data.cursor).toBe('status-9')
+  })
+
+  it('renews its lease during a long sync', async () => {
+    prisma.crossPlatformSync.findMany.mockResolvedValue([syncState('status-3')])
+    provider.getPostsPage
+      .mockImplementationOnce(async () => {
+        jest.setSystemTime(NOW.getTime() + LEASE * 0.75)
+        return page(['status-9'], 'status-9')
+      })
+      .mockResolvedValueOnce(page(['status-3'], null))
+
+    await (manager as any).syncPlatformData()
+
+    expect(prisma.crossPlatformSync.updateMany).toHaveBeenCalledWith({
+      where: { id: 'sync-1', lockedBy: expect.any(String) },
+      data: { lockedUntil: new Date(NOW.getTime() + LEASE * 1.75) }
+    })
+    expect(completion()?.data.syncStatus).toBe('SUCCESS')
+  })
+
+  it('stops without recording anything once another worker took the account over', async () => {
+    prisma.crossPlatformSync.findMany.mockResolvedValue([syncState('status-3')])
+    provider.getPostsPage.mockImplementationOnce(async () => {
+      jest.setSystemTime(NOW.getTime() + LEASE + 1000)
+      return page(['status-9'], 'status-9')
+    })
+    // The claim succeeds, the renewal before the second page does not
+    prisma.crossPlatformSync.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 })
+
+    await (manager as any).syncPlatformData()
+
+    expect(provider.getPostsPage).toHaveBeenCalledTimes(1)
+    expect(provider.getProfile).not.toHaveBeenCalled()
+    expect(prisma.account.update).not.toHaveBeenCalled()
+    expect(completion()).toBeUndefined()
+  })
+})
@@ -1,19 +1,58 @@
-import { Platform, ContentType } from '@prisma/client'
+import { Account, AccountStatus, Platform, Post, ContentType, Prisma } from '@prisma/client'
+import { randomUUID } from 'crypto'
+import { hostname } from 'os'
 import { prisma } from '../db'
 import { ai } from '../ai'
 import { s3 } from '../s3'
 import { getWebSocketService } from '../websocket'
-import { BasePlatform, PlatformPost, PlatformAnalytics } from './index'
-
+import { BaseSocialProvider } from '../social/base-provider'
+import { SocialService } from '../social/social-service'
+import { SocialInbox } from '../social/social-inbox'
+import { TeamInbox } from '../social/team-inbox'
+import { ApprovalWorkflow } from '../social/approval-workflow'
+import { SocialMediaPost } from '../social/types'
+import {
+  PlatformPost,
+  PlatformAnalytics,
+  toConnectorPost,
+  getConnectorAnalytics,
+  getPostPartIds,
+  publishThread,
+  getAccount,
+  getAccountProvider,
+  resolveAccounts,
+} from './index'
+import {
+  ContentIssue,
+  MediaItem,
+  PostVariant,
+  getContentRules,
+  validateVariant,
+} from './content-rules'
+import {
+  AnalyticsFilter,
+  findAccounts,
+  getFollowerCounts,
+  getMetricTotals,
+  recordFollowerSnapshot,
+  saveAnalyticsSnapshot,
+} from './analytics-store'
+import { normalizeMetrics } from './metrics'
+import { getNextBestSlot } from './posting-times'
+
+// The master draft. Each platform publishes its variant when one is given
+// and the master content and media otherwise.
 export interface UnifiedPost {
   content: string
-  media?: Array<{
-    type: 'image' | 'video' | 'audio'
-    url: string
-    caption?: string
-  }>
+  media?: MediaItem[]
+  variants?: Partial<Record<Platform, Partial<PostVariant>>>
   platforms: Platform[]
+  accountIds?: string[] // specific accounts to post as; defaults per platform
+  workspaceId?: string | null // where default accounts come from; the user's own when not set
   scheduledFor?: Date
+  autoSchedule?: boolean // schedule for the next best slot when no time is given
+  idempotencyKey?: string
+  draftId?: string // the approved draft the post was written in
   metadata?: Record<string, any>
 }
 
@@ -26,12 +65,62 @@ export interface UnifiedMessage {
   senderId: string
   receiverId: string
   platform: Platform
+  accountId?: string // sender's connected account the message belongs to
   metadata?: Record<string, any>
 }
 
+export interface SyncConfig {
+  pollInterval: number // in milliseconds
+  syncInterval: number // per account, in milliseconds
+  batchSize: number // accounts claimed per tick
+  leaseDuration: number // in milliseconds
+  pageSize: number // posts read per listing call
+  maxPages: number // listing calls per sync while catching up to the cursor
+  trackingWindow: number // keep syncing posts published within this many milliseconds
+  staleAfter: number // refresh posts outside the listing after this many milliseconds
+}
+
+const DEFAULT_SYNC_CONFIG: SyncConfig = {
+  pollInterval: 60 * 1000,
+  syncInterval: 5 * 60 * 1000,
+  batchSize: 50,
+  leaseDuration: 5 * 60 * 1000,
+  pageSize: 40,
+  maxPages: 10,
+  trackingWindow: 30 * 24 * 60 * 60 * 1000,
+  staleAfter: 6 * 60 * 60 * 1000,
+}
+
+// How long a post row may stay reserved without its platform post before the
+// publish is taken to have died and its idempotency key is free again
+const RESERVATION_TTL = 10 * 60 * 1000 // in milliseconds
+
+// A worker's claim on the sync row of one account
+interface SyncLease {
+  id: string
+  expiresAt: number // epoch milliseconds
+}
+
+// Thrown when another worker claimed an account whose sync is still running
+class SyncLeaseLostError extends Error {
+  constructor(id: string) {
+    super(`Sync ${id} was taken over by another worker`)
+    this.name = 'SyncLeaseLostError'
+  }
+}
+
+export interface VariantSuggestion {
+  variant: PostVariant
+  issues: ContentIssue[]
+}
+
 export class UnifiedPlatformManager {
-  private platforms: Map<Platform, BasePlatform>
+  private platforms: Map<Platform, BaseSocialProvider>
   private ws: any
+  private syncConfig: SyncConfig = DEFAULT_SYNC_CONFIG
+  private syncTimer: NodeJS.Timeout | null = null
+  private syncing = false
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
 
   constructor() {
     this.platforms = new Map()
@@ -39,101 +128,331 @@ export class UnifiedPlatformManager {
   }
 
   async initialize(): Promise<void> {
-    // Initialize platform instances
-    for (const platform of Object.values(Platform)) {
-      const instance = await this.getPlatformInstance(platform)
-      this.platforms.set(platform, instance)
+    // Use the connectors configured in the shared registry
+    const socialService = SocialService.getInstance()
+    for (const platform of socialService.getPlatforms()) {
+      this.platforms.set(platform, socialService.getProvider(platform))
     }
 
     // Start real-time sync
     this.startRealTimeSync()
   }
 
-  private async getPlatformInstance(platform: Platform): Promise<BasePlatform> {
-    const { getPlatformInstance } = await import('./index')
-    return getPlatformInstance(platform)
-  }
-
   private startRealTimeSync(): void {
-    // Set up interval for real-time data sync
-    setInterval(async () => {
-      await this.syncPlatformData()
-    }, 60000) // Sync every minute
+    if (this.syncTimer) return
+
+    // Each tick only syncs the accounts that are due; the interval is the
+    // resolution of the schedule, not how often every account is rescanned
+    this.syncTimer = setInterval(async () => {
+      if (this.syncing) return
+      this.syncing = true
+      try {
+        await this.syncPlatformData()
+      } catch (error) {
+        console.error('Error running platform sync:', error)
+      } finally {
+        this.syncing = false
+      }
+    }, this.syncConfig.pollInterval)
   }
 
   private async syncPlatformData(): Promise<void> {
-    const users = await prisma.user.findMany({
-      include: {
-        accounts: true,
+    await this.ensureSyncStates()
+
+    // Replicas share the work by claiming accounts; a lease left by a crashed
+    // worker expires and the account is picked up again
+    const now = new Date()
+    const due = await prisma.crossPlatformSync.findMany({
+      where: {
+        accountId: { not: null },
+        nextSyncAt: { lte: now },
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+        // Accounts waiting to be reconnected would only fail again
+        account: {
+          is: { status: { not: AccountStatus.NEEDS_REAUTH } },
+        },
       },
+      include: { account: true },
+      orderBy: { nextSyncAt: 'asc' },
+      take: this.syncConfig.batchSize,
     })
 
-    for (const user of users) {
-      for (const account of user.accounts) {
-        try {
-          const platform = this.platforms.get(account.platform)
-          if (!platform) continue
-
-          // Sync posts
-          await this.syncPosts(user.id, account.platform, platform)
-          
-          // Sync messages
-          await this.syncMessages(user.id, account.platform, platform)
-          
-          // Sync analytics
-          await this.syncAnalytics(user.id, account.platform, platform)
-          
-          // Update platform status
-          await this.updatePlatformStatus(user.id, account.platform, platform)
-        } catch (error) {
-          console.error(`Error syncing ${account.platform} for user ${user.id}:`, error)
+    for (const syncState of due) {
+      const account = syncState.account
+      if (!account || !this.platforms.has(account.platform)) continue
+      const lease = await this.claimSync(syncState.id)
+      if (!lease) continue
+
+      try {
+        const platform = await getAccountProvider(account)
+        platform.setPriority('BACKGROUND')
+
+        // Sync posts
+        const { cursor, commented } = await this.syncPosts(
+          account.userId,
+          account,
+          platform,
+          lease,
+          syncState.cursor
+        )
+
+        // Bring new comments on those posts and new mentions into the inbox
+        await this.renewSync(lease)
+        await this.syncInbox(account, platform, commented)
+
+        // Sync messages
+        const highWaterMark = await this.syncMessages(account.userId, account, syncState.highWaterMark)
+
+        // Sync profile stats, which also confirms the connection works
+        await this.syncAnalytics(account.userId, account, platform)
+
+        await this.completeSync(syncState.id, {
+          cursor: cursor ?? syncState.cursor,
+          highWaterMark,
+          lastSyncedAt: new Date(),
+          syncStatus: 'SUCCESS',
+          errorMessage: null,
+          nextSyncAt: new Date(Date.now() + this.syncConfig.syncInterval),
+        })
+      } catch (error) {
+        // The worker that took the account over records the outcome
+        if (error instanceof SyncLeaseLostError) continue
+
+        console.error(`Error syncing ${account.platform} account ${account.id}:`, error)
+        if ((error as any)?.code !== 'RATE_LIMIT_EXCEEDED') {
+          await this.updatePlatformStatus(account, AccountStatus.ERROR)
         }
+        await this.completeSync(syncState.id, {
+          syncStatus: 'FAILED',
+          errorMessage: (error as Error)?.message || 'Sync failed',
+          // A deferred call carries the time the platform will accept it again
+          nextSyncAt: new Date(
+            Date.now() +
+              Math.max(this.syncConfig.syncInterval, ((error as any)?.retryAfter || 0) * 1000)
+          ),
+        })
       }
     }
   }
 
-  private async syncPosts(userId: string, platform: Platform, instance: BasePlatform): Promise<void> {
+  // Every connected account gets one sync row, created on first sight
+  private async ensureSyncStates(): Promise<void> {
+    const accounts = await prisma.account.findMany({
+      where: {
+        syncState: { is: null },
+      },
+      select: { id: true, userId: true, platform: true },
+    })
+    if (accounts.length === 0) return
+
+    await prisma.crossPlatformSync.createMany({
+      data: accounts.map((account) => ({
+        userId: account.userId,
+        platform: account.platform,
+        accountId: account.id,
+        syncStatus: 'PENDING',
+      })),
+      skipDuplicates: true,
+    })
+  }
+
+  private async claimSync(id: string): Promise<SyncLease | null> {
+    const now = new Date()
+    const expiresAt = now.getTime() + this.syncConfig.leaseDuration
+    const { count } = await prisma.crossPlatformSync.updateMany({
+      where: {
+        id,
+        nextSyncAt: { lte: now },
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+      },
+      data: {
+        lockedBy: this.workerId,
+        lockedUntil: new Date(expiresAt),
+      },
+    })
+    return count === 1 ? { id, expiresAt } : null
+  }
+
+  // Called between the platform calls of a sync, which can outlast one
+  // lease. Extends the lease once half of it has run out.
+  private async renewSync(lease: SyncLease): Promise<void> {
+    const now = Date.now()
+    if (lease.expiresAt - now > this.syncConfig.leaseDuration / 2) return
+
+    const expiresAt = now + this.syncConfig.leaseDuration
+    const { count } = await prisma.crossPlatformSync.updateMany({
+      where: { id: lease.id, lockedBy: this.workerId },
+      data: { lockedUntil: new Date(expiresAt) },
+    })
+    if (count === 0) {
+      throw new SyncLeaseLostError(lease.id)
+    }
+    lease.expiresAt = expiresAt
+  }
+
+  private async completeSync(
+    id: string,
+    data: Prisma.CrossPlatformSyncUpdateManyMutationInput
+  ): Promise<void> {
+    // Skip the write if the lease expired and another worker took over
+    await prisma.crossPlatformSync.updateMany({
+      where: { id, lockedBy: this.workerId },
+      data: {
+        ...data,
+        lockedBy: null,
+        lockedUntil: null,
+      },
+    })
+  }
+
+  // Reads the account's latest posts and only fetches analytics for tracked
+  // posts whose counts changed since their last snapshot. Returns the id of
+  // the newest post seen, used as the cursor, and the posts whose comment
+  // count changed.
+  private async syncPosts(
+    userId: string,
+    account: Account,
+    instance: BaseSocialProvider,
+    lease: SyncLease,
+    since: string | null
+  ): Promise<{ cursor: string | null; commented: string[] }> {
+    const { platform } = account
     const posts = await prisma.post.findMany({
       where: {
         userId,
-        platform,
+        accountId: account.id,
         isPublished: true,
+        platformPostId: { not: null },
+        publishedAt: { gte: new Date(Date.now() - this.syncConfig.trackingWindow) },
+      },
+      include: {
+        analytics: {
+          orderBy: { date: 'desc' },
+          take: 1,
+        },
       },
     })
 
+    const listing = await this.listPostsSince(account, instance, lease, since)
+    const listed = new Map(listing.map((item) => [item.postId, item]))
+    const commented: string[] = []
+
     for (const post of posts) {
-      const analytics = await instance.getAnalytics(post.platformPostId || '')
-      await prisma.analytics.create({
-        data: {
-          postId: post.id,
-          platform,
-          ...analytics,
-        },
-      })
+      const latest = post.analytics[0]
+      // Listing counts only cover a thread's root, so threads go by staleness
+      const item = post.threadPostIds.length > 0 ? undefined : listed.get(post.platformPostId as string)
+
+      if (latest) {
+        if (item) {
+          const unchanged =
+            (item.likesCount ?? latest.likes) === latest.likes &&
+            (item.commentsCount ?? latest.comments) === latest.comments &&
+            (item.sharesCount ?? latest.shares) === latest.shares &&
+            (item.viewsCount ?? latest.views) === latest.views
+          if (unchanged) continue
+        } else if (Date.now() - latest.updatedAt.getTime() < this.syncConfig.staleAfter) {
+          // Older than the listing page; refresh it only once it goes stale
+          continue
+        }
+      }
+
+      await this.renewSync(lease)
+      const analytics = await getConnectorAnalytics(
+        instance,
+        getPostPartIds(post.platformPostId as string, post.threadPostIds)
+      )
+      await saveAnalyticsSnapshot(post.id, platform, analytics)
+      if (analytics.comments !== (latest?.comments ?? 0)) {
+        commented.push(post.platformPostId as string)
+      }
 
       // Notify through WebSocket
       this.ws.emitToUser(userId, 'post_analytics_updated', {
         postId: post.id,
         platform,
+        accountId: account.id,
         analytics,
       })
     }
+
+    return { cursor: listing[0]?.postId ?? null, commented }
   }
 
-  private async syncMessages(userId: string, platform: Platform, instance: BasePlatform): Promise<void> {
+  // Pages back from the newest post until the page holding the cursor, the
+  // newest post of the previous sync, so a burst of posts published in
+  // between is not missed. A first sync reads one page.
+  private async listPostsSince(
+    account: Account,
+    instance: BaseSocialProvider,
+    lease: SyncLease,
+    since: string | null
+  ): Promise<SocialMediaPost[]> {
+    if (!instance.getPostsPage) {
+      return instance.getPosts(account.platformUserId, this.syncConfig.pageSize)
+    }
+
+    const listing: SocialMediaPost[] = []
+    let cursor: string | undefined
+    for (let page = 0; page < this.syncConfig.maxPages; page++) {
+      if (page > 0) {
+        await this.renewSync(lease)
+      }
+
+      const { posts, nextCursor } = await instance.getPostsPage(
+        account.platformUserId,
+        this.syncConfig.pageSize,
+        cursor
+      )
+      listing.push(...posts)
+      if (!since || !nextCursor || posts.some((post) => post.postId === since)) break
+      cursor = nextCursor
+    }
+    return listing
+  }
+
+  private async syncInbox(
+    account: Account,
+    instance: BaseSocialProvider,
+    postIds: string[]
+  ): Promise<void> {
+    const items = await SocialInbox.getInstance().syncAccount(account, instance, postIds)
+    if (items.length === 0) return
+
+    for (const item of items) {
+      await TeamInbox.getInstance().addComment(item)
+    }
+
+    // Notify through WebSocket
+    this.ws.emitToUser(account.userId, 'inbox_updated', {
+      platform: account.platform,
+      accountId: account.id,
+      itemIds: items.map((item) => item.id),
+    })
+  }
+
+  // Only messages received since the previous sync are looked at. Returns
+  // the new high-water mark.
+  private async syncMessages(
+    userId: string,
+    account: Account,
+    since: Date | null
+  ): Promise<Date | null> {
+    const { platform } = account
     const messages = await prisma.message.findMany({
       where: {
-        OR: [
-          { senderId: userId },
-          { receiverId: userId },
-        ],
-        platform,
+        receiverId: userId,
+        accountId: account.id,
+        ...(since ? { createdAt: { gt: since } } : {}),
       },
+      orderBy: { createdAt: 'asc' },
     })
 
     for (const message of messages) {
+      // Messages from outside senders are worked in the team inbox
+      await TeamInbox.getInstance().addMessage(message)
+
       // Update message status if needed
-      if (!message.isRead && message.receiverId === userId) {
+      if (!message.isRead) {
         await prisma.message.update({
           where: { id: message.id },
           data: { isRead: true },
@@ -143,27 +462,30 @@ export class UnifiedPlatformManager {
         this.ws.emitToUser(userId, 'message_read', {
           messageId: message.id,
           platform,
+          accountId: account.id,
         })
       }
     }
+
+    return messages.length > 0 ? messages[messages.length - 1].createdAt : since
   }
 
-  private async syncAnalytics(userId: string, platform: Platform, instance: BasePlatform): Promise<void> {
-    const profile = await instance.getProfile()
-    const followers = await instance.getFollowers()
-    const following = await instance.getFollowing()
+  private async syncAnalytics(userId: string, account: Account, instance: BaseSocialProvider): Promise<void> {
+    const { platform } = account
+    const profile = await instance.getProfile(account.platformUserId)
+    const followers = profile.followersCount || 0
+    const following = profile.followingCount || 0
 
     // Update account stats
     await prisma.account.update({
       where: {
-        userId_platform: {
-          userId,
-          platform,
-        },
+        id: account.id,
       },
       data: {
         platformUsername: profile.username,
-        platformAvatar: profile.avatar,
+        platformAvatar: profile.avatarUrl,
+        status: AccountStatus.ACTIVE,
+        lastStatusUpdate: new Date(),
         metadata: {
           followers,
           following,
@@ -171,84 +493,227 @@ export class UnifiedPlatformManager {
         },
       },
     })
+    await recordFollowerSnapshot(account, followers, following)
 
     // Notify through WebSocket
     this.ws.emitToUser(userId, 'profile_updated', {
       platform,
+      accountId: account.id,
       profile,
       followers,
       following,
     })
   }
 
-  private async updatePlatformStatus(userId: string, platform: Platform, instance: BasePlatform): Promise<void> {
+  private async updatePlatformStatus(account: Account, status: AccountStatus): Promise<void> {
     try {
-      await instance.getProfile() // Test connection
       await prisma.account.update({
         where: {
-          userId_platform: {
-            userId,
-            platform,
-          },
+          id: account.id,
         },
         data: {
-          status: 'active',
+          status,
           lastStatusUpdate: new Date(),
         },
       })
     } catch (error) {
-      await prisma.account.update({
-        where: {
-          userId_platform: {
-            userId,
-            platform,
-          },
-        },
-        data: {
-          status: 'error',
-          lastStatusUpdate: new Date(),
-        },
-      })
+      console.error(`Error updating status of account ${account.id}:`, error)
     }
   }
 
   async createUnifiedPost(post: UnifiedPost, userId: string): Promise<string[]> {
     const postIds: string[] = []
-    const aiOptimizedContent = await this.optimizeContentForPlatforms(post.content, post.platforms)
+    const accounts = await resolveAccounts(userId, post.platforms, post.accountIds, post.workspaceId)
+    const replayed = post.idempotencyKey
+      ? await this.getIdempotentPosts(userId, post.idempotencyKey, accounts)
+      : new Map<string, Post>()
+    const platforms = Array.from(new Set(
+      accounts
+        .filter((account) => !replayed.has(account.id))
+        .map((account) => account.platform)
+    ))
+
+    // Nothing is published unless every variant passes its platform's rules
+    const errors = this.validateVariants(post, platforms)
+      .filter((issue) => issue.severity === 'ERROR')
+    if (errors.length > 0) {
+      throw new Error(
+        `Post is not valid for publishing: ${errors.map((issue) => `${issue.platform}: ${issue.message}`).join('; ')}`
+      )
+    }
 
-    for (const platform of post.platforms) {
-      const instance = this.platforms.get(platform)
-      if (!instance) continue
+    const scheduledFor = post.scheduledFor || (post.autoSchedule
+      ? await getNextBestSlot(userId, {
+          workspaceId: post.workspaceId,
+          accountIds: accounts.map((account) => account.id),
+        })
+      : undefined)
+
+    // Every variant going out must be the approved content. A retry that
+    // only replays posts has nothing left to check.
+    const pending = accounts.filter((account) => !replayed.has(account.id))
+    const replayedIds = new Set(Array.from(replayed.values(), (item) => item.id))
+    const approvals = ApprovalWorkflow.getInstance()
+    const draft = pending.length > 0
+      ? await approvals.claimApproval(userId, {
+          draftId: post.draftId,
+          accountIds: pending.map((account) => account.id),
+          publishedPostIds: Array.from(replayedIds),
+          contents: pending.map((account) => {
+            const variant = this.getVariant(post, account.platform)
+            return {
+              platform: account.platform,
+              content: variant.content,
+              mediaUrls: (variant.media || []).map((item) => item.url),
+            }
+          }),
+        })
+      : null
 
+    try {
+      await this.publishToAccounts(userId, post, accounts, replayed, scheduledFor, postIds)
+    } catch (error) {
+      if (draft) {
+        if (postIds.some((id) => !replayedIds.has(id))) {
+          await approvals.completeApproval(userId, draft, { postIds })
+        } else {
+          await approvals.releaseApproval(draft.id)
+        }
+      }
+      throw error
+    }
+
+    if (draft) {
+      await approvals.completeApproval(userId, draft, { postIds })
+    }
+    return postIds
+  }
+
+  private async publishToAccounts(
+    userId: string,
+    post: UnifiedPost,
+    accounts: Account[],
+    replayed: Map<string, Post>,
+    scheduledFor: Date | undefined,
+    postIds: string[]
+  ): Promise<void> {
+    for (const account of accounts) {
+      const replayedPost = replayed.get(account.id)
+      if (replayedPost) {
+        postIds.push(replayedPost.id)
+        continue
+      }
+
+      if (!this.platforms.has(account.platform)) continue
+      const instance = await getAccountProvider(account)
+
+      const variant = this.getVariant(post, account.platform)
       const platformPost: PlatformPost = {
-        content: aiOptimizedContent[platform],
-        media: post.media,
-        scheduledFor: post.scheduledFor,
+        content: variant.content,
+        media: variant.media,
+        scheduledFor,
         metadata: post.metadata,
       }
 
-      const platformPostId = await instance.createPost(platformPost)
-      
-      const dbPost = await prisma.post.create({
+      // Reserve the post row before calling the platform. With an idempotency
+      // key the unique index makes a concurrent duplicate fail here instead
+      // of posting a second time.
+      const dbPost = await this.reservePost(userId, account, platformPost, post.idempotencyKey)
+
+      // Long content goes out as a reply thread on short-form platforms. The
+      // key lets platforms that support it drop a repeat of a reservation
+      // that expired while its platform call was still going through.
+      let parts: SocialMediaPost[]
+      try {
+        parts = await publishThread(instance, toConnectorPost({
+          ...platformPost,
+          metadata: post.idempotencyKey
+            ? { ...platformPost.metadata, idempotencyKey: `${post.idempotencyKey}:${account.id}` }
+            : platformPost.metadata,
+        }))
+      } catch (error) {
+        // Free the key so a retry can publish to this account again
+        await prisma.post.delete({ where: { id: dbPost.id } })
+        throw error
+      }
+
+      await prisma.post.update({
+        where: { id: dbPost.id },
+        data: {
+          platformPostId: parts[0].postId,
+          threadPostIds: parts.length > 1 ? parts.map((part) => part.postId) : [],
+          isPublished: !platformPost.scheduledFor,
+          publishedAt: !platformPost.scheduledFor ? new Date() : undefined,
+        },
+      })
+
+      postIds.push(dbPost.id)
+    }
+  }
+
+  private async getIdempotentPosts(
+    userId: string,
+    idempotencyKey: string,
+    accounts: Account[]
+  ): Promise<Map<string, Post>> {
+    const posts = await prisma.post.findMany({
+      where: {
+        userId,
+        idempotencyKey,
+        accountId: { in: accounts.map((account) => account.id) },
+      },
+    })
+
+    const replayed = new Map<string, Post>()
+    for (const post of posts) {
+      if (!post.platformPostId) {
+        // The process that reserved it died before publishing; drop the
+        // reservation so this call publishes to the account instead
+        if (Date.now() - post.createdAt.getTime() > RESERVATION_TTL) {
+          const { count } = await prisma.post.deleteMany({
+            where: { id: post.id, platformPostId: null },
+          })
+          if (count === 1) continue
+        }
+        throw new Error(`Post with idempotency key ${idempotencyKey} is already being published`)
+      }
+      replayed.set(post.accountId as string, post)
+    }
+    return replayed
+  }
+
+  private async reservePost(
+    userId: string,
+    account: Account,
+    platformPost: PlatformPost,
+    idempotencyKey?: string
+  ) {
+    try {
+      return await prisma.post.create({
         data: {
           userId,
-          platform,
-          platformPostId,
+          platform: account.platform,
+          accountId: account.id,
+          idempotencyKey,
           type: ContentType.POST,
           content: platformPost.content,
           media: platformPost.media,
           metadata: platformPost.metadata,
-          isPublished: !platformPost.scheduledFor,
+          isPublished: false,
           isScheduled: !!platformPost.scheduledFor,
           scheduledFor: platformPost.scheduledFor,
-          publishedAt: !platformPost.scheduledFor ? new Date() : undefined,
         },
       })
-
-      postIds.push(dbPost.id)
+    } catch (error) {
+      if (
+        idempotencyKey &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new Error(`Post with idempotency key ${idempotencyKey} is already being published`)
+      }
+      throw error
     }
-
-    return postIds
   }
 
   async sendUnifiedMessage(message: UnifiedMessage): Promise<string> {
@@ -257,12 +722,20 @@ export class UnifiedPlatformManager {
       throw new Error(`Platform ${message.platform} not supported`)
     }
 
+    if (message.accountId) {
+      const account = await getAccount(message.senderId, message.accountId, 'inbox:reply')
+      if (account.platform !== message.platform) {
+        throw new Error(`Account ${account.id} is not a ${message.platform} account`)
+      }
+    }
+
     // Store message in database
     const dbMessage = await prisma.message.create({
       data: {
         senderId: message.senderId,
         receiverId: message.receiverId,
         platform: message.platform,
+        accountId: message.accountId,
         content: message.content,
         media: message.media,
         isRead: false,
@@ -275,62 +748,84 @@ export class UnifiedPlatformManager {
       senderId: message.senderId,
       content: message.content,
       platform: message.platform,
+      accountId: message.accountId,
       timestamp: new Date(),
     })
 
     return dbMessage.id
   }
 
-  private async optimizeContentForPlatforms(content: string, platforms: Platform[]): Promise<Record<Platform, string>> {
-    const optimizedContent: Record<Platform, string> = {} as Record<Platform, string>
+  getVariant(post: UnifiedPost, platform: Platform): PostVariant {
+    const variant = post.variants?.[platform]
+    return {
+      content: variant?.content ?? post.content,
+      media: variant?.media ?? post.media,
+    }
+  }
+
+  // Checks the variant for each platform against that platform's limits
+  validateVariants(post: UnifiedPost, platforms: Platform[] = post.platforms): ContentIssue[] {
+    return platforms.flatMap((platform) => validateVariant(platform, this.getVariant(post, platform)))
+  }
+
+  // AI rewrites of the master draft for each platform. These are only
+  // suggestions: the caller decides whether to copy one into `variants`.
+  async suggestVariants(
+    post: UnifiedPost,
+    platforms: Platform[] = post.platforms
+  ): Promise<Partial<Record<Platform, VariantSuggestion>>> {
+    const suggestions: Partial<Record<Platform, VariantSuggestion>> = {}
 
     for (const platform of platforms) {
-      const suggestion = await ai.generateContentSuggestion(
-        platform,
-        [], // Target audience will be determined by platform
-        [] // Topics will be extracted from content
-      )
+      const rules = getContentRules(platform)
+      const current = this.getVariant(post, platform)
+      const content = await ai.rewriteForPlatform(current.content, platform, {
+        maxLength: rules.maxLength,
+        maxHashtags: rules.maxHashtags,
+      })
 
-      optimizedContent[platform] = suggestion.content
+      const variant = { ...current, content }
+      suggestions[platform] = {
+        variant,
+        issues: validateVariant(platform, variant),
+      }
     }
 
-    return optimizedContent
+    return suggestions
   }
 
-  async getUnifiedAnalytics(userId: string, platform: Platform): Promise<PlatformAnalytics> {
-    const instance = this.platforms.get(platform)
-    if (!instance) {
-      throw new Error(`Platform ${platform} not supported`)
+  // Lifetime totals from the stored snapshots; the sync loop keeps them
+  // current, so no platform calls are made here. Given a platform instead of
+  // an account id, totals all of the user's personal accounts on it.
+  async getUnifiedAnalytics(userId: string, target: Platform | string): Promise<PlatformAnalytics> {
+    let platform: Platform
+    let filter: AnalyticsFilter
+    if ((Object.values(Platform) as string[]).includes(target)) {
+      platform = target as Platform
+      filter = { platforms: [platform] }
+    } else {
+      const account = await getAccount(userId, target)
+      platform = account.platform
+      filter = { workspaceId: account.workspaceId, accountIds: [account.id] }
     }
 
-    const posts = await prisma.post.findMany({
-      where: {
-        userId,
-        platform,
-        isPublished: true,
-      },
-    })
-
-    let totalViews = 0
-    let totalLikes = 0
-    let totalComments = 0
-    let totalShares = 0
-
-    for (const post of posts) {
-      const analytics = await instance.getAnalytics(post.platformPostId || '')
-      totalViews += analytics.views
-      totalLikes += analytics.likes
-      totalComments += analytics.comments
-      totalShares += analytics.shares
+    if (!this.platforms.has(platform)) {
+      throw new Error(`Platform ${platform} not supported`)
     }
 
+    const accountIds = (await findAccounts(userId, filter)).map((account) => account.id)
+    const totals = await getMetricTotals(userId, filter)
+    const snapshots = await getFollowerCounts(accountIds)
+    const followers = snapshots.length > 0
+      ? snapshots.reduce((sum, snapshot) => sum + snapshot.followers, 0)
+      : undefined
+    // Views mean different things per platform, so the rate comes from the
+    // normalized metrics
+    const metrics = normalizeMetrics(platform, totals, followers)
     return {
-      views: totalViews,
-      likes: totalLikes,
-      comments: totalComments,
-      shares: totalShares,
-      engagement: (totalLikes + totalComments + totalShares) / (totalViews || 1),
-      date: new Date(),
+      ...totals,
+      engagement: metrics.engagementRate ?? metrics.followerEngagementRate ?? 0,
+      date: totals.date || new Date(),
     }
   }
 }
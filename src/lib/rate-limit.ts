@@ -18,6 +18,12 @@ export class RateLimiter {
   }
 
   async isRateLimited(key: string): Promise<boolean> {
+    return (await this.acquire(key)) === null
+  }
+
+  // Counts a request in the window and returns its entry, so a request that
+  // was never made can be given back with release(). Null when limited.
+  async acquire(key: string): Promise<string | null> {
     const now = Date.now()
     const windowStart = now - this.config.window * 1000
 
@@ -28,16 +34,21 @@ export class RateLimiter {
     const count = await this.redis.zcard(key)
 
     if (count >= this.config.limit) {
-      return true
+      return null
     }
 
     // Add new entry
-    await this.redis.zadd(key, now, `${now}-${Math.random()}`)
+    const entry = `${now}-${Math.random()}`
+    await this.redis.zadd(key, now, entry)
 
     // Set expiry on the key
     await this.redis.expire(key, this.config.window)
 
-    return false
+    return entry
+  }
+
+  async release(key: string, entry: string): Promise<void> {
+    await this.redis.zrem(key, entry)
   }
 
   async getRemainingRequests(key: string): Promise<number> {
@@ -83,4 +94,6 @@ export const rateLimiters = {
   medium: new RateLimiter({ limit: 100, window: 60 }), // 100 requests per minute
   wechat: new RateLimiter({ limit: 100, window: 60 }), // 100 requests per minute
   threads: new RateLimiter({ limit: 100, window: 60 }), // 100 requests per minute
+  mastodon: new RateLimiter({ limit: 300, window: 300 }), // 300 requests per 5 minutes
+  bluesky: new RateLimiter({ limit: 3000, window: 300 }), // 3000 requests per 5 minutes
 } 
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { ApprovalWorkflow } from './approval-workflow'
+
+const mockPrisma = {
+  postDraft: { findUnique: jest.fn(), updateMany: jest.fn() },
+  postQueueItem: { findUnique: jest.fn() }
+}
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => mockPrisma),
+  PostDraftStatus: { DRAFT: 'DRAFT', APPROVED: 'APPROVED', PUBLISHED: 'PUBLISHED' },
+  WorkspaceRole: { OWNER: 'OWNER', ADMIN: 'ADMIN', EDITOR: 'EDITOR', CONTRIBUTOR: 'CONTRIBUTOR', VIEWER: 'VIEWER' }
+}))
+jest.mock('../env', () => ({ env: { NEXT_PUBLIC_APP_URL: 'https://app.example' } }))
+jest.mock('../notifications', () => ({ notifications: {} }))
+jest.mock('../workspaces/access', () => ({ checkRecordAccess: async () => true }))
+
+const draft = {
+  id: 'draft-1',
+  version: 2,
+  status: 'APPROVED',
+  content: 'Evergreen',
+  mediaUrls: [],
+  variants: [],
+  accountIds: ['acc-1'],
+  postIds: []
+}
+
+const request = {
+  draftId: 'draft-1',
+  accountIds: ['acc-1'],
+  contents: [{ platform: 'MASTODON' as const, content: 'Evergreen', mediaUrls: [] }]
+}
+
+describe('ApprovalWorkflow.claimApproval', () => {
+  const workflow = ApprovalWorkflow.getInstance()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.postDraft.findUnique.mockResolvedValue(draft)
+    mockPrisma.postDraft.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  it('uses up the approval of a one-off post', async () => {
+    await expect(workflow.claimApproval('user-1', request as any)).resolves.toBe(draft)
+
+    expect(mockPrisma.postDraft.updateMany).toHaveBeenCalledWith({
+      where: { id: 'draft-1', version: 2, status: 'APPROVED' },
+      data: expect.objectContaining({ status: 'PUBLISHED' })
+    })
+  })
+
+  it('lets every occurrence of a queue item publish under the item\'s draft', async () => {
+    mockPrisma.postDraft.findUnique.mockResolvedValue({ ...draft, status: 'PUBLISHED' })
+    mockPrisma.postQueueItem.findUnique.mockResolvedValue({ draftId: 'draft-1' })
+
+    await expect(
+      workflow.claimApproval('user-1', { ...request, queueItemId: 'item-1' } as any)
+    ).resolves.toBeNull()
+    await expect(
+      workflow.claimApproval('user-1', {
+        ...request,
+        queueItemId: 'item-1',
+        contents: [{ platform: 'MASTODON', content: 'Edited', mediaUrls: [] }]
+      } as any)
+    ).rejects.toThrow('differs from its approved draft')
+    expect(mockPrisma.postDraft.updateMany).not.toHaveBeenCalled()
+  })
+})
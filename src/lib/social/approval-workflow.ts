@@ -0,0 +1,788 @@
+import {
+  ApprovalChain,
+  ApprovalStep,
+  Platform,
+  Prisma,
+  PostDraft,
+  PostDraftComment,
+  PostDraftStatus,
+  PostDraftVersion,
+  PrismaClient,
+  ReviewDecision,
+  WorkspaceRole
+} from '@prisma/client'
+import { env } from '../env'
+import { notifications } from '../notifications'
+import { PlatformVariant, readVariants, resolveVariant } from '../platforms/content-rules'
+import {
+  Membership,
+  checkRecordAccess,
+  getAccessibleAccounts,
+  getMemberAccountRole,
+  getMembership,
+  getSharedWorkspaceId,
+  getWorkspaceScope,
+  inScope,
+  requireWorkspacePermission
+} from '../workspaces/access'
+import { WorkspaceAccessError, WorkspacePermission, hasRole } from '../workspaces/permissions'
+
+export interface PostDraftInput {
+  content: string
+  mediaUrls?: string[]
+  variants?: PlatformVariant[]
+  accountIds: string[]
+  workspaceId?: string | null // the workspace of the accounts; personal when not set
+  metadata?: Record<string, any>
+}
+
+export interface PostDraftFilter {
+  workspaceId?: string | null
+  statuses?: PostDraftStatus[]
+  awaitingReview?: boolean // only drafts the user may decide on now
+}
+
+export interface ApprovalStepInput {
+  name?: string
+  reviewerIds?: string[] // any member with minRole on the accounts when empty
+  minRole?: WorkspaceRole // EDITOR when not set
+}
+
+export interface ApprovalChainInput {
+  accountId?: string | null // the workspace's default chain when not set
+  exemptRole?: WorkspaceRole | null
+  steps: ApprovalStepInput[]
+}
+
+// A post about to be published or scheduled. Contents lists what it sends
+// out on each platform: the post's own text, or that platform's variant of it.
+export interface ApprovalRequest {
+  draftId?: string | null
+  accountIds: string[]
+  contents: Array<{ platform: Platform; content: string; mediaUrls: string[] }>
+  // Posts an earlier attempt of the same request published. The draft it
+  // used stays valid for the accounts that attempt did not reach.
+  publishedPostIds?: string[]
+  // The post queue item the post is an occurrence of. The draft the item
+  // was approved with covers all of its occurrences.
+  queueItemId?: string | null
+}
+
+export type ApprovalChainDetails = ApprovalChain & { steps: ApprovalStep[] }
+
+export type PostDraftDetails = PostDraft & {
+  versions: PostDraftVersion[]
+  comments: PostDraftComment[]
+}
+
+// A step as it was when the draft was submitted. Later changes to the chain
+// apply from the next submission on.
+interface ReviewStep {
+  chainId: string
+  name: string | null
+  reviewerIds: string[]
+  minRole: WorkspaceRole | null
+}
+
+const EDITABLE_STATUSES: PostDraftStatus[] = [PostDraftStatus.DRAFT, PostDraftStatus.CHANGES_REQUESTED]
+const MAX_STEPS = 10
+
+const CHAIN_STEPS = {
+  steps: { orderBy: { position: 'asc' as const } }
+}
+
+/**
+ * Review of posts before they go out on workspace accounts. A draft passes
+ * the steps of the approval chain of each of its accounts in turn, and
+ * publishing on accounts with a chain takes an approved draft with the same
+ * content. Each approval is used for one post.
+ */
+export class ApprovalWorkflow {
+  private static instance: ApprovalWorkflow
+  private prisma: PrismaClient
+
+  private constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  static getInstance(): ApprovalWorkflow {
+    if (!ApprovalWorkflow.instance) {
+      ApprovalWorkflow.instance = new ApprovalWorkflow()
+    }
+    return ApprovalWorkflow.instance
+  }
+
+  async getApprovalChains(userId: string, workspaceId: string): Promise<ApprovalChainDetails[]> {
+    await requireWorkspacePermission(userId, workspaceId, 'content:view')
+    return this.prisma.approvalChain.findMany({
+      where: { workspaceId },
+      include: CHAIN_STEPS,
+      orderBy: { createdAt: 'asc' }
+    })
+  }
+
+  // Replaces the chain of the account, or the workspace's default chain.
+  // Drafts already in review keep the steps they were submitted with.
+  async setApprovalChain(
+    userId: string,
+    workspaceId: string,
+    input: ApprovalChainInput
+  ): Promise<ApprovalChainDetails> {
+    await requireWorkspacePermission(userId, workspaceId, 'accounts:manage')
+    await this.validateChain(workspaceId, input)
+
+    const accountId = input.accountId || null
+    const exemptRole = input.exemptRole || null
+    const steps = input.steps.map((step, position) => ({
+      position,
+      name: step.name?.trim() || null,
+      reviewerIds: Array.from(new Set(step.reviewerIds || [])),
+      minRole: step.minRole || null
+    }))
+
+    return this.prisma.$transaction(async (tx) => {
+      const existing = await tx.approvalChain.findFirst({
+        where: { workspaceId, accountId },
+        orderBy: { createdAt: 'asc' }
+      })
+      if (!existing) {
+        return tx.approvalChain.create({
+          data: {
+            workspaceId,
+            accountId,
+            exemptRole,
+            createdById: userId,
+            steps: { create: steps }
+          },
+          include: CHAIN_STEPS
+        })
+      }
+
+      await tx.approvalStep.deleteMany({
+        where: { chainId: existing.id }
+      })
+      return tx.approvalChain.update({
+        where: { id: existing.id },
+        data: {
+          exemptRole,
+          steps: { create: steps }
+        },
+        include: CHAIN_STEPS
+      })
+    })
+  }
+
+  async deleteApprovalChain(userId: string, chainId: string): Promise<boolean> {
+    const chain = await this.prisma.approvalChain.findUnique({
+      where: { id: chainId }
+    })
+    if (!chain || !(await getMembership(userId, chain.workspaceId))) {
+      throw new Error(`Approval chain ${chainId} not found`)
+    }
+    await requireWorkspacePermission(userId, chain.workspaceId, 'accounts:manage')
+
+    await this.prisma.approvalChain.delete({
+      where: { id: chainId }
+    })
+    return true
+  }
+
+  async createDraft(userId: string, input: PostDraftInput): Promise<PostDraft> {
+    this.validateContent(input)
+
+    const accounts = await getAccessibleAccounts(userId, 'posts:draft', {
+      workspaceId: input.workspaceId,
+      accountIds: input.accountIds
+    })
+    if (accounts.length !== new Set(input.accountIds).size) {
+      throw new Error('Some of the selected accounts are not available')
+    }
+
+    const content = {
+      content: input.content,
+      mediaUrls: input.mediaUrls || [],
+      variants: input.variants,
+      platforms: Array.from(new Set(accounts.map((account) => account.platform))),
+      accountIds: accounts.map((account) => account.id),
+      metadata: input.metadata
+    }
+
+    return this.prisma.postDraft.create({
+      data: {
+        userId,
+        workspaceId: getSharedWorkspaceId(accounts),
+        ...content,
+        versions: {
+          create: { version: 1, ...content, editedById: userId }
+        }
+      }
+    })
+  }
+
+  // Saves a new version of a draft that is not in review
+  async updateDraft(
+    userId: string,
+    draftId: string,
+    changes: Partial<Omit<PostDraftInput, 'workspaceId'>>
+  ): Promise<PostDraft> {
+    const draft = await this.getDraftRecord(userId, draftId, 'posts:draft')
+    if (!EDITABLE_STATUSES.includes(draft.status)) {
+      throw new Error(`A draft that is ${this.describeStatus(draft.status)} cannot be edited`)
+    }
+
+    const next = {
+      content: changes.content ?? draft.content,
+      mediaUrls: changes.mediaUrls ?? draft.mediaUrls,
+      variants: (changes.variants ?? draft.variants ?? undefined) as Prisma.InputJsonValue | undefined,
+      platforms: draft.platforms,
+      accountIds: changes.accountIds ?? draft.accountIds,
+      metadata: (changes.metadata ?? draft.metadata ?? undefined) as Prisma.InputJsonValue | undefined
+    }
+    this.validateContent(next)
+
+    if (changes.accountIds) {
+      const accounts = await getAccessibleAccounts(userId, 'posts:draft', {
+        workspaceId: draft.workspaceId,
+        accountIds: changes.accountIds
+      })
+      if (accounts.length !== new Set(changes.accountIds).size) {
+        throw new Error('Some of the selected accounts are not available')
+      }
+      next.platforms = Array.from(new Set(accounts.map((account) => account.platform)))
+      next.accountIds = accounts.map((account) => account.id)
+    }
+
+    const version = draft.version + 1
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.postDraft.updateMany({
+        where: {
+          id: draftId,
+          version: draft.version,
+          status: { in: EDITABLE_STATUSES }
+        },
+        data: { ...next, version }
+      })
+      if (count === 0) {
+        throw new Error('The draft was changed in the meantime; reload it and try again')
+      }
+
+      await tx.postDraftVersion.create({
+        data: { draftId, version, ...next, editedById: userId }
+      })
+      return tx.postDraft.findUniqueOrThrow({ where: { id: draftId } })
+    })
+  }
+
+  // Sends the draft into review, or approves it right away when none of its
+  // accounts has a chain that applies to the author
+  async submitDraft(userId: string, draftId: string): Promise<PostDraft> {
+    const draft = await this.getDraftRecord(userId, draftId, 'posts:draft')
+    if (!EDITABLE_STATUSES.includes(draft.status)) {
+      throw new Error(`A draft that is ${this.describeStatus(draft.status)} cannot be submitted`)
+    }
+
+    const chains = draft.workspaceId
+      ? await this.getRequiredChains(draft.userId, draft.workspaceId, draft.accountIds)
+      : []
+    const steps: ReviewStep[] = chains.flatMap((chain) =>
+      chain.steps.map((step) => ({
+        chainId: chain.id,
+        name: step.name,
+        reviewerIds: step.reviewerIds,
+        minRole: step.minRole
+      }))
+    )
+
+    const now = new Date()
+    const approved = steps.length === 0
+    const { count } = await this.prisma.postDraft.updateMany({
+      where: {
+        id: draftId,
+        version: draft.version,
+        status: { in: EDITABLE_STATUSES }
+      },
+      data: {
+        status: approved ? PostDraftStatus.APPROVED : PostDraftStatus.IN_REVIEW,
+        steps: steps as unknown as Prisma.InputJsonValue,
+        currentStep: 0,
+        submittedAt: now,
+        decidedAt: approved ? now : null
+      }
+    })
+    if (count === 0) {
+      throw new Error('The draft was changed in the meantime; reload it and try again')
+    }
+
+    const submitted = await this.prisma.postDraft.findUniqueOrThrow({ where: { id: draftId } })
+    if (!approved) {
+      await this.notify(
+        await this.getReviewerIds(submitted, steps[0]),
+        submitted,
+        'Draft waiting for your review',
+        `Please review ${this.describeDraft(submitted)}.`
+      )
+    }
+    return submitted
+  }
+
+  // Decides the draft's current step. Reviewers decide on the version they
+  // read; a draft edited since is refused.
+  async reviewDraft(
+    userId: string,
+    draftId: string,
+    version: number,
+    decision: ReviewDecision,
+    comment?: string
+  ): Promise<PostDraft> {
+    const draft = await this.getDraftRecord(userId, draftId, 'content:view')
+    if (draft.status !== PostDraftStatus.IN_REVIEW) {
+      throw new Error('The draft is not waiting for review')
+    }
+    if (draft.version !== version) {
+      throw new Error('The draft was edited since you opened it; review the latest version')
+    }
+    if (draft.userId === userId) {
+      throw new Error('Authors cannot review their own drafts')
+    }
+
+    const steps = this.getSteps(draft)
+    const step = steps[draft.currentStep]
+    const membership = draft.workspaceId ? await getMembership(userId, draft.workspaceId) : null
+    if (!step || !this.canReview(membership, draft, step)) {
+      throw new WorkspaceAccessError('posts:publish', 'You are not a reviewer of this step')
+    }
+    if (decision !== ReviewDecision.APPROVED && !comment?.trim()) {
+      throw new Error('A comment is required when requesting changes or rejecting')
+    }
+
+    const finalStep = draft.currentStep + 1 >= steps.length
+    const status = decision === ReviewDecision.APPROVED
+      ? (finalStep ? PostDraftStatus.APPROVED : PostDraftStatus.IN_REVIEW)
+      : decision === ReviewDecision.CHANGES_REQUESTED
+        ? PostDraftStatus.CHANGES_REQUESTED
+        : PostDraftStatus.REJECTED
+
+    const reviewed = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.postDraft.updateMany({
+        where: {
+          id: draftId,
+          version,
+          status: PostDraftStatus.IN_REVIEW,
+          currentStep: draft.currentStep
+        },
+        data: {
+          status,
+          currentStep: status === PostDraftStatus.IN_REVIEW ? draft.currentStep + 1 : draft.currentStep,
+          decidedAt: status === PostDraftStatus.APPROVED || status === PostDraftStatus.REJECTED
+            ? new Date()
+            : undefined
+        }
+      })
+      if (count === 0) {
+        throw new Error('The draft was already reviewed or changed; reload it and try again')
+      }
+
+      await tx.postDraftComment.create({
+        data: {
+          draftId,
+          version,
+          authorId: userId,
+          content: comment?.trim() || null,
+          decision,
+          step: draft.currentStep
+        }
+      })
+      return tx.postDraft.findUniqueOrThrow({ where: { id: draftId } })
+    })
+
+    const description = this.describeDraft(reviewed)
+    if (status === PostDraftStatus.IN_REVIEW) {
+      await this.notify(
+        await this.getReviewerIds(reviewed, steps[reviewed.currentStep]),
+        reviewed,
+        'Draft waiting for your review',
+        `After the previous review step, ${description} is waiting for your review.`
+      )
+    } else if (status === PostDraftStatus.APPROVED) {
+      await this.notify([reviewed.userId], reviewed, 'Draft approved', `Reviewers approved ${description}; it can now be published.`)
+    } else if (status === PostDraftStatus.CHANGES_REQUESTED) {
+      await this.notify([reviewed.userId], reviewed, 'Changes requested', `Changes were requested on ${description}: ${comment?.trim()}`)
+    } else {
+      await this.notify([reviewed.userId], reviewed, 'Draft rejected', `Reviewers rejected ${description}: ${comment?.trim()}`)
+    }
+    return reviewed
+  }
+
+  async commentOnDraft(userId: string, draftId: string, content: string): Promise<PostDraftComment> {
+    if (!content.trim()) {
+      throw new Error('Comment cannot be empty')
+    }
+    const draft = await this.getDraftRecord(userId, draftId, 'content:view')
+
+    const comment = await this.prisma.postDraftComment.create({
+      data: {
+        draftId,
+        version: draft.version,
+        authorId: userId,
+        content: content.trim()
+      }
+    })
+
+    // The author hears about every comment, reviewers about those made while
+    // the draft waits for them
+    const step = draft.status === PostDraftStatus.IN_REVIEW ? this.getSteps(draft)[draft.currentStep] : undefined
+    const recipients = [draft.userId, ...(step ? await this.getReviewerIds(draft, step) : [])]
+    await this.notify(
+      recipients.filter((id) => id !== userId),
+      draft,
+      'New comment on a draft',
+      `New comment on ${this.describeDraft(draft)}: ${comment.content}`
+    )
+    return comment
+  }
+
+  // Authors remove their own drafts; others need to be allowed to publish
+  async deleteDraft(userId: string, draftId: string): Promise<boolean> {
+    const draft = await this.getDraftRecord(userId, draftId, 'posts:draft')
+    if (draft.userId !== userId) {
+      await checkRecordAccess(userId, draft, 'posts:publish', draft.accountIds)
+    }
+
+    await this.prisma.postDraft.delete({
+      where: { id: draftId }
+    })
+    return true
+  }
+
+  // Drafts of the user's personal scope or of a workspace, limited to the
+  // accounts a member may see; recently changed first
+  async getDrafts(userId: string, filter: PostDraftFilter = {}): Promise<PostDraft[]> {
+    const scope = await getWorkspaceScope(userId, filter.workspaceId)
+    const drafts = await this.prisma.postDraft.findMany({
+      where: {
+        ...scope.where,
+        ...(filter.statuses?.length ? { status: { in: filter.statuses } } : {})
+      },
+      orderBy: { updatedAt: 'desc' }
+    })
+    const visible = drafts.filter((draft) => inScope(scope, draft.accountIds))
+    if (!filter.awaitingReview) {
+      return visible
+    }
+
+    const membership = scope.workspaceId ? await getMembership(userId, scope.workspaceId) : null
+    return visible.filter((draft) => {
+      const step = draft.status === PostDraftStatus.IN_REVIEW ? this.getSteps(draft)[draft.currentStep] : undefined
+      return !!step && this.canReview(membership, draft, step)
+    })
+  }
+
+  async getDraft(userId: string, draftId: string): Promise<PostDraftDetails> {
+    const draft = await this.prisma.postDraft.findUnique({
+      where: { id: draftId },
+      include: {
+        versions: { orderBy: { version: 'asc' } },
+        comments: { orderBy: { createdAt: 'asc' } }
+      }
+    })
+    if (!draft || !(await checkRecordAccess(userId, draft, 'content:view', draft.accountIds))) {
+      throw new Error(`Draft ${draftId} not found`)
+    }
+    return draft
+  }
+
+  // Whether the user's posts on these accounts have to go through review
+  async needsApproval(userId: string, accountIds: string[]): Promise<boolean> {
+    const accounts = await this.prisma.account.findMany({
+      where: { id: { in: accountIds } },
+      select: { id: true, workspaceId: true }
+    })
+    const workspaceId = getSharedWorkspaceId(accounts)
+    if (!workspaceId) return false
+
+    const chains = await this.getRequiredChains(userId, workspaceId, accounts.map((account) => account.id))
+    return chains.length > 0
+  }
+
+  /**
+   * Checks a post against its approved draft before it is published or
+   * scheduled, and marks the draft published so the approval is not used
+   * twice. Returns null when the post has no draft and needs none, and for
+   * queue occurrences, whose draft is not used up. Callers release the draft
+   * again when nothing went out.
+   */
+  async claimApproval(userId: string, request: ApprovalRequest): Promise<PostDraft | null> {
+    if (!request.draftId) {
+      if (await this.needsApproval(userId, request.accountIds)) {
+        throw new WorkspaceAccessError('posts:publish', 'Posts on these accounts need an approved draft')
+      }
+      return null
+    }
+
+    const draft = await this.getDraftRecord(userId, request.draftId, 'content:view')
+    if (await this.isQueueItemDraft(request.queueItemId, draft.id)) {
+      if (draft.status !== PostDraftStatus.APPROVED && draft.status !== PostDraftStatus.PUBLISHED) {
+        throw new Error(`A draft that is ${this.describeStatus(draft.status)} cannot be published`)
+      }
+      this.checkApprovedContent(draft, request)
+      return null
+    }
+
+    const resumed =
+      draft.status === PostDraftStatus.PUBLISHED &&
+      (request.publishedPostIds || []).some((id) => draft.postIds.includes(id))
+    if (draft.status !== PostDraftStatus.APPROVED && !resumed) {
+      throw new Error(`A draft that is ${this.describeStatus(draft.status)} cannot be published`)
+    }
+    this.checkApprovedContent(draft, request)
+    if (resumed) {
+      return draft
+    }
+
+    const { count } = await this.prisma.postDraft.updateMany({
+      where: {
+        id: draft.id,
+        version: draft.version,
+        status: PostDraftStatus.APPROVED
+      },
+      data: {
+        status: PostDraftStatus.PUBLISHED,
+        publishedAt: new Date()
+      }
+    })
+    if (count === 0) {
+      throw new Error('The draft was already published or changed')
+    }
+    return draft
+  }
+
+  // Gives the approval back after a publish that sent nothing out
+  async releaseApproval(draftId: string): Promise<void> {
+    await this.prisma.postDraft.updateMany({
+      where: {
+        id: draftId,
+        status: PostDraftStatus.PUBLISHED,
+        scheduledPostId: null,
+        publishId: null,
+        postIds: { isEmpty: true }
+      },
+      data: {
+        status: PostDraftStatus.APPROVED,
+        publishedAt: null
+      }
+    })
+  }
+
+  async completeApproval(
+    userId: string,
+    draft: PostDraft,
+    result: { scheduledPostId?: string; publishId?: string; postIds?: string[] }
+  ): Promise<void> {
+    const published = await this.prisma.postDraft.update({
+      where: { id: draft.id },
+      data: {
+        scheduledPostId: result.scheduledPostId,
+        publishId: result.publishId,
+        postIds: result.postIds
+      }
+    })
+
+    if (draft.userId !== userId) {
+      await this.notify(
+        [draft.userId],
+        published,
+        result.scheduledPostId ? 'Draft scheduled' : 'Draft published',
+        `Your team ${result.scheduledPostId ? 'scheduled' : 'published'} ${this.describeDraft(published)}.`
+      )
+    }
+  }
+
+  // A draft the user can see, checked for `permission` on its accounts
+  private async getDraftRecord(
+    userId: string,
+    draftId: string,
+    permission: WorkspacePermission
+  ): Promise<PostDraft> {
+    const draft = await this.prisma.postDraft.findUnique({
+      where: { id: draftId }
+    })
+    if (!draft || !(await checkRecordAccess(userId, draft, permission, draft.accountIds))) {
+      throw new Error(`Draft ${draftId} not found`)
+    }
+    return draft
+  }
+
+  // Chains the user's posts on these accounts have to pass, in account
+  // order. An account without a chain of its own follows the default one;
+  // chains exempting the user's role on all of their accounts are left out.
+  private async getRequiredChains(
+    userId: string,
+    workspaceId: string,
+    accountIds: string[]
+  ): Promise<ApprovalChainDetails[]> {
+    const chains = await this.prisma.approvalChain.findMany({
+      where: {
+        workspaceId,
+        OR: [{ accountId: { in: accountIds } }, { accountId: null }]
+      },
+      include: CHAIN_STEPS,
+      orderBy: { createdAt: 'asc' }
+    })
+    const fallback = chains.find((chain) => chain.accountId === null)
+
+    const covered = new Map<string, { chain: ApprovalChainDetails; accountIds: string[] }>()
+    for (const accountId of accountIds) {
+      const chain = chains.find((item) => item.accountId === accountId) || fallback
+      if (!chain || chain.steps.length === 0) continue
+
+      const entry = covered.get(chain.id) || { chain, accountIds: [] }
+      entry.accountIds.push(accountId)
+      covered.set(chain.id, entry)
+    }
+
+    const membership = await getMembership(userId, workspaceId)
+    return Array.from(covered.values())
+      .filter(({ chain, accountIds: chainAccountIds }) => {
+        const exemptRole = chain.exemptRole
+        if (!exemptRole || !membership) return true
+        return !chainAccountIds.every((id) => {
+          const role = getMemberAccountRole(membership, id)
+          return role !== null && hasRole(role, exemptRole)
+        })
+      })
+      .map(({ chain }) => chain)
+  }
+
+  private getSteps(draft: PostDraft): ReviewStep[] {
+    return (draft.steps as unknown as ReviewStep[] | null) || []
+  }
+
+  // Reviewers see all of the draft's accounts. Listed reviewers decide their
+  // step; otherwise anyone with the step's role on every account does.
+  private canReview(membership: Membership | null, draft: PostDraft, step: ReviewStep): boolean {
+    if (!membership || membership.userId === draft.userId) return false
+
+    const roles = draft.accountIds.map((id) => getMemberAccountRole(membership, id))
+    if (roles.some((role) => role === null)) return false
+
+    if (step.reviewerIds.length > 0) {
+      return step.reviewerIds.includes(membership.userId)
+    }
+    const minimum = step.minRole || WorkspaceRole.EDITOR
+    return roles.every((role) => hasRole(role as WorkspaceRole, minimum))
+  }
+
+  private async getReviewerIds(draft: PostDraft, step: ReviewStep): Promise<string[]> {
+    if (!draft.workspaceId) return []
+
+    const members = await this.prisma.workspaceMember.findMany({
+      where: {
+        workspaceId: draft.workspaceId,
+        ...(step.reviewerIds.length > 0 ? { userId: { in: step.reviewerIds } } : {})
+      },
+      include: { grants: true }
+    })
+    return members
+      .filter((member) => this.canReview(member, draft, step))
+      .map((member) => member.userId)
+  }
+
+  private async isQueueItemDraft(queueItemId: string | null | undefined, draftId: string): Promise<boolean> {
+    if (!queueItemId) return false
+    const item = await this.prisma.postQueueItem.findUnique({
+      where: { id: queueItemId },
+      select: { draftId: true }
+    })
+    return item?.draftId === draftId
+  }
+
+  private checkApprovedContent(draft: PostDraft, request: ApprovalRequest): void {
+    if (!request.accountIds.every((id) => draft.accountIds.includes(id))) {
+      throw new Error('The draft was not approved for all of the selected accounts')
+    }
+    if (!request.contents.every((item) => this.matchesDraft(draft, item))) {
+      throw new Error('The post differs from its approved draft')
+    }
+  }
+
+  private matchesDraft(draft: PostDraft, item: ApprovalRequest['contents'][number]): boolean {
+    const approved = resolveVariant(draft, readVariants(draft.variants), item.platform)
+    return (
+      item.content === approved.content &&
+      item.mediaUrls.length === approved.mediaUrls.length &&
+      item.mediaUrls.every((url, index) => url === approved.mediaUrls[index])
+    )
+  }
+
+  private validateContent(input: { content: string; mediaUrls?: string[]; accountIds: string[] }): void {
+    if (!input.content.trim() && !input.mediaUrls?.length) {
+      throw new Error('Draft needs content or media')
+    }
+    if (input.accountIds.length === 0) {
+      throw new Error('Select at least one account for the draft')
+    }
+  }
+
+  private async validateChain(workspaceId: string, input: ApprovalChainInput): Promise<void> {
+    if (input.steps.length === 0 || input.steps.length > MAX_STEPS) {
+      throw new Error(`An approval chain has between 1 and ${MAX_STEPS} steps`)
+    }
+    if (input.exemptRole === WorkspaceRole.VIEWER) {
+      throw new Error('Viewers cannot be exempt from review')
+    }
+
+    if (input.accountId) {
+      const account = await this.prisma.account.findFirst({
+        where: { id: input.accountId, workspaceId }
+      })
+      if (!account) {
+        throw new Error(`Account ${input.accountId} is not in this workspace`)
+      }
+    }
+
+    const reviewerIds = Array.from(new Set(input.steps.flatMap((step) => step.reviewerIds || [])))
+    const members = await this.prisma.workspaceMember.findMany({
+      where: { workspaceId, userId: { in: reviewerIds } },
+      select: { userId: true }
+    })
+    if (members.length !== reviewerIds.length) {
+      throw new Error('Reviewers must be members of the workspace')
+    }
+    if (input.steps.some((step) => step.minRole === WorkspaceRole.VIEWER)) {
+      throw new Error('Viewers cannot review drafts')
+    }
+  }
+
+  private describeDraft(draft: PostDraft): string {
+    const text = draft.content.trim()
+    if (!text) return 'the media draft'
+    return `the draft "${text.length > 60 ? `${text.slice(0, 60)}…` : text}"`
+  }
+
+  private describeStatus(status: PostDraftStatus): string {
+    return status.toLowerCase().replace('_', ' ')
+  }
+
+  private async notify(userIds: string[], draft: PostDraft, title: string, message: string): Promise<void> {
+    const actionUrl = `${env.NEXT_PUBLIC_APP_URL}/drafts/${draft.id}`
+
+    for (const userId of new Set(userIds)) {
+      try {
+        await notifications.createNotification({
+          userId,
+          type: 'system',
+          title,
+          message,
+          data: {
+            draftId: draft.id,
+            workspaceId: draft.workspaceId,
+            status: draft.status,
+            actionUrl
+          }
+        })
+      } catch (error) {
+        console.error(`Error notifying user ${userId} about draft ${draft.id}:`, error)
+      }
+    }
+  }
+}
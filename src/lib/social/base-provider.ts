@@ -1,13 +1,22 @@
+import axios, { AxiosInstance, CreateAxiosDefaults } from 'axios'
 import {
+  SocialPlatform,
+  SocialMediaFeature,
   SocialMediaProvider,
   SocialMediaProfile,
   SocialMediaPost,
+  SocialMediaPostPage,
   SocialMediaComment,
+  SocialMediaDirectMessage,
   SocialMediaStats,
   SocialMediaAuth,
+  SocialMediaAuthRequest,
+  SocialMediaAuthCallback,
   SocialMediaConfig,
   SocialMediaError
 } from './types'
+import { OutboundQueue, RequestPriority, parseRateLimitHeaders } from './outbound-queue'
+import { assertPublicUrl } from './public-url'
 
 export abstract class BaseSocialProvider implements SocialMediaProvider {
   abstract platform: SocialPlatform
@@ -20,14 +29,55 @@ export abstract class BaseSocialProvider implements SocialMediaProvider {
 
   protected config: SocialMediaConfig
   protected auth: SocialMediaAuth | null = null
+  protected priority: RequestPriority = 'USER'
 
   constructor(config: SocialMediaConfig) {
     this.config = config
   }
 
+  // Capability methods
+  supports(feature: SocialMediaFeature): boolean {
+    return this.features.includes(feature)
+  }
+
+  requireFeature(feature: SocialMediaFeature): void {
+    if (!this.supports(feature)) {
+      throw this.createError({
+        code: 'UNSUPPORTED_FEATURE',
+        message: `${this.name} does not support ${feature}`
+      })
+    }
+  }
+
   // Authentication methods
-  abstract getAuthUrl(): string
-  abstract handleAuthCallback(code: string): Promise<SocialMediaAuth>
+  setAuth(auth: SocialMediaAuth | null): void {
+    this.auth = auth
+  }
+
+  getAuth(): SocialMediaAuth | null {
+    return this.auth
+  }
+
+  getConfig(): SocialMediaConfig {
+    return { ...this.config }
+  }
+
+  // Background sync marks its connectors so user-initiated calls go first
+  setPriority(priority: RequestPriority): void {
+    this.priority = priority
+  }
+
+  // Federated networks register an OAuth app per server before getAuthUrl
+  registerApp?(): Promise<SocialMediaConfig>
+
+  // Networks without OAuth (e.g. Bluesky app passwords) sign in directly
+  createSession?(identifier: string, password: string): Promise<SocialMediaAuth>
+
+  abstract getAuthUrl(request?: SocialMediaAuthRequest): string
+  abstract handleAuthCallback(
+    code: string,
+    callback?: SocialMediaAuthCallback
+  ): Promise<SocialMediaAuth>
   abstract refreshToken(): Promise<SocialMediaAuth>
   abstract revokeToken(): Promise<void>
 
@@ -43,17 +93,32 @@ export abstract class BaseSocialProvider implements SocialMediaProvider {
   abstract updatePost(postId: string, post: Partial<SocialMediaPost>): Promise<SocialMediaPost>
   abstract deletePost(postId: string): Promise<void>
   abstract getPosts(userId: string, limit?: number): Promise<SocialMediaPost[]>
+  // Pages through the user's posts; `cursor` is the previous page's nextCursor
+  getPostsPage?(userId: string, limit?: number, cursor?: string): Promise<SocialMediaPostPage>
   abstract likePost(postId: string): Promise<void>
   abstract unlikePost(postId: string): Promise<void>
   abstract sharePost(postId: string, message?: string): Promise<void>
 
-  // Comment methods
-  abstract createComment(postId: string, content: string): Promise<SocialMediaComment>
+  // Comment methods. A reply to a comment passes the comment's id as
+  // parentCommentId; without one the comment goes on the post itself.
+  abstract createComment(
+    postId: string,
+    content: string,
+    parentCommentId?: string
+  ): Promise<SocialMediaComment>
   abstract getComments(postId: string, limit?: number): Promise<SocialMediaComment[]>
+
+  // Posts that mention the account or reply to it, newest first. Replies
+  // are returned as comments on the post they answer; mentions elsewhere
+  // carry `metadata.mention` and their own id as postId.
+  getMentions?(limit?: number): Promise<SocialMediaComment[]>
   abstract deleteComment(commentId: string): Promise<void>
   abstract likeComment(commentId: string): Promise<void>
   abstract unlikeComment(commentId: string): Promise<void>
 
+  // Message methods. Resolves with the platform's id for the message.
+  sendDirectMessage?(message: SocialMediaDirectMessage): Promise<string>
+
   // Stats methods
   abstract getStats(userId: string): Promise<SocialMediaStats>
   abstract getEngagementMetrics(postId: string): Promise<{
@@ -73,11 +138,18 @@ export abstract class BaseSocialProvider implements SocialMediaProvider {
 
     for (let i = 0; i < retries; i++) {
       try {
-        return await request()
+        return await OutboundQueue.getInstance().run(
+          this.platform,
+          this.getRateLimitScope(),
+          request,
+          { priority: this.priority }
+        )
       } catch (error) {
         lastError = error as Error
         if (this.isRateLimitError(error)) {
-          await this.handleRateLimit(error)
+          // The outbound queue already waited as long as this priority
+          // allows; the caller reschedules using the error's retryAfter
+          throw this.createError(error)
         } else if (this.isAuthError(error)) {
           await this.handleAuthError(error)
         } else {
@@ -89,6 +161,37 @@ export abstract class BaseSocialProvider implements SocialMediaProvider {
     throw this.createError(lastError)
   }
 
+  // Rate limits are tracked per connected account, or per app when unauthenticated
+  protected getRateLimitScope(): string {
+    return this.auth?.userId || 'app'
+  }
+
+  // Providers make their API calls with this client, so the rate-limit
+  // headers of every response are recorded, successful or not
+  protected createClient(config: CreateAxiosDefaults): AxiosInstance {
+    const client = axios.create(config)
+    client.interceptors.response.use(
+      (response) => {
+        this.trackRateLimit(response.config.url, response.headers)
+        return response
+      },
+      (error) => {
+        if (error?.response) {
+          this.trackRateLimit(error.config?.url, error.response.headers)
+        }
+        return Promise.reject(error)
+      }
+    )
+    return client
+  }
+
+  protected trackRateLimit(endpoint: string | undefined, headers?: Record<string, any>): void {
+    const info = parseRateLimitHeaders(endpoint || '/', headers)
+    if (info) {
+      OutboundQueue.getInstance().recordRateLimit(this.platform, this.getRateLimitScope(), info)
+    }
+  }
+
   protected isRateLimitError(error: any): boolean {
     return error?.status === 429 || error?.code === 'RATE_LIMIT_EXCEEDED'
   }
@@ -97,11 +200,6 @@ export abstract class BaseSocialProvider implements SocialMediaProvider {
     return error?.status === 401 || error?.code === 'INVALID_TOKEN'
   }
 
-  protected async handleRateLimit(error: any): Promise<void> {
-    const retryAfter = error?.retryAfter || 60 // Default to 60 seconds
-    await new Promise(resolve => setTimeout(resolve, retryAfter * 1000))
-  }
-
   protected async handleAuthError(error: any): Promise<void> {
     if (this.auth?.refreshToken) {
       await this.refreshToken()
@@ -110,6 +208,53 @@ export abstract class BaseSocialProvider implements SocialMediaProvider {
     }
   }
 
+  // Normalizes an HTTP client error so the retry logic above can read its
+  // status and Retry-After header
+  protected toRequestError(error: any): any {
+    const response = error?.response
+    if (!response) return error
+
+    const retryAfter = Number(response.headers?.['retry-after'])
+    return {
+      name: 'SocialMediaError',
+      message: response.data?.error_description || response.data?.error || response.data?.message || error.message,
+      code: response.status === 429 ? 'RATE_LIMIT_EXCEEDED' : `HTTP_${response.status}`,
+      status: response.status,
+      retryAfter: Number.isFinite(retryAfter) ? retryAfter : undefined,
+      details: response.data
+    }
+  }
+
+  // Instance and media URLs come from users, so they may only point at
+  // public hosts
+  protected async validateUrl(url: string): Promise<void> {
+    try {
+      await assertPublicUrl(url)
+    } catch (error) {
+      throw this.createError({
+        code: 'INVALID_URL',
+        status: 400,
+        message: (error as Error).message
+      })
+    }
+  }
+
+  // Downloads a remote media file for re-upload to the platform. Redirects
+  // are not followed, since their target was never validated.
+  protected async fetchMedia(url: string): Promise<{ data: ArrayBuffer; contentType: string }> {
+    await this.validateUrl(url)
+    const file = await axios.get<ArrayBuffer>(url, {
+      responseType: 'arraybuffer',
+      maxRedirects: 0,
+      timeout: this.config.timeout || 30000
+    })
+    const contentType = file.headers['content-type']
+    return {
+      data: file.data,
+      contentType: typeof contentType === 'string' ? contentType : 'application/octet-stream'
+    }
+  }
+
   protected createError(error: any): SocialMediaError {
     return {
       platform: this.platform,
@@ -117,6 +262,7 @@ export abstract class BaseSocialProvider implements SocialMediaProvider {
       message: error?.message || 'An unknown error occurred',
       code: error?.code || 'UNKNOWN_ERROR',
       status: error?.status,
+      retryAfter: error?.retryAfter,
       details: error?.details
     }
   }
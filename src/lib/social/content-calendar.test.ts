@@ -0,0 +1,208 @@
+import { CalendarItem, ContentCalendar, toICalendar } from './content-calendar'
+import { SocialPlatform } from './types'
+
+const mockPrisma = {
+  calendarEntry: { findMany: jest.fn(), create: jest.fn() },
+  scheduledPost: { findMany: jest.fn() },
+  crossPlatformPublish: { findMany: jest.fn() },
+  calendarSlot: { findMany: jest.fn() }
+}
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => mockPrisma),
+  PublishAttemptStatus: { PENDING: 'PENDING', SUCCEEDED: 'SUCCEEDED', FAILED: 'FAILED' },
+  ScheduledPostStatus: { PENDING: 'PENDING', CLAIMED: 'CLAIMED', CANCELLED: 'CANCELLED' }
+}))
+jest.mock('../db', () => ({ prisma: {} }))
+jest.mock('../platforms', () => ({}))
+jest.mock('../platforms/posting-times', () => ({
+  ...jest.requireActual('../platforms/posting-times'),
+  getUserTimezone: jest.fn(),
+  suggestPostingSlots: jest.fn()
+}))
+jest.mock('../workspaces/access', () => ({
+  checkRecordAccess: async () => true,
+  getWorkspaceScope: async (userId: string) => ({ userId, where: { userId }, accountIds: new Set(['acc-1']) }),
+  inScope: (scope: { accountIds: Set<string> }, accountIds: string[]) =>
+    accountIds.every((id) => scope.accountIds.has(id))
+}))
+jest.mock('../ai', () => ({ ai: { generateContentCalendar: jest.fn() } }))
+jest.mock('../crypto', () => ({ generateSecureToken: () => 'token' }))
+jest.mock('../env', () => ({ env: { NEXT_PUBLIC_APP_URL: 'https://app.example' } }))
+jest.mock('./cross-platform-service', () => ({ CrossPlatformService: { getInstance: () => ({}) } }))
+
+const { getUserTimezone, suggestPostingSlots } = jest.requireMock('../platforms/posting-times')
+const { ai } = jest.requireMock('../ai')
+
+const FROM = new Date('2025-01-06T00:00:00Z') // Monday
+const TO = new Date('2025-01-13T00:00:00Z')
+
+const post = {
+  content: 'Hello',
+  mediaUrls: [],
+  platforms: ['MASTODON'],
+  accountIds: ['acc-1'],
+  publishId: null,
+  publishedAt: null
+}
+
+function item(changes: Partial<CalendarItem>): CalendarItem {
+  return {
+    id: 'item-1',
+    kind: 'ENTRY',
+    status: 'DRAFT',
+    title: null,
+    content: 'Hello',
+    mediaUrls: [],
+    platforms: ['MASTODON'],
+    accountIds: ['acc-1'],
+    at: new Date('2025-01-06T09:00:00Z'),
+    entryId: 'item-1',
+    scheduledPostId: null,
+    publishId: null,
+    slotId: null,
+    ...changes
+  }
+}
+
+describe('ContentCalendar.getCalendar', () => {
+  const calendar = ContentCalendar.getInstance()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    getUserTimezone.mockResolvedValue('Europe/Berlin')
+    mockPrisma.calendarEntry.findMany.mockResolvedValue([])
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([])
+    mockPrisma.crossPlatformPublish.findMany.mockResolvedValue([])
+    mockPrisma.calendarSlot.findMany.mockResolvedValue([])
+  })
+
+  it('rejects a range that ends before it starts or spans more than a year', async () => {
+    await expect(calendar.getCalendar('user-1', TO, FROM)).rejects.toThrow('must start before it ends')
+    await expect(
+      calendar.getCalendar('user-1', FROM, new Date('2026-02-01T00:00:00Z'))
+    ).rejects.toThrow('longer than a year')
+  })
+
+  it('lists entries, scheduled posts and publishes in time order with their status', async () => {
+    mockPrisma.calendarEntry.findMany.mockResolvedValue([
+      { ...post, id: 'entry-1', title: 'Plan', plannedAt: new Date('2025-01-08T10:00:00Z'), slotId: null, scheduledPost: null },
+      {
+        ...post,
+        id: 'entry-2',
+        title: null,
+        plannedAt: new Date('2025-01-07T10:00:00Z'),
+        slotId: null,
+        scheduledPost: { ...post, id: 'job-1', status: 'CLAIMED', scheduledAt: new Date('2025-01-07T11:00:00Z') }
+      }
+    ])
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([
+      { ...post, id: 'job-2', status: 'PENDING', scheduledAt: new Date('2025-01-09T10:00:00Z') },
+      // On an account the member may not see
+      { ...post, id: 'job-3', status: 'PENDING', accountIds: ['acc-2'], scheduledAt: new Date('2025-01-09T12:00:00Z') }
+    ])
+    mockPrisma.crossPlatformPublish.findMany.mockResolvedValue([
+      { ...post, id: 'publish-1', createdAt: new Date('2025-01-06T08:00:00Z'), attempts: [{ status: 'FAILED' }, { status: 'SUCCEEDED' }] },
+      { ...post, id: 'publish-2', createdAt: new Date('2025-01-06T09:00:00Z'), attempts: [{ status: 'FAILED' }] },
+      { ...post, id: 'publish-3', createdAt: new Date('2025-01-06T10:00:00Z'), attempts: [] }
+    ])
+
+    const { items, timezone } = await calendar.getCalendar('user-1', FROM, TO)
+
+    expect(timezone).toBe('Europe/Berlin')
+    expect(items.map(({ id, status, at }) => ({ id, status, at: at.toISOString() }))).toEqual([
+      { id: 'publish-1', status: 'PUBLISHED', at: '2025-01-06T08:00:00.000Z' },
+      { id: 'publish-2', status: 'FAILED', at: '2025-01-06T09:00:00.000Z' },
+      { id: 'publish-3', status: 'PUBLISHING', at: '2025-01-06T10:00:00.000Z' },
+      { id: 'entry-2', status: 'PUBLISHING', at: '2025-01-07T11:00:00.000Z' },
+      { id: 'entry-1', status: 'DRAFT', at: '2025-01-08T10:00:00.000Z' },
+      { id: 'job-2', status: 'SCHEDULED', at: '2025-01-09T10:00:00.000Z' }
+    ])
+  })
+
+  it('places recurring slots at their local time and marks those with a post as filled', async () => {
+    // Mondays and Wednesdays at 09:30 in Berlin, which is 08:30 UTC in winter
+    mockPrisma.calendarSlot.findMany.mockResolvedValue([
+      { id: 'slot-1', label: 'Morning', platforms: ['MASTODON'], accountIds: ['acc-1'], weekday: 1, hour: 9, minute: 30 },
+      { id: 'slot-2', label: null, platforms: ['MASTODON'], accountIds: ['acc-1'], weekday: 3, hour: 9, minute: 30 }
+    ])
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([
+      { ...post, id: 'job-1', status: 'PENDING', scheduledAt: new Date('2025-01-06T08:30:00Z') },
+      { ...post, id: 'job-2', status: 'CANCELLED', scheduledAt: new Date('2025-01-08T08:30:00Z') }
+    ])
+
+    const { slots } = await calendar.getCalendar('user-1', FROM, TO)
+
+    expect(slots.map(({ slotId, start, filled }) => ({ slotId, start: start.toISOString(), filled }))).toEqual([
+      { slotId: 'slot-1', start: '2025-01-06T08:30:00.000Z', filled: true },
+      { slotId: 'slot-2', start: '2025-01-08T08:30:00.000Z', filled: false }
+    ])
+  })
+})
+
+describe('ContentCalendar.importContentPlan', () => {
+  const calendar = ContentCalendar.getInstance()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.calendarEntry.create.mockImplementation(async ({ data }) => data)
+  })
+
+  it('places each planned post at the best time on its day and keeps the model\'s time aside', async () => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] })
+    ai.generateContentCalendar.mockResolvedValue([
+      { date: '2025-01-06', topic: 'Launch', contentType: 'post', suggestedTime: '2025-01-06T07:00:00Z' },
+      { date: 'not a date', topic: 'Skipped' },
+      { date: '2025-01-07', topic: 'Recap', suggestedTime: '2025-01-07T07:00:00Z' }
+    ])
+    suggestPostingSlots
+      .mockResolvedValueOnce([{ start: new Date('2025-01-06T12:00:00Z') }])
+      .mockResolvedValueOnce([])
+
+    try {
+      const entries = await calendar.importContentPlan('user-1', {
+        topics: ['launch'],
+        frequency: 'daily',
+        duration: 7,
+        platforms: ['MASTODON' as SocialPlatform]
+      })
+
+      expect(entries.map((entry) => [entry.title, entry.plannedAt.toISOString()])).toEqual([
+        ['Launch', '2025-01-06T12:00:00.000Z'],
+        // Without a free slot, the model's time
+        ['Recap', '2025-01-07T07:00:00.000Z']
+      ])
+      expect(entries[0].metadata).toMatchObject({ suggestedTime: '2025-01-06T07:00:00.000Z' })
+      expect(suggestPostingSlots.mock.calls[0][1]).toMatchObject({
+        after: new Date('2025-01-06T00:00:00Z'),
+        horizon: 24 * 60 * 60 * 1000,
+        count: 1
+      })
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+})
+
+describe('toICalendar', () => {
+  it('writes one event per item with escaped text and folded lines', () => {
+    const feed = toICalendar([
+      item({ content: `Line one, with; punctuation\n${'long '.repeat(30)}` }),
+      item({ id: 'job-1', kind: 'SCHEDULED_POST', status: 'SCHEDULED', title: 'Launch' })
+    ])
+    const lines = feed.split('\r\n')
+
+    expect(feed.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2)
+    expect(lines).toContain('UID:entry-item-1@app.example')
+    expect(lines).toContain('DTSTART:20250106T090000Z')
+    expect(lines).toContain('DTEND:20250106T091500Z')
+    expect(lines).toContain('SUMMARY:[DRAFT] Line one\\, with\\; punctuation')
+    expect(lines).toContain('STATUS:TENTATIVE')
+    expect(lines).toContain('SUMMARY:[SCHEDULED] Launch')
+    expect(lines).toContain('STATUS:CONFIRMED')
+    lines.forEach((line) => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75))
+    // Unfolding gives back the description
+    expect(feed.replace(/\r\n /g, '')).toContain(`DESCRIPTION:MASTODON\\n\\nLine one\\, with\\; punctuation\\n${'long '.repeat(30)}`)
+  })
+})
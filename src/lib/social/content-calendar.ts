@@ -0,0 +1,660 @@
+import {
+  CalendarEntry,
+  CalendarSlot,
+  PrismaClient,
+  PublishAttemptStatus,
+  ScheduledPost,
+  ScheduledPostStatus
+} from '@prisma/client'
+import { createHash } from 'crypto'
+import { ai } from '../ai'
+import { env } from '../env'
+import { generateSecureToken } from '../crypto'
+import { getLocalHours, getUserTimezone, suggestPostingSlots } from '../platforms/posting-times'
+import { WorkspacePermission, checkRecordAccess, getWorkspaceScope, inScope } from '../workspaces/access'
+import { SocialPlatform } from './types'
+import { CrossPlatformService } from './cross-platform-service'
+
+export type CalendarItemKind = 'ENTRY' | 'SCHEDULED_POST' | 'PUBLISH'
+
+export type CalendarItemStatus =
+  | 'DRAFT'
+  | 'SCHEDULED'
+  | 'PUBLISHING'
+  | 'PUBLISHED'
+  | 'FAILED'
+  | 'CANCELLED'
+
+// One post on the calendar: a draft or scheduled entry, a scheduled post made
+// outside the calendar, or a post that was published right away
+export interface CalendarItem {
+  id: string
+  kind: CalendarItemKind
+  status: CalendarItemStatus
+  title: string | null
+  content: string
+  mediaUrls: string[]
+  platforms: string[]
+  accountIds: string[]
+  at: Date
+  entryId: string | null
+  scheduledPostId: string | null
+  publishId: string | null
+  slotId: string | null
+}
+
+export interface SlotOccurrence {
+  slotId: string
+  label: string | null
+  platforms: string[]
+  accountIds: string[]
+  start: Date
+  filled: boolean
+}
+
+export interface CalendarRange {
+  from: Date
+  to: Date
+  timezone: string
+  items: CalendarItem[]
+  slots: SlotOccurrence[]
+}
+
+export interface CalendarEntryInput {
+  workspaceId?: string | null // the user's personal calendar when not set
+  title?: string
+  content: string
+  mediaUrls?: string[]
+  platforms: SocialPlatform[]
+  accountIds?: string[]
+  plannedAt?: Date // defaults to the next free occurrence of slotId
+  slotId?: string
+  draftId?: string | null // the approved draft, for accounts with an approval chain
+  metadata?: Record<string, any>
+}
+
+export interface CalendarSlotInput {
+  workspaceId?: string | null
+  label?: string
+  platforms: SocialPlatform[]
+  accountIds?: string[]
+  weekday: number
+  hour: number
+  minute?: number
+}
+
+export interface ContentPlanInput {
+  topics: string[]
+  frequency: 'daily' | 'weekly' | 'monthly'
+  duration: number // in days
+  platforms: SocialPlatform[]
+  accountIds?: string[]
+  workspaceId?: string | null
+}
+
+const MAX_RANGE = 366 * 24 * 60 * 60 * 1000
+const SLOT_LOOKAHEAD = 8 * 7 * 24 * 60 * 60 * 1000
+const FEED_PAST = 30 * 24 * 60 * 60 * 1000
+const FEED_FUTURE = 180 * 24 * 60 * 60 * 1000
+const FEED_EVENT_DURATION = 15 * 60 * 1000
+
+const SCHEDULED_POST_STATUSES: Record<ScheduledPostStatus, CalendarItemStatus> = {
+  PENDING: 'SCHEDULED',
+  CLAIMED: 'PUBLISHING',
+  PUBLISHED: 'PUBLISHED',
+  PARTIALLY_PUBLISHED: 'PUBLISHED',
+  FAILED: 'FAILED',
+  CANCELLED: 'CANCELLED'
+}
+
+function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Plans posts ahead of time. Entries are drafts until scheduled; scheduling
+ * hands them to the `ScheduledPost` pipeline, which publishes them, and the
+ * calendar follows the job's status from then on.
+ */
+export class ContentCalendar {
+  private static instance: ContentCalendar
+  private prisma: PrismaClient
+  private crossPlatformService: CrossPlatformService
+
+  private constructor() {
+    this.prisma = new PrismaClient()
+    this.crossPlatformService = CrossPlatformService.getInstance()
+  }
+
+  static getInstance(): ContentCalendar {
+    if (!ContentCalendar.instance) {
+      ContentCalendar.instance = new ContentCalendar()
+    }
+    return ContentCalendar.instance
+  }
+
+  // The personal calendar, or a workspace's limited to the accounts the
+  // member may see
+  async getCalendar(
+    userId: string,
+    from: Date,
+    to: Date,
+    platforms: SocialPlatform[] = [],
+    workspaceId?: string | null
+  ): Promise<CalendarRange> {
+    if (from >= to) {
+      throw new Error('Calendar range must start before it ends')
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE) {
+      throw new Error('Calendar range cannot be longer than a year')
+    }
+    const onPlatforms = platforms.length > 0 ? { platforms: { hasSome: platforms } } : {}
+    const scope = await getWorkspaceScope(userId, workspaceId)
+    const visible = (item: { accountIds: string[] }) => inScope(scope, item.accountIds)
+
+    const [entries, scheduledPosts, publishes, slots, timezone] = await Promise.all([
+      this.prisma.calendarEntry.findMany({
+        where: { ...scope.where, plannedAt: { gte: from, lt: to }, ...onPlatforms },
+        include: { scheduledPost: true }
+      }),
+      // Jobs made outside the calendar; the others come with their entry
+      this.prisma.scheduledPost.findMany({
+        where: { ...scope.where, scheduledAt: { gte: from, lt: to }, calendarEntry: null, ...onPlatforms }
+      }),
+      // Posts published right away, without a scheduled job
+      this.prisma.crossPlatformPublish.findMany({
+        where: { ...scope.where, createdAt: { gte: from, lt: to }, scheduledPosts: { none: {} }, ...onPlatforms },
+        include: { attempts: { select: { status: true } } }
+      }),
+      this.prisma.calendarSlot.findMany({
+        where: { ...scope.where, active: true, ...onPlatforms }
+      }),
+      getUserTimezone(userId)
+    ])
+
+    const items: CalendarItem[] = [
+      ...entries.filter(visible).map((entry) => this.toEntryItem(entry)),
+      ...scheduledPosts.filter(visible).map((post) => this.toScheduledPostItem(post)),
+      ...publishes.filter(visible).map((publish) => {
+        const statuses = publish.attempts.map((attempt) => attempt.status)
+        const status: CalendarItemStatus = statuses.includes(PublishAttemptStatus.SUCCEEDED)
+          ? 'PUBLISHED'
+          : statuses.length > 0 && statuses.every((item) => item === PublishAttemptStatus.FAILED)
+            ? 'FAILED'
+            : 'PUBLISHING'
+        return {
+          id: publish.id,
+          kind: 'PUBLISH' as const,
+          status,
+          title: null,
+          content: publish.content,
+          mediaUrls: publish.mediaUrls,
+          platforms: publish.platforms,
+          accountIds: publish.accountIds,
+          at: publish.createdAt,
+          entryId: null,
+          scheduledPostId: null,
+          publishId: publish.id,
+          slotId: null
+        }
+      })
+    ].sort((a, b) => a.at.getTime() - b.at.getTime())
+
+    return {
+      from,
+      to,
+      timezone,
+      items,
+      slots: this.getSlotOccurrences(slots.filter(visible), from, to, timezone, items)
+    }
+  }
+
+  async createEntry(userId: string, input: CalendarEntryInput): Promise<CalendarEntry> {
+    const { slotId, plannedAt, workspaceId, ...entry } = input
+    await this.requireAccess(userId, { userId, workspaceId: workspaceId || null }, 'posts:draft', entry.accountIds)
+    let at = plannedAt
+    if (!at) {
+      if (!slotId) {
+        throw new Error('Give a planned time or a slot for the entry')
+      }
+      at = await this.getNextFreeSlot(userId, slotId)
+    }
+
+    return this.prisma.calendarEntry.create({
+      data: {
+        userId,
+        workspaceId,
+        ...entry,
+        mediaUrls: entry.mediaUrls || [],
+        accountIds: entry.accountIds || [],
+        plannedAt: at,
+        slotId
+      }
+    })
+  }
+
+  // Changes to a scheduled entry are carried over to its job, as long as it
+  // has not started publishing
+  async updateEntry(
+    userId: string,
+    entryId: string,
+    changes: Partial<Omit<CalendarEntryInput, 'plannedAt' | 'slotId'>>
+  ): Promise<CalendarEntry> {
+    const entry = await this.getEntry(userId, entryId)
+    if (changes.accountIds) {
+      await this.requireAccess(userId, entry, 'posts:draft', changes.accountIds)
+    }
+
+    if (entry.scheduledPostId) {
+      if (changes.platforms || changes.accountIds) {
+        throw new Error('Unschedule the entry before changing where it is posted')
+      }
+      const updated = await this.crossPlatformService.updateScheduledPost(userId, entry.scheduledPostId, {
+        content: changes.content ?? entry.content,
+        mediaUrls: changes.mediaUrls,
+        metadata: changes.metadata
+      })
+      if (!updated) {
+        throw new Error('Entry is already publishing or done and can no longer be edited')
+      }
+    }
+
+    return this.prisma.calendarEntry.update({
+      where: { id: entry.id },
+      data: changes
+    })
+  }
+
+  // Drag-to-reschedule. A scheduled entry moves its job with it.
+  async moveEntry(userId: string, entryId: string, plannedAt: Date): Promise<CalendarEntry> {
+    const entry = await this.getEntry(userId, entryId)
+
+    if (entry.scheduledPostId) {
+      const moved = await this.crossPlatformService.rescheduleScheduledPost(
+        userId,
+        entry.scheduledPostId,
+        plannedAt
+      )
+      if (!moved) {
+        throw new Error('Entry is already publishing or done and can no longer be moved')
+      }
+    }
+
+    return this.prisma.calendarEntry.update({
+      where: { id: entry.id },
+      data: { plannedAt }
+    })
+  }
+
+  async scheduleEntry(userId: string, entryId: string): Promise<CalendarEntry> {
+    const entry = await this.getEntry(userId, entryId, 'posts:publish')
+    if (entry.scheduledPostId) {
+      throw new Error('Entry is already scheduled')
+    }
+    if (entry.plannedAt.getTime() <= Date.now()) {
+      throw new Error('Move the entry to a future time before scheduling it')
+    }
+
+    const job = await this.crossPlatformService.schedulePost(userId, {
+      content: entry.content,
+      mediaUrls: entry.mediaUrls,
+      platforms: entry.platforms as SocialPlatform[],
+      accountIds: entry.accountIds,
+      workspaceId: entry.workspaceId,
+      scheduledAt: entry.plannedAt,
+      draftId: entry.draftId ?? undefined,
+      metadata: (entry.metadata as Record<string, any>) || undefined
+    })
+
+    // Two concurrent requests could both get here; only one link wins and
+    // the other job is cancelled so the entry is not posted twice
+    const { count } = await this.prisma.calendarEntry.updateMany({
+      where: { id: entry.id, scheduledPostId: null },
+      data: {
+        scheduledPostId: job.id,
+        accountIds: job.accountIds
+      }
+    })
+    if (count === 0) {
+      await this.crossPlatformService.cancelScheduledPost(userId, job.id)
+      throw new Error('Entry is already scheduled')
+    }
+
+    return this.getEntry(userId, entry.id)
+  }
+
+  // Cancels the job and turns the entry back into a draft
+  async unscheduleEntry(userId: string, entryId: string): Promise<CalendarEntry> {
+    const entry = await this.getEntry(userId, entryId, 'posts:publish')
+    if (!entry.scheduledPostId) {
+      return entry
+    }
+
+    const cancelled = await this.crossPlatformService.cancelScheduledPost(userId, entry.scheduledPostId)
+    if (!cancelled) {
+      throw new Error('Entry is already published or cancelled')
+    }
+
+    return this.prisma.calendarEntry.update({
+      where: { id: entry.id },
+      data: { scheduledPostId: null }
+    })
+  }
+
+  async deleteEntry(userId: string, entryId: string): Promise<boolean> {
+    const entry = await this.getEntry(userId, entryId)
+    if (entry.scheduledPostId) {
+      await this.crossPlatformService.cancelScheduledPost(userId, entry.scheduledPostId)
+    }
+
+    await this.prisma.calendarEntry.delete({ where: { id: entry.id } })
+    return true
+  }
+
+  /**
+   * Turns an AI content plan into draft entries. Each entry is placed at the
+   * best posting time on its planned day rather than the time the model
+   * suggested, which is kept in the entry's metadata.
+   */
+  async importContentPlan(userId: string, input: ContentPlanInput): Promise<CalendarEntry[]> {
+    const workspaceId = input.workspaceId || null
+    await this.requireAccess(userId, { userId, workspaceId }, 'posts:draft', input.accountIds)
+    const plan = await ai.generateContentCalendar(input.topics, input.frequency, input.duration)
+    if (!Array.isArray(plan)) {
+      throw new Error('Content plan could not be read')
+    }
+
+    const entries: CalendarEntry[] = []
+    for (const item of plan) {
+      const day = new Date(item.date)
+      if (isNaN(day.getTime()) || !item.topic) continue
+
+      // Entries already imported count as taken, so each gets its own slot
+      const [slot] = await suggestPostingSlots(userId, {
+        workspaceId,
+        platforms: input.platforms,
+        accountIds: input.accountIds,
+        after: new Date(Math.max(day.getTime(), Date.now())),
+        horizon: 24 * 60 * 60 * 1000,
+        count: 1
+      })
+      const suggestedTime = item.suggestedTime ? new Date(item.suggestedTime) : null
+
+      entries.push(await this.prisma.calendarEntry.create({
+        data: {
+          userId,
+          workspaceId,
+          title: item.topic,
+          content: item.topic,
+          mediaUrls: [],
+          platforms: input.platforms,
+          accountIds: input.accountIds || [],
+          plannedAt: slot?.start || suggestedTime || day,
+          source: 'AI',
+          metadata: {
+            contentType: item.contentType,
+            suggestedTime: suggestedTime?.toISOString()
+          }
+        }
+      }))
+    }
+
+    return entries
+  }
+
+  async createSlot(userId: string, input: CalendarSlotInput): Promise<CalendarSlot> {
+    const { workspaceId, ...slot } = input
+    this.validateSlotTime(slot.weekday, slot.hour, slot.minute || 0)
+    await this.requireAccess(userId, { userId, workspaceId: workspaceId || null }, 'posts:draft', slot.accountIds)
+    return this.prisma.calendarSlot.create({
+      data: {
+        userId,
+        workspaceId,
+        ...slot,
+        accountIds: slot.accountIds || []
+      }
+    })
+  }
+
+  async updateSlot(
+    userId: string,
+    slotId: string,
+    changes: Partial<Omit<CalendarSlotInput, 'workspaceId'>> & { active?: boolean }
+  ): Promise<CalendarSlot> {
+    const slot = await this.getSlot(userId, slotId)
+    if (changes.accountIds) {
+      await this.requireAccess(userId, slot, 'posts:draft', changes.accountIds)
+    }
+    this.validateSlotTime(
+      changes.weekday ?? slot.weekday,
+      changes.hour ?? slot.hour,
+      changes.minute ?? slot.minute
+    )
+    return this.prisma.calendarSlot.update({
+      where: { id: slot.id },
+      data: changes
+    })
+  }
+
+  async deleteSlot(userId: string, slotId: string): Promise<boolean> {
+    const slot = await this.getSlot(userId, slotId)
+    await this.prisma.calendarSlot.delete({ where: { id: slot.id } })
+    return true
+  }
+
+  // Creates or replaces the secret feed link. The token is only returned here.
+  async rotateFeedToken(userId: string): Promise<string> {
+    const token = generateSecureToken(24)
+    await this.prisma.calendarFeed.upsert({
+      where: { userId },
+      update: { tokenHash: hashFeedToken(token) },
+      create: { userId, tokenHash: hashFeedToken(token) }
+    })
+    return token
+  }
+
+  // The iCalendar feed for a feed token, or null when the token is unknown
+  async getFeed(token: string): Promise<string | null> {
+    const feed = await this.prisma.calendarFeed.findUnique({
+      where: { tokenHash: hashFeedToken(token) }
+    })
+    if (!feed) return null
+
+    const now = Date.now()
+    const calendar = await this.getCalendar(
+      feed.userId,
+      new Date(now - FEED_PAST),
+      new Date(now + FEED_FUTURE)
+    )
+    return toICalendar(calendar.items.filter((item) => item.status !== 'CANCELLED'))
+  }
+
+  private async getEntry(
+    userId: string,
+    entryId: string,
+    permission: WorkspacePermission = 'posts:draft'
+  ): Promise<CalendarEntry> {
+    const entry = await this.prisma.calendarEntry.findUnique({
+      where: { id: entryId }
+    })
+    if (!entry || !(await checkRecordAccess(userId, entry, permission, entry.accountIds))) {
+      throw new Error(`Calendar entry ${entryId} not found`)
+    }
+    return entry
+  }
+
+  private async getSlot(userId: string, slotId: string): Promise<CalendarSlot> {
+    const slot = await this.prisma.calendarSlot.findUnique({
+      where: { id: slotId }
+    })
+    if (!slot || !(await checkRecordAccess(userId, slot, 'posts:draft', slot.accountIds))) {
+      throw new Error(`Calendar slot ${slotId} not found`)
+    }
+    return slot
+  }
+
+  // Entries and slots can only target accounts the user may plan posts for
+  private async requireAccess(
+    userId: string,
+    owner: { userId: string; workspaceId: string | null },
+    permission: WorkspacePermission,
+    accountIds: string[] = []
+  ): Promise<void> {
+    if (!(await checkRecordAccess(userId, owner, permission, accountIds))) {
+      throw new Error(`Workspace ${owner.workspaceId} not found`)
+    }
+  }
+
+  private validateSlotTime(weekday: number, hour: number, minute: number): void {
+    if (![weekday, hour, minute].every(Number.isInteger) ||
+      weekday < 0 || weekday > 6 || hour < 0 || hour > 23 || minute < 0 || minute > 59) {
+      throw new Error('Slot time must be a weekday 0-6, an hour 0-23 and a minute 0-59')
+    }
+  }
+
+  private async getNextFreeSlot(userId: string, slotId: string): Promise<Date> {
+    const slot = await this.getSlot(userId, slotId)
+    const now = new Date()
+    const to = new Date(now.getTime() + SLOT_LOOKAHEAD)
+    const calendar = await this.getCalendar(userId, now, to, [], slot.workspaceId)
+
+    const free = calendar.slots.find((occurrence) => occurrence.slotId === slot.id && !occurrence.filled)
+    if (!free) {
+      throw new Error('Slot has no free time in the coming weeks')
+    }
+    return free.start
+  }
+
+  private getSlotOccurrences(
+    slots: CalendarSlot[],
+    from: Date,
+    to: Date,
+    timezone: string,
+    items: CalendarItem[]
+  ): SlotOccurrence[] {
+    if (slots.length === 0) return []
+
+    const occurrences: SlotOccurrence[] = []
+    // Start an hour early so a slot at hh:mm in the first hour is included
+    for (const localHour of getLocalHours(new Date(from.getTime() - 60 * 60 * 1000), to, timezone)) {
+      for (const slot of slots) {
+        if (slot.weekday !== localHour.weekday || slot.hour !== localHour.hour) continue
+
+        const start = new Date(localHour.start.getTime() + slot.minute * 60 * 1000)
+        if (start < from || start >= to) continue
+
+        occurrences.push({
+          slotId: slot.id,
+          label: slot.label,
+          platforms: slot.platforms,
+          accountIds: slot.accountIds,
+          start,
+          filled: items.some((item) =>
+            item.status !== 'CANCELLED' && item.at.getTime() === start.getTime()
+          )
+        })
+      }
+    }
+    return occurrences
+  }
+
+  private toEntryItem(entry: CalendarEntry & { scheduledPost: ScheduledPost | null }): CalendarItem {
+    const job = entry.scheduledPost
+    return {
+      id: entry.id,
+      kind: 'ENTRY',
+      status: job ? SCHEDULED_POST_STATUSES[job.status] : 'DRAFT',
+      title: entry.title,
+      content: entry.content,
+      mediaUrls: entry.mediaUrls,
+      platforms: entry.platforms,
+      accountIds: entry.accountIds,
+      at: job?.publishedAt || job?.scheduledAt || entry.plannedAt,
+      entryId: entry.id,
+      scheduledPostId: job?.id || null,
+      publishId: job?.publishId || null,
+      slotId: entry.slotId
+    }
+  }
+
+  private toScheduledPostItem(post: ScheduledPost): CalendarItem {
+    return {
+      id: post.id,
+      kind: 'SCHEDULED_POST',
+      status: SCHEDULED_POST_STATUSES[post.status],
+      title: null,
+      content: post.content,
+      mediaUrls: post.mediaUrls,
+      platforms: post.platforms,
+      accountIds: post.accountIds,
+      at: post.publishedAt || post.scheduledAt,
+      entryId: null,
+      scheduledPostId: post.id,
+      publishId: post.publishId,
+      slotId: null
+    }
+  }
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const chunks: string[] = []
+  let chunk = ''
+  for (const char of Array.from(line)) {
+    if (Buffer.byteLength(chunk + char) > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(chunk)
+      chunk = ''
+    }
+    chunk += char
+  }
+  chunks.push(chunk)
+  return chunks.join('\r\n ')
+}
+
+/**
+ * Renders calendar items as an iCalendar (RFC 5545) document, one short
+ * event per post. Drafts are marked tentative.
+ */
+export function toICalendar(items: CalendarItem[]): string {
+  const host = new URL(env.NEXT_PUBLIC_APP_URL).hostname
+  const stamp = formatDate(new Date())
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${host}//Content Calendar//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Content Calendar'
+  ]
+
+  for (const item of items) {
+    const summary = item.title || item.content.split('\n')[0].slice(0, 80)
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${item.kind.toLowerCase()}-${item.id}@${host}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatDate(item.at)}`,
+      `DTEND:${formatDate(new Date(item.at.getTime() + FEED_EVENT_DURATION))}`,
+      `SUMMARY:${escapeText(`[${item.status}] ${summary}`)}`,
+      `DESCRIPTION:${escapeText(`${item.platforms.join(', ')}\n\n${item.content}`)}`,
+      `STATUS:${item.status === 'DRAFT' ? 'TENTATIVE' : 'CONFIRMED'}`,
+      'END:VEVENT'
+    )
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
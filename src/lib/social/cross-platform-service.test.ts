@@ -0,0 +1,330 @@
+import { CrossPlatformService } from './cross-platform-service'
+
+const mockPrisma = {
+  account: { findUnique: jest.fn() },
+  crossPlatformPublish: { findUnique: jest.fn(), create: jest.fn() },
+  crossPlatformPost: { create: jest.fn(), findMany: jest.fn(), findUnique: jest.fn() },
+  crossPlatformComment: { findMany: jest.fn(), create: jest.fn(), update: jest.fn() },
+  publishAttempt: { findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn() }
+}
+
+jest.mock('@prisma/client', () => {
+  class PrismaClientKnownRequestError extends Error {
+    constructor(message: string, public code: string) {
+      super(message)
+    }
+  }
+  const values = (...names: string[]) => Object.fromEntries(names.map((name) => [name, name]))
+
+  return {
+    PrismaClient: jest.fn(() => mockPrisma),
+    Prisma: { PrismaClientKnownRequestError },
+    CommentSentiment: values('POSITIVE', 'NEUTRAL', 'NEGATIVE'),
+    CrossPostStatus: values('LIVE', 'OUTDATED', 'DELETED'),
+    InboxItemKind: values('COMMENT', 'REPLY', 'MENTION'),
+    PublishAttemptStatus: values('PENDING', 'IN_PROGRESS', 'SUCCEEDED', 'FAILED'),
+    ScheduledPostStatus: values('PENDING', 'CLAIMED', 'PUBLISHED', 'FAILED', 'CANCELLED')
+  }
+})
+jest.mock('ioredis', () => ({ Redis: jest.fn() }), { virtual: true })
+jest.mock('./approval-workflow', () => ({
+  ApprovalWorkflow: { getInstance: () => ({ claimApproval: jest.fn().mockResolvedValue(null) }) }
+}))
+jest.mock('../ai', () => ({ ai: { classifySentiments: jest.fn() } }))
+jest.mock('../platforms', () => ({
+  getAccountProvider: jest.fn(),
+  publishThread: jest.fn(),
+  resolveAccounts: jest.fn()
+}))
+jest.mock('../platforms/content-rules', () => ({
+  ...jest.requireActual('../platforms/content-rules'),
+  validateVariant: () => []
+}))
+jest.mock('../platforms/posting-times', () => ({ getNextBestSlot: jest.fn() }))
+jest.mock('../workspaces/access', () => ({
+  checkRecordAccess: jest.fn().mockResolvedValue(true),
+  getAccessibleAccounts: jest.fn(),
+  getSharedWorkspaceId: jest.fn().mockReturnValue(null),
+  requireAccountPermission: jest.fn(async (_userId: string, accountId: string) => ({
+    id: accountId,
+    platform: 'MASTODON'
+  }))
+}))
+
+const mockPlatforms = jest.requireMock('../platforms')
+const { ai: mockAi } = jest.requireMock('../ai')
+
+const NOW = new Date('2025-01-01T12:00:00Z')
+const LEASE = 10 * 60 * 1000
+
+const publish = {
+  id: 'publish-1',
+  userId: 'user-1',
+  workspaceId: null,
+  idempotencyKey: 'key-1',
+  content: 'Hello',
+  mediaUrls: [],
+  platforms: ['MASTODON'],
+  accountIds: ['acc-1'],
+  metadata: null
+}
+
+function attempt(overrides: Record<string, any> = {}) {
+  return {
+    id: 'attempt-1',
+    publishId: 'publish-1',
+    platform: 'MASTODON',
+    accountId: 'acc-1',
+    status: 'PENDING',
+    lastAttemptAt: null,
+    createdAt: NOW,
+    ...overrides
+  }
+}
+
+function withAttempts(...attempts: Record<string, any>[]) {
+  mockPrisma.crossPlatformPublish.findUnique.mockResolvedValue({ ...publish, attempts })
+  mockPrisma.publishAttempt.findMany.mockResolvedValue(attempts)
+}
+
+describe('CrossPlatformService publishing', () => {
+  const service = CrossPlatformService.getInstance()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now: NOW })
+    mockPrisma.account.findUnique.mockImplementation(async ({ where }) => ({ id: where.id }))
+    mockPrisma.publishAttempt.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.publishAttempt.update.mockResolvedValue({})
+    mockPrisma.crossPlatformPost.create.mockResolvedValue({})
+    mockPrisma.crossPlatformPost.findMany.mockResolvedValue([])
+    mockPlatforms.getAccountProvider.mockResolvedValue({ requireFeature: jest.fn() })
+    mockPlatforms.publishThread.mockResolvedValue([{ platform: 'MASTODON', postId: 'status-1' }])
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('claims pending and failed targets, and in-progress ones whose lease ran out', async () => {
+    withAttempts(attempt())
+
+    await service.publishTargets('user-1', 'publish-1')
+
+    expect(mockPrisma.publishAttempt.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'attempt-1',
+        OR: [
+          { status: { in: ['PENDING', 'FAILED'] } },
+          { status: 'IN_PROGRESS', lastAttemptAt: { lt: new Date(NOW.getTime() - LEASE) } }
+        ]
+      },
+      data: expect.objectContaining({ status: 'IN_PROGRESS', lastAttemptAt: NOW })
+    })
+    expect(mockPlatforms.publishThread).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        metadata: expect.objectContaining({ idempotencyKey: 'publish-attempt:attempt-1' })
+      })
+    )
+  })
+
+  it('does not send a target another request has claimed', async () => {
+    withAttempts(attempt())
+    mockPrisma.publishAttempt.updateMany.mockResolvedValue({ count: 0 })
+
+    const result = await service.publishTargets('user-1', 'publish-1')
+
+    expect(mockPlatforms.publishThread).not.toHaveBeenCalled()
+    expect(result.posts).toEqual([])
+  })
+
+  it('records a live post as succeeded even when storing its copy fails', async () => {
+    withAttempts(attempt())
+    mockPrisma.crossPlatformPost.create.mockRejectedValue(new Error('connection lost'))
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const result = await service.publishTargets('user-1', 'publish-1')
+
+    expect(result.posts).toHaveLength(1)
+    expect(mockPrisma.publishAttempt.update).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.publishAttempt.update).toHaveBeenCalledWith({
+      where: { id: 'attempt-1' },
+      data: expect.objectContaining({ status: 'SUCCEEDED', platformPostId: 'status-1' })
+    })
+  })
+
+  it('publishes the variant written for the target platform', async () => {
+    mockPrisma.crossPlatformPublish.findUnique.mockResolvedValue({
+      ...publish,
+      variants: [{ platform: 'MASTODON', content: 'Hello, fediverse' }],
+      attempts: [attempt()]
+    })
+    mockPrisma.publishAttempt.findMany.mockResolvedValue([attempt()])
+
+    await service.publishTargets('user-1', 'publish-1')
+
+    expect(mockPlatforms.publishThread).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ content: 'Hello, fediverse', mediaUrls: [] })
+    )
+    expect(mockPrisma.crossPlatformPost.create.mock.calls[0][0].data).toMatchObject({
+      content: 'Hello, fediverse',
+      mediaUrls: []
+    })
+  })
+
+  it('marks the target failed when the platform rejects the post', async () => {
+    withAttempts(attempt())
+    mockPlatforms.publishThread.mockRejectedValue({ code: 'RATE_LIMIT_EXCEEDED', message: 'Slow down', retryAfter: 60 })
+
+    await service.publishTargets('user-1', 'publish-1')
+
+    // The retry delay is kept so the scheduler does not retry sooner
+    expect(mockPrisma.publishAttempt.update).toHaveBeenCalledWith({
+      where: { id: 'attempt-1' },
+      data: { status: 'FAILED', errorCode: 'RATE_LIMIT_EXCEEDED', errorMessage: 'Slow down', retryAfter: 60 }
+    })
+    expect(mockPrisma.crossPlatformPost.create).not.toHaveBeenCalled()
+  })
+
+  describe('with an idempotency key', () => {
+    const post = { content: 'Hello', platforms: ['MASTODON' as any], idempotencyKey: 'key-1' }
+
+    it('replays a settled publish without posting again', async () => {
+      withAttempts(attempt({ status: 'SUCCEEDED', platformPostId: 'status-1' }))
+      mockPrisma.crossPlatformPost.findMany.mockResolvedValue([
+        { platform: 'MASTODON', postId: 'status-1', content: 'Hello', mediaUrls: [], createdAt: NOW }
+      ])
+
+      const result = await service.createCrossPlatformPost('user-1', post)
+
+      expect(result).toMatchObject({ publishId: 'publish-1', status: 'SUCCEEDED' })
+      expect(result.posts.map((copy) => copy.postId)).toEqual(['status-1'])
+      expect(mockPrisma.crossPlatformPublish.create).not.toHaveBeenCalled()
+      expect(mockPlatforms.publishThread).not.toHaveBeenCalled()
+    })
+
+    it('rejects a repeat while the first request is still publishing', async () => {
+      withAttempts(attempt({ status: 'IN_PROGRESS', lastAttemptAt: new Date(NOW.getTime() - 1000) }))
+
+      await expect(service.createCrossPlatformPost('user-1', post)).rejects.toMatchObject({
+        code: 'IDEMPOTENCY_CONFLICT',
+        status: 409
+      })
+      expect(mockPlatforms.publishThread).not.toHaveBeenCalled()
+    })
+
+    it('resumes a publish whose request died before finishing it', async () => {
+      withAttempts(attempt({ status: 'IN_PROGRESS', lastAttemptAt: new Date(NOW.getTime() - LEASE - 1000) }))
+
+      await service.createCrossPlatformPost('user-1', post)
+
+      expect(mockPrisma.crossPlatformPublish.create).not.toHaveBeenCalled()
+      expect(mockPlatforms.publishThread).toHaveBeenCalledTimes(1)
+    })
+  })
+})
+
+describe('CrossPlatformService.storeComments', () => {
+  const service = CrossPlatformService.getInstance()
+  const account = { id: 'acc-1', platformUserId: 'me' } as any
+
+  function comment(commentId: string, userId: string, content: string) {
+    return {
+      platform: 'MASTODON',
+      postId: 'status-1',
+      commentId,
+      userId,
+      content,
+      createdAt: NOW,
+      metadata: {}
+    } as any
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.crossPlatformComment.create.mockImplementation(async ({ data }) => ({ id: `row-${data.commentId}`, ...data }))
+    mockPrisma.crossPlatformComment.update.mockResolvedValue({})
+  })
+
+  it('keeps its own copy of a comment another user has stored', async () => {
+    mockPrisma.crossPlatformComment.findMany.mockResolvedValue([])
+    mockAi.classifySentiments.mockResolvedValue(['positive'])
+
+    await service.storeComments('user-2', [comment('c-1', 'fan', 'Great')], account)
+
+    expect(mockPrisma.crossPlatformComment.findMany.mock.calls[0][0].where).toMatchObject({ userId: 'user-2' })
+    expect(mockPrisma.crossPlatformComment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-2', commentId: 'c-1' })
+    })
+  })
+
+  it('classifies the new comments in one request without holding up the sync', async () => {
+    mockPrisma.crossPlatformComment.findMany.mockResolvedValue([])
+    let classify: (labels: string[]) => void = () => undefined
+    mockAi.classifySentiments.mockReturnValue(new Promise((resolve) => { classify = resolve }))
+
+    const created = await service.storeComments('user-1', [
+      comment('c-1', 'fan', 'Great'),
+      comment('c-2', 'me', 'Thanks!'),
+      comment('c-3', 'critic', 'Meh')
+    ], account)
+
+    expect(created).toHaveLength(3)
+    expect(created.every((item) => item.sentiment === undefined)).toBe(true)
+    // The account's own reply is not classified
+    expect(mockAi.classifySentiments).toHaveBeenCalledWith(['Great', 'Meh'])
+
+    classify(['positive', 'negative'])
+    await new Promise(process.nextTick)
+    expect(mockPrisma.crossPlatformComment.update.mock.calls).toEqual([
+      [{ where: { id: 'row-c-1' }, data: { sentiment: 'POSITIVE' } }],
+      [{ where: { id: 'row-c-3' }, data: { sentiment: 'NEGATIVE' } }]
+    ])
+  })
+})
+
+describe('CrossPlatformService.syncComments', () => {
+  const service = CrossPlatformService.getInstance()
+  const mockAccess = jest.requireMock('../workspaces/access')
+  const provider = { requireFeature: jest.fn(), getComments: jest.fn() }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.crossPlatformComment.findMany.mockResolvedValue([])
+    mockPlatforms.getAccountProvider.mockResolvedValue(provider)
+    provider.getComments.mockResolvedValue([])
+  })
+
+  it('reads the comments as the account the copy was published with', async () => {
+    const account = { id: 'acc-1', platform: 'MASTODON', instanceUrl: 'https://social.example' }
+    mockPrisma.crossPlatformPost.findUnique.mockResolvedValue({ userId: 'user-1', workspaceId: null, accountId: 'acc-1' })
+    mockPrisma.account.findUnique.mockResolvedValue(account)
+
+    await service.syncComments('user-1', 'status-1', 'MASTODON' as any)
+
+    expect(mockPlatforms.getAccountProvider).toHaveBeenCalledWith(account)
+    expect(provider.getComments).toHaveBeenCalledWith('status-1')
+  })
+
+  it('reads posts published elsewhere as the user\'s first account on the platform', async () => {
+    const account = { id: 'acc-2', platform: 'MASTODON' }
+    mockPrisma.crossPlatformPost.findUnique.mockResolvedValue(null)
+    mockAccess.getAccessibleAccounts.mockResolvedValue([account])
+
+    await service.syncComments('user-1', 'status-9', 'MASTODON' as any)
+
+    expect(mockAccess.getAccessibleAccounts).toHaveBeenCalledWith('user-1', 'content:view', { platform: 'MASTODON' })
+    expect(mockPlatforms.getAccountProvider).toHaveBeenCalledWith(account)
+  })
+
+  it('does not read a copy the user cannot see', async () => {
+    mockPrisma.crossPlatformPost.findUnique.mockResolvedValue({ userId: 'user-2', workspaceId: 'ws-1', accountId: 'acc-1' })
+    mockAccess.checkRecordAccess.mockResolvedValueOnce(false)
+
+    await expect(service.syncComments('user-1', 'status-1', 'MASTODON' as any)).rejects.toThrow('Post status-1 not found')
+    expect(mockPlatforms.getAccountProvider).not.toHaveBeenCalled()
+  })
+})
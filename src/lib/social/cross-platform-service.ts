@@ -1,4 +1,18 @@
-import { PrismaClient } from '@prisma/client'
+import {
+  Account,
+  CommentSentiment,
+  InboxItemKind,
+  Prisma,
+  PrismaClient,
+  CrossPlatformComment as CrossPlatformCommentRecord,
+  CrossPlatformPost as CrossPlatformPostRecord,
+  CrossPlatformPublish,
+  CrossPostStatus,
+  PublishAttempt,
+  PublishAttemptStatus,
+  ScheduledPost,
+  ScheduledPostStatus
+} from '@prisma/client'
 import { Redis } from 'ioredis'
 import {
   SocialPlatform,
@@ -7,16 +21,78 @@ import {
   SocialMediaProfile,
   SocialMediaError
 } from './types'
-import { SocialService } from './social-service'
+import { ApprovalWorkflow } from './approval-workflow'
+import { ai } from '../ai'
+import {
+  CopyOutcome,
+  PostEdit,
+  UneditableStrategy,
+  deletePostCopy,
+  editPostCopy,
+  getAccountProvider,
+  getPostPartIds,
+  publishThread,
+  resolveAccounts
+} from '../platforms'
+import {
+  ContentIssue,
+  PlatformVariant,
+  mediaTypeFromUrl,
+  readVariants,
+  resolveVariant,
+  validateVariant
+} from '../platforms/content-rules'
+import { getNextBestSlot } from '../platforms/posting-times'
+import {
+  WorkspacePermission,
+  checkRecordAccess,
+  getAccessibleAccounts,
+  getSharedWorkspaceId,
+  getWorkspaceScope,
+  inScope,
+  requireAccountPermission
+} from '../workspaces/access'
 
 interface CrossPlatformPost {
   content: string
   mediaUrls?: string[]
+  variants?: PlatformVariant[] // per-platform replacements for content and mediaUrls
   platforms: SocialPlatform[]
+  accountIds?: string[] // specific accounts per platform; defaults otherwise
+  workspaceId?: string | null // where default accounts come from; the user's own when not set
   scheduledAt?: Date
+  autoSchedule?: boolean // schedule for the next best slot when no time is given
+  idempotencyKey?: string
+  queueItemId?: string // the post queue item a scheduled post was made from
+  draftId?: string // the approved draft the post was written in
   metadata?: Record<string, any>
 }
 
+export type PublishStatus = 'IN_PROGRESS' | 'SUCCEEDED' | 'PARTIALLY_FAILED' | 'FAILED'
+
+export interface CrossPlatformPublishResult {
+  publishId: string
+  status: PublishStatus
+  posts: SocialMediaPost[]
+  attempts: PublishAttempt[]
+}
+
+export type CrossPostGroupStatus = 'LIVE' | 'PARTIALLY_OUTDATED' | 'PARTIALLY_DELETED' | 'DELETED'
+
+// All copies of one publish. The group id is the publish id.
+export interface CrossPostGroup {
+  groupId: string
+  content: string
+  mediaUrls: string[]
+  status: CrossPostGroupStatus
+  copies: CrossPlatformPostRecord[]
+}
+
+export interface CrossPostChangeResult {
+  group: CrossPostGroup
+  outcomes: CopyOutcome[]
+}
+
 interface CrossPlatformComment {
   content: string
   postId: string
@@ -25,6 +101,12 @@ interface CrossPlatformComment {
   metadata?: Record<string, any>
 }
 
+const SENTIMENTS: Record<string, CommentSentiment> = {
+  positive: CommentSentiment.POSITIVE,
+  neutral: CommentSentiment.NEUTRAL,
+  negative: CommentSentiment.NEGATIVE
+}
+
 interface CrossPlatformReaction {
   postId: string
   platform: SocialPlatform
@@ -36,13 +118,15 @@ export class CrossPlatformService {
   private static instance: CrossPlatformService
   private prisma: PrismaClient
   private redis: Redis
-  private socialService: SocialService
+  private approvals: ApprovalWorkflow
   private readonly CACHE_TTL = 3600 // 1 hour
+  private readonly PUBLISH_LEASE = 10 * 60 * 1000 // in milliseconds
+  private readonly SENTIMENT_BATCH_SIZE = 20 // comments per classification request
 
   private constructor() {
     this.prisma = new PrismaClient()
     this.redis = new Redis(process.env.REDIS_URL)
-    this.socialService = SocialService.getInstance()
+    this.approvals = ApprovalWorkflow.getInstance()
   }
 
   static getInstance(): CrossPlatformService {
@@ -55,51 +139,654 @@ export class CrossPlatformService {
   async createCrossPlatformPost(
     userId: string,
     post: CrossPlatformPost
-  ): Promise<SocialMediaPost[]> {
-    const results: SocialMediaPost[] = []
-    const errors: SocialMediaError[] = []
+  ): Promise<CrossPlatformPublishResult> {
+    // A repeated request is replayed before its draft is checked, since the
+    // first request already used the approval
+    if (post.idempotencyKey) {
+      const existing = await this.prisma.crossPlatformPublish.findUnique({
+        where: { userId_idempotencyKey: { userId, idempotencyKey: post.idempotencyKey } },
+        select: { id: true }
+      })
+      if (existing) {
+        return this.replayPublish(userId, post.idempotencyKey)
+      }
+    }
 
-    // Create posts in parallel for all platforms
+    let publish: CrossPlatformPublish
+    try {
+      publish = await this.createPublish(userId, post, true)
+    } catch (error) {
+      // A publish with this key already exists: replay it instead of posting again
+      if (post.idempotencyKey && this.isUniqueViolation(error)) {
+        return this.replayPublish(userId, post.idempotencyKey)
+      }
+      throw error
+    }
+
+    return this.publishTargets(userId, publish.id)
+  }
+
+  async preparePublish(
+    userId: string,
+    post: CrossPlatformPost
+  ): Promise<CrossPlatformPublish> {
+    try {
+      return await this.createPublish(userId, post)
+    } catch (error) {
+      if (post.idempotencyKey && this.isUniqueViolation(error)) {
+        return this.getPublishByIdempotencyKey(userId, post.idempotencyKey)
+      }
+      throw error
+    }
+  }
+
+  // Scheduled jobs were checked for approval when they were scheduled, so
+  // only direct publishes check it here
+  private async createPublish(
+    userId: string,
+    post: CrossPlatformPost,
+    checkApproval = false
+  ): Promise<CrossPlatformPublish> {
+    this.validatePost(post)
+
+    // Each target is one connected account, so a publish can reach several
+    // accounts on the same platform
+    const { accounts, workspaceId } = await this.resolveTargets(userId, post)
+    const draft = checkApproval
+      ? await this.approvals.claimApproval(userId, {
+          draftId: post.draftId,
+          accountIds: accounts.map((account) => account.id),
+          contents: this.getPlatformContents(post, accounts.map((account) => account.platform))
+        })
+      : null
+
+    let publish: CrossPlatformPublish
+    try {
+      publish = await this.prisma.crossPlatformPublish.create({
+        data: {
+          userId,
+          workspaceId,
+          idempotencyKey: post.idempotencyKey,
+          content: post.content,
+          mediaUrls: post.mediaUrls || [],
+          variants: post.variants,
+          platforms: Array.from(new Set(accounts.map((account) => account.platform))),
+          accountIds: accounts.map((account) => account.id),
+          metadata: post.metadata,
+          attempts: {
+            create: accounts.map((account) => ({
+              platform: account.platform,
+              accountId: account.id
+            }))
+          }
+        }
+      })
+    } catch (error) {
+      if (draft) await this.approvals.releaseApproval(draft.id)
+      throw error
+    }
+
+    if (draft) {
+      await this.approvals.completeApproval(userId, draft, { publishId: publish.id })
+    }
+    return publish
+  }
+
+  async retryFailedTargets(
+    userId: string,
+    publishId: string
+  ): Promise<CrossPlatformPublishResult> {
+    const publish = await this.getPublish(userId, publishId, 'posts:publish')
+    const failed = publish.attempts
+      .filter((attempt) => attempt.status === PublishAttemptStatus.FAILED)
+      .map((attempt) => attempt.accountId)
+
+    return this.publishTargets(userId, publishId, failed)
+  }
+
+  /**
+   * Publishes every target account of `publishId` (or the given subset) that
+   * has not succeeded yet. Targets that already have a platform post are never
+   * sent again, so this is safe to call repeatedly.
+   */
+  async publishTargets(
+    userId: string,
+    publishId: string,
+    accountIds?: string[]
+  ): Promise<CrossPlatformPublishResult> {
+    const publish = await this.getPublish(userId, publishId, 'posts:publish')
+    const targets = publish.attempts.filter(
+      (attempt) =>
+        attempt.status !== PublishAttemptStatus.SUCCEEDED &&
+        (!accountIds || accountIds.includes(attempt.accountId))
+    )
+
+    const posts: SocialMediaPost[] = []
     await Promise.all(
-      post.platforms.map(async (platform) => {
-        try {
-          const provider = this.socialService.getProvider(platform)
-          const result = await provider.createPost({
-            content: post.content,
-            mediaUrls: post.mediaUrls,
-            createdAt: post.scheduledAt || new Date(),
-            metadata: {
-              ...post.metadata,
-              crossPlatform: true,
-              originalPlatforms: post.platforms
-            }
-          })
-          results.push(result)
+      targets.map(async (attempt) => {
+        const post = await this.publishTarget(publish, attempt)
+        if (post) posts.push(post)
+      })
+    )
+
+    const attempts = await this.prisma.publishAttempt.findMany({
+      where: { publishId },
+      orderBy: { platform: 'asc' }
+    })
+
+    return {
+      publishId,
+      status: this.getPublishStatus(attempts),
+      posts,
+      attempts
+    }
+  }
+
+  // Publishes are the author's, or shared with the workspace they were made in
+  async getPublish(
+    userId: string,
+    publishId: string,
+    permission: WorkspacePermission = 'content:view'
+  ): Promise<CrossPlatformPublish & { attempts: PublishAttempt[] }> {
+    const publish = await this.prisma.crossPlatformPublish.findUnique({
+      where: { id: publishId },
+      include: { attempts: true }
+    })
+
+    if (!publish || !(await checkRecordAccess(userId, publish, permission, publish.accountIds))) {
+      throw new Error('Cross-platform publish not found')
+    }
+    return publish
+  }
+
+  async getCrossPlatformPost(userId: string, id: string): Promise<CrossPlatformPostRecord> {
+    const post = await this.prisma.crossPlatformPost.findUnique({
+      where: { id }
+    })
+
+    if (!post || !(await checkRecordAccess(userId, post, 'content:view', [post.accountId]))) {
+      throw new Error('Cross-platform post not found')
+    }
+    return post
+  }
+
+  async getCrossPostGroup(userId: string, groupId: string): Promise<CrossPostGroup> {
+    const publish = await this.getPublish(userId, groupId)
+    const copies = await this.prisma.crossPlatformPost.findMany({
+      where: { publishId: publish.id },
+      orderBy: { platform: 'asc' }
+    })
+
+    return {
+      groupId: publish.id,
+      content: publish.content,
+      mediaUrls: publish.mediaUrls,
+      status: this.getGroupStatus(copies),
+      copies
+    }
+  }
+
+  /**
+   * Applies an edit to every live copy in the group. Platforms without edit
+   * support leave their copy OUTDATED, unless `strategy` is REPOST, in which
+   * case the copy is deleted and published again with the new content.
+   */
+  async editCrossPostGroup(
+    userId: string,
+    groupId: string,
+    edit: PostEdit,
+    strategy: UneditableStrategy = 'SKIP'
+  ): Promise<CrossPostChangeResult> {
+    const publish = await this.getPublish(userId, groupId, 'posts:publish')
+    await this.checkEditsAllowed(userId, publish.accountIds)
+    this.validatePost({
+      content: edit.content,
+      mediaUrls: edit.mediaUrls ?? publish.mediaUrls,
+      platforms: publish.platforms as SocialPlatform[]
+    })
 
-          // Store the cross-platform relationship
-          await this.prisma.crossPlatformPost.create({
+    await this.prisma.crossPlatformPublish.update({
+      where: { id: publish.id },
+      data: {
+        content: edit.content,
+        mediaUrls: edit.mediaUrls ?? publish.mediaUrls,
+        // Every copy now gets the edited content
+        variants: Prisma.DbNull
+      }
+    })
+
+    const copies = await this.prisma.crossPlatformPost.findMany({
+      where: {
+        publishId: publish.id,
+        status: { not: CrossPostStatus.DELETED }
+      }
+    })
+    const outcomes = await Promise.all(
+      copies.map((copy) =>
+        this.editCopy(userId, copy, {
+          content: edit.content,
+          mediaUrls: edit.mediaUrls ?? copy.mediaUrls,
+          metadata: {
+            ...(copy.metadata as Record<string, any> | null),
+            ...edit.metadata,
+            crossPlatform: true,
+            originalPlatforms: publish.platforms
+          }
+        }, strategy)
+      )
+    )
+
+    return {
+      group: await this.getCrossPostGroup(userId, groupId),
+      outcomes
+    }
+  }
+
+  // Deletes every remaining copy in the group. Copies that fail stay LIVE with
+  // their error so the delete can be retried.
+  async deleteCrossPostGroup(userId: string, groupId: string): Promise<CrossPostChangeResult> {
+    const publish = await this.getPublish(userId, groupId, 'posts:publish')
+    const copies = await this.prisma.crossPlatformPost.findMany({
+      where: {
+        publishId: publish.id,
+        status: { not: CrossPostStatus.DELETED }
+      }
+    })
+
+    const outcomes = await Promise.all(
+      copies.map(async (copy): Promise<CopyOutcome> => {
+        const outcome = {
+          platform: copy.platform as SocialPlatform,
+          accountId: copy.accountId,
+          postId: copy.postId
+        }
+
+        try {
+          const provider = await this.getCopyProvider(userId, copy)
+          await deletePostCopy(provider, getPostPartIds(copy.postId, copy.threadPostIds))
+          await this.prisma.crossPlatformPost.update({
+            where: { id: copy.id },
             data: {
-              userId,
-              platform,
-              postId: result.postId,
-              content: post.content,
-              mediaUrls: post.mediaUrls || [],
-              scheduledAt: post.scheduledAt,
-              metadata: post.metadata
+              status: CrossPostStatus.DELETED,
+              deletedAt: new Date(),
+              lastError: null
             }
           })
+          return { ...outcome, status: 'DELETED' }
         } catch (error) {
-          errors.push(error as SocialMediaError)
+          const message = (error as Error)?.message || 'Delete failed'
+          await this.prisma.crossPlatformPost.update({
+            where: { id: copy.id },
+            data: { lastError: message }
+          })
+          return { ...outcome, status: 'FAILED', error: message }
+        }
+      })
+    )
+
+    return {
+      group: await this.getCrossPostGroup(userId, groupId),
+      outcomes
+    }
+  }
+
+  private async editCopy(
+    userId: string,
+    copy: CrossPlatformPostRecord,
+    edit: PostEdit,
+    strategy: UneditableStrategy
+  ): Promise<CopyOutcome> {
+    const outcome = {
+      platform: copy.platform as SocialPlatform,
+      accountId: copy.accountId,
+      postId: copy.postId
+    }
+
+    try {
+      const provider = await this.getCopyProvider(userId, copy)
+      const { threadPostIds, ...result } = await editPostCopy(
+        provider,
+        getPostPartIds(copy.postId, copy.threadPostIds),
+        edit,
+        strategy
+      )
+
+      if (result.status === 'NOT_EDITABLE') {
+        await this.prisma.crossPlatformPost.update({
+          where: { id: copy.id },
+          data: { status: CrossPostStatus.OUTDATED, lastError: null }
+        })
+        return { ...outcome, ...result }
+      }
+
+      await this.prisma.crossPlatformPost.update({
+        where: { id: copy.id },
+        data: {
+          postId: result.newPostId || copy.postId,
+          threadPostIds: result.newPostId ? threadPostIds : undefined,
+          content: edit.content,
+          mediaUrls: edit.mediaUrls,
+          status: CrossPostStatus.LIVE,
+          lastError: result.error || null,
+          editedAt: new Date()
+        }
+      })
+      if (result.newPostId && copy.publishId && copy.accountId) {
+        await this.prisma.publishAttempt.updateMany({
+          where: { publishId: copy.publishId, accountId: copy.accountId },
+          data: { platformPostId: result.newPostId }
+        })
+      }
+      return { ...outcome, ...result }
+    } catch (error) {
+      const message = (error as Error)?.message || 'Edit failed'
+      await this.prisma.crossPlatformPost.update({
+        where: { id: copy.id },
+        data: { lastError: message }
+      })
+      return { ...outcome, status: 'FAILED', error: message }
+    }
+  }
+
+  private async getCopyProvider(userId: string, copy: CrossPlatformPostRecord) {
+    const platform = copy.platform as SocialPlatform
+    if (!copy.accountId) {
+      // Copies published before accounts were tracked use the default account
+      const [account] = await resolveAccounts(userId, [platform], [], copy.workspaceId)
+      return getAccountProvider(account)
+    }
+
+    return getAccountProvider(await this.getTargetAccount(userId, platform, copy.accountId))
+  }
+
+  // The account to publish as, checked against the user's current role on it
+  private async getTargetAccount(userId: string, platform: SocialPlatform, accountId: string) {
+    const account = await this.prisma.account.findUnique({
+      where: { id: accountId }
+    })
+    if (!account) {
+      throw this.createError({
+        platform,
+        code: 'ACCOUNT_NOT_FOUND',
+        message: `Account ${accountId} is no longer connected`
+      })
+    }
+    return requireAccountPermission(userId, account.id, 'posts:publish')
+  }
+
+  // Content on accounts with an approval chain only changes through a newly
+  // approved draft
+  private async checkEditsAllowed(userId: string, accountIds: string[]): Promise<void> {
+    if (await this.approvals.needsApproval(userId, accountIds)) {
+      throw new Error('Posts on these accounts need approval; publish a newly approved draft instead')
+    }
+  }
+
+  // Publish targets for a post, all in one workspace or all personal
+  private async resolveTargets(
+    userId: string,
+    post: CrossPlatformPost
+  ): Promise<{ accounts: Account[]; workspaceId: string | null }> {
+    const accounts = await resolveAccounts(userId, post.platforms, post.accountIds, post.workspaceId)
+    const workspaceId = getSharedWorkspaceId(accounts)
+    if (post.workspaceId && post.workspaceId !== workspaceId) {
+      throw new Error('Selected accounts are not in this workspace')
+    }
+    return { accounts, workspaceId }
+  }
+
+  private getGroupStatus(copies: CrossPlatformPostRecord[]): CrossPostGroupStatus {
+    const deleted = copies.filter((copy) => copy.status === CrossPostStatus.DELETED).length
+
+    if (copies.length > 0 && deleted === copies.length) return 'DELETED'
+    if (deleted > 0) return 'PARTIALLY_DELETED'
+    if (copies.some((copy) => copy.status === CrossPostStatus.OUTDATED)) {
+      return 'PARTIALLY_OUTDATED'
+    }
+    return 'LIVE'
+  }
+
+  private async getPublishByIdempotencyKey(
+    userId: string,
+    idempotencyKey: string
+  ): Promise<CrossPlatformPublish & { attempts: PublishAttempt[] }> {
+    const publish = await this.prisma.crossPlatformPublish.findUnique({
+      where: { userId_idempotencyKey: { userId, idempotencyKey } },
+      include: { attempts: true }
+    })
+
+    if (!publish) {
+      throw new Error('Cross-platform publish not found')
+    }
+    return publish
+  }
+
+  private async replayPublish(
+    userId: string,
+    idempotencyKey: string
+  ): Promise<CrossPlatformPublishResult> {
+    const publish = await this.getPublishByIdempotencyKey(userId, idempotencyKey)
+
+    const unsettled = publish.attempts.filter(
+      (attempt) =>
+        attempt.status === PublishAttemptStatus.PENDING ||
+        attempt.status === PublishAttemptStatus.IN_PROGRESS
+    )
+    if (unsettled.length > 0) {
+      const stale = unsettled.filter((attempt) => this.isStaleAttempt(attempt))
+      if (stale.length < unsettled.length) {
+        throw this.createError({
+          code: 'IDEMPOTENCY_CONFLICT',
+          message: 'A request with this idempotency key is already in progress',
+          status: 409,
+          details: { publishId: publish.id }
+        })
+      }
+
+      // The request that started this publish died before finishing it
+      return this.publishTargets(userId, publish.id, stale.map((attempt) => attempt.accountId))
+    }
+
+    const posts = await this.prisma.crossPlatformPost.findMany({
+      where: { publishId: publish.id }
+    })
+
+    return {
+      publishId: publish.id,
+      status: this.getPublishStatus(publish.attempts),
+      posts: posts.map((post) => ({
+        platform: post.platform as SocialPlatform,
+        postId: post.postId,
+        userId: post.userId,
+        content: post.content,
+        mediaUrls: post.mediaUrls,
+        createdAt: post.createdAt,
+        metadata: post.metadata as Record<string, any> | undefined
+      })),
+      attempts: publish.attempts
+    }
+  }
+
+  private async publishTarget(
+    publish: CrossPlatformPublish,
+    attempt: PublishAttempt
+  ): Promise<SocialMediaPost | null> {
+    const platform = attempt.platform as SocialPlatform
+    const { content, mediaUrls } = resolveVariant(publish, readVariants(publish.variants), platform)
+    const now = new Date()
+
+    // Claim the target so a concurrent retry cannot send it a second time. An
+    // attempt whose process died mid-publish can be claimed again once its
+    // lease has run out.
+    const { count } = await this.prisma.publishAttempt.updateMany({
+      where: {
+        id: attempt.id,
+        OR: [
+          { status: { in: [PublishAttemptStatus.PENDING, PublishAttemptStatus.FAILED] } },
+          {
+            status: PublishAttemptStatus.IN_PROGRESS,
+            lastAttemptAt: { lt: new Date(now.getTime() - this.PUBLISH_LEASE) }
+          }
+        ]
+      },
+      data: {
+        status: PublishAttemptStatus.IN_PROGRESS,
+        attemptCount: { increment: 1 },
+        lastAttemptAt: now
+      }
+    })
+    if (count === 0) return null
+
+    let accountId: string
+    let parts: SocialMediaPost[]
+    try {
+      const account = await this.getTargetAccount(publish.userId, platform, attempt.accountId)
+      accountId = account.id
+
+      const provider = await getAccountProvider(account)
+      provider.requireFeature('POSTS')
+      // Too long for one post: published as a reply thread and tracked as
+      // one logical post. The key lets platforms that support it drop the
+      // repeat when a stale attempt is claimed again.
+      parts = await publishThread(provider, {
+        content,
+        mediaUrls,
+        createdAt: new Date(),
+        metadata: {
+          ...(publish.metadata as Record<string, any> | null),
+          crossPlatform: true,
+          originalPlatforms: publish.platforms,
+          idempotencyKey: `publish-attempt:${attempt.id}`
+        }
+      })
+    } catch (error) {
+      const socialError = error as SocialMediaError
+      await this.prisma.publishAttempt.update({
+        where: { id: attempt.id },
+        data: {
+          status: PublishAttemptStatus.FAILED,
+          errorCode: socialError?.code || 'UNKNOWN_ERROR',
+          errorMessage: socialError?.message || 'An unknown error occurred',
+          retryAfter: socialError?.retryAfter ?? null
         }
       })
+      return null
+    }
+
+    // The post is live, so the attempt is recorded as succeeded before
+    // anything else is stored: no later error may make a retry send it again
+    const result = parts[0]
+    await this.prisma.publishAttempt.update({
+      where: { id: attempt.id },
+      data: {
+        status: PublishAttemptStatus.SUCCEEDED,
+        platformPostId: result.postId,
+        errorCode: null,
+        errorMessage: null,
+        retryAfter: null
+      }
+    })
+
+    // Store the cross-platform relationship
+    try {
+      await this.prisma.crossPlatformPost.create({
+        data: {
+          userId: publish.userId,
+          workspaceId: publish.workspaceId,
+          publishId: publish.id,
+          idempotencyKey: publish.idempotencyKey,
+          platform,
+          accountId,
+          postId: result.postId,
+          threadPostIds: parts.length > 1 ? parts.map((part) => part.postId) : [],
+          content,
+          mediaUrls,
+          metadata: publish.metadata ?? undefined
+        }
+      })
+    } catch (error) {
+      // Stored by a concurrent claim of a stale attempt in the meantime
+      if (!this.isUniqueViolation(error)) {
+        console.error(`Error storing ${platform} copy ${result.postId} of publish ${publish.id}:`, error)
+      }
+    }
+
+    return result
+  }
+
+  // What the post sends out on each of the platforms
+  private getPlatformContents(
+    post: Pick<CrossPlatformPost, 'content' | 'mediaUrls' | 'variants'>,
+    platforms: SocialPlatform[]
+  ): Array<{ platform: SocialPlatform; content: string; mediaUrls: string[] }> {
+    const master = { content: post.content, mediaUrls: post.mediaUrls || [] }
+    return Array.from(new Set(platforms)).map((platform) => ({
+      platform,
+      ...resolveVariant(master, post.variants, platform)
+    }))
+  }
+
+  // Every content rule the post breaks on its platforms, checked against
+  // each platform's variant. The composer shows these while the post is
+  // written.
+  getContentIssues(
+    post: Pick<CrossPlatformPost, 'content' | 'mediaUrls' | 'variants' | 'platforms'>
+  ): ContentIssue[] {
+    return this.getPlatformContents(post, post.platforms).flatMap(({ platform, content, mediaUrls }) =>
+      validateVariant(platform, {
+        content,
+        media: mediaUrls.map((url) => ({ type: mediaTypeFromUrl(url), url }))
+      })
     )
+  }
+
+  // Rejects posts that break a target platform's content rules before
+  // anything is stored or sent
+  private validatePost(post: CrossPlatformPost): void {
+    const errors = this.getContentIssues(post).filter((issue) => issue.severity === 'ERROR')
 
     if (errors.length > 0) {
-      // Log errors but don't fail the entire operation
-      console.error('Cross-platform post errors:', errors)
+      throw this.createError({
+        code: 'VALIDATION_FAILED',
+        message: errors.map((issue) => `${issue.platform}: ${issue.message}`).join('; '),
+        status: 422,
+        details: { issues: errors }
+      })
+    }
+  }
+
+  private isUniqueViolation(error: any): boolean {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+  }
+
+  private createError(error: any): SocialMediaError {
+    return {
+      platform: error?.platform,
+      name: error?.name || 'SocialMediaError',
+      message: error?.message || 'An unknown error occurred',
+      code: error?.code || 'UNKNOWN_ERROR',
+      status: error?.status,
+      details: error?.details
     }
+  }
 
-    return results
+  // Whether an unsettled attempt has outlived its lease, i.e. the process
+  // publishing it is gone
+  private isStaleAttempt(attempt: PublishAttempt): boolean {
+    const startedAt = attempt.lastAttemptAt || attempt.createdAt
+    return startedAt.getTime() < Date.now() - this.PUBLISH_LEASE
+  }
+
+  private getPublishStatus(attempts: PublishAttempt[]): PublishStatus {
+    const succeeded = attempts.filter(
+      (attempt) => attempt.status === PublishAttemptStatus.SUCCEEDED
+    ).length
+
+    if (succeeded === attempts.length) return 'SUCCEEDED'
+    if (attempts.some((attempt) => attempt.status === PublishAttemptStatus.IN_PROGRESS)) {
+      return 'IN_PROGRESS'
+    }
+    return succeeded > 0 ? 'PARTIALLY_FAILED' : 'FAILED'
   }
 
   async syncComments(
@@ -107,43 +794,172 @@ export class CrossPlatformService {
     postId: string,
     platform: SocialPlatform
   ): Promise<SocialMediaComment[]> {
-    const provider = this.socialService.getProvider(platform)
+    const account = await this.getPostAccount(userId, platform, postId)
+    const provider = await getAccountProvider(account)
+    provider.requireFeature('COMMENTS')
     const comments = await provider.getComments(postId)
+    await this.storeComments(userId, comments, account)
 
-    // Store comments in the database
-    await Promise.all(
-      comments.map(async (comment) => {
-        await this.prisma.crossPlatformComment.upsert({
+    return comments
+  }
+
+  // The account a post is read as: the one its published copy was made
+  // with, or the user's first account on the platform for posts published
+  // elsewhere
+  private async getPostAccount(userId: string, platform: SocialPlatform, postId: string): Promise<Account> {
+    const copy = await this.prisma.crossPlatformPost.findUnique({
+      where: { platform_postId: { platform, postId } }
+    })
+    if (copy?.accountId) {
+      if (!(await checkRecordAccess(userId, copy, 'content:view', [copy.accountId]))) {
+        throw new Error(`Post ${postId} not found`)
+      }
+      const account = await this.prisma.account.findUnique({ where: { id: copy.accountId } })
+      if (account) return account
+    }
+
+    const [account] = await getAccessibleAccounts(userId, 'content:view', { platform })
+    if (!account) {
+      throw this.createError({
+        platform,
+        code: 'ACCOUNT_NOT_FOUND',
+        message: `No ${platform} account is connected`
+      })
+    }
+    return account
+  }
+
+  /**
+   * Stores comments and mentions read from a platform for the user. Ones
+   * seen for the first time arrive in the inbox unread, unless the account
+   * wrote them, and get their sentiment once it has been classified. Returns
+   * the new ones.
+   */
+  async storeComments(
+    userId: string,
+    comments: SocialMediaComment[],
+    account?: Account | null
+  ): Promise<CrossPlatformCommentRecord[]> {
+    if (comments.length === 0) return []
+
+    const existing = await this.prisma.crossPlatformComment.findMany({
+      where: {
+        userId,
+        OR: comments.map((comment) => ({ platform: comment.platform, commentId: comment.commentId }))
+      },
+      select: { platform: true, commentId: true }
+    })
+    const known = new Set(existing.map((comment) => `${comment.platform}:${comment.commentId}`))
+
+    const created: CrossPlatformCommentRecord[] = []
+    for (const comment of comments) {
+      const mention = !!comment.metadata?.mention
+      const parentCommentId: string | null = comment.metadata?.parentCommentId || null
+      const kind = mention
+        ? InboxItemKind.MENTION
+        : parentCommentId ? InboxItemKind.REPLY : InboxItemKind.COMMENT
+      const counts = {
+        content: comment.content,
+        likesCount: comment.likesCount,
+        repliesCount: comment.repliesCount,
+        isLiked: comment.isLiked,
+        metadata: comment.metadata
+      }
+
+      if (known.has(`${comment.platform}:${comment.commentId}`)) {
+        // A mention can also be a comment on one of the account's posts; the
+        // post's comment listing is the one that knows its thread
+        await this.prisma.crossPlatformComment.update({
           where: {
-            platform_commentId: {
-              platform,
-              commentId: comment.commentId
-            }
-          },
-          update: {
-            content: comment.content,
-            likesCount: comment.likesCount,
-            repliesCount: comment.repliesCount,
-            isLiked: comment.isLiked,
-            metadata: comment.metadata
+            userId_platform_commentId: { userId, platform: comment.platform, commentId: comment.commentId }
           },
-          create: {
+          data: mention ? counts : { ...counts, kind, postId: comment.postId, parentCommentId }
+        })
+        continue
+      }
+
+      const isOwn = !!account && comment.userId === account.platformUserId
+      try {
+        created.push(await this.prisma.crossPlatformComment.create({
+          data: {
             userId,
-            platform,
-            postId,
+            platform: comment.platform,
+            accountId: account?.id,
+            kind,
+            postId: comment.postId,
             commentId: comment.commentId,
-            content: comment.content,
+            parentCommentId,
+            authorId: comment.userId,
+            authorUsername: comment.metadata?.username,
+            url: comment.metadata?.url,
+            isOwn,
             createdAt: comment.createdAt,
-            likesCount: comment.likesCount,
-            repliesCount: comment.repliesCount,
-            isLiked: comment.isLiked,
-            metadata: comment.metadata
+            readAt: isOwn ? new Date() : null,
+            ...counts
           }
-        })
-      })
-    )
+        }))
+      } catch (error) {
+        // Stored by a concurrent sync in the meantime
+        if (!this.isUniqueViolation(error)) throw error
+      }
+    }
 
-    return comments
+    // Not awaited, so a sync never waits on the model
+    this.classifySentiments(created.filter((comment) => !comment.isOwn)).catch((error) => {
+      console.error('Error analyzing comment sentiment:', error)
+    })
+
+    return created
+  }
+
+  // Comments on the post, or replies to one of its comments when
+  // parentCommentId is set, as the given account or the platform's default
+  async createComment(
+    userId: string,
+    comment: CrossPlatformComment,
+    accountId?: string
+  ): Promise<CrossPlatformCommentRecord> {
+    this.validatePost({ content: comment.content, platforms: [comment.platform] })
+    const [account] = await resolveAccounts(userId, [comment.platform], accountId ? [accountId] : [])
+    const provider = await getAccountProvider(account)
+    provider.requireFeature('COMMENTS')
+
+    const created = await provider.createComment(comment.postId, comment.content, comment.parentCommentId)
+    // Kept in the thread it answers, whatever root the platform reports
+    await this.storeComments(userId, [{
+      ...created,
+      postId: comment.postId,
+      metadata: {
+        ...created.metadata,
+        ...comment.metadata,
+        parentCommentId: comment.parentCommentId,
+        mention: false
+      }
+    }], account)
+
+    return this.prisma.crossPlatformComment.findUniqueOrThrow({
+      where: {
+        userId_platform_commentId: { userId, platform: created.platform, commentId: created.commentId }
+      }
+    })
+  }
+
+  // Classifies new comments a batch per request. Comments stay without a
+  // sentiment when the model gives none.
+  private async classifySentiments(comments: CrossPlatformCommentRecord[]): Promise<void> {
+    for (let start = 0; start < comments.length; start += this.SENTIMENT_BATCH_SIZE) {
+      const batch = comments.slice(start, start + this.SENTIMENT_BATCH_SIZE)
+      const sentiments = await ai.classifySentiments(batch.map((comment) => comment.content))
+
+      for (const [index, comment] of batch.entries()) {
+        const sentiment = SENTIMENTS[sentiments[index] || '']
+        if (!sentiment) continue
+        await this.prisma.crossPlatformComment.update({
+          where: { id: comment.id },
+          data: { sentiment }
+        })
+      }
+    }
   }
 
   async syncReactions(
@@ -151,7 +967,8 @@ export class CrossPlatformService {
     postId: string,
     platform: SocialPlatform
   ): Promise<void> {
-    const provider = this.socialService.getProvider(platform)
+    const provider = await getAccountProvider(await this.getPostAccount(userId, platform, postId))
+    provider.requireFeature('LIKES')
     const post = await provider.getPost(postId)
 
     // Store reactions in the database
@@ -187,8 +1004,8 @@ export class CrossPlatformService {
   async getAggregatedComments(
     userId: string,
     postId: string
-  ): Promise<SocialMediaComment[]> {
-    const cacheKey = `comments:${postId}`
+  ): Promise<CrossPlatformCommentRecord[]> {
+    const cacheKey = `comments:${userId}:${postId}`
     const cachedComments = await this.redis.get(cacheKey)
     if (cachedComments) {
       return JSON.parse(cachedComments)
@@ -197,6 +1014,7 @@ export class CrossPlatformService {
     // Get comments from all platforms
     const comments = await this.prisma.crossPlatformComment.findMany({
       where: {
+        userId,
         postId
       },
       orderBy: {
@@ -249,50 +1067,177 @@ export class CrossPlatformService {
   async schedulePost(
     userId: string,
     post: CrossPlatformPost
-  ): Promise<void> {
-    if (!post.scheduledAt) {
+  ): Promise<ScheduledPost> {
+    if (!post.scheduledAt && !post.autoSchedule) {
       throw new Error('Scheduled time is required')
     }
+    this.validatePost(post)
 
-    // Store the scheduled post
-    await this.prisma.scheduledPost.create({
-      data: {
-        userId,
-        content: post.content,
-        mediaUrls: post.mediaUrls || [],
-        platforms: post.platforms,
-        scheduledAt: post.scheduledAt,
-        metadata: post.metadata
-      }
+    // Resolve target accounts now so the job publishes as the accounts that
+    // were selected when it was scheduled
+    const { accounts, workspaceId } = await this.resolveTargets(userId, post)
+    const accountIds = accounts.map((account) => account.id)
+    const scheduledAt = post.scheduledAt || await getNextBestSlot(userId, {
+      workspaceId,
+      accountIds
+    })
+
+    const draft = await this.approvals.claimApproval(userId, {
+      draftId: post.draftId,
+      accountIds,
+      contents: this.getPlatformContents(post, accounts.map((account) => account.platform)),
+      queueItemId: post.queueItemId
     })
 
-    // Schedule the post creation
-    // This is a placeholder - implement actual scheduling logic
-    setTimeout(async () => {
-      await this.createCrossPlatformPost(userId, post)
-    }, post.scheduledAt.getTime() - Date.now())
+    // The row is the job: PostScheduler claims and publishes it once it is due
+    let job: ScheduledPost
+    try {
+      job = await this.prisma.scheduledPost.create({
+        data: {
+          userId,
+          workspaceId,
+          content: post.content,
+          mediaUrls: post.mediaUrls || [],
+          variants: post.variants,
+          platforms: post.platforms,
+          accountIds,
+          scheduledAt,
+          nextAttemptAt: scheduledAt,
+          queueItemId: post.queueItemId,
+          metadata: post.metadata
+        }
+      })
+    } catch (error) {
+      if (draft) await this.approvals.releaseApproval(draft.id)
+      throw error
+    }
+
+    if (draft) {
+      await this.approvals.completeApproval(userId, draft, { scheduledPostId: job.id })
+    }
+    return job
   }
 
-  async getScheduledPosts(userId: string): Promise<CrossPlatformPost[]> {
-    return this.prisma.scheduledPost.findMany({
+  // Jobs of the user's personal scope or of a workspace, limited to the
+  // accounts a member may see
+  async getScheduledPosts(userId: string, workspaceId?: string | null): Promise<ScheduledPost[]> {
+    const scope = await getWorkspaceScope(userId, workspaceId)
+    const jobs = await this.prisma.scheduledPost.findMany({
       where: {
-        userId,
-        scheduledAt: {
-          gt: new Date()
+        ...scope.where,
+        status: {
+          in: [ScheduledPostStatus.PENDING, ScheduledPostStatus.CLAIMED]
+        }
+      },
+      include: {
+        publish: {
+          include: { attempts: true }
         }
       },
       orderBy: {
         scheduledAt: 'asc'
       }
     })
+    return jobs.filter((job) => inScope(scope, job.accountIds))
+  }
+
+  async cancelScheduledPost(userId: string, postId: string): Promise<boolean> {
+    if (!(await this.getScheduledPost(userId, postId))) {
+      return false
+    }
+
+    // Releasing the lease makes a worker that already claimed the job stop
+    // before publishing to its next account
+    const { count } = await this.prisma.scheduledPost.updateMany({
+      where: {
+        id: postId,
+        status: {
+          in: [ScheduledPostStatus.PENDING, ScheduledPostStatus.CLAIMED]
+        }
+      },
+      data: {
+        status: ScheduledPostStatus.CANCELLED,
+        cancelledAt: new Date(),
+        lockedBy: null,
+        lockedUntil: null
+      }
+    })
+
+    return count > 0
+  }
+
+  // Edits the content of a job that has not started publishing yet. Returns
+  // false when it was already claimed, published or cancelled.
+  async updateScheduledPost(
+    userId: string,
+    postId: string,
+    changes: Pick<CrossPlatformPost, 'content' | 'mediaUrls' | 'variants' | 'metadata'>
+  ): Promise<boolean> {
+    const job = await this.getScheduledPost(userId, postId)
+    if (!job) {
+      return false
+    }
+    await this.checkEditsAllowed(userId, job.accountIds)
+    this.validatePost({
+      content: changes.content,
+      mediaUrls: changes.mediaUrls ?? job.mediaUrls,
+      variants: changes.variants ?? readVariants(job.variants),
+      platforms: job.platforms as SocialPlatform[]
+    })
+
+    const { count } = await this.prisma.scheduledPost.updateMany({
+      where: {
+        id: postId,
+        status: ScheduledPostStatus.PENDING
+      },
+      data: {
+        content: changes.content,
+        mediaUrls: changes.mediaUrls,
+        variants: changes.variants,
+        metadata: changes.metadata
+      }
+    })
+
+    return count > 0
   }
 
-  async cancelScheduledPost(userId: string, postId: string): Promise<void> {
-    await this.prisma.scheduledPost.delete({
+  // Moves a job that has not started publishing yet. Returns false when it
+  // was already claimed, published or cancelled.
+  async rescheduleScheduledPost(
+    userId: string,
+    postId: string,
+    scheduledAt: Date
+  ): Promise<boolean> {
+    if (scheduledAt.getTime() <= Date.now()) {
+      throw new Error('Scheduled time must be in the future')
+    }
+    if (!(await this.getScheduledPost(userId, postId))) {
+      return false
+    }
+
+    const { count } = await this.prisma.scheduledPost.updateMany({
       where: {
-        id: postId
+        id: postId,
+        status: ScheduledPostStatus.PENDING
+      },
+      data: {
+        scheduledAt,
+        nextAttemptAt: scheduledAt
       }
     })
+
+    return count > 0
+  }
+
+  // A job the user may change, or null when they cannot see it
+  private async getScheduledPost(userId: string, postId: string): Promise<ScheduledPost | null> {
+    const job = await this.prisma.scheduledPost.findUnique({
+      where: { id: postId }
+    })
+    if (!job || !(await checkRecordAccess(userId, job, 'posts:publish', job.accountIds))) {
+      return null
+    }
+    return job
   }
 
   async shutdown(): Promise<void> {
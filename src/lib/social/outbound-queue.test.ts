@@ -0,0 +1,134 @@
+import { OutboundQueue } from './outbound-queue'
+
+const mockPrisma = {
+  rateLimit: {
+    findFirst: jest.fn(),
+    upsert: jest.fn()
+  }
+}
+
+const mockLimiter = {
+  acquire: jest.fn(),
+  release: jest.fn()
+}
+
+jest.mock('@prisma/client', () => ({ PrismaClient: jest.fn(() => mockPrisma) }))
+jest.mock('../rate-limit', () => ({
+  rateLimiters: {
+    get mastodon() {
+      return mockLimiter
+    }
+  }
+}))
+
+const NOW = new Date('2025-01-01T12:00:00Z')
+
+describe('OutboundQueue', () => {
+  const queue = OutboundQueue.getInstance()
+  let scope = 0
+
+  // Lanes live as long as the queue, so every test uses its own account
+  function nextScope(): string {
+    scope++
+    return `account-${scope}`
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    jest.useFakeTimers({ now: NOW })
+    mockPrisma.rateLimit.findFirst.mockResolvedValue(null)
+    mockPrisma.rateLimit.upsert.mockResolvedValue({})
+    mockLimiter.acquire.mockResolvedValue('entry-1')
+    mockLimiter.release.mockResolvedValue(undefined)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('requeues a call while our own budget is spent, without taking a slot for it', async () => {
+    const request = jest.fn().mockResolvedValue('posted')
+    mockLimiter.acquire.mockResolvedValueOnce(null)
+
+    const result = queue.run('MASTODON', nextScope(), request, { priority: 'USER' })
+    await jest.advanceTimersByTimeAsync(0)
+    expect(request).not.toHaveBeenCalled()
+
+    // Retried once the limiter backoff is over
+    await jest.advanceTimersByTimeAsync(1000)
+    await expect(result).resolves.toBe('posted')
+    expect(mockLimiter.acquire).toHaveBeenCalledTimes(2)
+    expect(mockLimiter.release).not.toHaveBeenCalled()
+  })
+
+  it('gives the slot back when the platform rate limits the call, and retries after its delay', async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce({ status: 429, code: 'RATE_LIMIT_EXCEEDED', retryAfter: 30 })
+      .mockResolvedValueOnce('posted')
+    const accountScope = nextScope()
+
+    const result = queue.run('MASTODON', accountScope, request, { priority: 'USER' })
+    await jest.advanceTimersByTimeAsync(0)
+    expect(mockLimiter.release).toHaveBeenCalledWith(`outbound:MASTODON:${accountScope}`, 'entry-1')
+
+    await jest.advanceTimersByTimeAsync(29 * 1000)
+    expect(request).toHaveBeenCalledTimes(1)
+    await jest.advanceTimersByTimeAsync(1000)
+    await expect(result).resolves.toBe('posted')
+  })
+
+  it('rejects a background call it cannot run right away with the delay to retry after', async () => {
+    const request = jest.fn()
+    const accountScope = nextScope()
+    queue.defer('MASTODON', accountScope, NOW.getTime() + 90 * 1000)
+
+    await expect(
+      queue.run('MASTODON', accountScope, request, { priority: 'BACKGROUND' })
+    ).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED', retryAfter: 90 })
+    expect(request).not.toHaveBeenCalled()
+    expect(mockLimiter.acquire).not.toHaveBeenCalled()
+  })
+
+  it('reloads the limits other replicas reported once they may be stale', async () => {
+    const accountScope = nextScope()
+    const request = jest.fn().mockResolvedValue('ok')
+
+    await Promise.all([
+      queue.run('MASTODON', accountScope, request, { priority: 'USER' }),
+      queue.run('MASTODON', accountScope, request, { priority: 'USER' })
+    ])
+    expect(mockPrisma.rateLimit.findFirst).toHaveBeenCalledTimes(1)
+
+    // Another replica spent the account's limit in the meantime
+    jest.setSystemTime(NOW.getTime() + 30 * 1000)
+    mockPrisma.rateLimit.findFirst.mockResolvedValue({ resetAt: new Date(NOW.getTime() + 10 * 60 * 1000) })
+
+    await expect(
+      queue.run('MASTODON', accountScope, request, { priority: 'BACKGROUND' })
+    ).rejects.toMatchObject({ code: 'RATE_LIMIT_EXCEEDED', retryAfter: 570 })
+    expect(mockPrisma.rateLimit.findFirst).toHaveBeenCalledTimes(2)
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  it('records the limit a response reports and holds the lane once it is spent', async () => {
+    const accountScope = nextScope()
+    const resetAt = new Date(NOW.getTime() + 60 * 1000)
+
+    queue.recordRateLimit('MASTODON', accountScope, {
+      endpoint: '/api/v1/statuses',
+      limit: 300,
+      remaining: 0,
+      resetAt
+    })
+
+    expect(mockPrisma.rateLimit.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: { limit: 300, remaining: 0, resetAt }
+      })
+    )
+    await expect(
+      queue.run('MASTODON', accountScope, jest.fn(), { priority: 'BACKGROUND' })
+    ).rejects.toMatchObject({ retryAfter: 60 })
+  })
+})
@@ -0,0 +1,393 @@
+import { Platform, PrismaClient } from '@prisma/client'
+import { rateLimiters, RateLimiter } from '../rate-limit'
+import { SocialPlatform, SocialMediaError } from './types'
+
+// User-initiated work (publishing, replies) always runs before background sync
+export type RequestPriority = 'USER' | 'BACKGROUND'
+
+export interface RateLimitInfo {
+  endpoint: string
+  limit: number
+  remaining: number
+  resetAt: Date
+}
+
+export interface OutboundRequestOptions {
+  priority: RequestPriority
+  maxWait?: number // in milliseconds
+}
+
+export interface OutboundQueueConfig {
+  concurrency: number // requests in flight per platform account
+  userMaxWait: number // in milliseconds
+  backgroundMaxWait: number // in milliseconds
+  limiterBackoff: number // in milliseconds
+  persistInterval: number // in milliseconds, also how often lanes reload persisted limits
+}
+
+const DEFAULT_CONFIG: OutboundQueueConfig = {
+  concurrency: 4,
+  userMaxWait: 60 * 1000,
+  backgroundMaxWait: 0,
+  limiterBackoff: 1000,
+  persistInterval: 30 * 1000
+}
+
+interface QueuedRequest {
+  priority: RequestPriority
+  deadline: number
+  run: () => Promise<any>
+  resolve: (value: any) => void
+  reject: (error: any) => void
+}
+
+interface Lane {
+  platform: SocialPlatform
+  scope: string
+  queue: QueuedRequest[]
+  active: number
+  blockedUntil: number
+  timer: NodeJS.Timeout | null
+  loading: boolean
+  loadedAt: number
+}
+
+// One request counted against our own budget for a platform
+interface BudgetSlot {
+  release: () => void
+}
+
+/**
+ * Every outbound platform call goes through this queue. Calls are grouped in
+ * lanes per platform account; a lane checks the platform's RateLimiter and
+ * the limits the platform last reported before running the next call, and
+ * defers queued calls while the lane is limited. A call that cannot run
+ * within its priority's wait budget is rejected with RATE_LIMIT_EXCEEDED and
+ * a `retryAfter`, so schedulers and sync loops reschedule instead of blocking.
+ */
+export class OutboundQueue {
+  private static instance: OutboundQueue
+  private prisma: PrismaClient
+  private config: OutboundQueueConfig
+  private lanes = new Map<string, Lane>()
+  private lastPersisted = new Map<string, number>()
+
+  private constructor(config: Partial<OutboundQueueConfig> = {}) {
+    this.prisma = new PrismaClient()
+    this.config = { ...DEFAULT_CONFIG, ...config }
+  }
+
+  static getInstance(): OutboundQueue {
+    if (!OutboundQueue.instance) {
+      OutboundQueue.instance = new OutboundQueue()
+    }
+    return OutboundQueue.instance
+  }
+
+  run<T>(
+    platform: SocialPlatform,
+    scope: string,
+    request: () => Promise<T>,
+    options: OutboundRequestOptions
+  ): Promise<T> {
+    const maxWait =
+      options.maxWait ??
+      (options.priority === 'USER' ? this.config.userMaxWait : this.config.backgroundMaxWait)
+    const lane = this.getLane(platform, scope)
+
+    return new Promise<T>((resolve, reject) => {
+      this.enqueue(lane, {
+        priority: options.priority,
+        deadline: Date.now() + maxWait,
+        run: request,
+        resolve,
+        reject
+      })
+      this.pump(lane)
+    })
+  }
+
+  // Called with the rate-limit headers of every platform response
+  recordRateLimit(platform: SocialPlatform, scope: string, info: RateLimitInfo): void {
+    if (info.remaining <= 0) {
+      this.defer(platform, scope, info.resetAt.getTime())
+    }
+
+    const key = `${platform}:${scope}:${info.endpoint}`
+    const lastPersisted = this.lastPersisted.get(key) || 0
+    if (info.remaining > 0 && Date.now() - lastPersisted < this.config.persistInterval) {
+      return
+    }
+    this.lastPersisted.set(key, Date.now())
+
+    this.prisma.rateLimit
+      .upsert({
+        where: {
+          platform_scope_endpoint: {
+            platform: platform as Platform,
+            scope,
+            endpoint: info.endpoint
+          }
+        },
+        update: {
+          limit: info.limit,
+          remaining: info.remaining,
+          resetAt: info.resetAt
+        },
+        create: {
+          platform: platform as Platform,
+          scope,
+          endpoint: info.endpoint,
+          limit: info.limit,
+          remaining: info.remaining,
+          resetAt: info.resetAt
+        }
+      })
+      .catch((error) => {
+        console.error(`Error recording ${platform} rate limit:`, error)
+      })
+  }
+
+  // Holds every queued call of a lane until `until` (epoch milliseconds)
+  defer(platform: SocialPlatform, scope: string, until: number): void {
+    const lane = this.getLane(platform, scope)
+    if (until > lane.blockedUntil) {
+      lane.blockedUntil = until
+    }
+    this.pump(lane)
+  }
+
+  private getLane(platform: SocialPlatform, scope: string): Lane {
+    const key = `${platform}:${scope}`
+    let lane = this.lanes.get(key)
+    if (!lane) {
+      lane = {
+        platform,
+        scope,
+        queue: [],
+        active: 0,
+        blockedUntil: 0,
+        timer: null,
+        loading: false,
+        loadedAt: 0
+      }
+      this.lanes.set(key, lane)
+    }
+    return lane
+  }
+
+  private enqueue(lane: Lane, request: QueuedRequest): void {
+    if (request.priority === 'BACKGROUND') {
+      lane.queue.push(request)
+      return
+    }
+
+    // USER requests go ahead of every queued BACKGROUND request
+    const index = lane.queue.findIndex((queued) => queued.priority === 'BACKGROUND')
+    if (index === -1) {
+      lane.queue.push(request)
+    } else {
+      lane.queue.splice(index, 0, request)
+    }
+  }
+
+  private pump(lane: Lane): void {
+    if (lane.timer) {
+      clearTimeout(lane.timer)
+      lane.timer = null
+    }
+
+    // Nothing runs while the limits other replicas reported are loading
+    if (lane.loading) return
+    const now = Date.now()
+    if (now - lane.loadedAt >= this.config.persistInterval) {
+      lane.loading = true
+      this.loadPersistedLimits(lane).finally(() => {
+        lane.loading = false
+        lane.loadedAt = Date.now()
+        this.pump(lane)
+      })
+      return
+    }
+
+    if (lane.blockedUntil > now) {
+      this.rejectExpired(lane, lane.blockedUntil)
+      if (lane.queue.length > 0) {
+        lane.timer = setTimeout(() => this.pump(lane), lane.blockedUntil - now)
+      }
+      return
+    }
+
+    while (lane.active < this.config.concurrency && lane.queue.length > 0) {
+      const request = lane.queue.shift() as QueuedRequest
+      lane.active++
+      this.execute(lane, request).finally(() => {
+        lane.active--
+        this.pump(lane)
+      })
+    }
+  }
+
+  private async execute(lane: Lane, request: QueuedRequest): Promise<void> {
+    // Another call of the lane was rate limited after this one left the queue
+    if (lane.blockedUntil > Date.now()) {
+      this.requeue(lane, request)
+      return
+    }
+
+    const slot = await this.takeSlot(lane)
+    if (!slot) {
+      // Our own budget for this platform is spent: hold the lane briefly
+      // and put the request back at the front of its priority
+      lane.blockedUntil = Math.max(lane.blockedUntil, Date.now() + this.config.limiterBackoff)
+      this.requeue(lane, request)
+      return
+    }
+
+    try {
+      request.resolve(await request.run())
+    } catch (error) {
+      if (!this.isRateLimitError(error)) {
+        request.reject(error)
+        return
+      }
+
+      // The platform refused the call, so the retry takes the slot instead
+      slot.release()
+      const retryAfter = (error as any)?.retryAfter || 60
+      lane.blockedUntil = Math.max(lane.blockedUntil, Date.now() + retryAfter * 1000)
+      this.requeue(lane, request, error)
+    }
+  }
+
+  private requeue(lane: Lane, request: QueuedRequest, error?: any): void {
+    if (request.deadline < lane.blockedUntil) {
+      request.reject(this.createDeferredError(lane, error))
+      return
+    }
+
+    const index =
+      request.priority === 'USER'
+        ? 0
+        : lane.queue.findIndex((queued) => queued.priority === 'BACKGROUND')
+    lane.queue.splice(index === -1 ? lane.queue.length : index, 0, request)
+  }
+
+  private rejectExpired(lane: Lane, blockedUntil: number): void {
+    lane.queue = lane.queue.filter((request) => {
+      if (request.deadline >= blockedUntil) return true
+      request.reject(this.createDeferredError(lane))
+      return false
+    })
+  }
+
+  // Limits reported to another replica still apply to this one
+  private async loadPersistedLimits(lane: Lane): Promise<void> {
+    try {
+      const exhausted = await this.prisma.rateLimit.findFirst({
+        where: {
+          platform: lane.platform as Platform,
+          scope: lane.scope,
+          remaining: { lte: 0 },
+          resetAt: { gt: new Date() }
+        },
+        orderBy: { resetAt: 'desc' }
+      })
+      if (exhausted) {
+        lane.blockedUntil = Math.max(lane.blockedUntil, exhausted.resetAt.getTime())
+      }
+    } catch (error) {
+      console.error(`Error loading ${lane.platform} rate limits:`, error)
+    }
+  }
+
+  // Null when our own budget for the platform is spent
+  private async takeSlot(lane: Lane): Promise<BudgetSlot | null> {
+    const unlimited: BudgetSlot = { release: () => undefined }
+    const limiter = (rateLimiters as Record<string, RateLimiter>)[lane.platform.toLowerCase()]
+    if (!limiter) return unlimited
+
+    const key = `outbound:${lane.platform}:${lane.scope}`
+    try {
+      const entry = await limiter.acquire(key)
+      if (entry === null) return null
+
+      return {
+        release: () => {
+          limiter.release(key, entry).catch((error) => {
+            console.error(`Error releasing ${lane.platform} rate limiter slot:`, error)
+          })
+        }
+      }
+    } catch (error) {
+      // Fall back to the platform's own limits when Redis is unavailable
+      console.error(`Error checking ${lane.platform} rate limiter:`, error)
+      return unlimited
+    }
+  }
+
+  private isRateLimitError(error: any): boolean {
+    return error?.status === 429 || error?.code === 'RATE_LIMIT_EXCEEDED'
+  }
+
+  private createDeferredError(lane: Lane, error?: any): SocialMediaError {
+    return {
+      platform: lane.platform,
+      name: 'SocialMediaError',
+      message: error?.message || `${lane.platform} rate limit reached, request deferred`,
+      code: 'RATE_LIMIT_EXCEEDED',
+      status: 429,
+      retryAfter: Math.max(1, Math.ceil((lane.blockedUntil - Date.now()) / 1000)),
+      details: error?.details
+    }
+  }
+}
+
+function readHeader(headers: Record<string, any>, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = headers[name]
+    if (value !== undefined && value !== null && value !== '') {
+      return String(value)
+    }
+  }
+  return undefined
+}
+
+// Understands the X-RateLimit-*, X-Rate-Limit-* and RateLimit-* header
+// families. Reset values may be an ISO date, epoch seconds or delta seconds.
+export function parseRateLimitHeaders(
+  endpoint: string,
+  headers?: Record<string, any>
+): RateLimitInfo | null {
+  if (!headers) return null
+
+  const limit = readHeader(headers, ['x-ratelimit-limit', 'x-rate-limit-limit', 'ratelimit-limit'])
+  const remaining = readHeader(headers, [
+    'x-ratelimit-remaining',
+    'x-rate-limit-remaining',
+    'ratelimit-remaining'
+  ])
+  const reset = readHeader(headers, ['x-ratelimit-reset', 'x-rate-limit-reset', 'ratelimit-reset'])
+  if (limit === undefined || remaining === undefined || reset === undefined) {
+    return null
+  }
+
+  let resetAt: Date
+  const resetNumber = Number(reset)
+  if (Number.isFinite(resetNumber)) {
+    resetAt = new Date(resetNumber > 1e9 ? resetNumber * 1000 : Date.now() + resetNumber * 1000)
+  } else {
+    resetAt = new Date(reset)
+  }
+  if (Number.isNaN(resetAt.getTime())) {
+    return null
+  }
+
+  return {
+    // Collapse ids so one row is kept per endpoint rather than per resource
+    endpoint: endpoint.split('?')[0].replace(/\/(\d+|[\w-]{16,})(?=\/|$)/g, '/:id'),
+    limit: parseInt(limit, 10),
+    remaining: parseInt(remaining, 10),
+    resetAt
+  }
+}
@@ -0,0 +1,106 @@
+import { PostQueueService } from './post-queues'
+
+const mockPrisma = {
+  postQueue: { findUnique: jest.fn() },
+  postQueueItem: { update: jest.fn() },
+  scheduledPost: { findMany: jest.fn() },
+  account: { findMany: jest.fn() }
+}
+
+const mockService = { schedulePost: jest.fn() }
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => mockPrisma),
+  PostQueueStatus: { ACTIVE: 'ACTIVE', PAUSED: 'PAUSED' },
+  ScheduledPostStatus: { PENDING: 'PENDING', CANCELLED: 'CANCELLED' }
+}))
+jest.mock('../db', () => ({ prisma: {} }))
+jest.mock('../platforms', () => ({}))
+jest.mock('../workspaces/access', () => ({}))
+jest.mock('../platforms/posting-times', () => ({
+  ...jest.requireActual('../platforms/posting-times'),
+  getUserTimezone: async () => 'UTC'
+}))
+jest.mock('./cross-platform-service', () => ({
+  CrossPlatformService: { getInstance: () => mockService }
+}))
+
+const NOW = new Date('2025-01-01T08:00:00Z')
+
+const item = {
+  id: 'item-1',
+  queueId: 'queue-1',
+  content: 'Evergreen',
+  mediaUrls: [],
+  variations: { BLUESKY: ['Evergreen, on the sky'] },
+  recurrence: 'FREQ=DAILY;BYHOUR=9;BYMINUTE=0',
+  accountIds: ['acc-1', 'acc-2'],
+  draftId: 'draft-1',
+  startsAt: new Date('2024-12-01T09:00:00Z'),
+  nextRunAt: null,
+  timesScheduled: 1,
+  lastScheduledAt: null,
+  createdAt: new Date('2024-12-01T00:00:00Z')
+}
+
+describe('PostQueueService.fillQueue', () => {
+  const service = PostQueueService.getInstance()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now: NOW })
+    mockPrisma.postQueue.findUnique.mockResolvedValue({
+      id: 'queue-1',
+      userId: 'user-1',
+      workspaceId: null,
+      status: 'ACTIVE',
+      minRepeatDays: 0,
+      slots: [],
+      items: [item]
+    })
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([])
+    mockPrisma.account.findMany.mockResolvedValue([
+      { id: 'acc-1', platform: 'MASTODON' },
+      { id: 'acc-2', platform: 'BLUESKY' }
+    ])
+    mockPrisma.postQueueItem.update.mockImplementation(async ({ data }) => ({ ...item, ...data }))
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('schedules an occurrence on every platform as one job, with each platform\'s turn of the text', async () => {
+    mockService.schedulePost.mockResolvedValue({ id: 'job-1' })
+
+    await service.fillQueue('queue-1', async () => true)
+
+    expect(mockService.schedulePost.mock.calls[0]).toEqual([
+      'user-1',
+      expect.objectContaining({
+        content: 'Evergreen',
+        variants: [
+          { platform: 'MASTODON', content: 'Evergreen' },
+          { platform: 'BLUESKY', content: 'Evergreen, on the sky' }
+        ],
+        platforms: ['MASTODON', 'BLUESKY'],
+        accountIds: ['acc-1', 'acc-2'],
+        scheduledAt: new Date('2025-01-01T09:00:00Z'),
+        draftId: 'draft-1',
+        queueItemId: 'item-1'
+      })
+    ])
+  })
+
+  it('keeps the error on the item when an occurrence cannot be scheduled', async () => {
+    mockService.schedulePost.mockRejectedValue(new Error('Approval required'))
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    await expect(service.fillQueue('queue-1', async () => true)).resolves.toBe(0)
+
+    expect(mockPrisma.postQueueItem.update).toHaveBeenCalledWith({
+      where: { id: 'item-1' },
+      data: { lastError: 'Approval required' }
+    })
+  })
+})
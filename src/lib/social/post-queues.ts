@@ -0,0 +1,605 @@
+import {
+  Account,
+  Prisma,
+  PostQueue,
+  PostQueueItem,
+  PostQueueSlot,
+  PostQueueStatus,
+  PrismaClient,
+  ScheduledPost,
+  ScheduledPostStatus
+} from '@prisma/client'
+import { mediaTypeFromUrl, validateVariant } from '../platforms/content-rules'
+import { getLocalHours, getUserTimezone } from '../platforms/posting-times'
+import {
+  WorkspacePermission,
+  checkRecordAccess,
+  getAccessibleAccounts,
+  getWorkspaceScope,
+  requireWorkspacePermission
+} from '../workspaces/access'
+import { SocialPlatform } from './types'
+import { CrossPlatformService } from './cross-platform-service'
+import { getNextOccurrence, parseRecurrenceRule } from './recurrence'
+
+// Alternative texts per platform, posted in turn with the item's own content
+export type PostVariations = Partial<Record<SocialPlatform, string[]>>
+
+export interface PostQueueInput {
+  name: string
+  minRepeatDays?: number
+  workspaceId?: string | null // the user's personal queue when not set
+}
+
+export interface PostQueueSlotInput {
+  accountId: string
+  weekday: number
+  hour: number
+  minute?: number
+}
+
+export interface PostQueueItemInput {
+  content: string
+  mediaUrls?: string[]
+  variations?: PostVariations
+  recurrence?: string | null // RRULE; the item then posts on its own schedule
+  accountIds?: string[] // required for recurring items
+  // The approved draft, for accounts with an approval chain. It covers every
+  // occurrence whose text and media match it.
+  draftId?: string | null
+  startsAt?: Date
+}
+
+export type PostQueueDetails = PostQueue & {
+  slots: PostQueueSlot[]
+  items: PostQueueItem[]
+}
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+// Slots and recurrences this far ahead have their post scheduled, so they
+// show on the calendar and can still be edited before they go out
+const FILL_AHEAD = 2 * DAY
+
+const QUEUE_DETAILS = {
+  slots: { orderBy: [{ weekday: 'asc' as const }, { hour: 'asc' as const }, { minute: 'asc' as const }] },
+  items: { orderBy: { createdAt: 'asc' as const } }
+}
+
+/**
+ * Evergreen post queues. The queue itself never publishes: it keeps the next
+ * couple of days of its slots and recurring items filled with `ScheduledPost`
+ * jobs, which PostScheduler publishes like any other scheduled post.
+ */
+export class PostQueueService {
+  private static instance: PostQueueService
+  private prisma: PrismaClient
+  private crossPlatformService: CrossPlatformService
+
+  private constructor() {
+    this.prisma = new PrismaClient()
+    this.crossPlatformService = CrossPlatformService.getInstance()
+  }
+
+  static getInstance(): PostQueueService {
+    if (!PostQueueService.instance) {
+      PostQueueService.instance = new PostQueueService()
+    }
+    return PostQueueService.instance
+  }
+
+  async getQueues(userId: string, workspaceId?: string | null): Promise<PostQueueDetails[]> {
+    const scope = await getWorkspaceScope(userId, workspaceId)
+    return this.prisma.postQueue.findMany({
+      where: scope.where,
+      include: QUEUE_DETAILS,
+      orderBy: { name: 'asc' }
+    })
+  }
+
+  // Any member may look at a workspace's queues; changing them takes a role
+  // that may publish
+  async getQueue(
+    userId: string,
+    queueId: string,
+    permission: WorkspacePermission = 'content:view'
+  ): Promise<PostQueueDetails> {
+    const queue = await this.prisma.postQueue.findUnique({
+      where: { id: queueId },
+      include: QUEUE_DETAILS
+    })
+    if (!queue || !(await checkRecordAccess(userId, queue, permission))) {
+      throw new Error(`Post queue ${queueId} not found`)
+    }
+    return queue
+  }
+
+  // Posts the queue has scheduled that have not gone out yet
+  async getUpcomingPosts(userId: string, queueId: string): Promise<ScheduledPost[]> {
+    const queue = await this.getQueue(userId, queueId)
+    return this.prisma.scheduledPost.findMany({
+      where: {
+        queueItem: { queueId: queue.id },
+        status: { in: [ScheduledPostStatus.PENDING, ScheduledPostStatus.CLAIMED] }
+      },
+      orderBy: { scheduledAt: 'asc' }
+    })
+  }
+
+  async createQueue(userId: string, input: PostQueueInput): Promise<PostQueueDetails> {
+    this.validateRepeatGap(input.minRepeatDays)
+    if (input.workspaceId) {
+      await requireWorkspacePermission(userId, input.workspaceId, 'posts:publish')
+    }
+    try {
+      return await this.prisma.postQueue.create({
+        data: { userId, ...input },
+        include: QUEUE_DETAILS
+      })
+    } catch (error) {
+      throw this.isUniqueViolation(error)
+        ? new Error(`A queue named "${input.name}" already exists`)
+        : error
+    }
+  }
+
+  async updateQueue(
+    userId: string,
+    queueId: string,
+    changes: Partial<Omit<PostQueueInput, 'workspaceId'>>
+  ): Promise<PostQueueDetails> {
+    const queue = await this.getQueue(userId, queueId, 'posts:publish')
+    this.validateRepeatGap(changes.minRepeatDays)
+    try {
+      return await this.prisma.postQueue.update({
+        where: { id: queue.id },
+        data: { ...changes, nextFillAt: new Date() },
+        include: QUEUE_DETAILS
+      })
+    } catch (error) {
+      throw this.isUniqueViolation(error)
+        ? new Error(`A queue named "${changes.name}" already exists`)
+        : error
+    }
+  }
+
+  async deleteQueue(userId: string, queueId: string): Promise<boolean> {
+    const queue = await this.getQueue(userId, queueId, 'posts:publish')
+    await this.cancelUpcomingPosts(userId, { queueItem: { queueId: queue.id } })
+    await this.prisma.postQueue.delete({ where: { id: queue.id } })
+    return true
+  }
+
+  // Cancels the queue's posts that have not gone out yet. Resuming plans
+  // them again from the rotation.
+  async pauseQueue(userId: string, queueId: string): Promise<PostQueueDetails> {
+    const queue = await this.getQueue(userId, queueId, 'posts:publish')
+    const { count } = await this.prisma.postQueue.updateMany({
+      where: { id: queue.id, status: PostQueueStatus.ACTIVE },
+      data: { status: PostQueueStatus.PAUSED, pausedAt: new Date() }
+    })
+    if (count > 0) {
+      await this.cancelUpcomingPosts(userId, { queueItem: { queueId: queue.id } })
+    }
+    return this.getQueue(userId, queue.id)
+  }
+
+  async resumeQueue(userId: string, queueId: string): Promise<PostQueueDetails> {
+    const queue = await this.getQueue(userId, queueId, 'posts:publish')
+    await this.prisma.postQueue.updateMany({
+      where: { id: queue.id, status: PostQueueStatus.PAUSED },
+      data: { status: PostQueueStatus.ACTIVE, pausedAt: null, nextFillAt: new Date() }
+    })
+    return this.getQueue(userId, queue.id)
+  }
+
+  async addSlot(userId: string, queueId: string, input: PostQueueSlotInput): Promise<PostQueueSlot> {
+    const queue = await this.getQueue(userId, queueId, 'posts:publish')
+    this.validateSlotTime(input.weekday, input.hour, input.minute || 0)
+    await this.getAccounts(userId, queue, [input.accountId])
+
+    try {
+      const slot = await this.prisma.postQueueSlot.create({
+        data: { queueId: queue.id, ...input }
+      })
+      await this.touchQueue(queue.id)
+      return slot
+    } catch (error) {
+      throw this.isUniqueViolation(error) ? new Error('The queue already has this slot') : error
+    }
+  }
+
+  // Posts already scheduled for the slot stay scheduled
+  async removeSlot(userId: string, slotId: string): Promise<boolean> {
+    const slot = await this.prisma.postQueueSlot.findUnique({
+      where: { id: slotId },
+      include: { queue: true }
+    })
+    if (!slot || !(await checkRecordAccess(userId, slot.queue, 'posts:publish'))) {
+      throw new Error(`Queue slot ${slotId} not found`)
+    }
+    await this.prisma.postQueueSlot.delete({ where: { id: slot.id } })
+    return true
+  }
+
+  async addItem(userId: string, queueId: string, input: PostQueueItemInput): Promise<PostQueueItem> {
+    const queue = await this.getQueue(userId, queueId, 'posts:publish')
+    await this.validateItem(userId, queue, input)
+
+    const item = await this.prisma.postQueueItem.create({
+      data: {
+        queueId: queue.id,
+        content: input.content,
+        mediaUrls: input.mediaUrls || [],
+        variations: input.variations,
+        recurrence: input.recurrence || null,
+        accountIds: input.recurrence ? input.accountIds || [] : [],
+        draftId: input.draftId,
+        startsAt: input.startsAt
+      }
+    })
+    await this.touchQueue(queue.id)
+    return item
+  }
+
+  // Posts the item already has scheduled are cancelled and planned again
+  // with the changes on the queue's next fill
+  async updateItem(
+    userId: string,
+    itemId: string,
+    changes: Partial<PostQueueItemInput> & { active?: boolean }
+  ): Promise<PostQueueItem> {
+    const item = await this.getItem(userId, itemId)
+    const queue = await this.getQueue(userId, item.queueId, 'posts:publish')
+    const recurrence = changes.recurrence !== undefined ? changes.recurrence : item.recurrence
+    await this.validateItem(userId, queue, {
+      content: changes.content ?? item.content,
+      mediaUrls: changes.mediaUrls ?? item.mediaUrls,
+      variations: changes.variations ?? (item.variations as PostVariations | null) ?? undefined,
+      recurrence,
+      accountIds: changes.accountIds ?? item.accountIds
+    })
+
+    await this.cancelUpcomingPosts(userId, { queueItemId: item.id })
+    const updated = await this.prisma.postQueueItem.update({
+      where: { id: item.id },
+      data: {
+        ...changes,
+        recurrence: recurrence || null,
+        accountIds: recurrence ? changes.accountIds ?? item.accountIds : [],
+        nextRunAt: null,
+        lastError: null
+      }
+    })
+    await this.touchQueue(queue.id)
+    return updated
+  }
+
+  async removeItem(userId: string, itemId: string): Promise<boolean> {
+    const item = await this.getItem(userId, itemId)
+    await this.cancelUpcomingPosts(userId, { queueItemId: item.id })
+    await this.prisma.postQueueItem.delete({ where: { id: item.id } })
+    await this.touchQueue(item.queueId)
+    return true
+  }
+
+  /**
+   * Schedules posts for the queue's slots and recurring items in the coming
+   * days. Each free slot gets the evergreen item that was scheduled longest
+   * ago, skipping items still within the queue's minimum repeat gap; a slot
+   * stays empty when none is left. `canContinue` is checked before every
+   * post so a queue paused halfway stops filling. Returns how many
+   * occurrences were scheduled.
+   */
+  async fillQueue(queueId: string, canContinue: () => Promise<boolean>): Promise<number> {
+    const queue = await this.prisma.postQueue.findUnique({
+      where: { id: queueId },
+      include: {
+        slots: { include: { account: true } },
+        items: { where: { active: true } }
+      }
+    })
+    if (!queue || queue.status !== PostQueueStatus.ACTIVE) {
+      return 0
+    }
+
+    const timezone = await getUserTimezone(queue.userId)
+    const now = new Date()
+    const until = new Date(now.getTime() + FILL_AHEAD)
+    const items = new Map(queue.items.map((item) => [item.id, item]))
+    let scheduled = 0
+
+    // Any queue post for an account at a slot's time fills the slot, so a
+    // recurring item is not posted twice over
+    const jobs = await this.prisma.scheduledPost.findMany({
+      where: {
+        queueItem: { queueId: queue.id },
+        status: { not: ScheduledPostStatus.CANCELLED },
+        scheduledAt: { gte: now, lte: until }
+      },
+      select: { scheduledAt: true, accountIds: true }
+    })
+    const filled = new Set(
+      jobs.flatMap((job) => job.accountIds.map((accountId) => `${accountId}:${job.scheduledAt.getTime()}`))
+    )
+
+    const gap = queue.minRepeatDays * DAY
+    for (const { slot, start } of this.getSlotOccurrences(queue.slots, now, until, timezone)) {
+      if (filled.has(`${slot.accountId}:${start.getTime()}`)) continue
+
+      const candidates = Array.from(items.values())
+        .filter((item) => !item.recurrence)
+        .filter((item) => !item.lastScheduledAt ||
+          Math.abs(start.getTime() - item.lastScheduledAt.getTime()) >= gap)
+        .sort((a, b) =>
+          (a.lastScheduledAt?.getTime() || 0) - (b.lastScheduledAt?.getTime() || 0) ||
+          a.createdAt.getTime() - b.createdAt.getTime()
+        )
+
+      for (const item of candidates) {
+        if (!(await canContinue())) return scheduled
+        const updated = await this.scheduleItem(queue, item, [slot.account], start)
+        if (updated) {
+          items.set(item.id, updated)
+          filled.add(`${slot.accountId}:${start.getTime()}`)
+          scheduled++
+          break
+        }
+      }
+    }
+
+    for (const item of Array.from(items.values())) {
+      if (!item.recurrence) continue
+      const rule = parseRecurrenceRule(item.recurrence)
+      // Accounts moved out of the queue's workspace are left out
+      const accounts = await this.prisma.account.findMany({
+        where: {
+          id: { in: item.accountIds },
+          ...(queue.workspaceId
+            ? { workspaceId: queue.workspaceId }
+            : { userId: queue.userId, workspaceId: null })
+        }
+      })
+
+      let current = item
+      let next = current.nextRunAt && current.nextRunAt > now
+        ? current.nextRunAt
+        : getNextOccurrence(rule, current.startsAt, now, timezone, current.timesScheduled)
+      while (next && next <= until) {
+        if (!(await canContinue())) return scheduled
+        // An occurrence that cannot be scheduled is skipped, not retried
+        const updated = await this.scheduleItem(queue, current, accounts, next)
+        if (updated) {
+          current = updated
+          scheduled++
+        }
+        next = getNextOccurrence(rule, current.startsAt, next, timezone, current.timesScheduled)
+      }
+
+      await this.prisma.postQueueItem.update({
+        where: { id: current.id },
+        data: { nextRunAt: next }
+      })
+    }
+
+    return scheduled
+  }
+
+  // One job for all of the item's accounts, with each platform's turn of the
+  // variations as its variant, so an occurrence is scheduled whole or not at
+  // all. Returns null and keeps the error on the item when it cannot be
+  // scheduled.
+  private async scheduleItem(
+    queue: PostQueue,
+    item: PostQueueItem,
+    accounts: Account[],
+    at: Date
+  ): Promise<PostQueueItem | null> {
+    try {
+      if (accounts.length === 0) {
+        throw new Error('None of the item\'s accounts are connected any more')
+      }
+      const platforms = Array.from(new Set(accounts.map((account) => account.platform)))
+
+      await this.crossPlatformService.schedulePost(queue.userId, {
+        content: item.content,
+        mediaUrls: item.mediaUrls,
+        variants: platforms.map((platform) => ({
+          platform,
+          content: this.getItemContent(item, platform)
+        })),
+        platforms,
+        accountIds: accounts.map((account) => account.id),
+        workspaceId: queue.workspaceId,
+        scheduledAt: at,
+        draftId: item.draftId ?? undefined,
+        queueItemId: item.id,
+        metadata: { queueId: item.queueId, queueItemId: item.id }
+      })
+
+      return await this.prisma.postQueueItem.update({
+        where: { id: item.id },
+        data: {
+          timesScheduled: { increment: 1 },
+          lastScheduledAt: at,
+          lastError: null
+        }
+      })
+    } catch (error) {
+      console.error(`Error scheduling queue item ${item.id}:`, error)
+      await this.prisma.postQueueItem.update({
+        where: { id: item.id },
+        data: { lastError: (error as Error).message }
+      })
+      return null
+    }
+  }
+
+  // The item's text for the platform in its current turn: the content first,
+  // then each variation for the platform
+  private getItemContent(item: PostQueueItem, platform: SocialPlatform): string {
+    const variations = (item.variations as PostVariations | null)?.[platform] || []
+    const texts = [item.content, ...variations]
+    return texts[item.timesScheduled % texts.length]
+  }
+
+  private getSlotOccurrences<T extends PostQueueSlot>(
+    slots: T[],
+    from: Date,
+    to: Date,
+    timezone: string
+  ): Array<{ slot: T; start: Date }> {
+    if (slots.length === 0) return []
+
+    const occurrences: Array<{ slot: T; start: Date }> = []
+    // Start an hour early so a slot at hh:mm in the first hour is included
+    for (const localHour of getLocalHours(new Date(from.getTime() - HOUR), to, timezone)) {
+      for (const slot of slots) {
+        if (slot.weekday !== localHour.weekday || slot.hour !== localHour.hour) continue
+
+        const start = new Date(localHour.start.getTime() + slot.minute * 60 * 1000)
+        if (start <= from || start > to) continue
+        occurrences.push({ slot, start })
+      }
+    }
+    return occurrences
+  }
+
+  // Cancels jobs that have not started publishing and rolls their items'
+  // rotation back to the posts that did go out or are still going out
+  private async cancelUpcomingPosts(
+    userId: string,
+    where: Prisma.ScheduledPostWhereInput
+  ): Promise<void> {
+    const jobs = await this.prisma.scheduledPost.findMany({
+      where: { ...where, status: ScheduledPostStatus.PENDING },
+      select: { id: true, queueItemId: true }
+    })
+    for (const job of jobs) {
+      await this.crossPlatformService.cancelScheduledPost(userId, job.id)
+    }
+
+    const itemIds = new Set(jobs.map((job) => job.queueItemId).filter((id): id is string => !!id))
+    for (const itemId of Array.from(itemIds)) {
+      // A recurring occurrence posted to several platforms has a job for each
+      const scheduled = await this.prisma.scheduledPost.findMany({
+        where: { queueItemId: itemId, status: { not: ScheduledPostStatus.CANCELLED } },
+        distinct: ['scheduledAt'],
+        select: { scheduledAt: true },
+        orderBy: { scheduledAt: 'desc' }
+      })
+      await this.prisma.postQueueItem.update({
+        where: { id: itemId },
+        data: {
+          timesScheduled: scheduled.length,
+          lastScheduledAt: scheduled[0]?.scheduledAt || null,
+          nextRunAt: null
+        }
+      })
+    }
+  }
+
+  // Has the worker fill the queue on its next poll
+  private async touchQueue(queueId: string): Promise<void> {
+    await this.prisma.postQueue.update({
+      where: { id: queueId },
+      data: { nextFillAt: new Date() }
+    })
+  }
+
+  private async getItem(userId: string, itemId: string): Promise<PostQueueItem> {
+    const item = await this.prisma.postQueueItem.findUnique({
+      where: { id: itemId },
+      include: { queue: true }
+    })
+    if (!item || !(await checkRecordAccess(userId, item.queue, 'posts:publish'))) {
+      throw new Error(`Queue item ${itemId} not found`)
+    }
+    return item
+  }
+
+  // Accounts the queue may post to: ones in its workspace, or the user's
+  // own for a personal queue, that the user may publish with
+  private async getAccounts(userId: string, queue: PostQueue, accountIds: string[]): Promise<Account[]> {
+    const accounts = await getAccessibleAccounts(userId, 'posts:publish', {
+      workspaceId: queue.workspaceId,
+      accountIds
+    })
+    if (accounts.length !== new Set(accountIds).size) {
+      throw new Error('One or more selected accounts were not found')
+    }
+    return accounts
+  }
+
+  // Checks the rule and every text the item can post against the platforms
+  // it goes to: its own accounts' when recurring, else the queue's slots'
+  private async validateItem(
+    userId: string,
+    queue: PostQueueDetails,
+    input: PostQueueItemInput
+  ): Promise<void> {
+    let platforms: SocialPlatform[]
+    if (input.recurrence) {
+      parseRecurrenceRule(input.recurrence)
+      if (!input.accountIds?.length) {
+        throw new Error('Choose the accounts a recurring item posts to')
+      }
+      const accounts = await this.getAccounts(userId, queue, input.accountIds)
+      platforms = accounts.map((account) => account.platform)
+    } else {
+      const accounts = await this.getAccounts(
+        userId,
+        queue,
+        Array.from(new Set(queue.slots.map((slot) => slot.accountId)))
+      )
+      platforms = accounts.map((account) => account.platform)
+    }
+
+    const variations = input.variations || {}
+    for (const platform of Object.keys(variations) as SocialPlatform[]) {
+      if (!Array.isArray(variations[platform])) {
+        throw new Error(`Variations for ${platform} must be a list of texts`)
+      }
+    }
+
+    this.validateContent(Array.from(new Set(platforms)).flatMap((platform) =>
+      [input.content, ...(variations[platform] || [])].map((content) => ({
+        platform,
+        content,
+        mediaUrls: input.mediaUrls || []
+      }))
+    ))
+  }
+
+  private validateContent(
+    variants: Array<{ platform: SocialPlatform; content: string; mediaUrls: string[] }>
+  ): void {
+    const errors = variants.flatMap((variant) =>
+      validateVariant(variant.platform, {
+        content: variant.content,
+        media: variant.mediaUrls.map((url) => ({ type: mediaTypeFromUrl(url), url }))
+      })
+    ).filter((issue) => issue.severity === 'ERROR')
+
+    if (errors.length > 0) {
+      throw new Error(errors.map((issue) => `${issue.platform}: ${issue.message}`).join('; '))
+    }
+  }
+
+  private validateRepeatGap(minRepeatDays?: number): void {
+    if (minRepeatDays !== undefined && (!Number.isInteger(minRepeatDays) || minRepeatDays < 0)) {
+      throw new Error('Minimum repeat gap must be a whole number of days')
+    }
+  }
+
+  private validateSlotTime(weekday: number, hour: number, minute: number): void {
+    if (![weekday, hour, minute].every(Number.isInteger) ||
+      weekday < 0 || weekday > 6 || hour < 0 || hour > 23 || minute < 0 || minute > 59) {
+      throw new Error('Slot time must be a weekday 0-6, an hour 0-23 and a minute 0-59')
+    }
+  }
+
+  private isUniqueViolation(error: any): boolean {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+  }
+}
@@ -0,0 +1,210 @@
+import { PostScheduler } from './post-scheduler'
+
+const mockPrisma = {
+  scheduledPost: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn()
+  }
+}
+
+const mockService = {
+  getPublish: jest.fn(),
+  preparePublish: jest.fn(),
+  publishTargets: jest.fn()
+}
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => mockPrisma),
+  PublishAttemptStatus: {
+    PENDING: 'PENDING',
+    IN_PROGRESS: 'IN_PROGRESS',
+    SUCCEEDED: 'SUCCEEDED',
+    FAILED: 'FAILED'
+  },
+  ScheduledPostStatus: {
+    PENDING: 'PENDING',
+    CLAIMED: 'CLAIMED',
+    PUBLISHED: 'PUBLISHED',
+    PARTIALLY_PUBLISHED: 'PARTIALLY_PUBLISHED',
+    FAILED: 'FAILED',
+    CANCELLED: 'CANCELLED'
+  }
+}))
+
+jest.mock('./cross-platform-service', () => ({
+  CrossPlatformService: { getInstance: () => mockService }
+}))
+
+const NOW = new Date('2025-01-01T12:00:00Z')
+
+function job(overrides: Record<string, any> = {}) {
+  return {
+    id: 'job-1',
+    userId: 'user-1',
+    content: 'Hello',
+    mediaUrls: [],
+    platforms: ['MASTODON', 'BLUESKY'],
+    accountIds: ['acc-1', 'acc-2'],
+    metadata: null,
+    status: 'CLAIMED',
+    attempts: 1,
+    maxAttempts: 5,
+    publishId: 'publish-1',
+    ...overrides
+  }
+}
+
+function attempt(accountId: string, status: string, errorCode?: string, retryAfter?: number) {
+  return { accountId, platform: accountId === 'acc-1' ? 'MASTODON' : 'BLUESKY', status, errorCode, retryAfter }
+}
+
+// The data of the update that settled the job, if any
+function settlement() {
+  return mockPrisma.scheduledPost.updateMany.mock.calls
+    .map(([args]) => args)
+    .find((args) => 'lockedBy' in args.data && args.data.lockedBy === null)
+}
+
+describe('PostScheduler', () => {
+  const scheduler = PostScheduler.getInstance()
+
+  beforeEach(() => {
+    jest.resetAllMocks()
+    jest.useFakeTimers({ now: NOW })
+    mockPrisma.scheduledPost.findMany.mockResolvedValue([{ id: 'job-1' }])
+    mockPrisma.scheduledPost.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('publishes each pending target of a claimed job and marks it published', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(job())
+    mockService.getPublish.mockResolvedValue({
+      attempts: [attempt('acc-1', 'SUCCEEDED'), attempt('acc-2', 'PENDING')]
+    })
+    mockService.publishTargets.mockResolvedValue({
+      attempts: [attempt('acc-1', 'SUCCEEDED'), attempt('acc-2', 'SUCCEEDED')]
+    })
+
+    await expect(scheduler.tick()).resolves.toBe(1)
+
+    // Only the target that had not succeeded yet is sent
+    expect(mockService.publishTargets).toHaveBeenCalledTimes(1)
+    expect(mockService.publishTargets).toHaveBeenCalledWith('user-1', 'publish-1', ['acc-2'])
+    expect(settlement()).toMatchObject({
+      where: { id: 'job-1', status: 'CLAIMED' },
+      data: { status: 'PUBLISHED', lastError: null }
+    })
+  })
+
+  it('does not claim a job another worker moved out of the claimable state', async () => {
+    mockPrisma.scheduledPost.updateMany.mockResolvedValueOnce({ count: 0 })
+
+    await expect(scheduler.tick()).resolves.toBe(0)
+    expect(mockPrisma.scheduledPost.findUnique).not.toHaveBeenCalled()
+    expect(mockService.publishTargets).not.toHaveBeenCalled()
+  })
+
+  it('requeues a failed job with exponential backoff', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(job({ attempts: 3 }))
+    mockService.getPublish.mockResolvedValue({
+      attempts: [attempt('acc-1', 'PENDING'), attempt('acc-2', 'PENDING')]
+    })
+    mockService.publishTargets.mockResolvedValue({
+      attempts: [attempt('acc-1', 'FAILED', 'NETWORK_ERROR'), attempt('acc-2', 'FAILED', 'NETWORK_ERROR')]
+    })
+
+    await scheduler.tick()
+
+    const { data } = settlement()
+    expect(data.status).toBe('PENDING')
+    expect(data.lastError).toBe('MASTODON: NETWORK_ERROR; BLUESKY: NETWORK_ERROR')
+    // 30s doubled for each attempt after the first
+    expect(data.nextAttemptAt).toEqual(new Date(NOW.getTime() + 2 * 60 * 1000))
+  })
+
+  it('waits as long as a rate-limited platform asks before retrying', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(job())
+    mockService.getPublish.mockResolvedValue({
+      attempts: [attempt('acc-1', 'PENDING'), attempt('acc-2', 'PENDING')]
+    })
+    mockService.publishTargets.mockResolvedValue({
+      attempts: [attempt('acc-1', 'SUCCEEDED'), attempt('acc-2', 'FAILED', 'RATE_LIMIT_EXCEEDED', 900)]
+    })
+
+    await scheduler.tick()
+
+    // 900s is longer than the 30s backoff of a first attempt
+    expect(settlement()?.data).toMatchObject({
+      status: 'PENDING',
+      nextAttemptAt: new Date(NOW.getTime() + 900 * 1000)
+    })
+  })
+
+  it('uses the retry delay of a rate-limit error thrown by the publish', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(job())
+    mockService.getPublish.mockRejectedValue({ code: 'RATE_LIMIT_EXCEEDED', message: 'Too many requests', retryAfter: 120 })
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    await scheduler.tick()
+
+    expect(settlement()?.data.nextAttemptAt).toEqual(new Date(NOW.getTime() + 120 * 1000))
+  })
+
+  it('settles a partly published job once it runs out of attempts', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(job({ attempts: 5 }))
+    mockService.getPublish.mockResolvedValue({
+      attempts: [attempt('acc-1', 'SUCCEEDED'), attempt('acc-2', 'FAILED')]
+    })
+    mockService.publishTargets.mockResolvedValue({
+      attempts: [attempt('acc-1', 'SUCCEEDED'), attempt('acc-2', 'FAILED', 'INVALID_REQUEST')]
+    })
+
+    await scheduler.tick()
+
+    expect(settlement()?.data).toMatchObject({
+      status: 'PARTIALLY_PUBLISHED',
+      lastError: 'BLUESKY: INVALID_REQUEST'
+    })
+  })
+
+  it('stops without settling when its lease was taken over', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(job())
+    mockService.getPublish.mockResolvedValue({
+      attempts: [attempt('acc-1', 'PENDING'), attempt('acc-2', 'PENDING')]
+    })
+    // The claim succeeds, the renewal before the first target does not
+    mockPrisma.scheduledPost.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 })
+
+    await scheduler.tick()
+
+    expect(mockService.publishTargets).not.toHaveBeenCalled()
+    expect(settlement()).toBeUndefined()
+  })
+
+  it('prepares the publish of a job that has none yet with an idempotency key', async () => {
+    mockPrisma.scheduledPost.findUnique.mockResolvedValue(job({ publishId: null }))
+    mockService.preparePublish.mockResolvedValue({ id: 'publish-2' })
+    mockService.getPublish.mockResolvedValue({ attempts: [attempt('acc-1', 'PENDING')] })
+    mockService.publishTargets.mockResolvedValue({ attempts: [attempt('acc-1', 'SUCCEEDED')] })
+
+    await scheduler.tick()
+
+    expect(mockService.preparePublish).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ idempotencyKey: 'scheduled-post:job-1' })
+    )
+    expect(mockPrisma.scheduledPost.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: { publishId: 'publish-2' }
+    })
+    expect(mockService.publishTargets).toHaveBeenCalledWith('user-1', 'publish-2', ['acc-1'])
+  })
+})
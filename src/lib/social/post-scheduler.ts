@@ -0,0 +1,258 @@
+import {
+  PrismaClient,
+  PublishAttempt,
+  PublishAttemptStatus,
+  ScheduledPost,
+  ScheduledPostStatus
+} from '@prisma/client'
+import { randomUUID } from 'crypto'
+import { hostname } from 'os'
+import { SocialPlatform } from './types'
+import { CrossPlatformService } from './cross-platform-service'
+import { readVariants } from '../platforms/content-rules'
+
+export interface PostSchedulerConfig {
+  pollInterval: number // in milliseconds
+  batchSize: number
+  leaseDuration: number // in milliseconds
+  retryBaseDelay: number // in milliseconds
+  retryMaxDelay: number // in milliseconds
+}
+
+const DEFAULT_CONFIG: PostSchedulerConfig = {
+  pollInterval: 5000,
+  batchSize: 10,
+  leaseDuration: 2 * 60 * 1000,
+  retryBaseDelay: 30 * 1000,
+  retryMaxDelay: 60 * 60 * 1000
+}
+
+/**
+ * Publishes due `ScheduledPost` rows. Jobs are claimed with a lease stored on
+ * the row itself, so any number of replicas can run the scheduler and a job
+ * whose worker died is picked up again once its lease expires.
+ */
+export class PostScheduler {
+  private static instance: PostScheduler
+  private prisma: PrismaClient
+  private crossPlatformService: CrossPlatformService
+  private config: PostSchedulerConfig
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+  private pollTimer: NodeJS.Timeout | null = null
+  private ticking = false
+  private activeJobs = new Set<Promise<void>>()
+
+  private constructor(config: Partial<PostSchedulerConfig> = {}) {
+    this.prisma = new PrismaClient()
+    this.crossPlatformService = CrossPlatformService.getInstance()
+    this.config = { ...DEFAULT_CONFIG, ...config }
+  }
+
+  static getInstance(): PostScheduler {
+    if (!PostScheduler.instance) {
+      PostScheduler.instance = new PostScheduler()
+    }
+    return PostScheduler.instance
+  }
+
+  start(): void {
+    if (this.pollTimer) return
+
+    this.pollTimer = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error('Post scheduler tick failed:', error)
+      })
+    }, this.config.pollInterval)
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+
+    // Let in-flight jobs finish so their results are recorded
+    await Promise.allSettled(Array.from(this.activeJobs))
+  }
+
+  async tick(): Promise<number> {
+    if (this.ticking) return 0
+    this.ticking = true
+
+    try {
+      const jobs = await this.claimDuePosts()
+      await Promise.all(jobs.map((job) => this.track(this.runJob(job))))
+      return jobs.length
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  private track(job: Promise<void>): Promise<void> {
+    this.activeJobs.add(job)
+    return job.finally(() => {
+      this.activeJobs.delete(job)
+    })
+  }
+
+  private async claimDuePosts(): Promise<ScheduledPost[]> {
+    const now = new Date()
+    const claimable = {
+      OR: [
+        { status: ScheduledPostStatus.PENDING, nextAttemptAt: { lte: now } },
+        { status: ScheduledPostStatus.CLAIMED, lockedUntil: { lt: now } }
+      ]
+    }
+
+    const candidates = await this.prisma.scheduledPost.findMany({
+      where: claimable,
+      select: { id: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: this.config.batchSize
+    })
+
+    const claimed: ScheduledPost[] = []
+    for (const { id } of candidates) {
+      // The conditional update is the actual claim: only one worker can move
+      // a given row out of the claimable state.
+      const { count } = await this.prisma.scheduledPost.updateMany({
+        where: { id, ...claimable },
+        data: {
+          status: ScheduledPostStatus.CLAIMED,
+          lockedBy: this.workerId,
+          lockedUntil: new Date(now.getTime() + this.config.leaseDuration),
+          attempts: { increment: 1 }
+        }
+      })
+
+      if (count === 1) {
+        const job = await this.prisma.scheduledPost.findUnique({ where: { id } })
+        if (job) claimed.push(job)
+      }
+    }
+
+    return claimed
+  }
+
+  private async runJob(job: ScheduledPost): Promise<void> {
+    try {
+      const publishId = job.publishId || (await this.preparePublish(job))
+      const publish = await this.crossPlatformService.getPublish(job.userId, publishId)
+      const pending = publish.attempts
+        .filter((attempt) => attempt.status !== PublishAttemptStatus.SUCCEEDED)
+        .map((attempt) => attempt.accountId)
+
+      let attempts = publish.attempts
+      for (const accountId of pending) {
+        // Stop as soon as the job was cancelled or our lease was taken over
+        if (!(await this.renewLease(job.id))) {
+          return
+        }
+
+        const result = await this.crossPlatformService.publishTargets(
+          job.userId,
+          publishId,
+          [accountId]
+        )
+        attempts = result.attempts
+      }
+
+      await this.completeJob(job, attempts)
+    } catch (error) {
+      console.error(`Error running scheduled post ${job.id}:`, error)
+      await this.releaseJob(job, false, (error as Error).message, (error as any)?.retryAfter)
+    }
+  }
+
+  private async preparePublish(job: ScheduledPost): Promise<string> {
+    const publish = await this.crossPlatformService.preparePublish(job.userId, {
+      content: job.content,
+      mediaUrls: job.mediaUrls,
+      variants: readVariants(job.variants),
+      platforms: job.platforms as SocialPlatform[],
+      accountIds: job.accountIds,
+      workspaceId: job.workspaceId,
+      idempotencyKey: `scheduled-post:${job.id}`,
+      metadata: {
+        ...(job.metadata as Record<string, any> | null),
+        scheduledPostId: job.id
+      }
+    })
+
+    await this.prisma.scheduledPost.update({
+      where: { id: job.id },
+      data: { publishId: publish.id }
+    })
+    return publish.id
+  }
+
+  private async renewLease(id: string): Promise<boolean> {
+    const { count } = await this.prisma.scheduledPost.updateMany({
+      where: { id, status: ScheduledPostStatus.CLAIMED, lockedBy: this.workerId },
+      data: { lockedUntil: new Date(Date.now() + this.config.leaseDuration) }
+    })
+    return count === 1
+  }
+
+  private async completeJob(job: ScheduledPost, attempts: PublishAttempt[]): Promise<void> {
+    const failed = attempts.filter((attempt) => attempt.status !== PublishAttemptStatus.SUCCEEDED)
+    if (failed.length === 0) {
+      await this.finishJob(job.id, {
+        status: ScheduledPostStatus.PUBLISHED,
+        lastError: null,
+        publishedAt: new Date()
+      })
+      return
+    }
+
+    const lastError = failed
+      .map((attempt) => `${attempt.platform}: ${attempt.errorCode || attempt.status}`)
+      .join('; ')
+    // A rate-limited target is not retried before its platform allows it
+    const retryAfter = Math.max(0, ...failed.map((attempt) => attempt.retryAfter || 0))
+    await this.releaseJob(job, failed.length < attempts.length, lastError, retryAfter)
+  }
+
+  private async releaseJob(
+    job: ScheduledPost,
+    partiallyPublished: boolean,
+    lastError: string,
+    retryAfter: number = 0 // in seconds
+  ): Promise<void> {
+    if (job.attempts < job.maxAttempts) {
+      const delay = Math.max(this.getRetryDelay(job.attempts), retryAfter * 1000)
+      await this.finishJob(job.id, {
+        status: ScheduledPostStatus.PENDING,
+        nextAttemptAt: new Date(Date.now() + delay),
+        lastError
+      })
+      return
+    }
+
+    await this.finishJob(job.id, {
+      status: partiallyPublished
+        ? ScheduledPostStatus.PARTIALLY_PUBLISHED
+        : ScheduledPostStatus.FAILED,
+      lastError,
+      publishedAt: partiallyPublished ? new Date() : undefined
+    })
+  }
+
+  private async finishJob(id: string, data: Record<string, any>): Promise<void> {
+    // Only the lease holder may settle the job, so a cancellation that raced
+    // with the last publish is never overwritten.
+    await this.prisma.scheduledPost.updateMany({
+      where: { id, status: ScheduledPostStatus.CLAIMED, lockedBy: this.workerId },
+      data: {
+        ...data,
+        lockedBy: null,
+        lockedUntil: null
+      }
+    })
+  }
+
+  private getRetryDelay(attempts: number): number {
+    const delay = this.config.retryBaseDelay * Math.pow(2, Math.max(0, attempts - 1))
+    return Math.min(delay, this.config.retryMaxDelay)
+  }
+}
@@ -0,0 +1,184 @@
+import { BlueSkyProvider } from './bluesky'
+import { createFakeServer } from './fake-server'
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }))
+jest.mock('../outbound-queue', () => ({
+  OutboundQueue: {
+    getInstance: () => ({
+      run: (_platform: string, _scope: string, request: () => Promise<any>) => request(),
+      recordRateLimit: jest.fn()
+    })
+  },
+  parseRateLimitHeaders: () => null
+}))
+
+const { lookup } = jest.requireMock('dns/promises')
+
+const PDS = 'https://pds.example'
+const XRPC = `${PDS}/xrpc`
+const DID = 'did:plc:ominex'
+
+const server = createFakeServer()
+
+function jwt(expiresAt: Date): string {
+  const payload = Buffer.from(JSON.stringify({ exp: Math.floor(expiresAt.getTime() / 1000) })).toString('base64url')
+  return `header.${payload}.signature`
+}
+
+function postView(uri: string, text: string, reply?: Record<string, any>) {
+  return {
+    uri,
+    cid: `cid-${uri.split('/').pop()}`,
+    author: { did: DID, handle: 'ominex.example' },
+    record: { text, createdAt: '2025-01-01T12:00:00Z', ...(reply && { reply }) },
+    indexedAt: '2025-01-01T12:00:00Z'
+  }
+}
+
+function createProvider() {
+  return new BlueSkyProvider({
+    clientId: '',
+    clientSecret: '',
+    redirectUri: '',
+    scopes: [],
+    instanceUrl: PDS
+  })
+}
+
+describe('BlueSkyProvider', () => {
+  const expiresAt = new Date(Date.now() + 60 * 60 * 1000)
+
+  beforeEach(() => {
+    server.listen()
+    lookup.mockReset()
+    lookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }])
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  it('signs in with an app password on the PDS', async () => {
+    server.routes[`POST ${XRPC}/com.atproto.server.createSession`] = () => ({
+      data: { did: DID, handle: 'ominex.example', accessJwt: jwt(expiresAt), refreshJwt: 'refresh-1' }
+    })
+
+    const auth = await createProvider().createSession('ominex.example', 'app-password')
+
+    expect(auth).toMatchObject({
+      platform: 'BLUESKY',
+      userId: DID,
+      refreshToken: 'refresh-1',
+      tokenExpiresAt: new Date(Math.floor(expiresAt.getTime() / 1000) * 1000),
+      metadata: { handle: 'ominex.example', pdsUrl: PDS }
+    })
+    expect(server.body(server.requests[0])).toEqual({ identifier: 'ominex.example', password: 'app-password' })
+  })
+
+  it('never sends the password to a PDS on a private address', async () => {
+    lookup.mockResolvedValue([{ address: '192.168.0.10', family: 4 }])
+
+    await expect(createProvider().createSession('ominex.example', 'app-password')).rejects.toMatchObject({
+      code: 'INVALID_URL'
+    })
+    expect(server.requests).toHaveLength(0)
+  })
+
+  describe('when signed in', () => {
+    let provider: BlueSkyProvider
+
+    beforeEach(() => {
+      provider = createProvider()
+      provider.setAuth({
+        platform: 'BLUESKY',
+        userId: DID,
+        accessToken: 'access-1',
+        refreshToken: 'refresh-1',
+        tokenExpiresAt: expiresAt
+      } as any)
+      server.routes[`GET ${XRPC}/app.bsky.actor.getProfile`] = () => ({
+        data: { did: DID, handle: 'ominex.example', displayName: 'Ominex', description: 'New bio' }
+      })
+    })
+
+    it('keeps the profile fields it does not edit', async () => {
+      server.routes[`GET ${XRPC}/com.atproto.repo.getRecord`] = () => ({
+        data: { value: { $type: 'app.bsky.actor.profile', displayName: 'Ominex', avatar: { ref: 'blob-1' } }, cid: 'cid-1' }
+      })
+      server.routes[`POST ${XRPC}/com.atproto.repo.putRecord`] = () => ({ data: {} })
+
+      const profile = await provider.updateProfile({ bio: 'New bio' })
+
+      expect(profile).toMatchObject({ userId: DID, bio: 'New bio' })
+      expect(server.body(server.requests[1])).toEqual({
+        repo: DID,
+        collection: 'app.bsky.actor.profile',
+        rkey: 'self',
+        swapRecord: 'cid-1',
+        record: {
+          $type: 'app.bsky.actor.profile',
+          displayName: 'Ominex',
+          description: 'New bio',
+          avatar: { ref: 'blob-1' }
+        }
+      })
+    })
+
+    it('creates the profile record when the account has none yet', async () => {
+      server.routes[`POST ${XRPC}/com.atproto.repo.putRecord`] = () => ({ data: {} })
+
+      await provider.updateProfile({ displayName: 'Ominex' })
+
+      const body = server.body(server.requests[1])
+      expect(body.swapRecord).toBeUndefined()
+      expect(body.record).toEqual({ $type: 'app.bsky.actor.profile', displayName: 'Ominex' })
+    })
+
+    it('replies in the thread of the post it answers, with facets at byte offsets', async () => {
+      const root = { uri: `at://${DID}/app.bsky.feed.post/root`, cid: 'cid-root' }
+      const parentUri = `at://${DID}/app.bsky.feed.post/parent`
+      const createdUri = `at://${DID}/app.bsky.feed.post/created`
+      server.routes[`GET ${XRPC}/app.bsky.feed.getPosts`] = (config) => ({
+        data: {
+          posts: [
+            config.params.uris[0] === parentUri
+              ? postView(parentUri, 'Parent', { root, parent: root })
+              : postView(createdUri, 'Réponse https://ominex.example')
+          ]
+        }
+      })
+      server.routes[`POST ${XRPC}/com.atproto.repo.createRecord`] = () => ({
+        data: { uri: createdUri, cid: 'cid-created' }
+      })
+
+      const post = await provider.createPost({
+        content: 'Réponse https://ominex.example',
+        metadata: { inReplyToId: parentUri }
+      } as any)
+
+      expect(post.postId).toBe(createdUri)
+      const { record } = server.body(server.requests[1])
+      expect(record.reply).toEqual({ root, parent: { uri: parentUri, cid: 'cid-parent' } })
+      // "Réponse " is 9 bytes in UTF-8 but 8 characters
+      expect(record.facets).toEqual([
+        {
+          index: { byteStart: 9, byteEnd: 31 },
+          features: [{ $type: 'app.bsky.richtext.facet#link', uri: 'https://ominex.example' }]
+        }
+      ])
+    })
+
+    it('refreshes an expired session before calling the PDS', async () => {
+      provider.setAuth({ ...provider.getAuth(), tokenExpiresAt: new Date(Date.now() - 1000) } as any)
+      server.routes[`POST ${XRPC}/com.atproto.server.refreshSession`] = () => ({
+        data: { did: DID, handle: 'ominex.example', accessJwt: jwt(expiresAt), refreshJwt: 'refresh-2' }
+      })
+
+      await provider.getProfile(DID)
+
+      expect(server.requests[0].headers.get('Authorization')).toBe('Bearer refresh-1')
+      expect(server.requests[1].headers.get('Authorization')).toBe(`Bearer ${jwt(expiresAt)}`)
+      expect(provider.getAuth()?.refreshToken).toBe('refresh-2')
+    })
+  })
+})
@@ -0,0 +1,785 @@
+import { AxiosInstance, AxiosRequestConfig } from 'axios'
+import { BaseSocialProvider } from '../base-provider'
+import {
+  SocialPlatform,
+  SocialMediaFeature,
+  SocialMediaProfile,
+  SocialMediaPost,
+  SocialMediaPostPage,
+  SocialMediaComment,
+  SocialMediaDirectMessage,
+  SocialMediaStats,
+  SocialMediaAuth,
+  SocialMediaConfig
+} from '../types'
+
+const DEFAULT_PDS_URL = 'https://bsky.social'
+const POST_COLLECTION = 'app.bsky.feed.post'
+const LIKE_COLLECTION = 'app.bsky.feed.like'
+const REPOST_COLLECTION = 'app.bsky.feed.repost'
+const MAX_IMAGES = 4
+// Chat calls go through the PDS, which forwards them to the chat service
+const CHAT_PROXY = 'did:web:api.bsky.chat#bsky_chat'
+
+interface BlueSkySession {
+  did: string
+  handle: string
+  accessJwt: string
+  refreshJwt: string
+}
+
+interface BlueSkyProfile {
+  did: string
+  handle: string
+  displayName?: string
+  description?: string
+  avatar?: string
+  followersCount?: number
+  followsCount?: number
+  postsCount?: number
+}
+
+interface StrongRef {
+  uri: string
+  cid: string
+}
+
+interface BlueSkyPostView extends StrongRef {
+  author: BlueSkyProfile
+  record: {
+    text: string
+    createdAt: string
+    reply?: { root: StrongRef; parent: StrongRef }
+    [key: string]: any
+  }
+  embed?: {
+    $type: string
+    images?: Array<{ fullsize: string; alt: string }>
+    [key: string]: any
+  }
+  replyCount?: number
+  repostCount?: number
+  likeCount?: number
+  quoteCount?: number
+  indexedAt: string
+  viewer?: {
+    like?: string
+    repost?: string
+  }
+}
+
+interface BlueSkyThread {
+  $type: string
+  post?: BlueSkyPostView
+  replies?: BlueSkyThread[]
+}
+
+interface Facet {
+  index: { byteStart: number; byteEnd: number }
+  features: Array<Record<string, string>>
+}
+
+/**
+ * Bluesky connector over the AT Protocol. Accounts sign in with an app
+ * password; all XRPC calls go to the account's PDS (`config.instanceUrl`),
+ * which proxies the app.bsky.* read endpoints to the AppView.
+ */
+export class BlueSkyProvider extends BaseSocialProvider {
+  platform: SocialPlatform = 'BLUESKY'
+  name = 'Bluesky'
+  version = 'v1'
+  baseUrl: string
+  apiUrl: string
+  scopes: string[] = []
+  features: SocialMediaFeature[] = [
+    'AUTH',
+    'PROFILE',
+    'POSTS',
+    'COMMENTS',
+    'LIKES',
+    'FOLLOWERS',
+    'FOLLOWING',
+    'SHARES',
+    'MESSAGES'
+  ]
+
+  private client: AxiosInstance
+
+  constructor(config: SocialMediaConfig) {
+    super(config)
+    this.baseUrl = (config.instanceUrl || DEFAULT_PDS_URL).replace(/\/+$/, '')
+    this.apiUrl = `${this.baseUrl}/xrpc`
+    this.client = this.createClient({
+      baseURL: this.apiUrl,
+      timeout: config.timeout || 30000
+    })
+  }
+
+  // Authentication methods
+  getAuthUrl(): string {
+    throw this.createError({
+      code: 'UNSUPPORTED_FEATURE',
+      message: 'Bluesky accounts connect with an app password, not an OAuth redirect'
+    })
+  }
+
+  async handleAuthCallback(): Promise<SocialMediaAuth> {
+    throw this.createError({
+      code: 'UNSUPPORTED_FEATURE',
+      message: 'Bluesky accounts connect with an app password, not an OAuth redirect'
+    })
+  }
+
+  async createSession(identifier: string, password: string): Promise<SocialMediaAuth> {
+    // The PDS is user-supplied and receives the password
+    await this.validateUrl(this.baseUrl)
+    const session = await this.request<BlueSkySession>(
+      {
+        method: 'POST',
+        url: '/com.atproto.server.createSession',
+        data: { identifier, password }
+      },
+      false
+    )
+    return this.setSession(session)
+  }
+
+  async refreshToken(): Promise<SocialMediaAuth> {
+    if (!this.auth?.refreshToken) {
+      throw this.createError({
+        code: 'NOT_AUTHENTICATED',
+        message: 'Provider is not authenticated'
+      })
+    }
+
+    // Called from handleRequest on auth errors, so it must not retry itself
+    try {
+      const response = await this.client.post<BlueSkySession>(
+        '/com.atproto.server.refreshSession',
+        undefined,
+        { headers: { Authorization: `Bearer ${this.auth.refreshToken}` } }
+      )
+      return this.setSession(response.data)
+    } catch (error) {
+      throw this.createError(this.toRequestError(error))
+    }
+  }
+
+  async revokeToken(): Promise<void> {
+    if (!this.auth?.refreshToken) return
+
+    await this.request(
+      {
+        method: 'POST',
+        url: '/com.atproto.server.deleteSession',
+        headers: { Authorization: `Bearer ${this.auth.refreshToken}` }
+      },
+      false
+    )
+    this.auth = null
+  }
+
+  // Profile methods
+  async getProfile(userId: string): Promise<SocialMediaProfile> {
+    const profile = await this.request<BlueSkyProfile>({
+      url: '/app.bsky.actor.getProfile',
+      params: { actor: userId }
+    })
+    return this.toProfile(profile)
+  }
+
+  async updateProfile(profile: Partial<SocialMediaProfile>): Promise<SocialMediaProfile> {
+    const repo = this.getDid()
+
+    // putRecord replaces the whole record, so keep fields we do not edit
+    const existing: { value: Record<string, any>; cid?: string } = await this.request({
+      url: '/com.atproto.repo.getRecord',
+      params: { repo, collection: 'app.bsky.actor.profile', rkey: 'self' }
+    }).catch(() => ({ value: {}, cid: undefined }))
+
+    await this.request({
+      method: 'POST',
+      url: '/com.atproto.repo.putRecord',
+      data: {
+        repo,
+        collection: 'app.bsky.actor.profile',
+        rkey: 'self',
+        swapRecord: existing.cid,
+        record: {
+          ...existing.value,
+          $type: 'app.bsky.actor.profile',
+          displayName: profile.displayName ?? existing.value.displayName,
+          description: profile.bio ?? existing.value.description
+        }
+      }
+    })
+
+    return this.getProfile(repo)
+  }
+
+  async getFollowers(userId: string, limit: number = 50): Promise<SocialMediaProfile[]> {
+    const response = await this.request<{ followers: BlueSkyProfile[] }>({
+      url: '/app.bsky.graph.getFollowers',
+      params: { actor: userId, limit }
+    })
+    return response.followers.map((profile) => this.toProfile(profile))
+  }
+
+  async getFollowing(userId: string, limit: number = 50): Promise<SocialMediaProfile[]> {
+    const response = await this.request<{ follows: BlueSkyProfile[] }>({
+      url: '/app.bsky.graph.getFollows',
+      params: { actor: userId, limit }
+    })
+    return response.follows.map((profile) => this.toProfile(profile))
+  }
+
+  // Post methods
+  async createPost(
+    post: Omit<SocialMediaPost, 'platform' | 'postId' | 'userId'>
+  ): Promise<SocialMediaPost> {
+    // Thread parts reply to the previous part, keeping the thread's root
+    let reply: { root: StrongRef; parent: StrongRef } | undefined
+    if (post.metadata?.inReplyToId) {
+      const parent = await this.getPostView(post.metadata.inReplyToId)
+      reply = {
+        root: parent.record.reply?.root || { uri: parent.uri, cid: parent.cid },
+        parent: { uri: parent.uri, cid: parent.cid }
+      }
+    }
+
+    const ref = await this.createPostRecord(post.content, {
+      mediaUrls: post.mediaUrls,
+      altTexts: post.metadata?.mediaDescriptions,
+      reply,
+      langs: post.metadata?.language ? [post.metadata.language] : undefined
+    })
+    return this.getPost(ref.uri)
+  }
+
+  async getPost(postId: string): Promise<SocialMediaPost> {
+    return this.toPost(await this.getPostView(postId))
+  }
+
+  async updatePost(): Promise<SocialMediaPost> {
+    throw this.createError({
+      code: 'UNSUPPORTED_FEATURE',
+      message: 'Bluesky posts cannot be edited'
+    })
+  }
+
+  async deletePost(postId: string): Promise<void> {
+    await this.deleteRecord(postId)
+  }
+
+  async getPosts(userId: string, limit: number = 50): Promise<SocialMediaPost[]> {
+    const { posts } = await this.getPostsPage(userId, limit)
+    return posts
+  }
+
+  async getPostsPage(userId: string, limit: number = 50, cursor?: string): Promise<SocialMediaPostPage> {
+    const response = await this.request<{ feed: Array<{ post: BlueSkyPostView }>; cursor?: string }>({
+      url: '/app.bsky.feed.getAuthorFeed',
+      params: { actor: userId, limit, filter: 'posts_no_replies', ...(cursor && { cursor }) }
+    })
+
+    return {
+      // The author feed also carries reposts of other accounts' posts
+      posts: response.feed
+        .filter(({ post }) => post.author.did === userId || post.author.handle === userId)
+        .map(({ post }) => this.toPost(post)),
+      nextCursor: response.cursor || null
+    }
+  }
+
+  async likePost(postId: string): Promise<void> {
+    const post = await this.getPostView(postId)
+    if (post.viewer?.like) return
+
+    await this.createRecord(LIKE_COLLECTION, {
+      subject: { uri: post.uri, cid: post.cid },
+      createdAt: new Date().toISOString()
+    })
+  }
+
+  async unlikePost(postId: string): Promise<void> {
+    const post = await this.getPostView(postId)
+    if (post.viewer?.like) {
+      await this.deleteRecord(post.viewer.like)
+    }
+  }
+
+  async sharePost(postId: string, message?: string): Promise<void> {
+    const post = await this.getPostView(postId)
+
+    // A message turns the repost into a quote post
+    if (message) {
+      await this.createPostRecord(message, { quote: { uri: post.uri, cid: post.cid } })
+      return
+    }
+
+    if (post.viewer?.repost) return
+    await this.createRecord(REPOST_COLLECTION, {
+      subject: { uri: post.uri, cid: post.cid },
+      createdAt: new Date().toISOString()
+    })
+  }
+
+  // Comment methods
+  async createComment(
+    postId: string,
+    content: string,
+    parentCommentId?: string
+  ): Promise<SocialMediaComment> {
+    const parent = await this.getPostView(parentCommentId || postId)
+    const root = parent.record.reply?.root || { uri: parent.uri, cid: parent.cid }
+
+    const ref = await this.createPostRecord(content, {
+      reply: { root, parent: { uri: parent.uri, cid: parent.cid } }
+    })
+    return this.toComment(await this.getPostView(ref.uri), root.uri)
+  }
+
+  async getComments(postId: string, limit?: number): Promise<SocialMediaComment[]> {
+    const response = await this.request<{ thread: BlueSkyThread }>({
+      url: '/app.bsky.feed.getPostThread',
+      params: { uri: postId, depth: 10 }
+    })
+
+    // Flatten the reply tree; parentCommentId keeps the threading
+    const comments: SocialMediaComment[] = []
+    const visit = (thread: BlueSkyThread) => {
+      for (const reply of thread.replies || []) {
+        if (!reply.post) continue
+        comments.push(this.toComment(reply.post, postId))
+        visit(reply)
+      }
+    }
+    visit(response.thread)
+
+    return limit ? comments.slice(0, limit) : comments
+  }
+
+  async getMentions(limit: number = 50): Promise<SocialMediaComment[]> {
+    // Notifications carry the post's record and author but no counts
+    const response = await this.request<{
+      notifications: Array<BlueSkyPostView & { reason: string }>
+    }>({
+      url: '/app.bsky.notification.listNotifications',
+      params: { limit }
+    })
+
+    return response.notifications
+      .filter((notification) => ['mention', 'reply', 'quote'].includes(notification.reason))
+      .map((notification) => {
+        // Replies belong to the thread they were made in
+        const isReply = notification.reason === 'reply' && !!notification.record.reply
+        const postId = isReply ? (notification.record.reply as { root: StrongRef }).root.uri : notification.uri
+        const comment = this.toComment(notification, postId)
+        return { ...comment, metadata: { ...comment.metadata, mention: !isReply } }
+      })
+  }
+
+  async deleteComment(commentId: string): Promise<void> {
+    await this.deleteRecord(commentId)
+  }
+
+  async likeComment(commentId: string): Promise<void> {
+    await this.likePost(commentId)
+  }
+
+  async unlikeComment(commentId: string): Promise<void> {
+    await this.unlikePost(commentId)
+  }
+
+  // Message methods
+  async sendDirectMessage(message: SocialMediaDirectMessage): Promise<string> {
+    if (message.mediaUrls?.length) {
+      throw this.createError({
+        code: 'UNSUPPORTED_FEATURE',
+        message: 'Bluesky chat messages cannot carry media'
+      })
+    }
+
+    const headers = { 'atproto-proxy': CHAT_PROXY }
+    const { convo } = await this.request<{ convo: { id: string } }>({
+      url: '/chat.bsky.convo.getConvoForMembers',
+      params: { members: message.recipientId },
+      headers
+    })
+    const sent = await this.request<{ id: string }>({
+      method: 'POST',
+      url: '/chat.bsky.convo.sendMessage',
+      data: {
+        convoId: convo.id,
+        message: { text: message.content }
+      },
+      headers
+    })
+    return sent.id
+  }
+
+  // Stats methods
+  async getStats(userId: string): Promise<SocialMediaStats> {
+    const [profile, posts] = await Promise.all([
+      this.request<BlueSkyProfile>({
+        url: '/app.bsky.actor.getProfile',
+        params: { actor: userId }
+      }),
+      this.getPosts(userId, 50)
+    ])
+
+    const count = posts.length || 1
+    const totals = posts.reduce(
+      (sum, post) => ({
+        likes: sum.likes + (post.likesCount || 0),
+        comments: sum.comments + (post.commentsCount || 0),
+        shares: sum.shares + (post.sharesCount || 0)
+      }),
+      { likes: 0, comments: 0, shares: 0 }
+    )
+
+    const hashtags = new Map<string, number>()
+    for (const post of posts) {
+      for (const tag of post.metadata?.hashtags || []) {
+        hashtags.set(tag, (hashtags.get(tag) || 0) + 1)
+      }
+    }
+
+    return {
+      platform: this.platform,
+      userId: profile.did,
+      followersCount: profile.followersCount || 0,
+      followingCount: profile.followsCount || 0,
+      postsCount: profile.postsCount || 0,
+      engagementRate:
+        (totals.likes + totals.comments + totals.shares) /
+        count /
+        (profile.followersCount || 1),
+      averageLikes: totals.likes / count,
+      averageComments: totals.comments / count,
+      averageShares: totals.shares / count,
+      topHashtags: Array.from(hashtags.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10)
+        .map(([tag]) => tag),
+      topTopics: [],
+      lastUpdated: new Date()
+    }
+  }
+
+  async getEngagementMetrics(postId: string): Promise<{
+    likes: number
+    comments: number
+    shares: number
+    views: number
+    engagementRate: number
+  }> {
+    const post = await this.getPostView(postId)
+    const profile = await this.request<BlueSkyProfile>({
+      url: '/app.bsky.actor.getProfile',
+      params: { actor: post.author.did }
+    })
+
+    const likes = post.likeCount || 0
+    const comments = post.replyCount || 0
+    const shares = (post.repostCount || 0) + (post.quoteCount || 0)
+
+    // Bluesky does not report views, so engagement is relative to followers
+    return {
+      likes,
+      comments,
+      shares,
+      views: 0,
+      engagementRate: (likes + comments + shares) / (profile.followersCount || 1)
+    }
+  }
+
+  protected isAuthError(error: any): boolean {
+    // Expired access tokens come back as 400 ExpiredToken rather than 401
+    return super.isAuthError(error) || error?.details?.error === 'ExpiredToken'
+  }
+
+  // AT Protocol helpers
+  private async createPostRecord(
+    text: string,
+    options: {
+      mediaUrls?: string[]
+      altTexts?: string[]
+      reply?: { root: StrongRef; parent: StrongRef }
+      quote?: StrongRef
+      langs?: string[]
+    } = {}
+  ): Promise<StrongRef> {
+    const images = options.mediaUrls?.length
+      ? await this.uploadImages(options.mediaUrls, options.altTexts)
+      : []
+
+    let embed: Record<string, any> | undefined
+    if (images.length > 0 && options.quote) {
+      embed = {
+        $type: 'app.bsky.embed.recordWithMedia',
+        record: { $type: 'app.bsky.embed.record', record: options.quote },
+        media: { $type: 'app.bsky.embed.images', images }
+      }
+    } else if (images.length > 0) {
+      embed = { $type: 'app.bsky.embed.images', images }
+    } else if (options.quote) {
+      embed = { $type: 'app.bsky.embed.record', record: options.quote }
+    }
+
+    return this.createRecord(POST_COLLECTION, {
+      text,
+      facets: await this.detectFacets(text),
+      createdAt: new Date().toISOString(),
+      ...(options.reply && { reply: options.reply }),
+      ...(embed && { embed }),
+      ...(options.langs && { langs: options.langs })
+    })
+  }
+
+  private async createRecord(collection: string, record: Record<string, any>): Promise<StrongRef> {
+    return this.request<StrongRef>({
+      method: 'POST',
+      url: '/com.atproto.repo.createRecord',
+      data: {
+        repo: this.getDid(),
+        collection,
+        record: { $type: collection, ...record }
+      }
+    })
+  }
+
+  private async deleteRecord(uri: string): Promise<void> {
+    const { repo, collection, rkey } = this.parseUri(uri)
+    await this.request({
+      method: 'POST',
+      url: '/com.atproto.repo.deleteRecord',
+      data: { repo, collection, rkey }
+    })
+  }
+
+  private async getPostView(uri: string): Promise<BlueSkyPostView> {
+    const response = await this.request<{ posts: BlueSkyPostView[] }>({
+      url: '/app.bsky.feed.getPosts',
+      params: { uris: [uri] },
+      paramsSerializer: { indexes: null }
+    })
+
+    const [post] = response.posts
+    if (!post) {
+      throw this.createError({
+        code: 'NOT_FOUND',
+        status: 404,
+        message: `Post not found: ${uri}`
+      })
+    }
+    return post
+  }
+
+  private async uploadImages(
+    mediaUrls: string[],
+    altTexts: string[] = []
+  ): Promise<Array<{ alt: string; image: Record<string, any> }>> {
+    const images: Array<{ alt: string; image: Record<string, any> }> = []
+
+    for (const [index, url] of mediaUrls.slice(0, MAX_IMAGES).entries()) {
+      const file = await this.fetchMedia(url)
+      const response = await this.request<{ blob: Record<string, any> }>({
+        method: 'POST',
+        url: '/com.atproto.repo.uploadBlob',
+        data: file.data,
+        headers: { 'Content-Type': file.contentType }
+      })
+      images.push({ alt: altTexts[index] || '', image: response.blob })
+    }
+
+    return images
+  }
+
+  // Rich text facets index into the UTF-8 encoded text, not JS string offsets
+  private async detectFacets(text: string): Promise<Facet[]> {
+    const facets: Facet[] = []
+    const byteIndex = (index: number) => Buffer.byteLength(text.slice(0, index), 'utf8')
+    const addFacet = (start: number, end: number, feature: Record<string, string>) => {
+      facets.push({
+        index: { byteStart: byteIndex(start), byteEnd: byteIndex(end) },
+        features: [feature]
+      })
+    }
+
+    const mentionRegex = /(^|[\s(])(@(([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?))/g
+    for (const match of Array.from(text.matchAll(mentionRegex))) {
+      const start = (match.index || 0) + match[1].length
+      const did = await this.resolveHandle(match[3]).catch(() => null)
+      if (did) {
+        addFacet(start, start + match[2].length, {
+          $type: 'app.bsky.richtext.facet#mention',
+          did
+        })
+      }
+    }
+
+    const linkRegex = /(^|[\s(])(https?:\/\/[^\s]+)/gi
+    for (const match of Array.from(text.matchAll(linkRegex))) {
+      const uri = match[2].replace(/[.,;:!?)]+$/, '')
+      const start = (match.index || 0) + match[1].length
+      addFacet(start, start + uri.length, { $type: 'app.bsky.richtext.facet#link', uri })
+    }
+
+    const tagRegex = /(^|\s)(#([^\s\d#][^\s#]*))/g
+    for (const match of Array.from(text.matchAll(tagRegex))) {
+      const tag = match[3].replace(/[.,;:!?)]+$/, '')
+      if (tag.length === 0 || tag.length > 64) continue
+      const start = (match.index || 0) + match[1].length
+      addFacet(start, start + tag.length + 1, { $type: 'app.bsky.richtext.facet#tag', tag })
+    }
+
+    return facets
+  }
+
+  private async resolveHandle(handle: string): Promise<string> {
+    const response = await this.request<{ did: string }>({
+      url: '/com.atproto.identity.resolveHandle',
+      params: { handle }
+    })
+    return response.did
+  }
+
+  private setSession(session: BlueSkySession): SocialMediaAuth {
+    this.auth = {
+      platform: this.platform,
+      userId: session.did,
+      accessToken: session.accessJwt,
+      refreshToken: session.refreshJwt,
+      tokenExpiresAt: this.getTokenExpiry(session.accessJwt),
+      metadata: {
+        handle: session.handle,
+        pdsUrl: this.baseUrl
+      }
+    }
+    return this.auth
+  }
+
+  private getTokenExpiry(jwt: string): Date | undefined {
+    try {
+      const payload = JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString('utf8'))
+      return payload.exp ? new Date(payload.exp * 1000) : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  private getDid(): string {
+    if (!this.auth) {
+      throw this.createError({
+        code: 'NOT_AUTHENTICATED',
+        message: 'Provider is not authenticated'
+      })
+    }
+    return this.auth.userId
+  }
+
+  // Access JWTs are short-lived, so refresh before the call instead of
+  // waiting for the PDS to reject it
+  private async ensureSession(): Promise<void> {
+    const expiresAt = this.auth?.tokenExpiresAt
+    if (this.auth?.refreshToken && expiresAt && new Date() >= new Date(expiresAt)) {
+      await this.refreshToken()
+    }
+    this.validateAuth()
+  }
+
+  private parseUri(uri: string): { repo: string; collection: string; rkey: string } {
+    const [repo, collection, rkey] = uri.replace(/^at:\/\//, '').split('/')
+    return { repo, collection, rkey }
+  }
+
+  private async request<T = any>(
+    config: AxiosRequestConfig,
+    authenticated: boolean = true
+  ): Promise<T> {
+    if (authenticated) {
+      await this.ensureSession()
+    }
+
+    return this.handleRequest(async () => {
+      try {
+        const response = await this.client.request<T>({
+          ...config,
+          headers: {
+            ...(authenticated && { Authorization: `Bearer ${this.auth?.accessToken}` }),
+            ...config.headers
+          }
+        })
+        return response.data
+      } catch (error) {
+        throw this.toRequestError(error)
+      }
+    })
+  }
+
+  private toProfile(profile: BlueSkyProfile): SocialMediaProfile {
+    return {
+      platform: this.platform,
+      userId: profile.did,
+      username: profile.handle,
+      displayName: profile.displayName || profile.handle,
+      profileUrl: `https://bsky.app/profile/${profile.handle}`,
+      avatarUrl: profile.avatar,
+      bio: profile.description,
+      followersCount: profile.followersCount,
+      followingCount: profile.followsCount,
+      postsCount: profile.postsCount,
+      metadata: {
+        pdsUrl: this.baseUrl
+      }
+    }
+  }
+
+  private toPost(post: BlueSkyPostView): SocialMediaPost {
+    const hashtags = (post.record.facets || [])
+      .flatMap((facet: Facet) => facet.features)
+      .filter((feature: Record<string, string>) => feature.$type === 'app.bsky.richtext.facet#tag')
+      .map((feature: Record<string, string>) => feature.tag)
+
+    return {
+      platform: this.platform,
+      postId: post.uri,
+      userId: post.author.did,
+      content: post.record.text,
+      mediaUrls: post.embed?.images?.map((image) => image.fullsize) || [],
+      createdAt: new Date(post.record.createdAt),
+      likesCount: post.likeCount,
+      commentsCount: post.replyCount,
+      sharesCount: (post.repostCount || 0) + (post.quoteCount || 0),
+      isLiked: !!post.viewer?.like,
+      isReposted: !!post.viewer?.repost,
+      metadata: {
+        cid: post.cid,
+        url: `https://bsky.app/profile/${post.author.handle}/post/${this.parseUri(post.uri).rkey}`,
+        hashtags,
+        reply: post.record.reply
+      }
+    }
+  }
+
+  private toComment(post: BlueSkyPostView, postId: string): SocialMediaComment {
+    const parentUri = post.record.reply?.parent.uri
+    return {
+      platform: this.platform,
+      commentId: post.uri,
+      postId,
+      userId: post.author.did,
+      content: post.record.text,
+      createdAt: new Date(post.record.createdAt),
+      likesCount: post.likeCount,
+      repliesCount: post.replyCount,
+      isLiked: !!post.viewer?.like,
+      metadata: {
+        cid: post.cid,
+        parentCommentId: parentUri && parentUri !== postId ? parentUri : undefined,
+        username: post.author.handle
+      }
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios'
+
+export interface FakeResponse {
+  status?: number
+  data?: any
+  headers?: Record<string, string>
+}
+
+export type FakeRoute = (config: InternalAxiosRequestConfig) => FakeResponse
+
+/**
+ * A fake platform server for connector tests. It replaces the axios adapter,
+ * so connectors run their real request code against `routes`, keyed by method
+ * and absolute URL (`GET https://host/path`). Unknown routes answer 404, and
+ * every request that reaches the server is recorded in `requests`.
+ */
+export function createFakeServer() {
+  const server = {
+    routes: {} as Record<string, FakeRoute>,
+    requests: [] as InternalAxiosRequestConfig[],
+
+    listen() {
+      server.routes = {}
+      server.requests = []
+      axios.defaults.adapter = adapter
+    },
+
+    close() {
+      axios.defaults.adapter = defaultAdapter
+    },
+
+    // The request body, parsed when it was sent as JSON
+    body(config: InternalAxiosRequestConfig): any {
+      return typeof config.data === 'string' ? JSON.parse(config.data) : config.data
+    }
+  }
+
+  const defaultAdapter = axios.defaults.adapter
+
+  async function adapter(config: InternalAxiosRequestConfig) {
+    const url = new URL(axios.getUri(config))
+    const route = server.routes[`${config.method?.toUpperCase()} ${url.origin}${url.pathname}`]
+    server.requests.push(config)
+
+    const { status = 200, data = {}, headers = {} } = route
+      ? route(config)
+      : { status: 404, data: { error: 'NotFound' } }
+    const response = { data, status, statusText: '', headers, config, request: {} }
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, {}, response)
+    }
+    return response
+  }
+
+  return server
+}
@@ -0,0 +1,8 @@
+import { registerConnector } from '../registry'
+import { MastodonProvider } from './mastodon'
+import { BlueSkyProvider } from './bluesky'
+
+// Only platforms with a working connector are registered; the others report
+// themselves as unsupported until one is added here
+registerConnector('MASTODON', MastodonProvider)
+registerConnector('BLUESKY', BlueSkyProvider)
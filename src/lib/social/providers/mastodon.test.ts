@@ -0,0 +1,201 @@
+import { MastodonProvider } from './mastodon'
+import { createFakeServer } from './fake-server'
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }))
+const mockRecordRateLimit = jest.fn()
+jest.mock('../outbound-queue', () => ({
+  OutboundQueue: {
+    getInstance: () => ({
+      run: (_platform: string, _scope: string, request: () => Promise<any>) => request(),
+      recordRateLimit: mockRecordRateLimit
+    })
+  },
+  parseRateLimitHeaders: (endpoint: string, headers: Record<string, any>) =>
+    headers['x-ratelimit-remaining'] ? { endpoint, remaining: Number(headers['x-ratelimit-remaining']) } : null
+}))
+
+const { lookup } = jest.requireMock('dns/promises')
+
+const INSTANCE = 'https://mastodon.example'
+
+const server = createFakeServer()
+
+const account = {
+  id: '109',
+  username: 'ominex',
+  acct: 'ominex',
+  display_name: 'Ominex',
+  note: '<p>Hello</p>',
+  url: `${INSTANCE}/@ominex`,
+  avatar: `${INSTANCE}/avatar.png`,
+  followers_count: 10,
+  following_count: 2,
+  statuses_count: 5
+}
+
+const status = {
+  id: '200',
+  uri: `${INSTANCE}/statuses/200`,
+  account,
+  content: '<p>Hello world</p>',
+  spoiler_text: '',
+  sensitive: false,
+  visibility: 'public',
+  media_attachments: [],
+  created_at: '2025-01-01T12:00:00Z',
+  favourites_count: 0,
+  reblogs_count: 0,
+  replies_count: 0
+}
+
+function createProvider() {
+  return new MastodonProvider({
+    clientId: 'client-id',
+    clientSecret: 'client-secret',
+    redirectUri: 'https://ominex.example/callback',
+    scopes: [],
+    instanceUrl: INSTANCE
+  })
+}
+
+describe('MastodonProvider', () => {
+  beforeEach(() => {
+    server.listen()
+    lookup.mockReset()
+    lookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }])
+    mockRecordRateLimit.mockReset()
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  it('registers itself as an app on the instance', async () => {
+    server.routes[`POST ${INSTANCE}/api/v1/apps`] = () => ({
+      data: { client_id: 'registered-id', client_secret: 'registered-secret' }
+    })
+
+    const config = await createProvider().registerApp()
+
+    expect(config).toMatchObject({ clientId: 'registered-id', clientSecret: 'registered-secret' })
+    expect(server.body(server.requests[0])).toMatchObject({
+      redirect_uris: 'https://ominex.example/callback',
+      scopes: 'read write'
+    })
+  })
+
+  it('refuses to register on an instance that resolves to a private address', async () => {
+    lookup.mockResolvedValue([{ address: '10.0.0.5', family: 4 }])
+
+    await expect(createProvider().registerApp()).rejects.toMatchObject({ code: 'INVALID_URL', status: 400 })
+    expect(server.requests).toHaveLength(0)
+  })
+
+  it('refuses a link-local instance address without resolving it', async () => {
+    const provider = new MastodonProvider({ ...createProvider().getConfig(), instanceUrl: 'http://169.254.169.254' })
+
+    await expect(provider.registerApp()).rejects.toMatchObject({ code: 'INVALID_URL' })
+    expect(lookup).not.toHaveBeenCalled()
+    expect(server.requests).toHaveLength(0)
+  })
+
+  it('exchanges the code and reads the account it belongs to', async () => {
+    server.routes[`POST ${INSTANCE}/oauth/token`] = () => ({
+      data: { access_token: 'token-1', scope: 'read write' }
+    })
+    server.routes[`GET ${INSTANCE}/api/v1/accounts/verify_credentials`] = () => ({ data: account })
+
+    const auth = await createProvider().handleAuthCallback('code-1', { codeVerifier: 'verifier' } as any)
+
+    expect(auth).toMatchObject({
+      userId: '109',
+      accessToken: 'token-1',
+      scope: ['read', 'write'],
+      metadata: { instanceUrl: INSTANCE, username: 'ominex' }
+    })
+    expect(server.body(server.requests[0])).toMatchObject({ code: 'code-1', code_verifier: 'verifier' })
+    expect(server.requests[1].headers.get('Authorization')).toBe('Bearer token-1')
+  })
+
+  describe('when signed in', () => {
+    let provider: MastodonProvider
+
+    beforeEach(() => {
+      provider = createProvider()
+      provider.setAuth({ platform: 'MASTODON', userId: '109', accessToken: 'token-1', scope: ['read', 'write'] } as any)
+    })
+
+    it('re-uploads media and publishes the status with its idempotency key', async () => {
+      server.routes['GET https://cdn.example/photo.png'] = () => ({
+        data: new ArrayBuffer(4),
+        headers: { 'content-type': 'image/png' }
+      })
+      server.routes[`POST ${INSTANCE}/api/v2/media`] = () => ({ data: { id: 'media-1', type: 'image', url: '' } })
+      server.routes[`POST ${INSTANCE}/api/v1/statuses`] = () => ({ data: status })
+
+      const post = await provider.createPost({
+        content: 'Hello world',
+        mediaUrls: ['https://cdn.example/photo.png'],
+        metadata: { idempotencyKey: 'key-1' }
+      } as any)
+
+      expect(post).toMatchObject({ postId: '200', content: 'Hello world' })
+      expect(server.requests[0].maxRedirects).toBe(0)
+      const publish = server.requests[2]
+      expect(publish.headers.get('Idempotency-Key')).toBe('key-1')
+      expect(server.body(publish)).toMatchObject({ status: 'Hello world', media_ids: ['media-1'], visibility: 'public' })
+    })
+
+    it('does not fetch media from a private host', async () => {
+      server.routes[`POST ${INSTANCE}/api/v1/statuses`] = () => ({ data: status })
+
+      await expect(
+        provider.createPost({ content: 'Hello', mediaUrls: ['http://127.0.0.1:6379/'] } as any)
+      ).rejects.toMatchObject({ code: 'INVALID_URL' })
+      expect(server.requests).toHaveLength(0)
+    })
+
+    it('pages back through the account\'s statuses from the last one read', async () => {
+      server.routes[`GET ${INSTANCE}/api/v1/accounts/109/statuses`] = () => ({
+        data: [status, { ...status, id: '199' }]
+      })
+
+      const first = await provider.getPostsPage('109', 2)
+      const last = await provider.getPostsPage('109', 3, first.nextCursor as string)
+
+      expect(first.nextCursor).toBe('199')
+      expect(server.requests[1].params).toMatchObject({ limit: 3, max_id: '199' })
+      // Fewer statuses than asked for: nothing older is left
+      expect(last.nextCursor).toBeNull()
+    })
+
+    it('records the rate limit a successful response reports', async () => {
+      server.routes[`GET ${INSTANCE}/api/v1/statuses/200`] = () => ({
+        data: status,
+        headers: { 'x-ratelimit-remaining': '299' }
+      })
+
+      await provider.getPost('200')
+
+      expect(mockRecordRateLimit).toHaveBeenCalledWith('MASTODON', '109', {
+        endpoint: '/api/v1/statuses/200',
+        remaining: 299
+      })
+    })
+
+    it('reports rate limiting with the server\'s retry delay', async () => {
+      server.routes[`GET ${INSTANCE}/api/v1/statuses/200`] = () => ({
+        status: 429,
+        data: { error: 'Too many requests' },
+        headers: { 'retry-after': '30' }
+      })
+
+      await expect(provider.getPost('200')).rejects.toMatchObject({
+        code: 'RATE_LIMIT_EXCEEDED',
+        status: 429,
+        retryAfter: 30
+      })
+      expect(server.requests).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,611 @@
+import { AxiosInstance, AxiosRequestConfig } from 'axios'
+import { BaseSocialProvider } from '../base-provider'
+import {
+  SocialPlatform,
+  SocialMediaFeature,
+  SocialMediaProfile,
+  SocialMediaPost,
+  SocialMediaPostPage,
+  SocialMediaComment,
+  SocialMediaDirectMessage,
+  SocialMediaStats,
+  SocialMediaAuth,
+  SocialMediaAuthRequest,
+  SocialMediaAuthCallback,
+  SocialMediaConfig
+} from '../types'
+
+const DEFAULT_INSTANCE_URL = 'https://mastodon.social'
+
+interface MastodonAccount {
+  id: string
+  username: string
+  acct: string
+  display_name: string
+  note: string
+  url: string
+  avatar: string
+  followers_count: number
+  following_count: number
+  statuses_count: number
+  bot?: boolean
+}
+
+interface MastodonMediaAttachment {
+  id: string
+  type: 'image' | 'gifv' | 'video' | 'audio' | 'unknown'
+  url: string
+  description?: string | null
+}
+
+interface MastodonStatus {
+  id: string
+  uri: string
+  url?: string | null
+  account: MastodonAccount
+  content: string
+  spoiler_text: string
+  sensitive: boolean
+  visibility: string
+  in_reply_to_id?: string | null
+  in_reply_to_account_id?: string | null
+  media_attachments: MastodonMediaAttachment[]
+  created_at: string
+  edited_at?: string | null
+  favourites_count: number
+  reblogs_count: number
+  replies_count: number
+  favourited?: boolean
+  reblogged?: boolean
+  bookmarked?: boolean
+  tags?: Array<{ name: string }>
+}
+
+/**
+ * Mastodon connector. Every Mastodon server is its own OAuth provider, so the
+ * connector targets `config.instanceUrl` and can register itself as an app
+ * on that instance when no client credentials exist yet.
+ */
+export class MastodonProvider extends BaseSocialProvider {
+  platform: SocialPlatform = 'MASTODON'
+  name = 'Mastodon'
+  version = 'v1'
+  baseUrl: string
+  apiUrl: string
+  scopes: string[]
+  features: SocialMediaFeature[] = [
+    'AUTH',
+    'PROFILE',
+    'POSTS',
+    'EDIT_POSTS',
+    'COMMENTS',
+    'LIKES',
+    'FOLLOWERS',
+    'FOLLOWING',
+    'SHARES',
+    'MESSAGES'
+  ]
+
+  private client: AxiosInstance
+
+  constructor(config: SocialMediaConfig) {
+    super(config)
+    this.baseUrl = (config.instanceUrl || DEFAULT_INSTANCE_URL).replace(/\/+$/, '')
+    this.apiUrl = `${this.baseUrl}/api`
+    this.scopes = config.scopes.length > 0 ? config.scopes : ['read', 'write']
+    this.client = this.createClient({
+      baseURL: this.baseUrl,
+      timeout: config.timeout || 30000
+    })
+  }
+
+  // Registers Ominex as an OAuth application on the configured instance
+  async registerApp(): Promise<SocialMediaConfig> {
+    await this.validateUrl(this.baseUrl)
+    const app = await this.request<{ client_id: string; client_secret: string }>(
+      {
+        method: 'POST',
+        url: '/api/v1/apps',
+        data: {
+          client_name: 'Ominex',
+          redirect_uris: this.config.redirectUri,
+          scopes: this.scopes.join(' '),
+          website: process.env.NEXT_PUBLIC_APP_URL
+        }
+      },
+      false
+    )
+
+    this.config = {
+      ...this.config,
+      clientId: app.client_id,
+      clientSecret: app.client_secret
+    }
+    return this.config
+  }
+
+  // Authentication methods
+  getAuthUrl(request?: SocialMediaAuthRequest): string {
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      response_type: 'code',
+      scope: this.scopes.join(' ')
+    })
+    if (request?.state) {
+      params.set('state', request.state)
+    }
+    if (request?.codeChallenge) {
+      params.set('code_challenge', request.codeChallenge)
+      params.set('code_challenge_method', 'S256')
+    }
+    return `${this.baseUrl}/oauth/authorize?${params.toString()}`
+  }
+
+  async handleAuthCallback(
+    code: string,
+    callback?: SocialMediaAuthCallback
+  ): Promise<SocialMediaAuth> {
+    const token = await this.request<{ access_token: string; scope: string }>(
+      {
+        method: 'POST',
+        url: '/oauth/token',
+        data: {
+          grant_type: 'authorization_code',
+          code,
+          client_id: this.config.clientId,
+          client_secret: this.config.clientSecret,
+          redirect_uri: this.config.redirectUri,
+          scope: this.scopes.join(' '),
+          code_verifier: callback?.codeVerifier
+        }
+      },
+      false
+    )
+
+    const account = await this.request<MastodonAccount>(
+      {
+        url: '/api/v1/accounts/verify_credentials',
+        headers: { Authorization: `Bearer ${token.access_token}` }
+      },
+      false
+    )
+
+    // Mastodon access tokens do not expire and come without a refresh token
+    this.auth = {
+      platform: this.platform,
+      userId: account.id,
+      accessToken: token.access_token,
+      scope: token.scope.split(' '),
+      metadata: {
+        instanceUrl: this.baseUrl,
+        username: account.acct
+      }
+    }
+    return this.auth
+  }
+
+  async refreshToken(): Promise<SocialMediaAuth> {
+    this.validateAuth()
+    return this.auth as SocialMediaAuth
+  }
+
+  async revokeToken(): Promise<void> {
+    this.validateAuth()
+    await this.request(
+      {
+        method: 'POST',
+        url: '/oauth/revoke',
+        data: {
+          client_id: this.config.clientId,
+          client_secret: this.config.clientSecret,
+          token: this.auth?.accessToken
+        }
+      },
+      false
+    )
+    this.auth = null
+  }
+
+  // Profile methods
+  async getProfile(userId: string): Promise<SocialMediaProfile> {
+    const account = await this.request<MastodonAccount>({ url: `/api/v1/accounts/${userId}` })
+    return this.toProfile(account)
+  }
+
+  async updateProfile(profile: Partial<SocialMediaProfile>): Promise<SocialMediaProfile> {
+    const account = await this.request<MastodonAccount>({
+      method: 'PATCH',
+      url: '/api/v1/accounts/update_credentials',
+      data: {
+        display_name: profile.displayName,
+        note: profile.bio
+      }
+    })
+    return this.toProfile(account)
+  }
+
+  async getFollowers(userId: string, limit: number = 40): Promise<SocialMediaProfile[]> {
+    const accounts = await this.request<MastodonAccount[]>({
+      url: `/api/v1/accounts/${userId}/followers`,
+      params: { limit }
+    })
+    return accounts.map((account) => this.toProfile(account))
+  }
+
+  async getFollowing(userId: string, limit: number = 40): Promise<SocialMediaProfile[]> {
+    const accounts = await this.request<MastodonAccount[]>({
+      url: `/api/v1/accounts/${userId}/following`,
+      params: { limit }
+    })
+    return accounts.map((account) => this.toProfile(account))
+  }
+
+  // Post methods
+  async createPost(
+    post: Omit<SocialMediaPost, 'platform' | 'postId' | 'userId'>
+  ): Promise<SocialMediaPost> {
+    const status = await this.publishStatus(post.content, post.mediaUrls, post.metadata)
+    return this.toPost(status)
+  }
+
+  async getPost(postId: string): Promise<SocialMediaPost> {
+    const status = await this.request<MastodonStatus>({ url: `/api/v1/statuses/${postId}` })
+    return this.toPost(status)
+  }
+
+  async updatePost(postId: string, post: Partial<SocialMediaPost>): Promise<SocialMediaPost> {
+    const mediaIds = post.mediaUrls
+      ? await this.uploadMedia(post.mediaUrls, post.metadata?.mediaDescriptions)
+      : undefined
+
+    const status = await this.request<MastodonStatus>({
+      method: 'PUT',
+      url: `/api/v1/statuses/${postId}`,
+      data: {
+        status: post.content,
+        spoiler_text: post.metadata?.contentWarning,
+        sensitive: post.metadata?.sensitive,
+        media_ids: mediaIds
+      }
+    })
+    return this.toPost(status)
+  }
+
+  async deletePost(postId: string): Promise<void> {
+    await this.request({ method: 'DELETE', url: `/api/v1/statuses/${postId}` })
+  }
+
+  async getPosts(userId: string, limit: number = 20): Promise<SocialMediaPost[]> {
+    const { posts } = await this.getPostsPage(userId, limit)
+    return posts
+  }
+
+  async getPostsPage(userId: string, limit: number = 20, cursor?: string): Promise<SocialMediaPostPage> {
+    const statuses = await this.request<MastodonStatus[]>({
+      url: `/api/v1/accounts/${userId}/statuses`,
+      params: { limit, exclude_reblogs: true, ...(cursor && { max_id: cursor }) }
+    })
+    return {
+      posts: statuses.map((status) => this.toPost(status)),
+      // A short page is the last one
+      nextCursor: statuses.length < limit ? null : statuses[statuses.length - 1].id
+    }
+  }
+
+  async likePost(postId: string): Promise<void> {
+    await this.request({ method: 'POST', url: `/api/v1/statuses/${postId}/favourite` })
+  }
+
+  async unlikePost(postId: string): Promise<void> {
+    await this.request({ method: 'POST', url: `/api/v1/statuses/${postId}/unfavourite` })
+  }
+
+  async sharePost(postId: string, message?: string): Promise<void> {
+    const status = await this.request<MastodonStatus>({
+      method: 'POST',
+      url: `/api/v1/statuses/${postId}/reblog`
+    })
+
+    // Mastodon has no quote posts, so a message is published as a new status
+    // linking to the boosted one
+    if (message) {
+      const original = (status as any).reblog || status
+      await this.publishStatus(`${message}\n\n${original.url || original.uri}`)
+    }
+  }
+
+  // Comment methods
+  async createComment(
+    postId: string,
+    content: string,
+    parentCommentId?: string
+  ): Promise<SocialMediaComment> {
+    const parentId = parentCommentId || postId
+    const parent = await this.request<MastodonStatus>({ url: `/api/v1/statuses/${parentId}` })
+
+    // Replies conventionally mention the author they answer
+    const mention = `@${parent.account.acct}`
+    const status = await this.publishStatus(
+      content.includes(mention) ? content : `${mention} ${content}`,
+      undefined,
+      { inReplyToId: parentId, visibility: parent.visibility }
+    )
+    return this.toComment(status, postId)
+  }
+
+  async getComments(postId: string, limit?: number): Promise<SocialMediaComment[]> {
+    const context = await this.request<{
+      ancestors: MastodonStatus[]
+      descendants: MastodonStatus[]
+    }>({ url: `/api/v1/statuses/${postId}/context` })
+
+    const replies = limit ? context.descendants.slice(0, limit) : context.descendants
+    return replies.map((status) => this.toComment(status, postId))
+  }
+
+  async getMentions(limit: number = 40): Promise<SocialMediaComment[]> {
+    const notifications = await this.request<Array<{ type: string; status?: MastodonStatus }>>({
+      url: '/api/v1/notifications',
+      params: { types: ['mention'], limit }
+    })
+
+    return notifications
+      .filter((notification) => notification.status)
+      .map((notification) => {
+        const status = notification.status as MastodonStatus
+        // Mastodon only says which status a reply answers, not the thread's root
+        const isReply = !!status.in_reply_to_id && status.in_reply_to_account_id === this.auth?.userId
+        const comment = this.toComment(status, isReply ? status.in_reply_to_id as string : status.id)
+        return { ...comment, metadata: { ...comment.metadata, mention: !isReply } }
+      })
+  }
+
+  async deleteComment(commentId: string): Promise<void> {
+    await this.deletePost(commentId)
+  }
+
+  async likeComment(commentId: string): Promise<void> {
+    await this.likePost(commentId)
+  }
+
+  async unlikeComment(commentId: string): Promise<void> {
+    await this.unlikePost(commentId)
+  }
+
+  // Message methods
+  async sendDirectMessage(message: SocialMediaDirectMessage): Promise<string> {
+    // A direct message is a status visible only to the accounts it mentions
+    const recipient = await this.request<MastodonAccount>({ url: `/api/v1/accounts/${message.recipientId}` })
+    const mention = `@${recipient.acct}`
+    const status = await this.publishStatus(
+      message.content.includes(mention) ? message.content : `${mention} ${message.content}`,
+      message.mediaUrls,
+      { visibility: 'direct', idempotencyKey: message.idempotencyKey }
+    )
+    return status.id
+  }
+
+  // Stats methods
+  async getStats(userId: string): Promise<SocialMediaStats> {
+    const [account, statuses] = await Promise.all([
+      this.request<MastodonAccount>({ url: `/api/v1/accounts/${userId}` }),
+      this.request<MastodonStatus[]>({
+        url: `/api/v1/accounts/${userId}/statuses`,
+        params: { limit: 40, exclude_reblogs: true }
+      })
+    ])
+
+    const count = statuses.length || 1
+    const totals = statuses.reduce(
+      (sum, status) => ({
+        likes: sum.likes + status.favourites_count,
+        comments: sum.comments + status.replies_count,
+        shares: sum.shares + status.reblogs_count
+      }),
+      { likes: 0, comments: 0, shares: 0 }
+    )
+
+    const hashtags = new Map<string, number>()
+    for (const status of statuses) {
+      for (const tag of status.tags || []) {
+        hashtags.set(tag.name, (hashtags.get(tag.name) || 0) + 1)
+      }
+    }
+
+    return {
+      platform: this.platform,
+      userId,
+      followersCount: account.followers_count,
+      followingCount: account.following_count,
+      postsCount: account.statuses_count,
+      engagementRate:
+        (totals.likes + totals.comments + totals.shares) /
+        count /
+        (account.followers_count || 1),
+      averageLikes: totals.likes / count,
+      averageComments: totals.comments / count,
+      averageShares: totals.shares / count,
+      topHashtags: Array.from(hashtags.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10)
+        .map(([name]) => name),
+      topTopics: [],
+      lastUpdated: new Date()
+    }
+  }
+
+  async getEngagementMetrics(postId: string): Promise<{
+    likes: number
+    comments: number
+    shares: number
+    views: number
+    engagementRate: number
+  }> {
+    const status = await this.request<MastodonStatus>({ url: `/api/v1/statuses/${postId}` })
+    const likes = status.favourites_count
+    const comments = status.replies_count
+    const shares = status.reblogs_count
+
+    // Mastodon does not report views, so engagement is relative to followers
+    return {
+      likes,
+      comments,
+      shares,
+      views: 0,
+      engagementRate: (likes + comments + shares) / (status.account.followers_count || 1)
+    }
+  }
+
+  // Mastodon helpers
+  private async publishStatus(
+    content: string,
+    mediaUrls?: string[],
+    metadata?: Record<string, any>
+  ): Promise<MastodonStatus> {
+    const mediaIds = mediaUrls?.length
+      ? await this.uploadMedia(mediaUrls, metadata?.mediaDescriptions)
+      : []
+
+    return this.request<MastodonStatus>({
+      method: 'POST',
+      url: '/api/v1/statuses',
+      headers: metadata?.idempotencyKey
+        ? { 'Idempotency-Key': metadata.idempotencyKey }
+        : undefined,
+      data: {
+        status: content,
+        media_ids: mediaIds,
+        in_reply_to_id: metadata?.inReplyToId,
+        spoiler_text: metadata?.contentWarning,
+        sensitive: metadata?.sensitive ?? !!metadata?.contentWarning,
+        visibility: metadata?.visibility || 'public',
+        language: metadata?.language
+      }
+    })
+  }
+
+  // Mastodon only attaches media it hosts, so remote files are re-uploaded
+  private async uploadMedia(mediaUrls: string[], descriptions: string[] = []): Promise<string[]> {
+    const mediaIds: string[] = []
+
+    for (const [index, url] of mediaUrls.entries()) {
+      const file = await this.fetchMedia(url)
+      const form = new FormData()
+      form.append('file', new Blob([file.data], { type: file.contentType }), url.split('/').pop() || 'media')
+      if (descriptions[index]) {
+        form.append('description', descriptions[index])
+      }
+
+      const attachment = await this.request<MastodonMediaAttachment>({
+        method: 'POST',
+        url: '/api/v2/media',
+        data: form
+      })
+      mediaIds.push(attachment.id)
+    }
+
+    return mediaIds
+  }
+
+  private async request<T = any>(
+    config: AxiosRequestConfig,
+    authenticated: boolean = true
+  ): Promise<T> {
+    if (authenticated) {
+      this.validateAuth()
+    }
+
+    return this.handleRequest(async () => {
+      try {
+        const response = await this.client.request<T>({
+          ...config,
+          headers: {
+            ...(authenticated && { Authorization: `Bearer ${this.auth?.accessToken}` }),
+            ...config.headers
+          }
+        })
+        return response.data
+      } catch (error) {
+        throw this.toRequestError(error)
+      }
+    })
+  }
+
+  private toProfile(account: MastodonAccount): SocialMediaProfile {
+    return {
+      platform: this.platform,
+      userId: account.id,
+      username: account.acct,
+      displayName: account.display_name || account.username,
+      profileUrl: account.url,
+      avatarUrl: account.avatar,
+      bio: this.toPlainText(account.note),
+      followersCount: account.followers_count,
+      followingCount: account.following_count,
+      postsCount: account.statuses_count,
+      metadata: {
+        instanceUrl: this.baseUrl,
+        bot: account.bot
+      }
+    }
+  }
+
+  private toPost(status: MastodonStatus): SocialMediaPost {
+    return {
+      platform: this.platform,
+      postId: status.id,
+      userId: status.account.id,
+      content: this.toPlainText(status.content),
+      mediaUrls: status.media_attachments.map((media) => media.url),
+      createdAt: new Date(status.created_at),
+      updatedAt: status.edited_at ? new Date(status.edited_at) : undefined,
+      likesCount: status.favourites_count,
+      commentsCount: status.replies_count,
+      sharesCount: status.reblogs_count,
+      isLiked: status.favourited,
+      isReposted: status.reblogged,
+      isBookmarked: status.bookmarked,
+      metadata: {
+        url: status.url || status.uri,
+        visibility: status.visibility,
+        contentWarning: status.spoiler_text || undefined,
+        sensitive: status.sensitive,
+        inReplyToId: status.in_reply_to_id,
+        html: status.content
+      }
+    }
+  }
+
+  private toComment(status: MastodonStatus, postId: string): SocialMediaComment {
+    return {
+      platform: this.platform,
+      commentId: status.id,
+      postId,
+      userId: status.account.id,
+      content: this.toPlainText(status.content),
+      createdAt: new Date(status.created_at),
+      likesCount: status.favourites_count,
+      repliesCount: status.replies_count,
+      isLiked: status.favourited,
+      metadata: {
+        parentCommentId: status.in_reply_to_id !== postId ? status.in_reply_to_id : undefined,
+        username: status.account.acct,
+        url: status.url || status.uri
+      }
+    }
+  }
+
+  private toPlainText(html: string): string {
+    return html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/p>\s*<p>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .trim()
+  }
+}
@@ -0,0 +1,64 @@
+import { assertPublicUrl, isPrivateAddress } from './public-url'
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }))
+
+const { lookup } = jest.requireMock('dns/promises')
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.20.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:a9fe:a9fe',
+    'not-an-address'
+  ])('treats %s as private', (address) => {
+    expect(isPrivateAddress(address)).toBe(true)
+  })
+
+  it.each(['93.184.216.34', '172.32.0.1', '2606:4700::1111', '::ffff:5db8:d822'])(
+    'treats %s as public',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false)
+    }
+  )
+})
+
+describe('assertPublicUrl', () => {
+  beforeEach(() => {
+    lookup.mockReset()
+  })
+
+  it('accepts a host whose addresses are all public', async () => {
+    lookup.mockResolvedValue([{ address: '93.184.216.34', family: 4 }])
+
+    await expect(assertPublicUrl('https://mastodon.example/path')).resolves.toHaveProperty(
+      'origin',
+      'https://mastodon.example'
+    )
+  })
+
+  it('rejects a host with any private address', async () => {
+    lookup.mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.0.0.1', family: 4 }
+    ])
+
+    await expect(assertPublicUrl('https://mixed.example')).rejects.toThrow('public host')
+  })
+
+  it('rejects hosts that do not resolve and non-http protocols', async () => {
+    lookup.mockRejectedValue(new Error('ENOTFOUND'))
+
+    await expect(assertPublicUrl('https://missing.example')).rejects.toThrow('public host')
+    await expect(assertPublicUrl('file:///etc/passwd')).rejects.toThrow('protocol')
+    await expect(assertPublicUrl('http://[::1]:8080')).rejects.toThrow('public host')
+  })
+})
@@ -0,0 +1,87 @@
+import { lookup } from 'dns/promises'
+import { isIP } from 'net'
+
+// Address ranges that must never be reached with a user-supplied URL:
+// this host, private networks, link-local (cloud metadata), multicast
+const PRIVATE_V4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+]
+
+function toNumber(address: string): number {
+  return address.split('.').reduce((value, part) => value * 256 + Number(part), 0)
+}
+
+function isPrivateV4(address: string): boolean {
+  const value = toNumber(address)
+  return PRIVATE_V4_RANGES.some(([base, bits]) => {
+    const start = toNumber(base)
+    return value >= start && value < start + 2 ** (32 - bits)
+  })
+}
+
+function isPrivateV6(address: string): boolean {
+  const normalized = address.toLowerCase()
+
+  // IPv4-mapped addresses, written dotted or as two hex groups
+  const dotted = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) return isPrivateV4(dotted[1])
+  const hex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (hex) {
+    const value = parseInt(hex[1], 16) * 65536 + parseInt(hex[2], 16)
+    return isPrivateV4([value >>> 24, (value >>> 16) & 255, (value >>> 8) & 255, value & 255].join('.'))
+  }
+
+  return (
+    normalized === '::' ||
+    normalized === '::1' ||
+    /^f[cd]/.test(normalized) || // unique local, fc00::/7
+    /^fe[89ab]/.test(normalized) || // link-local, fe80::/10
+    /^ff/.test(normalized) // multicast
+  )
+}
+
+export function isPrivateAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return isPrivateV4(address)
+    case 6:
+      return isPrivateV6(address)
+    default:
+      return true
+  }
+}
+
+// Resolves the URL's host and rejects it unless every address it resolves
+// to is public. Used before the server fetches anything a user pointed it at.
+export async function assertPublicUrl(url: string): Promise<URL> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new Error(`Invalid URL: ${url}`)
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new Error(`Unsupported URL protocol: ${parsed.protocol}`)
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '')
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true }).catch(() => [])).map(({ address }) => address)
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`URL does not point to a public host: ${parsed.origin}`)
+  }
+  return parsed
+}
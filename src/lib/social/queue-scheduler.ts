@@ -0,0 +1,131 @@
+import { PostQueueStatus, PrismaClient } from '@prisma/client'
+import { randomUUID } from 'crypto'
+import { hostname } from 'os'
+import { PostQueueService } from './post-queues'
+
+export interface QueueSchedulerConfig {
+  pollInterval: number // in milliseconds
+  batchSize: number
+  leaseDuration: number // in milliseconds
+  refillInterval: number // in milliseconds
+}
+
+const DEFAULT_CONFIG: QueueSchedulerConfig = {
+  pollInterval: 60 * 1000,
+  batchSize: 10,
+  leaseDuration: 2 * 60 * 1000,
+  refillInterval: 60 * 60 * 1000
+}
+
+/**
+ * Keeps active post queues filled with upcoming scheduled posts. A queue is
+ * claimed with a lease on its row, like PostScheduler's jobs, so replicas
+ * never fill the same queue at once. Queues are filled again every
+ * `refillInterval`, or right away once their slots or items change.
+ */
+export class QueueScheduler {
+  private static instance: QueueScheduler
+  private prisma: PrismaClient
+  private postQueueService: PostQueueService
+  private config: QueueSchedulerConfig
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+  private pollTimer: NodeJS.Timeout | null = null
+  private ticking: Promise<number> | null = null
+
+  private constructor(config: Partial<QueueSchedulerConfig> = {}) {
+    this.prisma = new PrismaClient()
+    this.postQueueService = PostQueueService.getInstance()
+    this.config = { ...DEFAULT_CONFIG, ...config }
+  }
+
+  static getInstance(): QueueScheduler {
+    if (!QueueScheduler.instance) {
+      QueueScheduler.instance = new QueueScheduler()
+    }
+    return QueueScheduler.instance
+  }
+
+  start(): void {
+    if (this.pollTimer) return
+
+    this.pollTimer = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error('Queue scheduler tick failed:', error)
+      })
+    }, this.config.pollInterval)
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+
+    // Let a fill in progress finish so its items' rotation is recorded
+    await this.ticking?.catch(() => undefined)
+  }
+
+  async tick(): Promise<number> {
+    if (this.ticking) return 0
+    this.ticking = this.fillDueQueues()
+
+    try {
+      return await this.ticking
+    } finally {
+      this.ticking = null
+    }
+  }
+
+  private async fillDueQueues(): Promise<number> {
+    const now = new Date()
+    const claimable = {
+      status: PostQueueStatus.ACTIVE,
+      nextFillAt: { lte: now },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }]
+    }
+
+    const candidates = await this.prisma.postQueue.findMany({
+      where: claimable,
+      select: { id: true },
+      orderBy: { nextFillAt: 'asc' },
+      take: this.config.batchSize
+    })
+
+    let scheduled = 0
+    for (const { id } of candidates) {
+      // The next fill is set with the claim, so a change made while this one
+      // runs still brings the queue back on the next poll
+      const { count } = await this.prisma.postQueue.updateMany({
+        where: { id, ...claimable },
+        data: {
+          lockedBy: this.workerId,
+          lockedUntil: new Date(now.getTime() + this.config.leaseDuration),
+          nextFillAt: new Date(now.getTime() + this.config.refillInterval)
+        }
+      })
+      if (count === 0) continue
+
+      try {
+        scheduled += await this.postQueueService.fillQueue(id, () => this.renewLease(id))
+      } catch (error) {
+        console.error(`Error filling post queue ${id}:`, error)
+      } finally {
+        await this.prisma.postQueue.updateMany({
+          where: { id, lockedBy: this.workerId },
+          data: { lockedBy: null, lockedUntil: null }
+        })
+      }
+    }
+
+    return scheduled
+  }
+
+  // False once the queue was paused or our lease was taken over
+  private async renewLease(id: string): Promise<boolean> {
+    const { count } = await this.prisma.postQueue.updateMany({
+      where: { id, status: PostQueueStatus.ACTIVE, lockedBy: this.workerId },
+      data: { lockedUntil: new Date(Date.now() + this.config.leaseDuration) }
+    })
+    return count === 1
+  }
+}
@@ -0,0 +1,157 @@
+import { LocalHour, getLocalHours } from '../platforms/posting-times'
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+
+// The part of RFC 5545 RRULE that posting schedules need. Times are local to
+// the user's timezone; parts left out are taken from the start of the rule.
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  byDay: number[] // 0 is Sunday
+  byMonthDay: number[]
+  byHour: number[]
+  byMinute: number[]
+  count: number | null
+  until: Date | null
+}
+
+const DAY = 24 * 60 * 60 * 1000
+// Occurrences are looked for a month at a time, up to this far ahead
+const SEARCH_CHUNK = 31 * DAY
+const MAX_SEARCH = 2 * 366 * DAY
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+function parseNumbers(value: string, min: number, max: number, name: string): number[] {
+  return value.split(',').map((item) => {
+    const number = Number(item)
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw new Error(`${name} must be between ${min} and ${max}`)
+    }
+    return number
+  })
+}
+
+// UNTIL is either a date (20261231) or a UTC date-time (20261231T235959Z)
+function parseUntil(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/)
+  if (!match) {
+    throw new Error('UNTIL must be a date like 20261231 or 20261231T235959Z')
+  }
+  const [, year, month, day, hour = '23', minute = '59', second = '59'] = match
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second))
+}
+
+export function parseRecurrenceRule(rule: string): RecurrenceRule {
+  const parts = new Map<string, string>()
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=')
+    if (!key || !value) {
+      throw new Error(`Invalid recurrence rule part "${part}"`)
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase())
+  }
+
+  const freq = parts.get('FREQ')
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new Error('Recurrence FREQ must be DAILY, WEEKLY or MONTHLY')
+  }
+  for (const key of Array.from(parts.keys())) {
+    if (!['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYHOUR', 'BYMINUTE', 'COUNT', 'UNTIL', 'WKST'].includes(key)) {
+      throw new Error(`Recurrence rule part ${key} is not supported`)
+    }
+  }
+  if (parts.has('COUNT') && parts.has('UNTIL')) {
+    throw new Error('A recurrence rule cannot have both COUNT and UNTIL')
+  }
+
+  const byDay = parts.has('BYDAY')
+    ? (parts.get('BYDAY') as string).split(',').map((day) => {
+        const index = WEEKDAYS.indexOf(day)
+        if (index === -1) {
+          throw new Error(`Unknown weekday "${day}" in BYDAY`)
+        }
+        return index
+      })
+    : []
+  if (byDay.length > 0 && freq === 'MONTHLY') {
+    throw new Error('Monthly recurrences take BYMONTHDAY rather than BYDAY')
+  }
+
+  return {
+    freq,
+    interval: parts.has('INTERVAL') ? parseNumbers(parts.get('INTERVAL') as string, 1, 366, 'INTERVAL')[0] : 1,
+    byDay,
+    byMonthDay: parts.has('BYMONTHDAY') ? parseNumbers(parts.get('BYMONTHDAY') as string, 1, 31, 'BYMONTHDAY') : [],
+    byHour: parts.has('BYHOUR') ? parseNumbers(parts.get('BYHOUR') as string, 0, 23, 'BYHOUR') : [],
+    byMinute: parts.has('BYMINUTE') ? parseNumbers(parts.get('BYMINUTE') as string, 0, 59, 'BYMINUTE') : [],
+    count: parts.has('COUNT') ? parseNumbers(parts.get('COUNT') as string, 1, 10000, 'COUNT')[0] : null,
+    until: parts.has('UNTIL') ? parseUntil(parts.get('UNTIL') as string) : null
+  }
+}
+
+// Days, weeks (starting on Monday) and months since 1970, for INTERVAL
+function getPeriod(freq: RecurrenceFrequency, local: LocalHour): number {
+  const days = Math.floor(Date.UTC(local.year, local.month - 1, local.day) / DAY)
+  switch (freq) {
+    case 'DAILY':
+      return days
+    case 'WEEKLY':
+      return Math.floor((days - ((local.weekday + 6) % 7)) / 7)
+    case 'MONTHLY':
+      return local.year * 12 + local.month
+  }
+}
+
+/**
+ * The first occurrence of the rule after `after`, or null once the rule has
+ * run out. `start` is the rule's DTSTART and `occurrences` how many times it
+ * already fired, which COUNT is checked against. Local times skipped by a
+ * daylight saving change have no occurrence.
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  start: Date,
+  after: Date,
+  timezone: string,
+  occurrences = 0
+): Date | null {
+  if (rule.count !== null && occurrences >= rule.count) {
+    return null
+  }
+
+  // The start's hour only gives the defaults for the parts left out
+  const [first] = getLocalHours(new Date(start.getTime() - 60 * 60 * 1000), start, timezone)
+  const startMinute = Math.round((start.getTime() - first.start.getTime()) / 60000)
+  const byHour = rule.byHour.length > 0 ? rule.byHour : [first.hour]
+  const byMinute = rule.byMinute.length > 0 ? [...rule.byMinute].sort((a, b) => a - b) : [startMinute]
+  const byDay = rule.byDay.length > 0 || rule.freq !== 'WEEKLY' ? rule.byDay : [first.weekday]
+  const byMonthDay = rule.byMonthDay.length > 0 || rule.freq !== 'MONTHLY' ? rule.byMonthDay : [first.day]
+  const startPeriod = getPeriod(rule.freq, first)
+
+  const from = Math.max(after.getTime(), start.getTime() - 1)
+  for (let offset = 0; offset < MAX_SEARCH; offset += SEARCH_CHUNK) {
+    // Each chunk starts an hour early so minutes past its first hour are seen
+    const hours = getLocalHours(
+      new Date(from + offset - 60 * 60 * 1000),
+      new Date(from + offset + SEARCH_CHUNK - 1),
+      timezone
+    )
+    for (const local of hours) {
+      if (!byHour.includes(local.hour)) continue
+      if (byDay.length > 0 && !byDay.includes(local.weekday)) continue
+      if (byMonthDay.length > 0 && !byMonthDay.includes(local.day)) continue
+      if ((getPeriod(rule.freq, local) - startPeriod) % rule.interval !== 0) continue
+
+      for (const minute of byMinute) {
+        const occurrence = new Date(local.start.getTime() + minute * 60000)
+        if (occurrence.getTime() <= from) continue
+        if (rule.until && occurrence > rule.until) {
+          return null
+        }
+        return occurrence
+      }
+    }
+  }
+  return null
+}
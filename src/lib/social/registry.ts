@@ -0,0 +1,21 @@
+import { SocialPlatform, SocialMediaConfig } from './types'
+import { BaseSocialProvider } from './base-provider'
+
+export type ConnectorClass = new (config: SocialMediaConfig) => BaseSocialProvider
+
+// Single registry of platform connectors. Every part of the app that talks to
+// a network (SocialService, CrossPlatformService, UnifiedPlatformManager)
+// resolves its connector from here.
+const connectors = new Map<SocialPlatform, ConnectorClass>()
+
+export function registerConnector(platform: SocialPlatform, ConnectorClass: ConnectorClass): void {
+  connectors.set(platform, ConnectorClass)
+}
+
+export function getConnectorClass(platform: SocialPlatform): ConnectorClass | undefined {
+  return connectors.get(platform)
+}
+
+export function getRegisteredPlatforms(): SocialPlatform[] {
+  return Array.from(connectors.keys())
+}
@@ -0,0 +1,66 @@
+import { TeamInbox } from './team-inbox'
+
+export interface SlaMonitorConfig {
+  pollInterval: number // in milliseconds
+  batchSize: number
+}
+
+const DEFAULT_CONFIG: SlaMonitorConfig = {
+  pollInterval: 60 * 1000,
+  batchSize: 100
+}
+
+/**
+ * Checks the team inbox for conversations past their first-response or
+ * resolution target and sends the breach alerts. Breaches are claimed with
+ * a conditional update, so replicas can run a monitor each.
+ */
+export class SlaMonitor {
+  private static instance: SlaMonitor
+  private teamInbox: TeamInbox
+  private config: SlaMonitorConfig
+  private pollTimer: NodeJS.Timeout | null = null
+  private ticking: Promise<number> | null = null
+
+  private constructor(config: Partial<SlaMonitorConfig> = {}) {
+    this.teamInbox = TeamInbox.getInstance()
+    this.config = { ...DEFAULT_CONFIG, ...config }
+  }
+
+  static getInstance(): SlaMonitor {
+    if (!SlaMonitor.instance) {
+      SlaMonitor.instance = new SlaMonitor()
+    }
+    return SlaMonitor.instance
+  }
+
+  start(): void {
+    if (this.pollTimer) return
+
+    this.pollTimer = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error('SLA monitor tick failed:', error)
+      })
+    }, this.config.pollInterval)
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = null
+    }
+
+    await this.ticking?.catch(() => undefined)
+  }
+
+  async tick(): Promise<number> {
+    if (this.ticking) return 0
+    this.ticking = this.teamInbox.checkBreaches(new Date(), this.config.batchSize)
+
+    try {
+      return await this.ticking
+    } finally {
+      this.ticking = null
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import {
+  Account,
+  CommentSentiment,
+  CrossPlatformComment,
+  InboxItemKind,
+  Prisma,
+  PrismaClient
+} from '@prisma/client'
+import { BaseSocialProvider } from './base-provider'
+import { SocialMediaComment, SocialPlatform } from './types'
+import { CrossPlatformService } from './cross-platform-service'
+
+// OPEN is everything not done yet, read or not
+export type InboxStatus = 'UNREAD' | 'OPEN' | 'DONE' | 'ALL'
+
+export interface InboxFilter {
+  status?: InboxStatus
+  platforms?: SocialPlatform[]
+  accountIds?: string[]
+  kinds?: InboxItemKind[]
+  sentiments?: CommentSentiment[]
+  search?: string
+  cursor?: string // id of the last item of the previous page
+  limit?: number
+}
+
+export interface InboxPage {
+  items: CrossPlatformComment[]
+  nextCursor: string | null
+  unreadCount: number
+}
+
+export interface InboxThread {
+  item: CrossPlatformComment
+  post: {
+    platform: string
+    postId: string
+    content: string | null // null when the post was not published from here
+  }
+  // The whole conversation oldest first, the account's own replies included.
+  // parentCommentId links each reply to the comment it answers.
+  comments: CrossPlatformComment[]
+}
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+
+/**
+ * One inbox for the comments, replies and mentions synced from every
+ * connected account. Items are the `CrossPlatformComment` rows the account
+ * did not write itself; replies sent from here go out through the account's
+ * connector and are stored in the same thread.
+ */
+export class SocialInbox {
+  private static instance: SocialInbox
+  private prisma: PrismaClient
+  private crossPlatformService: CrossPlatformService
+
+  private constructor() {
+    this.prisma = new PrismaClient()
+    this.crossPlatformService = CrossPlatformService.getInstance()
+  }
+
+  static getInstance(): SocialInbox {
+    if (!SocialInbox.instance) {
+      SocialInbox.instance = new SocialInbox()
+    }
+    return SocialInbox.instance
+  }
+
+  async getInbox(userId: string, filter: InboxFilter = {}): Promise<InboxPage> {
+    const limit = Math.min(filter.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+    const where = this.getFilter(userId, filter)
+
+    const [items, unreadCount] = await Promise.all([
+      this.prisma.crossPlatformComment.findMany({
+        where: { ...where, ...this.getStatusFilter(filter.status || 'OPEN') },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit + 1,
+        ...(filter.cursor ? { cursor: { id: filter.cursor }, skip: 1 } : {})
+      }),
+      this.prisma.crossPlatformComment.count({
+        where: { ...where, ...this.getStatusFilter('UNREAD') }
+      })
+    ])
+
+    return {
+      items: items.slice(0, limit),
+      nextCursor: items.length > limit ? items[limit - 1].id : null,
+      unreadCount
+    }
+  }
+
+  async getThread(userId: string, itemId: string): Promise<InboxThread> {
+    const item = await this.getItem(userId, itemId)
+
+    const [comments, copy] = await Promise.all([
+      this.prisma.crossPlatformComment.findMany({
+        where: { userId, platform: item.platform, postId: item.postId },
+        orderBy: { createdAt: 'asc' }
+      }),
+      this.prisma.crossPlatformPost.findUnique({
+        where: { platform_postId: { platform: item.platform, postId: item.postId } },
+        select: { content: true }
+      })
+    ])
+
+    return {
+      item,
+      post: {
+        platform: item.platform,
+        postId: item.postId,
+        content: item.kind === InboxItemKind.MENTION ? item.content : copy?.content ?? null
+      },
+      comments
+    }
+  }
+
+  async markRead(userId: string, itemIds: string[], read: boolean = true): Promise<number> {
+    const { count } = await this.prisma.crossPlatformComment.updateMany({
+      where: { id: { in: itemIds }, userId },
+      data: { readAt: read ? new Date() : null }
+    })
+    return count
+  }
+
+  // Done items leave the open inbox; marking one done also marks it read
+  async markDone(userId: string, itemIds: string[], done: boolean = true): Promise<number> {
+    const now = new Date()
+    if (done) {
+      await this.prisma.crossPlatformComment.updateMany({
+        where: { id: { in: itemIds }, userId, readAt: null },
+        data: { readAt: now }
+      })
+    }
+    const { count } = await this.prisma.crossPlatformComment.updateMany({
+      where: { id: { in: itemIds }, userId },
+      data: { doneAt: done ? now : null }
+    })
+    return count
+  }
+
+  // Replies in the item's thread as the account it came in on
+  async reply(userId: string, itemId: string, content: string): Promise<CrossPlatformComment> {
+    const item = await this.getItem(userId, itemId)
+
+    const reply = await this.crossPlatformService.createComment(
+      userId,
+      {
+        content,
+        platform: item.platform as SocialPlatform,
+        postId: item.postId,
+        // A mention is answered directly; a comment gets a threaded reply
+        parentCommentId: item.commentId !== item.postId ? item.commentId : undefined
+      },
+      item.accountId || undefined
+    )
+
+    await this.prisma.crossPlatformComment.update({
+      where: { id: item.id },
+      data: { readAt: item.readAt || new Date(), repliedAt: new Date() }
+    })
+    return reply
+  }
+
+  /**
+   * Reads the account's latest mentions and the comments on the given posts
+   * into the inbox. Comments are stored first so an item that is both keeps
+   * its thread. Returns the items that are new to the inbox.
+   */
+  async syncAccount(
+    account: Account,
+    instance: BaseSocialProvider,
+    postIds: string[] = []
+  ): Promise<CrossPlatformComment[]> {
+    const comments: SocialMediaComment[] = []
+    if (instance.supports('COMMENTS')) {
+      for (const postId of postIds) {
+        comments.push(...(await instance.getComments(postId)))
+      }
+    }
+    if (instance.getMentions) {
+      comments.push(...(await instance.getMentions()))
+    }
+
+    const created = await this.crossPlatformService.storeComments(account.userId, comments, account)
+    return created.filter((comment) => !comment.isOwn)
+  }
+
+  private async getItem(userId: string, itemId: string): Promise<CrossPlatformComment> {
+    const item = await this.prisma.crossPlatformComment.findFirst({
+      where: { id: itemId, userId, isOwn: false }
+    })
+    if (!item) {
+      throw new Error(`Inbox item ${itemId} not found`)
+    }
+    return item
+  }
+
+  private getFilter(userId: string, filter: InboxFilter): Prisma.CrossPlatformCommentWhereInput {
+    return {
+      userId,
+      isOwn: false,
+      ...(filter.platforms?.length ? { platform: { in: filter.platforms } } : {}),
+      ...(filter.accountIds?.length ? { accountId: { in: filter.accountIds } } : {}),
+      ...(filter.kinds?.length ? { kind: { in: filter.kinds } } : {}),
+      ...(filter.sentiments?.length ? { sentiment: { in: filter.sentiments } } : {}),
+      ...(filter.search
+        ? {
+            OR: [
+              { content: { contains: filter.search, mode: 'insensitive' as const } },
+              { authorUsername: { contains: filter.search, mode: 'insensitive' as const } }
+            ]
+          }
+        : {})
+    }
+  }
+
+  private getStatusFilter(status: InboxStatus): Prisma.CrossPlatformCommentWhereInput {
+    switch (status) {
+      case 'UNREAD':
+        return { readAt: null, doneAt: null }
+      case 'OPEN':
+        return { doneAt: null }
+      case 'DONE':
+        return { doneAt: { not: null } }
+      case 'ALL':
+        return {}
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import { SocialService } from './social-service'
+
+const mockPrisma = {
+  socialAuth: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+    upsert: jest.fn(),
+    deleteMany: jest.fn()
+  },
+  socialConfig: { findUnique: jest.fn() },
+  socialInstanceApp: { findUnique: jest.fn() }
+}
+
+const mockRedis = { get: jest.fn(), setex: jest.fn() }
+
+// Every connector the service creates, in order
+const mockConnectors: any[] = []
+const mockRefreshToken = jest.fn()
+
+// The connectors that were given an account's credentials
+function boundConnectors() {
+  return mockConnectors.filter((connector) => connector.auth)
+}
+
+jest.mock('@prisma/client', () => ({ PrismaClient: jest.fn(() => mockPrisma) }))
+jest.mock('ioredis', () => ({ Redis: jest.fn(() => mockRedis) }), { virtual: true })
+jest.mock('./providers', () => ({}))
+jest.mock('../crypto', () => ({
+  encrypt: async (text: string) => `encrypted:${text}`,
+  decrypt: async (text: string) => text.replace(/^encrypted:/, '')
+}))
+jest.mock('./registry', () => {
+  class FakeConnector {
+    auth: any = null
+
+    constructor(public config: any) {
+      mockConnectors.push(this)
+    }
+
+    getConfig() {
+      return { ...this.config }
+    }
+
+    setAuth(auth: any) {
+      this.auth = auth
+    }
+
+    async getProfile(userId: string) {
+      return { userId, token: this.auth?.accessToken }
+    }
+
+    async getPosts(userId: string) {
+      return [{ postId: `${userId}-post`, token: this.auth?.accessToken }]
+    }
+
+    async createSession(identifier: string) {
+      return { platform: 'BLUESKY', userId: `did:plc:${identifier}`, accessToken: 'access-1', refreshToken: 'refresh-1', scope: [] }
+    }
+
+    refreshToken() {
+      return mockRefreshToken(this.auth)
+    }
+
+    revokeToken = jest.fn()
+  }
+
+  return {
+    getConnectorClass: () => FakeConnector,
+    getRegisteredPlatforms: () => []
+  }
+})
+
+function storedAuth(ownerId: string, accessToken: string) {
+  return {
+    id: `auth-${ownerId}`,
+    ownerId,
+    platform: 'BLUESKY',
+    userId: 'did:plc:shared',
+    accessToken: `encrypted:${accessToken}`,
+    refreshToken: null,
+    tokenExpiresAt: null,
+    scope: [],
+    metadata: { pdsUrl: 'https://pds.example' }
+  }
+}
+
+describe('SocialService account reads', () => {
+  const service = SocialService.getInstance()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockConnectors.length = 0
+    mockRedis.get.mockResolvedValue(null)
+    mockPrisma.socialConfig.findUnique.mockResolvedValue(null)
+    mockPrisma.socialInstanceApp.findUnique.mockResolvedValue(null)
+  })
+
+  it('reads through a connector bound to the owner\'s own credentials', async () => {
+    mockPrisma.socialAuth.findUnique.mockImplementation(async ({ where }) =>
+      storedAuth(where.ownerId_platform_userId.ownerId, `${where.ownerId_platform_userId.ownerId}-token`)
+    )
+
+    const [first, second] = await Promise.all([
+      service.getPosts('owner-1', 'BLUESKY', 'did:plc:shared'),
+      service.getPosts('owner-2', 'BLUESKY', 'did:plc:shared', 10)
+    ])
+
+    expect((first[0] as any).token).toBe('owner-1-token')
+    expect((second[0] as any).token).toBe('owner-2-token')
+    expect(boundConnectors()).toHaveLength(2)
+    expect(boundConnectors()[0].config.instanceUrl).toBe('https://pds.example')
+  })
+
+  it('refuses an account the owner has not connected, even when it is cached', async () => {
+    mockPrisma.socialAuth.findUnique.mockResolvedValue(null)
+    mockRedis.get.mockResolvedValue(JSON.stringify({ userId: 'did:plc:shared' }))
+
+    await expect(service.getProfile('owner-1', 'BLUESKY', 'did:plc:shared')).rejects.toMatchObject({
+      code: 'NOT_AUTHENTICATED'
+    })
+    expect(mockRedis.get).not.toHaveBeenCalled()
+    expect(mockConnectors).toHaveLength(0)
+  })
+
+  it('revokes and forgets only the account it was asked to', async () => {
+    mockPrisma.socialAuth.findUnique.mockResolvedValue(storedAuth('owner-1', 'owner-1-token'))
+
+    await service.revokeToken('owner-1', 'BLUESKY', 'did:plc:shared')
+
+    const [connector] = boundConnectors()
+    expect(connector.auth.accessToken).toBe('owner-1-token')
+    expect(connector.revokeToken).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.socialAuth.deleteMany).toHaveBeenCalledWith({
+      where: { ownerId: 'owner-1', platform: 'BLUESKY', userId: 'did:plc:shared' }
+    })
+  })
+
+  it('refreshes the credentials of the account it was asked to', async () => {
+    mockPrisma.socialAuth.findUnique.mockResolvedValue(storedAuth('owner-1', 'owner-1-token'))
+    mockRefreshToken.mockImplementation(async (auth) => ({ ...auth, accessToken: 'access-2' }))
+
+    await service.refreshToken('owner-1', 'BLUESKY', 'did:plc:shared')
+
+    expect(mockRefreshToken).toHaveBeenCalledWith(expect.objectContaining({ accessToken: 'owner-1-token' }))
+    expect(mockPrisma.socialAuth.upsert.mock.calls[0][0].where).toEqual({
+      ownerId_platform_userId: { ownerId: 'owner-1', platform: 'BLUESKY', userId: 'did:plc:shared' }
+    })
+  })
+
+  it('stores the tokens of a new session encrypted', async () => {
+    await service.createSession('owner-1', 'BLUESKY', 'ominex', 'app-password', 'https://pds.example')
+
+    const { create, update } = mockPrisma.socialAuth.upsert.mock.calls[0][0]
+    expect(create).toMatchObject({
+      ownerId: 'owner-1',
+      userId: 'did:plc:ominex',
+      accessToken: 'encrypted:access-1',
+      refreshToken: 'encrypted:refresh-1'
+    })
+    expect(update).toMatchObject({ accessToken: 'encrypted:access-1', refreshToken: 'encrypted:refresh-1' })
+  })
+})
+
+describe('SocialService.refreshExpiringAuth', () => {
+  const service = SocialService.getInstance()
+  const NOW = new Date('2025-01-01T12:00:00Z')
+  const RETRY_DELAY = 5 * 60 * 1000
+
+  beforeAll(() => {
+    ;(service as any).providers.set('BLUESKY', {})
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now: NOW })
+    mockPrisma.socialInstanceApp.findUnique.mockResolvedValue(null)
+    mockPrisma.socialConfig.findUnique.mockResolvedValue(null)
+    mockPrisma.socialAuth.findMany.mockResolvedValue([
+      { ...storedAuth('owner-1', 'owner-1-token'), refreshToken: 'encrypted:refresh-1' }
+    ])
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it('only picks up credentials that are not waiting for a reconnect or a retry', async () => {
+    mockRefreshToken.mockResolvedValue({ platform: 'BLUESKY', userId: 'did:plc:shared', accessToken: 'access-2' })
+
+    await expect(service.refreshExpiringAuth(NOW)).resolves.toEqual({ refreshed: 1, needsReauth: [] })
+    expect(mockPrisma.socialAuth.findMany).toHaveBeenCalledWith({
+      where: {
+        tokenExpiresAt: { lte: NOW },
+        refreshToken: { not: null },
+        needsReauth: false,
+        OR: [{ refreshRetryAt: null }, { refreshRetryAt: { lte: NOW } }]
+      }
+    })
+    expect(mockRefreshToken).toHaveBeenCalledWith(expect.objectContaining({ refreshToken: 'refresh-1' }))
+    expect(mockPrisma.socialAuth.upsert.mock.calls[0][0].update).toMatchObject({
+      accessToken: 'encrypted:access-2',
+      needsReauth: false,
+      lastRefreshError: null
+    })
+  })
+
+  it('marks credentials the platform rejects as needing a reconnect and returns them', async () => {
+    mockRefreshToken.mockRejectedValue({ status: 400, code: 'HTTP_400', message: 'ExpiredToken' })
+
+    const { refreshed, needsReauth } = await service.refreshExpiringAuth(NOW)
+
+    expect(refreshed).toBe(0)
+    expect(needsReauth.map((stored) => stored.ownerId)).toEqual(['owner-1'])
+    expect(mockPrisma.socialAuth.update).toHaveBeenCalledWith({
+      where: { id: 'auth-owner-1' },
+      data: { needsReauth: true, lastRefreshError: 'ExpiredToken', refreshRetryAt: null }
+    })
+  })
+
+  it('backs off after a transient failure', async () => {
+    mockRefreshToken.mockRejectedValue({ status: 503, code: 'HTTP_503', message: 'Unavailable' })
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const { needsReauth } = await service.refreshExpiringAuth(NOW, RETRY_DELAY)
+
+    expect(needsReauth).toEqual([])
+    expect(mockPrisma.socialAuth.update).toHaveBeenCalledWith({
+      where: { id: 'auth-owner-1' },
+      data: { lastRefreshError: 'Unavailable', refreshRetryAt: new Date(NOW.getTime() + RETRY_DELAY) }
+    })
+  })
+})
@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, SocialAuth } from '@prisma/client'
 import { Redis } from 'ioredis'
 import {
   SocialPlatform,
@@ -7,35 +7,43 @@ import {
   SocialMediaComment,
   SocialMediaStats,
   SocialMediaAuth,
+  SocialMediaAuthRequest,
+  SocialMediaAuthCallback,
   SocialMediaConfig,
-  SocialMediaError
+  SocialMediaError,
+  SocialMediaFeature
 } from './types'
 import { BaseSocialProvider } from './base-provider'
-import { FacebookProvider } from './providers/facebook'
-import { InstagramProvider } from './providers/instagram'
-import { TwitterProvider } from './providers/twitter'
-import { LinkedInProvider } from './providers/linkedin'
-import { TikTokProvider } from './providers/tiktok'
-import { SnapchatProvider } from './providers/snapchat'
-import { YouTubeProvider } from './providers/youtube'
-import { RedditProvider } from './providers/reddit'
-import { PinterestProvider } from './providers/pinterest'
-import { TelegramProvider } from './providers/telegram'
-import { DiscordProvider } from './providers/discord'
-import { MastodonProvider } from './providers/mastodon'
-import { BlueSkyProvider } from './providers/bluesky'
+import { encrypt, decrypt } from '../crypto'
+import { getConnectorClass, getRegisteredPlatforms } from './registry'
+import './providers'
+
+// Errors that mean the grant itself is gone; anything else is retried
+const REAUTH_ERROR_CODES = ['INVALID_TOKEN', 'TOKEN_EXPIRED', 'NOT_AUTHENTICATED', 'INVALID_GRANT']
+
+export function requiresReauthorization(error: any): boolean {
+  return (
+    error?.status === 400 ||
+    error?.status === 401 ||
+    error?.status === 403 ||
+    REAUTH_ERROR_CODES.includes(error?.code)
+  )
+}
 
 export class SocialService {
   private static instance: SocialService
   private prisma: PrismaClient
   private redis: Redis
   private providers: Map<SocialPlatform, BaseSocialProvider>
+  private instanceProviders: Map<string, BaseSocialProvider>
+  private initializing: Promise<void> | null = null
   private readonly CACHE_TTL = 3600 // 1 hour
 
   private constructor() {
     this.prisma = new PrismaClient()
     this.redis = new Redis(process.env.REDIS_URL)
     this.providers = new Map()
+    this.instanceProviders = new Map()
   }
 
   static getInstance(): SocialService {
@@ -45,31 +53,26 @@ export class SocialService {
     return SocialService.instance
   }
 
+  // Safe to call from every entry point: connectors are set up only once
   async initialize(): Promise<void> {
-    // Initialize all providers
-    await Promise.all([
-      this.initializeProvider('FACEBOOK', FacebookProvider),
-      this.initializeProvider('INSTAGRAM', InstagramProvider),
-      this.initializeProvider('TWITTER', TwitterProvider),
-      this.initializeProvider('LINKEDIN', LinkedInProvider),
-      this.initializeProvider('TIKTOK', TikTokProvider),
-      this.initializeProvider('SNAPCHAT', SnapchatProvider),
-      this.initializeProvider('YOUTUBE', YouTubeProvider),
-      this.initializeProvider('REDDIT', RedditProvider),
-      this.initializeProvider('PINTEREST', PinterestProvider),
-      this.initializeProvider('TELEGRAM', TelegramProvider),
-      this.initializeProvider('DISCORD', DiscordProvider),
-      this.initializeProvider('MASTODON', MastodonProvider),
-      this.initializeProvider('BLUESKY', BlueSkyProvider)
-    ])
-  }
-
-  private async initializeProvider<T extends BaseSocialProvider>(
-    platform: SocialPlatform,
-    ProviderClass: new (config: SocialMediaConfig) => T
-  ): Promise<void> {
+    if (!this.initializing) {
+      // Initialize a connector for every registered platform
+      this.initializing = Promise.all(
+        getRegisteredPlatforms().map((platform) => this.initializeProvider(platform))
+      )
+        .then(() => undefined)
+        .catch((error) => {
+          this.initializing = null
+          throw error
+        })
+    }
+    return this.initializing
+  }
+
+  private async initializeProvider(platform: SocialPlatform): Promise<void> {
+    const ProviderClass = getConnectorClass(platform)
     const config = await this.getProviderConfig(platform)
-    if (config) {
+    if (ProviderClass && config) {
       const provider = new ProviderClass(config)
       this.providers.set(platform, provider)
     }
@@ -90,6 +93,7 @@ export class SocialService {
       redirectUri: config.redirectUri,
       scopes: config.scopes,
       apiVersion: config.apiVersion,
+      instanceUrl: config.instanceUrl || undefined,
       timeout: config.timeout,
       retries: config.retries,
       rateLimit: config.rateLimit
@@ -107,103 +111,407 @@ export class SocialService {
     return provider
   }
 
-  async getAuthUrl(platform: SocialPlatform): Promise<string> {
-    const provider = this.getProvider(platform)
-    return provider.getAuthUrl()
+  // Returns a connector for one server of a federated network (e.g. a
+  // Mastodon instance), registering Ominex as an OAuth app there on first use
+  async getInstanceProvider(
+    platform: SocialPlatform,
+    instanceUrl: string
+  ): Promise<BaseSocialProvider> {
+    const normalizedUrl = new URL(instanceUrl).origin
+    const cacheKey = `${platform}:${normalizedUrl}`
+    const cachedProvider = this.instanceProviders.get(cacheKey)
+    if (cachedProvider) {
+      return cachedProvider
+    }
+
+    const ProviderClass = getConnectorClass(platform)
+    const config = await this.getProviderConfig(platform)
+    if (!ProviderClass || !config) {
+      throw this.createError({
+        code: 'PROVIDER_NOT_FOUND',
+        message: `Provider not found for platform: ${platform}`
+      })
+    }
+
+    const app = await this.prisma.socialInstanceApp.findUnique({
+      where: {
+        platform_instanceUrl: {
+          platform,
+          instanceUrl: normalizedUrl
+        }
+      }
+    })
+
+    const provider = new ProviderClass({
+      ...config,
+      instanceUrl: normalizedUrl,
+      clientId: app?.clientId || '',
+      clientSecret: app?.clientSecret || ''
+    })
+
+    if (!app) {
+      if (!provider.registerApp) {
+        throw this.createError({
+          code: 'UNSUPPORTED_FEATURE',
+          message: `${platform} does not support per-instance app registration`
+        })
+      }
+
+      const registered = await provider.registerApp()
+      await this.prisma.socialInstanceApp.create({
+        data: {
+          platform,
+          instanceUrl: normalizedUrl,
+          clientId: registered.clientId,
+          clientSecret: registered.clientSecret,
+          redirectUri: registered.redirectUri,
+          scopes: registered.scopes
+        }
+      })
+    }
+
+    this.instanceProviders.set(cacheKey, provider)
+    return provider
+  }
+
+  getPlatforms(): SocialPlatform[] {
+    return Array.from(this.providers.keys())
+  }
+
+  supports(platform: SocialPlatform, feature: SocialMediaFeature): boolean {
+    return this.providers.get(platform)?.supports(feature) ?? false
+  }
+
+  async getAuthUrl(
+    platform: SocialPlatform,
+    instanceUrl?: string,
+    request?: SocialMediaAuthRequest
+  ): Promise<string> {
+    const provider = instanceUrl
+      ? await this.getInstanceProvider(platform, instanceUrl)
+      : this.getProvider(platform)
+    return provider.getAuthUrl(request)
   }
 
   async handleAuthCallback(
+    ownerId: string,
+    platform: SocialPlatform,
+    code: string,
+    instanceUrl?: string,
+    callback?: SocialMediaAuthCallback
+  ): Promise<SocialMediaAuth> {
+    const { auth } = await this.exchangeAuthCode(platform, code, instanceUrl, callback)
+    await this.saveAuth(ownerId, platform, auth)
+    return auth
+  }
+
+  // Exchanges an authorization code on a fresh connector so that concurrent
+  // connect flows never share the auth state of the registry instance
+  async exchangeAuthCode(
+    platform: SocialPlatform,
+    code: string,
+    instanceUrl?: string,
+    callback?: SocialMediaAuthCallback
+  ): Promise<{ auth: SocialMediaAuth; provider: BaseSocialProvider }> {
+    const provider = await this.createAuthProvider(platform, instanceUrl)
+    const auth = await provider.handleAuthCallback(code, callback)
+    return { auth, provider }
+  }
+
+  // Returns a connector bound to one connected account's credentials
+  async createAccountProvider(
+    platform: SocialPlatform,
+    auth: SocialMediaAuth,
+    instanceUrl?: string | null
+  ): Promise<BaseSocialProvider> {
+    const provider = await this.createAuthProvider(platform, instanceUrl || undefined)
+    provider.setAuth(auth)
+    return provider
+  }
+
+  private async createAuthProvider(
+    platform: SocialPlatform,
+    instanceUrl?: string
+  ): Promise<BaseSocialProvider> {
+    const ProviderClass = getConnectorClass(platform)
+    if (!ProviderClass) {
+      throw this.createError({
+        code: 'PROVIDER_NOT_FOUND',
+        message: `Provider not found for platform: ${platform}`
+      })
+    }
+
+    if (!instanceUrl) {
+      return new ProviderClass(this.getProvider(platform).getConfig())
+    }
+
+    // OAuth-connected instances always have a registered app; anything else
+    // signed in with a session and only needs the server URL
+    const app = await this.prisma.socialInstanceApp.findUnique({
+      where: {
+        platform_instanceUrl: {
+          platform,
+          instanceUrl: new URL(instanceUrl).origin
+        }
+      }
+    })
+    const base = app
+      ? await this.getInstanceProvider(platform, instanceUrl)
+      : await this.getSessionProvider(platform, instanceUrl)
+    return new ProviderClass(base.getConfig())
+  }
+
+  async createSession(
+    ownerId: string,
     platform: SocialPlatform,
-    code: string
+    identifier: string,
+    password: string,
+    instanceUrl?: string
   ): Promise<SocialMediaAuth> {
-    const provider = this.getProvider(platform)
-    const auth = await provider.handleAuthCallback(code)
-    await this.saveAuth(platform, auth)
+    const { auth } = await this.openSession(platform, identifier, password, instanceUrl)
+    await this.saveAuth(ownerId, platform, auth)
     return auth
   }
 
-  async refreshToken(platform: SocialPlatform): Promise<SocialMediaAuth> {
-    const provider = this.getProvider(platform)
+  // Signs in on a fresh connector, like exchangeAuthCode does for OAuth
+  async openSession(
+    platform: SocialPlatform,
+    identifier: string,
+    password: string,
+    instanceUrl?: string
+  ): Promise<{ auth: SocialMediaAuth; provider: BaseSocialProvider }> {
+    const provider = await this.createAuthProvider(platform, instanceUrl)
+    if (!provider.createSession) {
+      throw this.createError({
+        code: 'UNSUPPORTED_FEATURE',
+        message: `${platform} does not support password sign-in`
+      })
+    }
+
+    const auth = await provider.createSession(identifier, password)
+    return { auth, provider }
+  }
+
+  // Session-based networks need no app registration, only the server URL
+  private async getSessionProvider(
+    platform: SocialPlatform,
+    instanceUrl: string
+  ): Promise<BaseSocialProvider> {
+    const ProviderClass = getConnectorClass(platform)
+    if (!ProviderClass) {
+      throw this.createError({
+        code: 'PROVIDER_NOT_FOUND',
+        message: `Provider not found for platform: ${platform}`
+      })
+    }
+
+    const config = await this.getProviderConfig(platform)
+    return new ProviderClass({
+      clientId: '',
+      clientSecret: '',
+      redirectUri: '',
+      scopes: [],
+      ...config,
+      instanceUrl: new URL(instanceUrl).origin
+    })
+  }
+
+  async refreshToken(ownerId: string, platform: SocialPlatform, userId: string): Promise<SocialMediaAuth> {
+    const provider = await this.createStoredAuthProvider(await this.findAuth(ownerId, platform, userId))
     const auth = await provider.refreshToken()
-    await this.saveAuth(platform, auth)
+    await this.saveAuth(ownerId, platform, auth)
     return auth
   }
 
-  async revokeToken(platform: SocialPlatform): Promise<void> {
-    const provider = this.getProvider(platform)
+  // Renews stored platform credentials that expire before the given time.
+  // Credentials the platform rejects are marked needsReauth and not tried
+  // again until the owner reconnects; they are returned so the caller can
+  // tell the owner. Other failures are retried after `retryDelay`.
+  async refreshExpiringAuth(
+    before: Date,
+    retryDelay: number = 5 * 60 * 1000 // in milliseconds
+  ): Promise<{ refreshed: number; needsReauth: SocialAuth[] }> {
+    const now = new Date()
+    const expiring = await this.prisma.socialAuth.findMany({
+      where: {
+        tokenExpiresAt: { lte: before },
+        refreshToken: { not: null },
+        needsReauth: false,
+        OR: [{ refreshRetryAt: null }, { refreshRetryAt: { lte: now } }]
+      }
+    })
+
+    let refreshed = 0
+    const needsReauth: SocialAuth[] = []
+    for (const stored of expiring) {
+      const platform = stored.platform as SocialPlatform
+      if (!this.providers.has(platform)) continue
+
+      try {
+        const provider = await this.createStoredAuthProvider(stored)
+        await this.saveAuth(stored.ownerId, platform, await provider.refreshToken())
+        refreshed++
+      } catch (error) {
+        const message = (error as Error)?.message || 'Token refresh failed'
+        if (requiresReauthorization(error)) {
+          await this.prisma.socialAuth.update({
+            where: { id: stored.id },
+            data: { needsReauth: true, lastRefreshError: message, refreshRetryAt: null }
+          })
+          needsReauth.push(stored)
+        } else {
+          console.error(`Error refreshing ${platform} auth for ${stored.userId}:`, error)
+          await this.prisma.socialAuth.update({
+            where: { id: stored.id },
+            data: {
+              lastRefreshError: message,
+              refreshRetryAt: new Date(
+                Date.now() + Math.max(retryDelay, ((error as any)?.retryAfter || 0) * 1000)
+              )
+            }
+          })
+        }
+      }
+    }
+    return { refreshed, needsReauth }
+  }
+
+  async revokeToken(ownerId: string, platform: SocialPlatform, userId: string): Promise<void> {
+    const provider = await this.createStoredAuthProvider(await this.findAuth(ownerId, platform, userId))
     await provider.revokeToken()
-    await this.deleteAuth(platform)
+    await this.deleteAuth(ownerId, platform, userId)
   }
 
+  // Reads go through the owner's own credentials for the account, so the
+  // owner must have connected it
   async getProfile(
+    ownerId: string,
     platform: SocialPlatform,
     userId: string
   ): Promise<SocialMediaProfile> {
+    const stored = await this.findAuth(ownerId, platform, userId)
     const cacheKey = `profile:${platform}:${userId}`
     const cachedProfile = await this.redis.get(cacheKey)
     if (cachedProfile) {
       return JSON.parse(cachedProfile)
     }
 
-    const provider = this.getProvider(platform)
+    const provider = await this.createStoredAuthProvider(stored)
     const profile = await provider.getProfile(userId)
     await this.redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(profile))
     return profile
   }
 
   async getPosts(
+    ownerId: string,
     platform: SocialPlatform,
     userId: string,
     limit?: number
   ): Promise<SocialMediaPost[]> {
+    const stored = await this.findAuth(ownerId, platform, userId)
     const cacheKey = `posts:${platform}:${userId}:${limit || 'all'}`
     const cachedPosts = await this.redis.get(cacheKey)
     if (cachedPosts) {
       return JSON.parse(cachedPosts)
     }
 
-    const provider = this.getProvider(platform)
+    const provider = await this.createStoredAuthProvider(stored)
     const posts = await provider.getPosts(userId, limit)
     await this.redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(posts))
     return posts
   }
 
   async getStats(
+    ownerId: string,
     platform: SocialPlatform,
     userId: string
   ): Promise<SocialMediaStats> {
+    const stored = await this.findAuth(ownerId, platform, userId)
     const cacheKey = `stats:${platform}:${userId}`
     const cachedStats = await this.redis.get(cacheKey)
     if (cachedStats) {
       return JSON.parse(cachedStats)
     }
 
-    const provider = this.getProvider(platform)
+    const provider = await this.createStoredAuthProvider(stored)
     const stats = await provider.getStats(userId)
     await this.redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify(stats))
     return stats
   }
 
-  private async saveAuth(platform: SocialPlatform, auth: SocialMediaAuth): Promise<void> {
+  private async findAuth(
+    ownerId: string,
+    platform: SocialPlatform,
+    userId: string
+  ): Promise<SocialAuth> {
+    const stored = await this.prisma.socialAuth.findUnique({
+      where: {
+        ownerId_platform_userId: { ownerId, platform, userId }
+      }
+    })
+    if (!stored) {
+      throw this.createError({
+        code: 'NOT_AUTHENTICATED',
+        status: 401,
+        message: `No ${platform} account ${userId} is connected`
+      })
+    }
+    return stored
+  }
+
+  private async createStoredAuthProvider(stored: SocialAuth): Promise<BaseSocialProvider> {
+    const platform = stored.platform as SocialPlatform
+    const metadata = stored.metadata as Record<string, any> | null
+    return this.createAccountProvider(
+      platform,
+      {
+        platform,
+        userId: stored.userId,
+        accessToken: await decrypt(stored.accessToken),
+        refreshToken: stored.refreshToken ? await decrypt(stored.refreshToken) : undefined,
+        tokenExpiresAt: stored.tokenExpiresAt || undefined,
+        scope: stored.scope,
+        metadata: metadata || undefined
+      },
+      metadata?.instanceUrl || metadata?.pdsUrl
+    )
+  }
+
+  // Each Ominex user can hold credentials for several accounts per platform.
+  // Tokens are encrypted at rest, like those of connected Accounts.
+  private async saveAuth(
+    ownerId: string,
+    platform: SocialPlatform,
+    auth: SocialMediaAuth
+  ): Promise<void> {
+    const accessToken = await encrypt(auth.accessToken)
+    const refreshToken = auth.refreshToken ? await encrypt(auth.refreshToken) : null
+
     await this.prisma.socialAuth.upsert({
       where: {
-        platform_userId: {
+        ownerId_platform_userId: {
+          ownerId,
           platform,
           userId: auth.userId
         }
       },
+      // Fresh credentials clear any failed refresh
       update: {
-        accessToken: auth.accessToken,
-        refreshToken: auth.refreshToken,
+        accessToken,
+        refreshToken,
         tokenExpiresAt: auth.tokenExpiresAt,
         scope: auth.scope,
-        metadata: auth.metadata
+        metadata: auth.metadata,
+        needsReauth: false,
+        lastRefreshError: null,
+        refreshRetryAt: null
       },
       create: {
+        ownerId,
         platform,
         userId: auth.userId,
-        accessToken: auth.accessToken,
-        refreshToken: auth.refreshToken,
+        accessToken,
+        refreshToken,
         tokenExpiresAt: auth.tokenExpiresAt,
         scope: auth.scope,
         metadata: auth.metadata
@@ -211,9 +519,13 @@ export class SocialService {
     })
   }
 
-  private async deleteAuth(platform: SocialPlatform): Promise<void> {
+  private async deleteAuth(
+    ownerId: string,
+    platform: SocialPlatform,
+    userId: string
+  ): Promise<void> {
     await this.prisma.socialAuth.deleteMany({
-      where: { platform }
+      where: { ownerId, platform, userId }
     })
   }
 
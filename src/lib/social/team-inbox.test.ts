@@ -0,0 +1,140 @@
+import { TeamInbox } from './team-inbox'
+
+const mockPrisma = {
+  conversation: { findUnique: jest.fn(), findUniqueOrThrow: jest.fn(), findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+  conversationEvent: { create: jest.fn() },
+  crossPlatformComment: { findFirst: jest.fn(), update: jest.fn() },
+  supportAgent: { findUnique: jest.fn(), findMany: jest.fn() },
+  supportQueue: { findUnique: jest.fn() },
+  notification: { create: jest.fn() },
+  user: { findUnique: jest.fn() }
+}
+
+const mockSocialInbox = { reply: jest.fn() }
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn(() => mockPrisma),
+  ConversationChannel: { MESSAGE: 'MESSAGE', COMMENT: 'COMMENT' },
+  ConversationStatus: { OPEN: 'OPEN', PENDING: 'PENDING', CLOSED: 'CLOSED' },
+  ConversationEventType: {
+    ASSIGNED: 'ASSIGNED',
+    STATUS_CHANGED: 'STATUS_CHANGED',
+    REPLIED: 'REPLIED',
+    FIRST_RESPONSE: 'FIRST_RESPONSE',
+    RESOLVED: 'RESOLVED',
+    SLA_BREACHED: 'SLA_BREACHED'
+  }
+}))
+jest.mock('../crypto', () => ({ decrypt: async (text: string) => text }))
+jest.mock('../email', () => ({ email: { sendNotificationEmail: jest.fn() } }))
+jest.mock('../env', () => ({ env: { NEXT_PUBLIC_APP_URL: 'https://app.example' } }))
+jest.mock('../websocket', () => ({ getWebSocketService: () => ({ emitToUser: jest.fn() }) }))
+jest.mock('../messaging/unified-messenger', () => ({ getUnifiedMessenger: jest.fn() }))
+jest.mock('./social-inbox', () => ({ SocialInbox: { getInstance: () => mockSocialInbox } }))
+
+const { email } = jest.requireMock('../email')
+
+const NOW = new Date('2025-01-01T12:00:00Z')
+
+const conversation = {
+  id: 'conv-1',
+  userId: 'owner-1',
+  channel: 'COMMENT',
+  platform: 'MASTODON',
+  status: 'OPEN',
+  version: 3,
+  assigneeId: null,
+  queueId: null,
+  counterpartName: 'Fan',
+  openedAt: new Date('2025-01-01T11:00:00Z'),
+  firstResponseDueAt: new Date('2025-01-01T11:30:00Z'),
+  resolutionDueAt: new Date('2025-01-02T11:00:00Z'),
+  replyingId: null
+}
+
+describe('TeamInbox', () => {
+  const inbox = TeamInbox.getInstance()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    mockPrisma.conversation.findUnique.mockResolvedValue(conversation)
+    mockPrisma.conversation.findUniqueOrThrow.mockResolvedValue(conversation)
+    mockPrisma.conversation.update.mockResolvedValue(conversation)
+    mockPrisma.conversation.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.supportAgent.findMany.mockResolvedValue([])
+    mockPrisma.crossPlatformComment.findFirst.mockResolvedValue({ id: 'item-1' })
+    mockSocialInbox.reply.mockResolvedValue({ id: 'reply-1' })
+  })
+
+  describe('reply', () => {
+    it('sends nothing when a teammate replied since the agent loaded the conversation', async () => {
+      mockPrisma.conversation.updateMany.mockResolvedValueOnce({ count: 0 })
+      mockPrisma.conversation.findUniqueOrThrow.mockResolvedValue({ ...conversation, version: 4 })
+
+      await expect(inbox.reply('owner-1', 'conv-1', 'Thanks!', 3)).rejects.toThrow('was answered since you opened it')
+
+      expect(mockPrisma.conversation.updateMany.mock.calls[0][0].where).toMatchObject({ id: 'conv-1', version: 3 })
+      expect(mockSocialInbox.reply).not.toHaveBeenCalled()
+    })
+
+    it('hands the conversation back when the reply could not be sent', async () => {
+      mockSocialInbox.reply.mockRejectedValue(new Error('Rate limited'))
+
+      await expect(inbox.reply('owner-1', 'conv-1', 'Thanks!', 3)).rejects.toThrow('Rate limited')
+
+      expect(mockPrisma.conversation.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'conv-1', version: 4, replyingId: 'owner-1' },
+        data: { version: 3, replyingId: null, replyingUntil: null }
+      })
+    })
+
+    it('counts a posted reply as sent when filing it in the conversation fails', async () => {
+      mockPrisma.crossPlatformComment.update.mockRejectedValue(new Error('Connection lost'))
+
+      await expect(inbox.reply('owner-1', 'conv-1', 'Thanks!', 3)).resolves.toBe(conversation)
+
+      const rollback = mockPrisma.conversation.updateMany.mock.calls.find(([args]) => args.data.version === 3)
+      expect(rollback).toBeUndefined()
+      expect(mockPrisma.conversationEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'REPLIED', actorId: 'owner-1' })
+      })
+    })
+  })
+
+  describe('checkBreaches', () => {
+    beforeEach(() => {
+      mockPrisma.conversation.findMany.mockImplementation(async ({ where }) =>
+        where.firstRespondedAt === null ? [conversation] : []
+      )
+      mockPrisma.notification.create.mockResolvedValue({ id: 'notification-1' })
+      mockPrisma.user.findUnique.mockResolvedValue({ email: 'owner@ominex.example', settings: null })
+    })
+
+    it('records a breach and alerts the team once', async () => {
+      await expect(inbox.checkBreaches(NOW)).resolves.toBe(1)
+
+      expect(mockPrisma.conversation.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: 'conv-1', firstResponseBreachedAt: null }),
+        data: { firstResponseBreachedAt: NOW }
+      })
+      expect(mockPrisma.conversationEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'SLA_BREACHED', data: expect.objectContaining({ sla: 'FIRST_RESPONSE' }) })
+      })
+      expect(mockPrisma.notification.create.mock.calls[0][0].data).toMatchObject({
+        userId: 'owner-1',
+        title: 'First response SLA breached'
+      })
+      expect(email.sendNotificationEmail).toHaveBeenCalledTimes(1)
+    })
+
+    it('leaves a breach another monitor already recorded alone', async () => {
+      mockPrisma.conversation.updateMany.mockResolvedValue({ count: 0 })
+
+      await expect(inbox.checkBreaches(NOW)).resolves.toBe(0)
+
+      expect(mockPrisma.conversationEvent.create).not.toHaveBeenCalled()
+      expect(mockPrisma.notification.create).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,974 @@
+import {
+  Conversation,
+  ConversationChannel,
+  ConversationEvent,
+  ConversationEventType,
+  ConversationNote,
+  ConversationStatus,
+  CrossPlatformComment,
+  Message,
+  Platform,
+  Prisma,
+  PrismaClient,
+  SupportAgent,
+  SupportQueue,
+  SupportSlaPolicy
+} from '@prisma/client'
+import { randomUUID } from 'crypto'
+import { decrypt } from '../crypto'
+import { email } from '../email'
+import { env } from '../env'
+import { getWebSocketService } from '../websocket'
+import { getUnifiedMessenger } from '../messaging/unified-messenger'
+import { SocialInbox } from './social-inbox'
+
+export type SlaKind = 'FIRST_RESPONSE' | 'RESOLUTION'
+
+export interface ConversationFilter {
+  statuses?: ConversationStatus[] // OPEN and PENDING when left out
+  channels?: ConversationChannel[]
+  platforms?: string[]
+  assigneeId?: string
+  unassigned?: boolean
+  queueId?: string
+  breached?: boolean
+  cursor?: string // id of the last conversation of the previous page
+  limit?: number
+}
+
+export interface ConversationPage {
+  conversations: Conversation[]
+  nextCursor: string | null
+}
+
+export interface ConversationMessage {
+  id: string
+  content: string
+  senderId: string | null
+  fromCustomer: boolean
+  createdAt: Date
+}
+
+export interface ConversationDetails {
+  conversation: Conversation
+  // Only one of these is filled, depending on the channel
+  messages: ConversationMessage[]
+  comments: CrossPlatformComment[]
+  notes: ConversationNote[]
+  events: ConversationEvent[]
+}
+
+export interface ConversationAssignment {
+  assigneeId?: string | null
+  queueId?: string | null
+}
+
+export interface ReplyLease {
+  conversationId: string
+  acquired: boolean
+  replyingId: string | null // the agent holding the lease
+  replyingUntil: Date | null
+  version: number
+}
+
+export interface SlaPolicyInput {
+  firstResponseMinutes?: number
+  resolutionMinutes?: number
+}
+
+export interface ResponseTimeStats {
+  firstResponses: number
+  avgFirstResponseSeconds: number | null
+  resolved: number
+  avgResolutionSeconds: number | null
+  breaches: number
+}
+
+export interface TeamInboxReport {
+  from: Date
+  to: Date
+  agents: Array<ResponseTimeStats & { agentId: string | null }> // null is unassigned
+  platforms: Array<ResponseTimeStats & { platform: string }>
+}
+
+const MINUTE = 60 * 1000
+// How long an agent may hold a conversation while writing a reply
+const REPLY_LEASE = 2 * MINUTE
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+// Comment chains are followed this many levels up to find their conversation
+const MAX_THREAD_DEPTH = 10
+
+const DEFAULT_SLA = { firstResponseMinutes: 60, resolutionMinutes: 24 * 60 }
+
+const REPORTED_EVENTS = [
+  ConversationEventType.FIRST_RESPONSE,
+  ConversationEventType.RESOLVED,
+  ConversationEventType.SLA_BREACHED
+]
+
+/**
+ * Shared inbox for a support team. Direct messages and inbox comments are
+ * grouped into conversations that can be assigned to an agent or a queue,
+ * annotated with internal notes and moved between OPEN, PENDING and CLOSED.
+ * Every open conversation runs a first-response and a resolution SLA timer.
+ * Replies are guarded by a version number so two agents answering at once
+ * do not both go out.
+ *
+ * The inbox belongs to the user who connected the accounts; teammates are
+ * added as `SupportAgent`s and act on the owner's conversations.
+ */
+export class TeamInbox {
+  private static instance: TeamInbox
+  private prisma: PrismaClient
+  private socialInbox: SocialInbox
+
+  private constructor() {
+    this.prisma = new PrismaClient()
+    this.socialInbox = SocialInbox.getInstance()
+  }
+
+  static getInstance(): TeamInbox {
+    if (!TeamInbox.instance) {
+      TeamInbox.instance = new TeamInbox()
+    }
+    return TeamInbox.instance
+  }
+
+  async getAgents(userId: string): Promise<SupportAgent[]> {
+    return this.prisma.supportAgent.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' }
+    })
+  }
+
+  async addAgent(userId: string, agentId: string): Promise<SupportAgent> {
+    if (agentId === userId) {
+      throw new Error('The inbox owner is always part of the team')
+    }
+    const agent = await this.prisma.user.findUnique({ where: { id: agentId }, select: { id: true } })
+    if (!agent) {
+      throw new Error(`User ${agentId} not found`)
+    }
+    return this.prisma.supportAgent.upsert({
+      where: { userId_agentId: { userId, agentId } },
+      update: {},
+      create: { userId, agentId }
+    })
+  }
+
+  // The agent's conversations go back to their queue, or to the team
+  async removeAgent(userId: string, agentId: string): Promise<boolean> {
+    const { count } = await this.prisma.supportAgent.deleteMany({ where: { userId, agentId } })
+    if (count === 0) return false
+
+    await this.prisma.conversation.updateMany({
+      where: { userId, assigneeId: agentId },
+      data: { assigneeId: null }
+    })
+    const queues = await this.prisma.supportQueue.findMany({
+      where: { userId, agentIds: { has: agentId } }
+    })
+    for (const queue of queues) {
+      await this.prisma.supportQueue.update({
+        where: { id: queue.id },
+        data: { agentIds: queue.agentIds.filter((id) => id !== agentId) }
+      })
+    }
+    return true
+  }
+
+  async getQueues(actorId: string): Promise<SupportQueue[]> {
+    return this.prisma.supportQueue.findMany({
+      where: { userId: { in: await this.getTeamOwnerIds(actorId) } },
+      orderBy: { name: 'asc' }
+    })
+  }
+
+  async createQueue(userId: string, name: string, agentIds: string[] = []): Promise<SupportQueue> {
+    await this.validateAgents(userId, agentIds)
+    try {
+      return await this.prisma.supportQueue.create({
+        data: { userId, name, agentIds: Array.from(new Set(agentIds)) }
+      })
+    } catch (error) {
+      throw this.isUniqueViolation(error) ? new Error(`A queue named "${name}" already exists`) : error
+    }
+  }
+
+  async updateQueue(
+    userId: string,
+    queueId: string,
+    changes: { name?: string; agentIds?: string[] }
+  ): Promise<SupportQueue> {
+    await this.getQueue(userId, queueId)
+    if (changes.agentIds) {
+      await this.validateAgents(userId, changes.agentIds)
+    }
+    try {
+      return await this.prisma.supportQueue.update({
+        where: { id: queueId },
+        data: {
+          name: changes.name,
+          agentIds: changes.agentIds ? Array.from(new Set(changes.agentIds)) : undefined
+        }
+      })
+    } catch (error) {
+      throw this.isUniqueViolation(error) ? new Error(`A queue named "${changes.name}" already exists`) : error
+    }
+  }
+
+  // Conversations in the queue stay where they are, just unqueued
+  async deleteQueue(userId: string, queueId: string): Promise<boolean> {
+    const { count } = await this.prisma.supportQueue.deleteMany({ where: { id: queueId, userId } })
+    return count > 0
+  }
+
+  async getSlaPolicy(userId: string): Promise<Pick<SupportSlaPolicy, 'firstResponseMinutes' | 'resolutionMinutes'>> {
+    const policy = await this.prisma.supportSlaPolicy.findUnique({ where: { userId } })
+    return policy || DEFAULT_SLA
+  }
+
+  // Applies to conversations opened from now on
+  async updateSlaPolicy(userId: string, input: SlaPolicyInput): Promise<SupportSlaPolicy> {
+    for (const minutes of [input.firstResponseMinutes, input.resolutionMinutes]) {
+      if (minutes !== undefined && (!Number.isInteger(minutes) || minutes < 1)) {
+        throw new Error('SLA targets must be a whole number of minutes')
+      }
+    }
+    return this.prisma.supportSlaPolicy.upsert({
+      where: { userId },
+      update: input,
+      create: { userId, ...DEFAULT_SLA, ...input }
+    })
+  }
+
+  /**
+   * Files an inbound direct message into the conversation with its sender,
+   * opening one if needed. Messages already filed and messages sent by the
+   * owner are ignored. Returns the conversation the message joined.
+   */
+  async addMessage(message: Message): Promise<Conversation | null> {
+    if (
+      message.conversationId ||
+      !message.accountId ||
+      !message.externalSenderId ||
+      !message.receiverId
+    ) {
+      return null
+    }
+
+    const author = (message.metadata as any)?.author
+    const conversation = await this.findOrOpen(message.receiverId, `message:${message.accountId}:${message.externalSenderId}`, {
+      channel: ConversationChannel.MESSAGE,
+      platform: message.platform,
+      accountId: message.accountId,
+      counterpartId: message.externalSenderId,
+      counterpartName: author?.username || null
+    }, message.createdAt)
+
+    const { count } = await this.prisma.message.updateMany({
+      where: { id: message.id, conversationId: null },
+      data: { conversationId: conversation.id }
+    })
+    if (count === 0) return null
+
+    return this.recordInbound(conversation, await decrypt(message.content), message.createdAt)
+  }
+
+  /**
+   * Files an inbox comment. A reply joins the conversation of the comment it
+   * answers; anything else starts its own conversation.
+   */
+  async addComment(item: CrossPlatformComment): Promise<Conversation | null> {
+    if (item.conversationId || item.isOwn) return null
+
+    const conversation =
+      (await this.findThreadConversation(item)) ||
+      (await this.findOrOpen(item.userId, `comment:${item.platform}:${item.commentId}`, {
+        channel: ConversationChannel.COMMENT,
+        platform: item.platform,
+        accountId: item.accountId,
+        counterpartId: item.authorId,
+        counterpartName: item.authorUsername
+      }, item.createdAt))
+
+    const { count } = await this.prisma.crossPlatformComment.updateMany({
+      where: { id: item.id, conversationId: null },
+      data: { conversationId: conversation.id }
+    })
+    if (count === 0) return null
+
+    return this.recordInbound(conversation, item.content, item.createdAt)
+  }
+
+  async getConversations(actorId: string, filter: ConversationFilter = {}): Promise<ConversationPage> {
+    const limit = Math.min(filter.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+    const where: Prisma.ConversationWhereInput = {
+      userId: { in: await this.getTeamOwnerIds(actorId) },
+      status: { in: filter.statuses?.length ? filter.statuses : [ConversationStatus.OPEN, ConversationStatus.PENDING] },
+      ...(filter.channels?.length ? { channel: { in: filter.channels } } : {}),
+      ...(filter.platforms?.length ? { platform: { in: filter.platforms } } : {}),
+      ...(filter.assigneeId ? { assigneeId: filter.assigneeId } : {}),
+      ...(filter.unassigned ? { assigneeId: null } : {}),
+      ...(filter.queueId ? { queueId: filter.queueId } : {}),
+      ...(filter.breached !== undefined
+        ? filter.breached
+          ? { OR: [{ firstResponseBreachedAt: { not: null } }, { resolutionBreachedAt: { not: null } }] }
+          : { firstResponseBreachedAt: null, resolutionBreachedAt: null }
+        : {})
+    }
+
+    const conversations = await this.prisma.conversation.findMany({
+      where,
+      orderBy: [{ lastInboundAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(filter.cursor ? { cursor: { id: filter.cursor }, skip: 1 } : {})
+    })
+
+    return {
+      conversations: conversations.slice(0, limit),
+      nextCursor: conversations.length > limit ? conversations[limit - 1].id : null
+    }
+  }
+
+  async getConversation(actorId: string, conversationId: string): Promise<ConversationDetails> {
+    const conversation = await this.getConversationFor(actorId, conversationId)
+
+    const [messages, comments, notes, events] = await Promise.all([
+      conversation.channel === ConversationChannel.MESSAGE
+        ? this.prisma.message.findMany({ where: { conversationId }, orderBy: { createdAt: 'asc' } })
+        : Promise.resolve([]),
+      conversation.channel === ConversationChannel.COMMENT
+        ? this.prisma.crossPlatformComment.findMany({ where: { conversationId }, orderBy: { createdAt: 'asc' } })
+        : Promise.resolve([]),
+      this.prisma.conversationNote.findMany({ where: { conversationId }, orderBy: { createdAt: 'asc' } }),
+      this.prisma.conversationEvent.findMany({ where: { conversationId }, orderBy: { createdAt: 'asc' } })
+    ])
+
+    return {
+      conversation,
+      messages: await Promise.all(
+        messages.map(async (message) => ({
+          id: message.id,
+          content: await decrypt(message.content),
+          senderId: message.senderId ?? message.externalSenderId,
+          fromCustomer: !message.senderId,
+          createdAt: message.createdAt
+        }))
+      ),
+      comments,
+      notes,
+      events
+    }
+  }
+
+  async assign(actorId: string, conversationId: string, assignment: ConversationAssignment): Promise<Conversation> {
+    const conversation = await this.getConversationFor(actorId, conversationId)
+    const assigneeId = assignment.assigneeId === undefined ? conversation.assigneeId : assignment.assigneeId
+    const queueId = assignment.queueId === undefined ? conversation.queueId : assignment.queueId
+
+    if (assigneeId && !(await this.isTeamMember(conversation.userId, assigneeId))) {
+      throw new Error(`User ${assigneeId} is not on this team`)
+    }
+    if (queueId) {
+      await this.getQueue(conversation.userId, queueId)
+    }
+
+    const updated = await this.prisma.conversation.update({
+      where: { id: conversationId },
+      data: { assigneeId, queueId }
+    })
+    await this.recordEvent(updated, ConversationEventType.ASSIGNED, actorId, {
+      data: { assigneeId, queueId }
+    })
+
+    if (assigneeId && assigneeId !== actorId && assigneeId !== conversation.assigneeId) {
+      await this.notify(
+        [assigneeId],
+        'Conversation assigned to you',
+        `A ${updated.platform} conversation with ${updated.counterpartName || 'a customer'} was assigned to you.`,
+        { conversationId },
+        false
+      )
+    }
+    await this.emitToTeam(updated.userId, 'conversation_updated', updated)
+    return updated
+  }
+
+  async setStatus(actorId: string, conversationId: string, status: ConversationStatus): Promise<Conversation> {
+    const conversation = await this.getConversationFor(actorId, conversationId)
+    const updated = await this.changeStatus(conversation, status, actorId)
+    await this.emitToTeam(updated.userId, 'conversation_updated', updated)
+    return updated
+  }
+
+  async addNote(actorId: string, conversationId: string, content: string): Promise<ConversationNote> {
+    const conversation = await this.getConversationFor(actorId, conversationId)
+    if (!content.trim()) {
+      throw new Error('A note cannot be empty')
+    }
+
+    const note = await this.prisma.conversationNote.create({
+      data: { conversationId, authorId: actorId, content }
+    })
+    await this.emitToTeam(conversation.userId, 'conversation_note', note)
+    return note
+  }
+
+  /**
+   * Marks the agent as writing a reply so teammates see the conversation is
+   * taken. When someone else already holds it the lease is not acquired and
+   * the holder is returned, so the UI can warn before any text is written.
+   */
+  async startReply(actorId: string, conversationId: string): Promise<ReplyLease> {
+    const conversation = await this.getConversationFor(actorId, conversationId)
+    const now = new Date()
+
+    const { count } = await this.prisma.conversation.updateMany({
+      where: { id: conversationId, ...this.getReplyableFilter(actorId, now) },
+      data: { replyingId: actorId, replyingUntil: new Date(now.getTime() + REPLY_LEASE) }
+    })
+    const current = await this.prisma.conversation.findUniqueOrThrow({ where: { id: conversationId } })
+
+    if (count === 1) {
+      await this.emitToTeam(conversation.userId, 'conversation_replying', {
+        conversationId,
+        agentId: actorId,
+        until: current.replyingUntil
+      })
+    } else {
+      this.emit(current.replyingId as string, 'conversation_collision', { conversationId, agentId: actorId })
+    }
+
+    return {
+      conversationId,
+      acquired: count === 1,
+      replyingId: current.replyingId,
+      replyingUntil: current.replyingUntil,
+      version: current.version
+    }
+  }
+
+  async stopReply(actorId: string, conversationId: string): Promise<boolean> {
+    const conversation = await this.getConversationFor(actorId, conversationId)
+    const { count } = await this.prisma.conversation.updateMany({
+      where: { id: conversationId, replyingId: actorId },
+      data: { replyingId: null, replyingUntil: null }
+    })
+    if (count === 1) {
+      await this.emitToTeam(conversation.userId, 'conversation_replying', {
+        conversationId,
+        agentId: null,
+        until: null
+      })
+    }
+    return count === 1
+  }
+
+  /**
+   * Sends a reply to the customer as the conversation's account.
+   * `expectedVersion` is the version the agent's view was loaded at: when a
+   * teammate replied since, or is replying right now, nothing is sent and a
+   * collision error is thrown instead. `status` moves the conversation on
+   * once the reply is out, e.g. to PENDING or CLOSED.
+   */
+  async reply(
+    actorId: string,
+    conversationId: string,
+    content: string,
+    expectedVersion: number,
+    status?: ConversationStatus
+  ): Promise<Conversation> {
+    const conversation = await this.getConversationFor(actorId, conversationId)
+    if (!content.trim()) {
+      throw new Error('A reply cannot be empty')
+    }
+
+    const now = new Date()
+    const { count } = await this.prisma.conversation.updateMany({
+      where: { id: conversationId, version: expectedVersion, ...this.getReplyableFilter(actorId, now) },
+      data: {
+        version: { increment: 1 },
+        replyingId: actorId,
+        replyingUntil: new Date(now.getTime() + REPLY_LEASE)
+      }
+    })
+    if (count === 0) {
+      const current = await this.prisma.conversation.findUniqueOrThrow({ where: { id: conversationId } })
+      if (current.replyingId && current.replyingId !== actorId) {
+        this.emit(current.replyingId, 'conversation_collision', { conversationId, agentId: actorId })
+      }
+      throw new Error(
+        current.version !== expectedVersion
+          ? `Conversation ${conversationId} was answered since you opened it; reload it before replying`
+          : `Conversation ${conversationId} is being answered by another agent`
+      )
+    }
+
+    try {
+      await this.send(conversation, content)
+    } catch (error) {
+      // Nothing went out, so hand the conversation back as it was
+      await this.prisma.conversation.updateMany({
+        where: { id: conversationId, version: expectedVersion + 1, replyingId: actorId },
+        data: { version: expectedVersion, replyingId: null, replyingUntil: null }
+      })
+      throw error
+    }
+
+    const sentAt = new Date()
+    let updated = await this.prisma.conversation.update({
+      where: { id: conversationId },
+      data: { lastReplyAt: sentAt, replyingId: null, replyingUntil: null }
+    })
+    await this.recordEvent(updated, ConversationEventType.REPLIED, actorId)
+
+    const { count: first } = await this.prisma.conversation.updateMany({
+      where: { id: conversationId, firstRespondedAt: null },
+      data: { firstRespondedAt: sentAt, firstResponderId: actorId }
+    })
+    if (first === 1) {
+      await this.recordEvent(updated, ConversationEventType.FIRST_RESPONSE, actorId, {
+        durationSeconds: this.secondsSince(updated.openedAt, sentAt)
+      })
+    }
+
+    updated = status
+      ? await this.changeStatus(updated, status, actorId)
+      : await this.prisma.conversation.findUniqueOrThrow({ where: { id: conversationId } })
+    await this.emitToTeam(updated.userId, 'conversation_updated', updated)
+    return updated
+  }
+
+  /**
+   * Response times over the actor's teams for replies and resolutions in
+   * the period, per agent and per platform. Breaches are counted against
+   * whoever the conversation was assigned to when the timer ran out.
+   */
+  async getReport(actorId: string, from: Date, to: Date = new Date()): Promise<TeamInboxReport> {
+    const where = {
+      userId: { in: await this.getTeamOwnerIds(actorId) },
+      type: { in: REPORTED_EVENTS },
+      createdAt: { gte: from, lt: to }
+    }
+
+    const [byAgent, byPlatform] = await Promise.all([
+      this.prisma.conversationEvent.groupBy({
+        by: ['actorId', 'type'],
+        where,
+        _count: { _all: true },
+        _avg: { durationSeconds: true }
+      }),
+      this.prisma.conversationEvent.groupBy({
+        by: ['platform', 'type'],
+        where,
+        _count: { _all: true },
+        _avg: { durationSeconds: true }
+      })
+    ])
+
+    return {
+      from,
+      to,
+      agents: this.toStats(byAgent, (row) => row.actorId).map(([agentId, stats]) => ({ agentId, ...stats })),
+      platforms: this.toStats(byPlatform, (row) => row.platform).map(([platform, stats]) => ({
+        platform: platform as string,
+        ...stats
+      }))
+    }
+  }
+
+  /**
+   * Marks open conversations whose SLA ran out and alerts the people working
+   * them. The conditional update makes every breach alert go out once, even
+   * with several monitors running. Returns the number of new breaches.
+   */
+  async checkBreaches(now: Date = new Date(), batchSize: number = 100): Promise<number> {
+    let breaches = 0
+
+    for (const sla of ['FIRST_RESPONSE', 'RESOLUTION'] as SlaKind[]) {
+      const due: Prisma.ConversationWhereInput =
+        sla === 'FIRST_RESPONSE'
+          ? {
+              status: ConversationStatus.OPEN,
+              firstRespondedAt: null,
+              firstResponseBreachedAt: null,
+              firstResponseDueAt: { lte: now }
+            }
+          : {
+              status: ConversationStatus.OPEN,
+              resolutionBreachedAt: null,
+              resolutionDueAt: { lte: now }
+            }
+
+      const conversations = await this.prisma.conversation.findMany({ where: due, take: batchSize })
+      for (const conversation of conversations) {
+        const { count } = await this.prisma.conversation.updateMany({
+          where: { id: conversation.id, ...due },
+          data: sla === 'FIRST_RESPONSE' ? { firstResponseBreachedAt: now } : { resolutionBreachedAt: now }
+        })
+        if (count === 0) continue
+
+        breaches++
+        await this.recordEvent(conversation, ConversationEventType.SLA_BREACHED, conversation.assigneeId, {
+          data: {
+            sla,
+            dueAt: sla === 'FIRST_RESPONSE' ? conversation.firstResponseDueAt : conversation.resolutionDueAt
+          }
+        })
+        await this.alertBreach(conversation, sla)
+      }
+    }
+
+    return breaches
+  }
+
+  private async findOrOpen(
+    userId: string,
+    key: string,
+    details: Pick<Conversation, 'channel' | 'platform' | 'accountId' | 'counterpartId' | 'counterpartName'>,
+    receivedAt: Date
+  ): Promise<Conversation> {
+    const existing = await this.prisma.conversation.findUnique({ where: { userId_key: { userId, key } } })
+    if (existing) return existing
+
+    try {
+      const conversation = await this.prisma.conversation.create({
+        data: {
+          userId,
+          key,
+          ...details,
+          lastInboundAt: receivedAt,
+          ...(await this.getCycleStart(userId, new Date()))
+        }
+      })
+      await this.emitToTeam(userId, 'conversation_opened', conversation)
+      return conversation
+    } catch (error) {
+      // Opened by a concurrent sync or webhook
+      if (!this.isUniqueViolation(error)) throw error
+      return this.prisma.conversation.findUniqueOrThrow({ where: { userId_key: { userId, key } } })
+    }
+  }
+
+  // The conversation of the nearest comment up the reply chain that has one
+  private async findThreadConversation(item: CrossPlatformComment): Promise<Conversation | null> {
+    let parentId = item.parentCommentId
+    for (let depth = 0; parentId && depth < MAX_THREAD_DEPTH; depth++) {
+      const parent = await this.prisma.crossPlatformComment.findUnique({
+        where: {
+          userId_platform_commentId: { userId: item.userId, platform: item.platform, commentId: parentId }
+        },
+        include: { conversation: true }
+      })
+      if (!parent) return null
+      if (parent.conversation) return parent.conversation
+      parentId = parent.parentCommentId
+    }
+    return null
+  }
+
+  // A new inbound message puts the conversation back in front of the team; a
+  // closed one starts a new SLA cycle
+  private async recordInbound(conversation: Conversation, content: string, receivedAt: Date): Promise<Conversation> {
+    const now = new Date()
+    const { count: reopened } = await this.prisma.conversation.updateMany({
+      where: { id: conversation.id, status: ConversationStatus.CLOSED },
+      data: {
+        status: ConversationStatus.OPEN,
+        ...(await this.getCycleStart(conversation.userId, now))
+      }
+    })
+    const { count: resumed } = await this.prisma.conversation.updateMany({
+      where: { id: conversation.id, status: ConversationStatus.PENDING },
+      data: { status: ConversationStatus.OPEN }
+    })
+
+    const updated = await this.prisma.conversation.update({
+      where: { id: conversation.id },
+      data: {
+        preview: content.slice(0, 280),
+        lastInboundAt: receivedAt > conversation.lastInboundAt ? receivedAt : conversation.lastInboundAt
+      }
+    })
+    if (reopened + resumed > 0) {
+      await this.recordEvent(updated, ConversationEventType.STATUS_CHANGED, null, {
+        data: { from: conversation.status, to: ConversationStatus.OPEN, reason: 'inbound' }
+      })
+    }
+    await this.emitToTeam(updated.userId, 'conversation_updated', updated)
+    return updated
+  }
+
+  private async changeStatus(
+    conversation: Conversation,
+    status: ConversationStatus,
+    actorId: string
+  ): Promise<Conversation> {
+    if (conversation.status === status) return conversation
+
+    const now = new Date()
+    const data: Prisma.ConversationUpdateInput = { status }
+    if (status === ConversationStatus.CLOSED) {
+      Object.assign(data, { resolvedAt: now, resolvedById: actorId, replyingId: null, replyingUntil: null })
+    } else if (conversation.status === ConversationStatus.CLOSED) {
+      Object.assign(data, await this.getCycleStart(conversation.userId, now))
+    }
+
+    const updated = await this.prisma.conversation.update({ where: { id: conversation.id }, data })
+    await this.recordEvent(updated, ConversationEventType.STATUS_CHANGED, actorId, {
+      data: { from: conversation.status, to: status }
+    })
+    if (status === ConversationStatus.CLOSED) {
+      await this.recordEvent(updated, ConversationEventType.RESOLVED, actorId, {
+        durationSeconds: this.secondsSince(updated.openedAt, now)
+      })
+    }
+    return updated
+  }
+
+  private async getCycleStart(userId: string, now: Date) {
+    const policy = await this.getSlaPolicy(userId)
+    return {
+      openedAt: now,
+      firstResponseDueAt: new Date(now.getTime() + policy.firstResponseMinutes * MINUTE),
+      firstRespondedAt: null,
+      firstResponderId: null,
+      resolutionDueAt: new Date(now.getTime() + policy.resolutionMinutes * MINUTE),
+      resolvedAt: null,
+      resolvedById: null,
+      firstResponseBreachedAt: null,
+      resolutionBreachedAt: null
+    }
+  }
+
+  // Comments are answered in the thread of the latest customer comment;
+  // messages go out through the messenger as the conversation's account
+  private async send(conversation: Conversation, content: string): Promise<void> {
+    if (conversation.channel === ConversationChannel.COMMENT) {
+      const item = await this.prisma.crossPlatformComment.findFirst({
+        where: { conversationId: conversation.id, isOwn: false },
+        orderBy: { createdAt: 'desc' }
+      })
+      if (!item) {
+        throw new Error(`Conversation ${conversation.id} has no comment to reply to`)
+      }
+      const reply = await this.socialInbox.reply(conversation.userId, item.id, content)
+      // The reply is live, so failing to file it must not fail the send
+      await this.prisma.crossPlatformComment
+        .update({
+          where: { id: reply.id },
+          data: { conversationId: conversation.id }
+        })
+        .catch((error) => {
+          console.error(`Error filing reply ${reply.id} in conversation ${conversation.id}:`, error)
+        })
+      return
+    }
+
+    if (!conversation.counterpartId) {
+      throw new Error(`Conversation ${conversation.id} has no recipient`)
+    }
+    await getUnifiedMessenger().sendMessage({
+      id: randomUUID(),
+      content,
+      senderId: conversation.userId,
+      externalReceiverId: conversation.counterpartId,
+      platform: conversation.platform as Platform,
+      accountId: conversation.accountId || undefined,
+      conversationId: conversation.id,
+      isRead: false,
+      timestamp: new Date(),
+      metadata: { isEdited: false }
+    })
+  }
+
+  private async alertBreach(conversation: Conversation, sla: SlaKind): Promise<void> {
+    let recipients: string[]
+    if (conversation.assigneeId) {
+      recipients = [conversation.assigneeId]
+    } else {
+      const queue = conversation.queueId
+        ? await this.prisma.supportQueue.findUnique({ where: { id: conversation.queueId } })
+        : null
+      recipients = queue?.agentIds.length ? queue.agentIds : await this.getTeamIds(conversation.userId)
+    }
+
+    const counterpart = conversation.counterpartName || 'a customer'
+    await this.notify(
+      recipients,
+      sla === 'FIRST_RESPONSE' ? 'First response SLA breached' : 'Resolution SLA breached',
+      sla === 'FIRST_RESPONSE'
+        ? `A ${conversation.platform} conversation with ${counterpart} is still waiting for a first response.`
+        : `A ${conversation.platform} conversation with ${counterpart} was not resolved in time.`,
+      { conversationId: conversation.id, sla },
+      true
+    )
+  }
+
+  private async notify(
+    userIds: string[],
+    title: string,
+    message: string,
+    data: Record<string, any>,
+    sendEmail: boolean
+  ): Promise<void> {
+    const actionUrl = `${env.NEXT_PUBLIC_APP_URL}/inbox/conversations/${data.conversationId}`
+
+    for (const userId of userIds) {
+      try {
+        const notification = await this.prisma.notification.create({
+          data: {
+            userId,
+            type: 'system',
+            title,
+            message,
+            data: { ...data, actionUrl }
+          }
+        })
+        this.emit(userId, 'notification', notification)
+
+        if (!sendEmail) continue
+        const user = await this.prisma.user.findUnique({
+          where: { id: userId },
+          select: {
+            email: true,
+            settings: { select: { emailNotifications: true } }
+          }
+        })
+        if (user?.email && user.settings?.emailNotifications !== false) {
+          await email.sendNotificationEmail(user.email, title, message, actionUrl)
+        }
+      } catch (error) {
+        console.error(`Error notifying user ${userId} about conversation ${data.conversationId}:`, error)
+      }
+    }
+  }
+
+  private async recordEvent(
+    conversation: Conversation,
+    type: ConversationEventType,
+    actorId: string | null,
+    extra: { durationSeconds?: number; data?: Record<string, any> } = {}
+  ): Promise<void> {
+    await this.prisma.conversationEvent.create({
+      data: {
+        conversationId: conversation.id,
+        userId: conversation.userId,
+        platform: conversation.platform,
+        type,
+        actorId,
+        durationSeconds: extra.durationSeconds,
+        data: extra.data
+      }
+    })
+  }
+
+  private toStats<T extends { type: ConversationEventType; _count: { _all: number }; _avg: { durationSeconds: number | null } }>(
+    rows: T[],
+    keyOf: (row: T) => string | null
+  ): Array<[string | null, ResponseTimeStats]> {
+    const stats = new Map<string | null, ResponseTimeStats>()
+    for (const row of rows) {
+      const key = keyOf(row)
+      const entry = stats.get(key) || {
+        firstResponses: 0,
+        avgFirstResponseSeconds: null,
+        resolved: 0,
+        avgResolutionSeconds: null,
+        breaches: 0
+      }
+      switch (row.type) {
+        case ConversationEventType.FIRST_RESPONSE:
+          entry.firstResponses = row._count._all
+          entry.avgFirstResponseSeconds = row._avg.durationSeconds
+          break
+        case ConversationEventType.RESOLVED:
+          entry.resolved = row._count._all
+          entry.avgResolutionSeconds = row._avg.durationSeconds
+          break
+        case ConversationEventType.SLA_BREACHED:
+          entry.breaches = row._count._all
+          break
+      }
+      stats.set(key, entry)
+    }
+    return Array.from(stats.entries())
+  }
+
+  // Free to reply when nobody holds the lease, the actor does, or it lapsed
+  private getReplyableFilter(actorId: string, now: Date): Prisma.ConversationWhereInput {
+    return {
+      OR: [{ replyingId: null }, { replyingId: actorId }, { replyingUntil: { lt: now } }]
+    }
+  }
+
+  private async getConversationFor(actorId: string, conversationId: string): Promise<Conversation> {
+    const conversation = await this.prisma.conversation.findUnique({ where: { id: conversationId } })
+    if (!conversation || !(await this.isTeamMember(conversation.userId, actorId))) {
+      throw new Error(`Conversation ${conversationId} not found`)
+    }
+    return conversation
+  }
+
+  private async getQueue(userId: string, queueId: string): Promise<SupportQueue> {
+    const queue = await this.prisma.supportQueue.findFirst({ where: { id: queueId, userId } })
+    if (!queue) {
+      throw new Error(`Queue ${queueId} not found`)
+    }
+    return queue
+  }
+
+  private async validateAgents(userId: string, agentIds: string[]): Promise<void> {
+    for (const agentId of agentIds) {
+      if (!(await this.isTeamMember(userId, agentId))) {
+        throw new Error(`User ${agentId} is not on this team`)
+      }
+    }
+  }
+
+  private async isTeamMember(ownerId: string, userId: string): Promise<boolean> {
+    if (ownerId === userId) return true
+    const agent = await this.prisma.supportAgent.findUnique({
+      where: { userId_agentId: { userId: ownerId, agentId: userId } }
+    })
+    return !!agent
+  }
+
+  // The inboxes the actor works: their own and every team they are on
+  private async getTeamOwnerIds(actorId: string): Promise<string[]> {
+    const memberships = await this.prisma.supportAgent.findMany({
+      where: { agentId: actorId },
+      select: { userId: true }
+    })
+    return [actorId, ...memberships.map((membership) => membership.userId)]
+  }
+
+  private async getTeamIds(ownerId: string): Promise<string[]> {
+    const agents = await this.getAgents(ownerId)
+    return [ownerId, ...agents.map((agent) => agent.agentId)]
+  }
+
+  private async emitToTeam(ownerId: string, event: string, data: any): Promise<void> {
+    for (const userId of await this.getTeamIds(ownerId)) {
+      this.emit(userId, event, data)
+    }
+  }
+
+  private emit(userId: string, event: string, data: any): void {
+    try {
+      getWebSocketService().emitToUser(userId, event, data)
+    } catch {
+      // No socket server in this process; clients pick the change up on refresh
+    }
+  }
+
+  private secondsSince(start: Date, end: Date): number {
+    return Math.max(0, Math.round((end.getTime() - start.getTime()) / 1000))
+  }
+
+  private isUniqueViolation(error: any): boolean {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+  }
+}
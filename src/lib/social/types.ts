@@ -1,3 +1,5 @@
+import type { Platform } from '@prisma/client'
+
 export interface SocialMediaProfile {
   platform: SocialPlatform
   userId: string
@@ -31,6 +33,13 @@ export interface SocialMediaPost {
   metadata?: Record<string, any>
 }
 
+// One page of a listing, newest first. nextCursor reads the next (older)
+// page and is null on the last one.
+export interface SocialMediaPostPage {
+  posts: SocialMediaPost[]
+  nextCursor: string | null
+}
+
 export interface SocialMediaComment {
   platform: SocialPlatform
   commentId: string
@@ -44,6 +53,13 @@ export interface SocialMediaComment {
   metadata?: Record<string, any>
 }
 
+export interface SocialMediaDirectMessage {
+  recipientId: string // platform user id
+  content: string
+  mediaUrls?: string[]
+  idempotencyKey?: string
+}
+
 export interface SocialMediaStats {
   platform: SocialPlatform
   userId: string
@@ -59,6 +75,17 @@ export interface SocialMediaStats {
   lastUpdated: Date
 }
 
+export interface SocialMediaAuthRequest {
+  state: string
+  codeChallenge?: string // PKCE S256 challenge
+  nonce?: string
+}
+
+export interface SocialMediaAuthCallback {
+  codeVerifier?: string // PKCE verifier matching the request's challenge
+  nonce?: string
+}
+
 export interface SocialMediaAuth {
   platform: SocialPlatform
   userId: string
@@ -69,20 +96,9 @@ export interface SocialMediaAuth {
   metadata?: Record<string, any>
 }
 
-export type SocialPlatform =
-  | 'FACEBOOK'
-  | 'INSTAGRAM'
-  | 'TWITTER'
-  | 'LINKEDIN'
-  | 'TIKTOK'
-  | 'SNAPCHAT'
-  | 'YOUTUBE'
-  | 'REDDIT'
-  | 'PINTEREST'
-  | 'TELEGRAM'
-  | 'DISCORD'
-  | 'MASTODON'
-  | 'BLUESKY'
+// Connectors are keyed by the Prisma `Platform` enum so that accounts, posts
+// and connectors all agree on the set of supported networks
+export type SocialPlatform = Platform
 
 export interface SocialMediaProvider {
   platform: SocialPlatform
@@ -98,6 +114,7 @@ export type SocialMediaFeature =
   | 'AUTH'
   | 'PROFILE'
   | 'POSTS'
+  | 'EDIT_POSTS'
   | 'COMMENTS'
   | 'LIKES'
   | 'FOLLOWERS'
@@ -117,6 +134,7 @@ export interface SocialMediaError extends Error {
   platform: SocialPlatform
   code: string
   status?: number
+  retryAfter?: number // in seconds, set on RATE_LIMIT_EXCEEDED
   details?: Record<string, any>
 }
 
@@ -126,6 +144,7 @@ export interface SocialMediaConfig {
   redirectUri: string
   scopes: string[]
   apiVersion?: string
+  instanceUrl?: string // Server for federated networks, e.g. a Mastodon instance
   timeout?: number
   retries?: number
   rateLimit?: {
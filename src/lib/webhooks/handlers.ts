@@ -0,0 +1,576 @@
+import crypto from 'crypto'
+import { Platform } from '@prisma/client'
+import { env } from '../env'
+import { WebhookEvent, WebhookHandler, WebhookRequest } from './index'
+
+// Twitch rejects replays older than ten minutes, and so do we
+const TWITCH_MAX_MESSAGE_AGE = 10 * 60 * 1000
+
+function hmac(algorithm: string, secret: string, payload: string): Buffer {
+  return crypto.createHmac(algorithm, secret).update(payload, 'utf8').digest()
+}
+
+// Compares a received signature against the expected one in constant time
+function signatureMatches(received: string | null, expected: string): boolean {
+  if (!received) return false
+  const a = Buffer.from(received)
+  const b = Buffer.from(expected)
+  return a.length === b.length && crypto.timingSafeEqual(a, b)
+}
+
+// Graph API payloads, reduced to the fields read here
+interface MetaWebhookBody {
+  entry?: MetaEntry[]
+}
+
+interface MetaEntry {
+  id: string
+  time?: number
+  changes?: MetaChange[]
+  messaging?: MetaMessagingItem[]
+}
+
+interface MetaMessagingItem {
+  sender: { id: string }
+  recipient: { id: string }
+  timestamp?: number
+  message?: { mid: string; text?: string; is_echo?: boolean }
+  delivery?: { mids?: string[]; watermark: number }
+  read?: { watermark: number }
+}
+
+interface MetaChange {
+  field: string
+  value?: MetaChangeValue
+}
+
+interface MetaChangeValue {
+  // Facebook Page feed
+  item?: string
+  verb?: string
+  post_id?: string
+  comment_id?: string
+  reaction_type?: string
+  message?: string
+  from?: { id: string; name?: string; username?: string }
+  created_time?: number
+  timestamp?: number
+  // Instagram and Threads
+  id?: string
+  text?: string
+  username?: string
+  media_id?: string
+  media?: { id: string }
+  root_post?: { id: string }
+  replied_to?: { id: string }
+  // WhatsApp
+  metadata?: { phone_number_id?: string }
+  contacts?: WhatsAppContact[]
+  messages?: WhatsAppMessage[]
+  statuses?: WhatsAppStatus[]
+}
+
+interface WhatsAppContact {
+  wa_id: string
+  profile?: { name?: string }
+}
+
+interface WhatsAppMessage {
+  id: string
+  from: string
+  timestamp: string
+  type: string
+  text?: { body: string }
+  // Media messages carry their text as a caption
+  image?: { caption?: string }
+  video?: { caption?: string }
+  document?: { caption?: string }
+}
+
+interface WhatsAppStatus {
+  id: string
+  status: string
+  recipient_id: string
+  timestamp: string
+}
+
+// X Account Activity API payload
+interface TwitterWebhookBody {
+  for_user_id?: string
+  tweet_create_events?: TwitterTweet[]
+  favorite_events?: TwitterFavorite[]
+  direct_message_events?: TwitterDirectMessage[]
+  tweet_delete_events?: TwitterTweetDeletion[]
+  users?: Record<string, { screen_name?: string }>
+}
+
+interface TwitterUser {
+  id_str: string
+  screen_name?: string
+}
+
+interface TwitterTweet {
+  id_str: string
+  text?: string
+  created_at?: string
+  user: TwitterUser
+  in_reply_to_status_id_str?: string | null
+  in_reply_to_user_id_str?: string | null
+}
+
+interface TwitterFavorite {
+  id: string
+  timestamp_ms?: string
+  user: TwitterUser
+  favorited_status?: { id_str: string }
+}
+
+interface TwitterDirectMessage {
+  id: string
+  type: string
+  created_timestamp?: string
+  message_create?: {
+    sender_id: string
+    message_data?: { text?: string }
+  }
+}
+
+interface TwitterTweetDeletion {
+  timestamp_ms?: string
+  status: { id: string; user_id: string }
+}
+
+// Twitch EventSub payload. Which event fields are set depends on the
+// subscription type.
+interface TwitchWebhookBody {
+  challenge?: string
+  subscription?: { type: string }
+  event?: TwitchEvent
+}
+
+interface TwitchEvent {
+  // user.whisper.message
+  whisper_id?: string
+  to_user_id?: string
+  from_user_id?: string
+  from_user_login?: string
+  whisper?: { text?: string }
+  // channel.chat.*
+  broadcaster_user_id?: string
+  message_id?: string
+  chatter_user_id?: string
+  chatter_user_login?: string
+  message?: {
+    text?: string
+    fragments?: Array<{ type: string; mention?: { user_id: string } }>
+  }
+}
+
+function fromUnixTime(value: number | string | undefined): Date {
+  const time = Number(value)
+  if (!Number.isFinite(time)) return new Date()
+  return new Date(time > 1e12 ? time : time * 1000)
+}
+
+/**
+ * Graph API webhooks shared by Facebook Pages, Instagram, Threads and the
+ * WhatsApp Cloud API. Payloads are signed with the Meta app secret in
+ * X-Hub-Signature-256; subscriptions are confirmed with a hub.challenge GET.
+ */
+function createMetaHandler(platform: Platform, getAppSecret: () => string): WebhookHandler {
+  return {
+    handleChallenge(req: WebhookRequest) {
+      if (
+        req.method !== 'GET' ||
+        req.query.get('hub.mode') !== 'subscribe' ||
+        req.query.get('hub.verify_token') !== env.META_WEBHOOK_VERIFY_TOKEN
+      ) {
+        return null
+      }
+      return req.query.get('hub.challenge') || ''
+    },
+
+    verifySignature(req: WebhookRequest) {
+      const expected = `sha256=${hmac('sha256', getAppSecret(), req.rawBody).toString('hex')}`
+      return signatureMatches(req.headers.get('x-hub-signature-256'), expected)
+    },
+
+    parseEvents(body: unknown) {
+      const events: WebhookEvent[] = []
+
+      for (const entry of (body as MetaWebhookBody)?.entry || []) {
+        for (const change of entry.changes || []) {
+          events.push(...parseMetaChange(platform, entry, change))
+        }
+
+        // Messenger and Instagram direct messages, and receipts for ours
+        for (const item of entry.messaging || []) {
+          if (item.delivery || item.read) {
+            events.push(...parseMetaReceipt(platform, entry, item))
+            continue
+          }
+          if (!item.message || item.message.is_echo) continue
+          events.push({
+            id: item.message.mid,
+            type: 'MESSAGE',
+            platform,
+            platformUserId: item.recipient.id || entry.id,
+            messageId: item.message.mid,
+            author: { id: item.sender.id },
+            content: item.message.text || '',
+            createdAt: fromUnixTime(item.timestamp),
+            raw: item,
+          })
+        }
+      }
+
+      return events
+    },
+  }
+}
+
+// Deliveries name the messages; a read only carries a watermark, meaning
+// everything sent to the person up to then was read
+function parseMetaReceipt(platform: Platform, entry: MetaEntry, item: MetaMessagingItem): WebhookEvent[] {
+  const receipt = {
+    type: 'MESSAGE_STATUS' as const,
+    platform,
+    platformUserId: String(item.recipient.id || entry.id),
+    author: { id: item.sender.id },
+    raw: item,
+  }
+
+  if (item.read) {
+    return [{
+      ...receipt,
+      id: `read:${item.sender.id}:${item.read.watermark}`,
+      deliveryStatus: 'READ',
+      createdAt: fromUnixTime(item.read.watermark),
+    }]
+  }
+  const delivery = item.delivery
+  if (!delivery) return []
+  return (delivery.mids || []).map((mid) => ({
+    ...receipt,
+    id: `delivery:${mid}`,
+    messageId: mid,
+    deliveryStatus: 'DELIVERED' as const,
+    createdAt: fromUnixTime(delivery.watermark),
+  }))
+}
+
+function parseMetaChange(platform: Platform, entry: MetaEntry, change: MetaChange): WebhookEvent[] {
+  const value: MetaChangeValue = change.value || {}
+  const platformUserId = String(entry.id)
+  const createdAt = fromUnixTime(value.created_time || value.timestamp || entry.time)
+
+  // WhatsApp delivers messages to the business phone number
+  if (platform === Platform.WHATSAPP) {
+    if (change.field !== 'messages') return []
+    const contacts = new Map(
+      (value.contacts || []).map((contact) => [contact.wa_id, contact])
+    )
+    const phoneNumberId = String(value.metadata?.phone_number_id || platformUserId)
+    const receipts: WebhookEvent[] = (value.statuses || [])
+      .filter((status) => status.status === 'delivered' || status.status === 'read')
+      .map((status) => ({
+        id: `${status.status}:${status.id}`,
+        type: 'MESSAGE_STATUS' as const,
+        platform,
+        platformUserId: phoneNumberId,
+        messageId: status.id,
+        author: { id: status.recipient_id },
+        deliveryStatus: status.status === 'read' ? 'READ' as const : 'DELIVERED' as const,
+        createdAt: fromUnixTime(status.timestamp),
+        raw: status,
+      }))
+
+    const messages: WebhookEvent[] = (value.messages || []).map((message) => ({
+      id: message.id,
+      type: 'MESSAGE' as const,
+      platform,
+      platformUserId: phoneNumberId,
+      messageId: message.id,
+      author: {
+        id: message.from,
+        username: contacts.get(message.from)?.profile?.name,
+      },
+      content:
+        message.text?.body ||
+        message.image?.caption ||
+        message.video?.caption ||
+        message.document?.caption ||
+        '',
+      createdAt: fromUnixTime(message.timestamp),
+      raw: message,
+    }))
+    return [...messages, ...receipts]
+  }
+
+  switch (change.field) {
+    // Facebook Page feed: comments, reactions and post removals
+    case 'feed': {
+      const author = value.from ? { id: value.from.id, username: value.from.name } : undefined
+      if (value.item === 'comment' && value.verb === 'add') {
+        return [{
+          id: `comment:${value.comment_id}`,
+          type: 'COMMENT',
+          platform,
+          platformUserId,
+          postId: value.post_id,
+          commentId: value.comment_id,
+          author,
+          content: value.message || '',
+          createdAt,
+          raw: value,
+        }]
+      }
+      if ((value.item === 'reaction' || value.item === 'like') && value.verb === 'add') {
+        return [{
+          id: `reaction:${value.post_id}:${value.comment_id || ''}:${value.from?.id}:${value.reaction_type || 'like'}`,
+          type: 'REACTION',
+          platform,
+          platformUserId,
+          postId: value.post_id,
+          commentId: value.comment_id,
+          author,
+          reaction: value.reaction_type || 'like',
+          createdAt,
+          raw: value,
+        }]
+      }
+      if (['status', 'post', 'photo', 'video'].includes(value.item || '') && value.verb === 'remove') {
+        return [{
+          id: `removed:${value.post_id}`,
+          type: 'POST_DELETED',
+          platform,
+          platformUserId,
+          postId: value.post_id,
+          createdAt,
+          raw: value,
+        }]
+      }
+      return []
+    }
+
+    // Instagram comments and Threads replies on the account's media
+    case 'comments':
+    case 'replies':
+      return [{
+        id: `comment:${value.id}`,
+        type: 'COMMENT',
+        platform,
+        platformUserId,
+        postId: value.media?.id || value.root_post?.id || value.replied_to?.id,
+        commentId: value.id,
+        author: value.from
+          ? { id: value.from.id, username: value.from.username }
+          : { id: value.username || '', username: value.username },
+        content: value.text || '',
+        createdAt,
+        raw: value,
+      }]
+
+    case 'mention':
+    case 'mentions':
+      return [{
+        id: `mention:${value.comment_id || value.media_id || value.post_id || value.id}`,
+        type: 'MENTION',
+        platform,
+        platformUserId,
+        postId: value.media_id || value.post_id || value.id,
+        commentId: value.comment_id,
+        author: value.username ? { id: value.username, username: value.username } : undefined,
+        content: value.text || value.message,
+        createdAt,
+        raw: value,
+      }]
+
+    default:
+      return []
+  }
+}
+
+/**
+ * X Account Activity API. The CRC check answers a GET with an HMAC of the
+ * crc_token, and deliveries are signed in X-Twitter-Webhooks-Signature, both
+ * with the app's consumer secret.
+ */
+const twitterHandler: WebhookHandler = {
+  handleChallenge(req: WebhookRequest) {
+    const crcToken = req.query.get('crc_token')
+    if (req.method !== 'GET' || !crcToken) return null
+
+    return {
+      response_token: `sha256=${hmac('sha256', env.TWITTER_API_SECRET, crcToken).toString('base64')}`,
+    }
+  },
+
+  verifySignature(req: WebhookRequest) {
+    const expected = `sha256=${hmac('sha256', env.TWITTER_API_SECRET, req.rawBody).toString('base64')}`
+    return signatureMatches(req.headers.get('x-twitter-webhooks-signature'), expected)
+  },
+
+  parseEvents(rawBody: unknown) {
+    const body = (rawBody || {}) as TwitterWebhookBody
+    const platform = Platform.TWITTER
+    const platformUserId = String(body.for_user_id || '')
+    const events: WebhookEvent[] = []
+
+    for (const tweet of body.tweet_create_events || []) {
+      // The account's own tweets are echoed back as well
+      if (tweet.user.id_str === platformUserId) continue
+      const isReply = !!tweet.in_reply_to_status_id_str && tweet.in_reply_to_user_id_str === platformUserId
+      events.push({
+        id: `tweet:${tweet.id_str}`,
+        type: isReply ? 'COMMENT' : 'MENTION',
+        platform,
+        platformUserId,
+        postId: isReply ? tweet.in_reply_to_status_id_str || undefined : tweet.id_str,
+        commentId: isReply ? tweet.id_str : undefined,
+        author: { id: tweet.user.id_str, username: tweet.user.screen_name },
+        content: tweet.text || '',
+        createdAt: tweet.created_at ? new Date(tweet.created_at) : new Date(),
+        raw: tweet,
+      })
+    }
+
+    for (const favorite of body.favorite_events || []) {
+      if (favorite.user.id_str === platformUserId) continue
+      events.push({
+        id: `favorite:${favorite.id}`,
+        type: 'REACTION',
+        platform,
+        platformUserId,
+        postId: favorite.favorited_status?.id_str,
+        author: { id: favorite.user.id_str, username: favorite.user.screen_name },
+        reaction: 'like',
+        createdAt: fromUnixTime(favorite.timestamp_ms),
+        raw: favorite,
+      })
+    }
+
+    for (const message of body.direct_message_events || []) {
+      const create = message.message_create
+      if (message.type !== 'message_create' || !create) continue
+      if (create.sender_id === platformUserId) continue
+      events.push({
+        id: `dm:${message.id}`,
+        type: 'MESSAGE',
+        platform,
+        platformUserId,
+        messageId: message.id,
+        author: {
+          id: create.sender_id,
+          username: body.users?.[create.sender_id]?.screen_name,
+        },
+        content: create.message_data?.text || '',
+        createdAt: fromUnixTime(message.created_timestamp),
+        raw: message,
+      })
+    }
+
+    for (const deleted of body.tweet_delete_events || []) {
+      if (String(deleted.status.user_id) !== platformUserId) continue
+      events.push({
+        id: `deleted:${deleted.status.id}`,
+        type: 'POST_DELETED',
+        platform,
+        platformUserId,
+        postId: String(deleted.status.id),
+        createdAt: fromUnixTime(deleted.timestamp_ms),
+        raw: deleted,
+      })
+    }
+
+    return events
+  },
+}
+
+/**
+ * Twitch EventSub. Messages are signed over id + timestamp + body with the
+ * secret given when subscribing; the subscription challenge arrives as a
+ * signed POST and is answered with the challenge string.
+ */
+const twitchHandler: WebhookHandler = {
+  handleChallenge(req: WebhookRequest, body?: unknown) {
+    if (req.headers.get('twitch-eventsub-message-type') !== 'webhook_callback_verification') {
+      return null
+    }
+    return (body as TwitchWebhookBody | undefined)?.challenge || ''
+  },
+
+  verifySignature(req: WebhookRequest) {
+    const messageId = req.headers.get('twitch-eventsub-message-id') || ''
+    const timestamp = req.headers.get('twitch-eventsub-message-timestamp') || ''
+    const sentAt = new Date(timestamp).getTime()
+    if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > TWITCH_MAX_MESSAGE_AGE) {
+      return false
+    }
+
+    const expected = `sha256=${hmac(
+      'sha256',
+      env.TWITCH_WEBHOOK_SECRET,
+      messageId + timestamp + req.rawBody
+    ).toString('hex')}`
+    return signatureMatches(req.headers.get('twitch-eventsub-message-signature'), expected)
+  },
+
+  parseEvents(rawBody: unknown, req: WebhookRequest) {
+    if (req.headers.get('twitch-eventsub-message-type') !== 'notification') {
+      return []
+    }
+
+    const body = (rawBody || {}) as TwitchWebhookBody
+    const event: TwitchEvent = body.event || {}
+    const messageId = req.headers.get('twitch-eventsub-message-id') || ''
+
+    switch (body.subscription?.type) {
+      case 'user.whisper.message':
+        return [{
+          id: `whisper:${event.whisper_id || messageId}`,
+          type: 'MESSAGE',
+          platform: Platform.TWITCH,
+          platformUserId: event.to_user_id || '',
+          messageId: event.whisper_id,
+          author: { id: event.from_user_id || '', username: event.from_user_login },
+          content: event.whisper?.text || '',
+          createdAt: new Date(req.headers.get('twitch-eventsub-message-timestamp') || Date.now()),
+          raw: event,
+        }]
+
+      case 'channel.chat.notification':
+      case 'channel.chat.message': {
+        // Only chat lines that mention the broadcaster are surfaced
+        const mentioned = (event.message?.fragments || []).some(
+          (fragment) => fragment.type === 'mention' && fragment.mention?.user_id === event.broadcaster_user_id
+        )
+        if (!mentioned) return []
+        return [{
+          id: `chat:${event.message_id || messageId}`,
+          type: 'MENTION',
+          platform: Platform.TWITCH,
+          platformUserId: event.broadcaster_user_id || '',
+          commentId: event.message_id,
+          author: { id: event.chatter_user_id || '', username: event.chatter_user_login },
+          content: event.message?.text || '',
+          createdAt: new Date(req.headers.get('twitch-eventsub-message-timestamp') || Date.now()),
+          raw: event,
+        }]
+      }
+
+      default:
+        return []
+    }
+  },
+}
+
+// Platforms without a push API (Mastodon, Bluesky, ...) stay on polling sync
+export const webhookHandlers: Partial<Record<Platform, WebhookHandler>> = {
+  [Platform.FACEBOOK]: createMetaHandler(Platform.FACEBOOK, () => env.FACEBOOK_APP_SECRET),
+  [Platform.INSTAGRAM]: createMetaHandler(Platform.INSTAGRAM, () => env.INSTAGRAM_APP_SECRET),
+  [Platform.THREADS]: createMetaHandler(Platform.THREADS, () => env.THREADS_API_SECRET),
+  [Platform.WHATSAPP]: createMetaHandler(Platform.WHATSAPP, () => env.FACEBOOK_APP_SECRET),
+  [Platform.TWITTER]: twitterHandler,
+  [Platform.TWITCH]: twitchHandler,
+}
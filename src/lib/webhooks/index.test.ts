@@ -0,0 +1,183 @@
+import crypto from 'crypto'
+import { Platform } from '@prisma/client'
+import { getWebhookHandler, ingestWebhookEvents, WebhookRequest } from './index'
+
+jest.mock('@prisma/client', () => {
+  class PrismaClientKnownRequestError extends Error {
+    constructor(message: string, public code: string) {
+      super(message)
+    }
+  }
+
+  return {
+    Prisma: { PrismaClientKnownRequestError },
+    Platform: { FACEBOOK: 'FACEBOOK', INSTAGRAM: 'INSTAGRAM', THREADS: 'THREADS', WHATSAPP: 'WHATSAPP', TWITTER: 'TWITTER', TWITCH: 'TWITCH' }
+  }
+})
+jest.mock('../db', () => ({
+  prisma: {
+    account: { findMany: jest.fn() },
+    webhookDelivery: { create: jest.fn(), delete: jest.fn() },
+    socialComment: { upsert: jest.fn() },
+    socialInteraction: { upsert: jest.fn() }
+  }
+}))
+jest.mock('../env', () => ({
+  env: {
+    FACEBOOK_APP_SECRET: 'facebook-secret',
+    INSTAGRAM_APP_SECRET: 'instagram-secret',
+    THREADS_API_SECRET: 'threads-secret',
+    TWITTER_API_SECRET: 'twitter-secret',
+    TWITCH_WEBHOOK_SECRET: 'twitch-secret',
+    META_WEBHOOK_VERIFY_TOKEN: 'verify-token'
+  }
+}))
+jest.mock('../crypto', () => ({ encrypt: async (text: string) => text }))
+jest.mock('../websocket', () => ({ getWebSocketService: () => ({ emitToUser: jest.fn() }) }))
+jest.mock('../social/team-inbox', () => ({ TeamInbox: { getInstance: jest.fn() } }))
+jest.mock('../messaging/unified-messenger', () => ({ getUnifiedMessenger: jest.fn() }))
+
+const { prisma: mockPrisma } = jest.requireMock('../db')
+
+function signedRequest(body: unknown, secret: string): WebhookRequest {
+  const rawBody = JSON.stringify(body)
+  const signature = crypto.createHmac('sha256', secret).update(rawBody).digest('hex')
+  return {
+    method: 'POST',
+    headers: new Headers({ 'x-hub-signature-256': `sha256=${signature}` }),
+    query: new URLSearchParams(),
+    rawBody
+  }
+}
+
+const pageComment = {
+  entry: [{
+    id: 'page-1',
+    time: 1735732800,
+    changes: [{
+      field: 'feed',
+      value: {
+        item: 'comment',
+        verb: 'add',
+        post_id: 'page-1_post-1',
+        comment_id: 'comment-1',
+        message: 'Nice!',
+        from: { id: 'fan-1', name: 'Fan' },
+        created_time: 1735732800
+      }
+    }]
+  }]
+}
+
+describe('webhook ingestion', () => {
+  const facebook = getWebhookHandler('FACEBOOK' as Platform)!
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.webhookDelivery.create.mockResolvedValue({ id: 'delivery-1' })
+  })
+
+  it('reads a signed Page comment', () => {
+    const req = signedRequest(pageComment, 'facebook-secret')
+
+    expect(facebook.verifySignature(req)).toBe(true)
+    expect(facebook.parseEvents(pageComment, req)).toEqual([
+      expect.objectContaining({
+        id: 'comment:comment-1',
+        type: 'COMMENT',
+        platformUserId: 'page-1',
+        postId: 'page-1_post-1',
+        commentId: 'comment-1',
+        author: { id: 'fan-1', username: 'Fan' },
+        content: 'Nice!',
+        createdAt: new Date('2025-01-01T12:00:00Z')
+      })
+    ])
+  })
+
+  it('refuses a payload signed with another secret', () => {
+    expect(facebook.verifySignature(signedRequest(pageComment, 'other-secret'))).toBe(false)
+  })
+
+  it('keeps a copy of a comment for every owner connected to the account', async () => {
+    mockPrisma.account.findMany.mockResolvedValue([
+      { id: 'acc-1', userId: 'owner-1' },
+      { id: 'acc-2', userId: 'owner-2' }
+    ])
+    const events = facebook.parseEvents(pageComment, signedRequest(pageComment, 'facebook-secret'))
+
+    await expect(ingestWebhookEvents(events)).resolves.toBe(1)
+
+    const keys = mockPrisma.socialComment.upsert.mock.calls.map(
+      ([args]: [{ where: Record<string, unknown> }]) => args.where.userId_platform_commentId
+    )
+    expect(keys).toEqual([
+      { userId: 'owner-1', platform: 'FACEBOOK', commentId: 'comment-1' },
+      { userId: 'owner-2', platform: 'FACEBOOK', commentId: 'comment-1' }
+    ])
+    expect(mockPrisma.socialComment.upsert.mock.calls[1][0].create).toMatchObject({
+      userId: 'owner-2',
+      metadata: { accountId: 'acc-2', eventId: 'comment:comment-1', source: 'webhook' }
+    })
+  })
+
+  it('stores a mention once per owner when the event is delivered again', async () => {
+    mockPrisma.account.findMany.mockResolvedValue([
+      { id: 'acc-1', userId: 'owner-1' },
+      { id: 'acc-2', userId: 'owner-2' }
+    ])
+    mockPrisma.socialInteraction.upsert
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('Connection lost'))
+    const mention = {
+      id: 'mention:post-9',
+      type: 'MENTION' as const,
+      platform: 'FACEBOOK' as Platform,
+      platformUserId: 'page-1',
+      postId: 'post-9',
+      createdAt: new Date('2025-01-01T12:00:00Z'),
+      raw: {}
+    }
+
+    await expect(ingestWebhookEvents([mention])).rejects.toThrow('Connection lost')
+    expect(mockPrisma.webhookDelivery.delete).toHaveBeenCalledWith({ where: { id: 'delivery-1' } })
+
+    await ingestWebhookEvents([mention])
+
+    const keys = mockPrisma.socialInteraction.upsert.mock.calls.map(
+      ([args]: [{ where: Record<string, unknown> }]) => args.where.platform_eventId_userId
+    )
+    expect(keys).toEqual([
+      { platform: 'FACEBOOK', eventId: 'mention:post-9', userId: 'owner-1' },
+      { platform: 'FACEBOOK', eventId: 'mention:post-9', userId: 'owner-2' },
+      { platform: 'FACEBOOK', eventId: 'mention:post-9', userId: 'owner-1' },
+      { platform: 'FACEBOOK', eventId: 'mention:post-9', userId: 'owner-2' }
+    ])
+    expect(mockPrisma.socialInteraction.upsert.mock.calls[2][0].update).toEqual({})
+  })
+
+  it('reads the caption of a WhatsApp media message', () => {
+    const body = {
+      entry: [{
+        id: 'waba-1',
+        changes: [{
+          field: 'messages',
+          value: {
+            metadata: { phone_number_id: 'phone-1' },
+            contacts: [{ wa_id: '15550001', profile: { name: 'Ana' } }],
+            messages: [{ id: 'wamid-1', from: '15550001', timestamp: '1735732800', type: 'image', image: { caption: 'Look' } }]
+          }
+        }]
+      }]
+    }
+
+    expect(getWebhookHandler('WHATSAPP' as Platform)!.parseEvents(body, signedRequest(body, 'facebook-secret'))).toEqual([
+      expect.objectContaining({
+        type: 'MESSAGE',
+        platformUserId: 'phone-1',
+        author: { id: '15550001', username: 'Ana' },
+        content: 'Look'
+      })
+    ])
+  })
+})
@@ -0,0 +1,269 @@
+import { Account, Platform, Prisma } from '@prisma/client'
+import { prisma } from '../db'
+import { encrypt } from '../crypto'
+import { getWebSocketService } from '../websocket'
+import { TeamInbox } from '../social/team-inbox'
+import { getUnifiedMessenger } from '../messaging/unified-messenger'
+import { webhookHandlers } from './handlers'
+
+export type WebhookEventType =
+  | 'COMMENT'
+  | 'MENTION'
+  | 'MESSAGE'
+  | 'MESSAGE_STATUS'
+  | 'REACTION'
+  | 'POST_DELETED'
+
+// A platform event normalized from a webhook payload
+export interface WebhookEvent {
+  id: string // unique per platform, used to drop redelivered events
+  type: WebhookEventType
+  platform: Platform
+  platformUserId: string // connected account the event is addressed to
+  postId?: string
+  commentId?: string
+  messageId?: string
+  author?: {
+    id: string
+    username?: string
+  }
+  content?: string
+  reaction?: string
+  deliveryStatus?: 'DELIVERED' | 'READ' // receipts for messages sent from the app
+  createdAt: Date
+  raw: unknown // the payload item the event was read from
+}
+
+export interface WebhookRequest {
+  method: string
+  headers: Headers
+  query: URLSearchParams
+  rawBody: string
+}
+
+export interface WebhookHandler {
+  // Returns the response to a subscription handshake, or null when the
+  // request is not one
+  handleChallenge?(req: WebhookRequest, body?: unknown): string | Record<string, string> | null
+  verifySignature(req: WebhookRequest): boolean
+  // `body` is the parsed JSON payload, not yet validated
+  parseEvents(body: unknown, req: WebhookRequest): WebhookEvent[]
+}
+
+export function getWebhookHandler(platform: Platform): WebhookHandler | undefined {
+  return webhookHandlers[platform]
+}
+
+// Stores each event for every connected account it is addressed to and
+// pushes it to the owners' sockets. Returns the number of events ingested.
+export async function ingestWebhookEvents(events: WebhookEvent[]): Promise<number> {
+  let ingested = 0
+  for (const event of events) {
+    if (await ingestWebhookEvent(event)) {
+      ingested++
+    }
+  }
+  return ingested
+}
+
+async function ingestWebhookEvent(event: WebhookEvent): Promise<boolean> {
+  const accounts = await prisma.account.findMany({
+    where: {
+      platform: event.platform,
+      platformUserId: event.platformUserId,
+    },
+  })
+  // Events for accounts nobody has connected are dropped
+  if (accounts.length === 0) return false
+
+  const delivery = await recordDelivery(event)
+  if (!delivery) return false
+
+  try {
+    for (const account of accounts) {
+      await storeEvent(account, event)
+    }
+  } catch (error) {
+    // Let the platform's retry deliver the event again
+    await prisma.webhookDelivery.delete({ where: { id: delivery.id } })
+    throw error
+  }
+
+  for (const account of accounts) {
+    notifyOwner(account, event)
+  }
+  return true
+}
+
+async function recordDelivery(event: WebhookEvent) {
+  try {
+    return await prisma.webhookDelivery.create({
+      data: {
+        platform: event.platform,
+        eventId: event.id,
+        type: event.type,
+      },
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null
+    }
+    throw error
+  }
+}
+
+// What is stored along with every event
+type EventMetadata = {
+  accountId: string
+  eventId: string
+  author?: WebhookEvent['author']
+  source: 'webhook'
+}
+
+async function storeEvent(account: Account, event: WebhookEvent): Promise<void> {
+  const metadata: EventMetadata = {
+    accountId: account.id,
+    eventId: event.id,
+    author: event.author,
+    source: 'webhook',
+  }
+
+  switch (event.type) {
+    case 'COMMENT':
+      // Every owner connected to the account keeps their own copy
+      await prisma.socialComment.upsert({
+        where: {
+          userId_platform_commentId: {
+            userId: account.userId,
+            platform: event.platform,
+            commentId: event.commentId as string,
+          },
+        },
+        update: {
+          content: event.content || '',
+        },
+        create: {
+          platform: event.platform,
+          commentId: event.commentId as string,
+          postId: event.postId || '',
+          userId: account.userId,
+          content: event.content || '',
+          createdAt: event.createdAt,
+          metadata,
+        },
+      })
+      break
+
+    case 'MESSAGE': {
+      const message = await prisma.message.upsert({
+        where: {
+          accountId_platformMessageId: {
+            accountId: account.id,
+            platformMessageId: event.messageId as string,
+          },
+        },
+        update: {},
+        create: {
+          externalSenderId: event.author?.id,
+          receiverId: account.userId,
+          platform: event.platform,
+          accountId: account.id,
+          platformMessageId: event.messageId,
+          content: await encrypt(event.content || ''),
+          metadata,
+          createdAt: event.createdAt,
+        },
+      })
+      await TeamInbox.getInstance().addMessage(message)
+      break
+    }
+
+    case 'MESSAGE_STATUS':
+      // Without a message id the receipt covers everything sent to the
+      // author up to its time
+      await getUnifiedMessenger().recordReceipt(account.id, event.deliveryStatus as 'DELIVERED' | 'READ', {
+        platformMessageId: event.messageId,
+        recipientId: event.author?.id,
+        at: event.createdAt,
+      })
+      break
+
+    case 'POST_DELETED':
+      // Posts published from the app are no longer live
+      await prisma.post.updateMany({
+        where: {
+          accountId: account.id,
+          platformPostId: event.postId,
+        },
+        data: { isPublished: false },
+      })
+      await createInteraction(account, event, metadata)
+      break
+
+    case 'MENTION':
+    case 'REACTION':
+      await createInteraction(account, event, metadata)
+      break
+  }
+}
+
+async function createInteraction(
+  account: Account,
+  event: WebhookEvent,
+  metadata: EventMetadata
+): Promise<void> {
+  // A redelivered event finds the interaction it stored before
+  await prisma.socialInteraction.upsert({
+    where: {
+      platform_eventId_userId: {
+        platform: event.platform,
+        eventId: event.id,
+        userId: account.userId,
+      },
+    },
+    update: {},
+    create: {
+      platform: event.platform,
+      eventId: event.id,
+      userId: account.userId,
+      targetId: event.commentId || event.postId || '',
+      targetType: event.commentId ? 'comment' : 'post',
+      type: event.type,
+      metadata: {
+        ...metadata,
+        content: event.content,
+        reaction: event.reaction,
+        occurredAt: event.createdAt.toISOString(),
+      },
+    },
+  })
+}
+
+const SOCKET_EVENTS: Record<Exclude<WebhookEventType, 'MESSAGE_STATUS'>, string> = {
+  COMMENT: 'new_comment',
+  MENTION: 'new_mention',
+  MESSAGE: 'new_message',
+  REACTION: 'new_reaction',
+  POST_DELETED: 'post_deleted',
+}
+
+function notifyOwner(account: Account, event: WebhookEvent): void {
+  // The messenger reports receipts to the sender of the message
+  if (event.type === 'MESSAGE_STATUS') return
+
+  try {
+    getWebSocketService().emitToUser(account.userId, SOCKET_EVENTS[event.type], {
+      platform: event.platform,
+      accountId: account.id,
+      postId: event.postId,
+      commentId: event.commentId,
+      messageId: event.messageId,
+      author: event.author,
+      content: event.content,
+      reaction: event.reaction,
+      timestamp: event.createdAt,
+    })
+  } catch {
+    // No socket server in this process; clients pick the rows up on refresh
+  }
+}
@@ -2,6 +2,7 @@ import { Server } from 'socket.io'
 import { Server as HTTPServer } from 'http'
 import { auth } from './auth'
 import { prisma } from './db'
+import { getPlatformAnalytics } from './platforms'
 
 export interface SocketUser {
   userId: string
@@ -146,7 +147,7 @@ export class WebSocketService {
   }
 
   private async handlePostCreated(socket: any, data: any): Promise<void> {
-    const { postId, platform } = data
+    const { platform } = data
     const user = socket.data.user
 
     // Store post in database
@@ -246,46 +247,39 @@ export class WebSocketService {
     })
   }
 
+  // Clients only ask for a refresh; the counts always come from the platform
   private async handleAnalyticsUpdate(socket: any, data: any): Promise<void> {
-    const { postId, platform, analytics } = data
+    const { postId } = data
     const user = socket.data.user
 
-    // Store analytics in database
-    await prisma.analytics.create({
-      data: {
-        postId,
-        platform,
-        ...analytics,
-      },
-    })
-
-    // Emit to post owner
-    const post = await prisma.post.findUnique({
-      where: { id: postId },
-      select: { userId: true },
-    })
-
-    if (post && post.userId === user.id) {
-      socket.emit('analytics_updated', {
+    let analytics
+    try {
+      // Only finds the user's own posts
+      analytics = await getPlatformAnalytics(user.id, postId)
+    } catch (error) {
+      socket.emit('analytics_error', {
         postId,
-        platform,
-        analytics,
-        timestamp: new Date(),
+        error: error instanceof Error ? error.message : 'Analytics update failed',
       })
+      return
     }
+
+    socket.emit('analytics_updated', {
+      postId,
+      analytics,
+      timestamp: new Date(),
+    })
   }
 
   private async handlePlatformStatus(socket: any, data: any): Promise<void> {
-    const { platform, status } = data
+    const { platform, accountId, status } = data
     const user = socket.data.user
 
     // Update platform status in database
-    await prisma.account.update({
+    await prisma.account.updateMany({
       where: {
-        userId_platform: {
-          userId: user.id,
-          platform,
-        },
+        id: accountId,
+        userId: user.id,
       },
       data: {
         status,
@@ -296,6 +290,7 @@ export class WebSocketService {
     // Emit to platform-specific room
     this.io.to(`platform:${platform}`).emit('platform_status_changed', {
       platform,
+      accountId,
       status,
       userId: user.id,
       timestamp: new Date(),
@@ -0,0 +1,153 @@
+import {
+  checkRecordAccess,
+  getMemberAccountRole,
+  getWorkspaceScope,
+  Membership,
+  requireAccountPermission
+} from './access'
+import { WorkspaceAccessError } from './permissions'
+
+jest.mock('@prisma/client', () => ({
+  WorkspaceRole: { OWNER: 'OWNER', ADMIN: 'ADMIN', EDITOR: 'EDITOR', CONTRIBUTOR: 'CONTRIBUTOR', VIEWER: 'VIEWER' }
+}))
+jest.mock('../db', () => ({
+  prisma: {
+    workspaceMember: { findUnique: jest.fn() },
+    account: { findUnique: jest.fn(), findMany: jest.fn() }
+  }
+}))
+
+const { prisma: mockPrisma } = jest.requireMock('../db')
+
+function member(changes: Partial<Membership> = {}): Membership {
+  return {
+    workspaceId: 'ws-1',
+    userId: 'user-1',
+    role: 'EDITOR',
+    allAccounts: true,
+    grants: [],
+    ...changes
+  } as Membership
+}
+
+function grant(accountId: string, role: string) {
+  return { accountId, role } as Membership['grants'][number]
+}
+
+describe('workspace access', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.account.findMany.mockResolvedValue([{ id: 'acc-1' }, { id: 'acc-2' }, { id: 'acc-3' }])
+  })
+
+  describe('getMemberAccountRole', () => {
+    it('lets a grant replace the workspace role on its account, up or down', () => {
+      const membership = member({ grants: [grant('acc-1', 'VIEWER'), grant('acc-2', 'ADMIN')] })
+
+      expect(getMemberAccountRole(membership, 'acc-1')).toBe('VIEWER')
+      expect(getMemberAccountRole(membership, 'acc-2')).toBe('ADMIN')
+      expect(getMemberAccountRole(membership, 'acc-3')).toBe('EDITOR')
+    })
+
+    it('gives limited members no role on accounts they were not granted', () => {
+      const membership = member({ allAccounts: false, grants: [grant('acc-1', 'EDITOR')] })
+
+      expect(getMemberAccountRole(membership, 'acc-1')).toBe('EDITOR')
+      expect(getMemberAccountRole(membership, 'acc-2')).toBeNull()
+      expect(getMemberAccountRole(member({ role: 'OWNER', allAccounts: false }), 'acc-2')).toBe('OWNER')
+    })
+  })
+
+  describe('getWorkspaceScope', () => {
+    it('is the personal scope without a workspace', async () => {
+      await expect(getWorkspaceScope('user-1')).resolves.toEqual({
+        userId: 'user-1',
+        workspaceId: null,
+        role: 'OWNER',
+        where: { userId: 'user-1', workspaceId: null },
+        accountIds: null
+      })
+      expect(mockPrisma.workspaceMember.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('covers every account when the member\'s role allows the permission on all of them', async () => {
+      mockPrisma.workspaceMember.findUnique.mockResolvedValue(member())
+
+      const scope = await getWorkspaceScope('user-1', 'ws-1', 'posts:publish')
+
+      expect(scope).toMatchObject({ workspaceId: 'ws-1', role: 'EDITOR', where: { workspaceId: 'ws-1' } })
+      expect(scope.accountIds).toBeNull()
+    })
+
+    it('lists the accounts a limited member may act on', async () => {
+      mockPrisma.workspaceMember.findUnique.mockResolvedValue(
+        member({ allAccounts: false, grants: [grant('acc-1', 'EDITOR'), grant('acc-2', 'VIEWER')] })
+      )
+
+      const publish = await getWorkspaceScope('user-1', 'ws-1', 'posts:publish')
+      const view = await getWorkspaceScope('user-1', 'ws-1', 'content:view')
+
+      expect(Array.from(publish.accountIds!)).toEqual(['acc-1'])
+      expect(Array.from(view.accountIds!)).toEqual(['acc-1', 'acc-2'])
+    })
+
+    it('reports a workspace the user is not a member of as not found', async () => {
+      mockPrisma.workspaceMember.findUnique.mockResolvedValue(null)
+
+      await expect(getWorkspaceScope('user-1', 'ws-1')).rejects.toThrow('Workspace ws-1 not found')
+    })
+  })
+
+  describe('checkRecordAccess', () => {
+    const record = { userId: 'owner-1', workspaceId: 'ws-1' }
+
+    it('only lets the owner at a personal record', async () => {
+      await expect(checkRecordAccess('owner-1', { userId: 'owner-1', workspaceId: null }, 'posts:publish')).resolves.toBe(true)
+      await expect(checkRecordAccess('user-1', { userId: 'owner-1', workspaceId: null }, 'content:view')).resolves.toBe(false)
+    })
+
+    it('hides records from non-members and on accounts a limited member was not granted', async () => {
+      mockPrisma.workspaceMember.findUnique.mockResolvedValueOnce(null)
+      await expect(checkRecordAccess('user-1', record, 'content:view')).resolves.toBe(false)
+
+      mockPrisma.workspaceMember.findUnique.mockResolvedValueOnce(member({ allAccounts: false, grants: [grant('acc-1', 'EDITOR')] }))
+      await expect(checkRecordAccess('user-1', record, 'content:view', ['acc-1', 'acc-2'])).resolves.toBe(false)
+    })
+
+    it('refuses a member who can see the record but whose role falls short', async () => {
+      mockPrisma.workspaceMember.findUnique.mockResolvedValue(member({ grants: [grant('acc-2', 'VIEWER')] }))
+
+      await expect(checkRecordAccess('user-1', record, 'posts:publish', ['acc-1'])).resolves.toBe(true)
+      await expect(checkRecordAccess('user-1', record, 'posts:publish', ['acc-1', 'acc-2'])).rejects.toThrow(
+        WorkspaceAccessError
+      )
+    })
+  })
+
+  describe('requireAccountPermission', () => {
+    it('returns a personal account to its owner only', async () => {
+      const account = { id: 'acc-1', userId: 'owner-1', workspaceId: null }
+      mockPrisma.account.findUnique.mockResolvedValue(account)
+
+      await expect(requireAccountPermission('owner-1', 'acc-1', 'accounts:manage')).resolves.toBe(account)
+      await expect(requireAccountPermission('user-1', 'acc-1', 'content:view')).rejects.toThrow('Account acc-1 not found')
+    })
+
+    it('checks the member\'s role on the workspace account', async () => {
+      mockPrisma.account.findUnique.mockResolvedValue({ id: 'acc-1', userId: 'owner-1', workspaceId: 'ws-1' })
+      mockPrisma.workspaceMember.findUnique.mockResolvedValue(member({ role: 'CONTRIBUTOR' }))
+
+      await expect(requireAccountPermission('user-1', 'acc-1', 'posts:draft')).resolves.toMatchObject({ id: 'acc-1' })
+      await expect(requireAccountPermission('user-1', 'acc-1', 'posts:publish')).rejects.toMatchObject({
+        status: 403,
+        permission: 'posts:publish'
+      })
+    })
+
+    it('reports an account that does not exist as not found', async () => {
+      mockPrisma.account.findUnique.mockResolvedValue(null)
+
+      await expect(requireAccountPermission('user-1', 'acc-9', 'content:view')).rejects.toThrow('Account acc-9 not found')
+    })
+  })
+})
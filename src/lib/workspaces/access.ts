@@ -0,0 +1,206 @@
+import { Account, Platform, WorkspaceAccountGrant, WorkspaceMember, WorkspaceRole } from '@prisma/client'
+import { prisma } from '../db'
+import { WorkspaceAccessError, WorkspacePermission, roleCan } from './permissions'
+
+export type { WorkspacePermission }
+
+export type Membership = WorkspaceMember & { grants: WorkspaceAccountGrant[] }
+
+// The records a request works on: the user's personal ones, or one
+// workspace's. `where` narrows queries on any model with userId and
+// workspaceId columns.
+export interface WorkspaceScope {
+  userId: string
+  workspaceId: string | null
+  role: WorkspaceRole // OWNER of the personal scope
+  where: { userId: string; workspaceId: null } | { workspaceId: string }
+  // Accounts the user holds the scope's permission on, or null for all of
+  // them. Set for limited members and members with account grants.
+  accountIds: Set<string> | null
+}
+
+export async function getMembership(userId: string, workspaceId: string): Promise<Membership | null> {
+  return prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: { workspaceId, userId },
+    },
+    include: { grants: true },
+  })
+}
+
+// Workspaces the user is not a member of are reported as not found
+export async function requireWorkspacePermission(
+  userId: string,
+  workspaceId: string,
+  permission: WorkspacePermission
+): Promise<Membership> {
+  const membership = await getMembership(userId, workspaceId)
+  if (!membership) {
+    throw new Error(`Workspace ${workspaceId} not found`)
+  }
+  if (!roleCan(membership.role, permission)) {
+    throw new WorkspaceAccessError(permission)
+  }
+  return membership
+}
+
+// A grant replaces the member's workspace role on its account; limited
+// members have no role on accounts they were not granted
+export function getMemberAccountRole(membership: Membership, accountId: string): WorkspaceRole | null {
+  if (membership.role === WorkspaceRole.OWNER) return WorkspaceRole.OWNER
+
+  const grant = membership.grants.find((item) => item.accountId === accountId)
+  if (grant) return grant.role
+  return membership.allAccounts ? membership.role : null
+}
+
+export async function getAccountRole(
+  userId: string,
+  account: Pick<Account, 'id' | 'userId' | 'workspaceId'>
+): Promise<WorkspaceRole | null> {
+  if (!account.workspaceId) {
+    return account.userId === userId ? WorkspaceRole.OWNER : null
+  }
+
+  const membership = await getMembership(userId, account.workspaceId)
+  return membership ? getMemberAccountRole(membership, account.id) : null
+}
+
+export async function requireAccountPermission(
+  userId: string,
+  accountId: string,
+  permission: WorkspacePermission
+): Promise<Account> {
+  const account = await prisma.account.findUnique({
+    where: { id: accountId },
+  })
+  const role = account ? await getAccountRole(userId, account) : null
+
+  if (!account || !role) {
+    throw new Error(`Account ${accountId} not found`)
+  }
+  if (!roleCan(role, permission)) {
+    throw new WorkspaceAccessError(permission, `Your role on account ${accountId} does not allow ${permission}`)
+  }
+  return account
+}
+
+/**
+ * Resolves the scope of a request. Without a workspace it is the user's
+ * personal scope; in a workspace any member may read, and `accountIds` lists
+ * the accounts their role or grants allow `permission` on.
+ */
+export async function getWorkspaceScope(
+  userId: string,
+  workspaceId?: string | null,
+  permission: WorkspacePermission = 'content:view'
+): Promise<WorkspaceScope> {
+  if (!workspaceId) {
+    return {
+      userId,
+      workspaceId: null,
+      role: WorkspaceRole.OWNER,
+      where: { userId, workspaceId: null },
+      accountIds: null,
+    }
+  }
+
+  const membership = await requireWorkspacePermission(userId, workspaceId, 'content:view')
+  const uniform =
+    membership.role === WorkspaceRole.OWNER ||
+    (membership.allAccounts && membership.grants.length === 0 && roleCan(membership.role, permission))
+
+  let accountIds: Set<string> | null = null
+  if (!uniform) {
+    const accounts = await prisma.account.findMany({
+      where: { workspaceId },
+      select: { id: true },
+    })
+    accountIds = new Set(
+      accounts
+        .map((account) => account.id)
+        .filter((id) => {
+          const role = getMemberAccountRole(membership, id)
+          return role !== null && roleCan(role, permission)
+        })
+    )
+  }
+
+  return {
+    userId,
+    workspaceId,
+    role: membership.role,
+    where: { workspaceId },
+    accountIds,
+  }
+}
+
+// Whether every account a record targets is within the scope
+export function inScope(scope: WorkspaceScope, accountIds: Array<string | null>): boolean {
+  const allowed = scope.accountIds
+  return !allowed || accountIds.every((id) => id !== null && allowed.has(id))
+}
+
+/**
+ * Checks the user may act on a record kept for a user or a workspace.
+ * Returns false when they cannot see it at all, so callers report it as not
+ * found, and throws when they can see it but their role falls short. Records
+ * tied to accounts are checked against the user's role on each of them.
+ */
+export async function checkRecordAccess(
+  userId: string,
+  record: { userId: string; workspaceId: string | null },
+  permission: WorkspacePermission,
+  accountIds: Array<string | null> = []
+): Promise<boolean> {
+  if (!record.workspaceId) {
+    return record.userId === userId
+  }
+
+  const membership = await getMembership(userId, record.workspaceId)
+  if (!membership) return false
+
+  const roles = accountIds.length > 0
+    ? accountIds.map((id) => (id ? getMemberAccountRole(membership, id) : membership.role))
+    : [membership.role]
+  if (roles.some((role) => role === null)) return false
+
+  if (!roles.every((role) => roleCan(role as WorkspaceRole, permission))) {
+    throw new WorkspaceAccessError(permission)
+  }
+  return true
+}
+
+// Connected accounts in the scope that the user holds `permission` on,
+// oldest first
+export async function getAccessibleAccounts(
+  userId: string,
+  permission: WorkspacePermission,
+  filter: {
+    workspaceId?: string | null
+    platform?: Platform
+    accountIds?: string[]
+  } = {}
+): Promise<Account[]> {
+  const scope = await getWorkspaceScope(userId, filter.workspaceId, permission)
+  const accounts = await prisma.account.findMany({
+    where: {
+      ...scope.where,
+      platform: filter.platform,
+      ...(filter.accountIds ? { id: { in: filter.accountIds } } : {}),
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+  })
+  return accounts.filter((account) => inScope(scope, [account.id]))
+}
+
+// The workspace records published through these accounts belong to
+export function getSharedWorkspaceId(accounts: Array<Pick<Account, 'id' | 'workspaceId'>>): string | null {
+  const workspaceIds = new Set(accounts.map((account) => account.workspaceId))
+  if (workspaceIds.size > 1) {
+    throw new Error('Accounts from different workspaces cannot be combined')
+  }
+  return accounts[0]?.workspaceId ?? null
+}
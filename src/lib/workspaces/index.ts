@@ -0,0 +1,402 @@
+import { createHash } from 'crypto'
+import {
+  Account,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceRole,
+} from '@prisma/client'
+import { prisma } from '../db'
+import { email } from '../email'
+import { env } from '../env'
+import { generateSecureToken } from '../crypto'
+import { Membership, getMembership, requireWorkspacePermission } from './access'
+import { WorkspaceAccessError, canAssignRole, outranks } from './permissions'
+
+export * from './access'
+export * from './permissions'
+
+const INVITATION_TTL = 7 * 24 * 60 * 60 * 1000 // 7 days
+
+export interface AccountGrantInput {
+  accountId: string
+  role: WorkspaceRole
+}
+
+export interface InvitationInput {
+  email: string
+  role: WorkspaceRole
+  allAccounts?: boolean
+  grants?: AccountGrantInput[]
+}
+
+export interface MemberAccessInput {
+  allAccounts: boolean
+  grants: AccountGrantInput[]
+}
+
+export type WorkspaceSummary = Workspace & { role: WorkspaceRole }
+
+export type WorkspaceDetails = Workspace & { members: Membership[] }
+
+function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function getInvitationUrl(token: string): string {
+  return `${env.NEXT_PUBLIC_APP_URL}/invitations/${token}`
+}
+
+export async function createWorkspace(userId: string, name: string): Promise<Workspace> {
+  if (!name.trim()) {
+    throw new Error('Workspace name is required')
+  }
+
+  return prisma.workspace.create({
+    data: {
+      name: name.trim(),
+      createdById: userId,
+      members: {
+        create: { userId, role: WorkspaceRole.OWNER },
+      },
+    },
+  })
+}
+
+export async function getWorkspaces(userId: string): Promise<WorkspaceSummary[]> {
+  const memberships = await prisma.workspaceMember.findMany({
+    where: { userId },
+    include: { workspace: true },
+    orderBy: { createdAt: 'asc' },
+  })
+  return memberships.map((membership) => ({ ...membership.workspace, role: membership.role }))
+}
+
+export async function getWorkspace(userId: string, workspaceId: string): Promise<WorkspaceDetails> {
+  await requireWorkspacePermission(userId, workspaceId, 'content:view')
+  return prisma.workspace.findUniqueOrThrow({
+    where: { id: workspaceId },
+    include: {
+      members: {
+        include: { grants: true },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  })
+}
+
+export async function renameWorkspace(userId: string, workspaceId: string, name: string): Promise<Workspace> {
+  await requireWorkspacePermission(userId, workspaceId, 'workspace:manage')
+  if (!name.trim()) {
+    throw new Error('Workspace name is required')
+  }
+
+  return prisma.workspace.update({
+    where: { id: workspaceId },
+    data: { name: name.trim() },
+  })
+}
+
+// Accounts go back to whoever connected them, and posts and schedules to
+// whoever made them
+export async function deleteWorkspace(userId: string, workspaceId: string): Promise<boolean> {
+  await requireWorkspacePermission(userId, workspaceId, 'workspace:manage')
+
+  const detach = { where: { workspaceId }, data: { workspaceId: null } }
+  await prisma.$transaction([
+    prisma.crossPlatformPublish.updateMany(detach),
+    prisma.crossPlatformPost.updateMany(detach),
+    prisma.scheduledPost.updateMany(detach),
+    prisma.calendarEntry.updateMany(detach),
+    prisma.calendarSlot.updateMany(detach),
+    prisma.postQueue.updateMany(detach),
+    prisma.workspace.delete({ where: { id: workspaceId } }),
+  ])
+  return true
+}
+
+/**
+ * Invites someone by email. The token is only returned here: it is mailed
+ * to the invitee and can be shared by hand. Invitations and grants can only
+ * give roles below the inviter's own.
+ */
+export async function inviteMember(
+  userId: string,
+  workspaceId: string,
+  input: InvitationInput
+): Promise<{ invitation: WorkspaceInvitation; token: string }> {
+  const membership = await requireWorkspacePermission(userId, workspaceId, 'members:manage')
+  const address = input.email.trim().toLowerCase()
+  if (!address.includes('@')) {
+    throw new Error('A valid email address is required')
+  }
+  if (!canAssignRole(membership.role, input.role)) {
+    throw new WorkspaceAccessError('members:manage', `You cannot invite members as ${input.role}`)
+  }
+  await validateGrants(membership, workspaceId, input.grants || [])
+
+  const invitee = await prisma.user.findUnique({
+    where: { email: address },
+    select: { id: true },
+  })
+  if (invitee && (await getMembership(invitee.id, workspaceId))) {
+    throw new Error(`${address} is already a member of this workspace`)
+  }
+
+  const token = generateSecureToken(24)
+  const invitation = await prisma.workspaceInvitation.create({
+    data: {
+      workspaceId,
+      email: address,
+      role: input.role,
+      allAccounts: input.allAccounts ?? true,
+      grants: input.grants?.map((grant) => ({ accountId: grant.accountId, role: grant.role })),
+      tokenHash: hashInvitationToken(token),
+      invitedById: userId,
+      expiresAt: new Date(Date.now() + INVITATION_TTL),
+    },
+    include: { workspace: true },
+  })
+
+  try {
+    await email.sendNotificationEmail(
+      address,
+      `You're invited to ${invitation.workspace.name}`,
+      `You have been invited to join the ${invitation.workspace.name} workspace as ${input.role.toLowerCase()}.`,
+      getInvitationUrl(token)
+    )
+  } catch (error) {
+    // The inviter still gets the token to share the link themselves
+    console.error(`Error sending workspace invitation ${invitation.id}:`, error)
+  }
+
+  const stored: WorkspaceInvitation & { workspace?: unknown } = { ...invitation }
+  delete stored.workspace
+  return { invitation: stored, token }
+}
+
+export async function getInvitations(userId: string, workspaceId: string): Promise<WorkspaceInvitation[]> {
+  await requireWorkspacePermission(userId, workspaceId, 'members:manage')
+  return prisma.workspaceInvitation.findMany({
+    where: {
+      workspaceId,
+      acceptedAt: null,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+export async function revokeInvitation(userId: string, invitationId: string): Promise<boolean> {
+  const invitation = await prisma.workspaceInvitation.findUnique({
+    where: { id: invitationId },
+  })
+  if (!invitation) return false
+  await requireWorkspacePermission(userId, invitation.workspaceId, 'members:manage')
+
+  const { count } = await prisma.workspaceInvitation.updateMany({
+    where: { id: invitationId, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+  return count > 0
+}
+
+// Invitations are single use and only for the address they were sent to
+export async function acceptInvitation(userId: string, token: string): Promise<Membership> {
+  const invitation = await prisma.workspaceInvitation.findUnique({
+    where: { tokenHash: hashInvitationToken(token) },
+  })
+  const now = new Date()
+  if (!invitation || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt < now) {
+    throw new Error('This invitation is invalid or has expired')
+  }
+
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { email: true },
+  })
+  if (user.email.toLowerCase() !== invitation.email) {
+    throw new Error('This invitation was sent to a different email address')
+  }
+
+  const { count } = await prisma.workspaceInvitation.updateMany({
+    where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+    data: { acceptedAt: now, acceptedById: userId },
+  })
+  if (count === 0) {
+    throw new Error('This invitation is invalid or has expired')
+  }
+
+  const existing = await getMembership(userId, invitation.workspaceId)
+  if (existing) return existing
+
+  // Accounts moved out of the workspace since the invitation lose their grant
+  const grants = (invitation.grants as AccountGrantInput[] | null) || []
+  const accounts = await prisma.account.findMany({
+    where: {
+      id: { in: grants.map((grant) => grant.accountId) },
+      workspaceId: invitation.workspaceId,
+    },
+    select: { id: true },
+  })
+  const inWorkspace = new Set(accounts.map((account) => account.id))
+
+  return prisma.workspaceMember.create({
+    data: {
+      workspaceId: invitation.workspaceId,
+      userId,
+      role: invitation.role,
+      allAccounts: invitation.allAccounts,
+      grants: {
+        create: grants
+          .filter((grant) => inWorkspace.has(grant.accountId))
+          .map((grant) => ({ accountId: grant.accountId, role: grant.role })),
+      },
+    },
+    include: { grants: true },
+  })
+}
+
+export async function updateMemberRole(
+  userId: string,
+  workspaceId: string,
+  memberUserId: string,
+  role: WorkspaceRole
+): Promise<Membership> {
+  const { member } = await getManagedMember(userId, workspaceId, memberUserId, role)
+  return prisma.workspaceMember.update({
+    where: { id: member.id },
+    data: { role },
+    include: { grants: true },
+  })
+}
+
+// Members may always leave; removing someone else takes a higher role
+export async function removeMember(userId: string, workspaceId: string, memberUserId: string): Promise<boolean> {
+  if (memberUserId === userId) {
+    const membership = await getMembership(userId, workspaceId)
+    if (!membership) return false
+    if (membership.role === WorkspaceRole.OWNER) {
+      throw new Error('The owner cannot leave the workspace')
+    }
+    await prisma.workspaceMember.delete({ where: { id: membership.id } })
+    return true
+  }
+
+  const { member } = await getManagedMember(userId, workspaceId, memberUserId)
+  await prisma.workspaceMember.delete({ where: { id: member.id } })
+  return true
+}
+
+/**
+ * Sets which accounts a member works on. With `allAccounts` off the member
+ * only reaches the granted accounts; grants also set the member's role on
+ * their account, raising or lowering it from the workspace role.
+ */
+export async function setMemberAccess(
+  userId: string,
+  workspaceId: string,
+  memberUserId: string,
+  input: MemberAccessInput
+): Promise<Membership> {
+  const { actor, member } = await getManagedMember(userId, workspaceId, memberUserId)
+  await validateGrants(actor, workspaceId, input.grants)
+
+  await prisma.$transaction([
+    prisma.workspaceAccountGrant.deleteMany({ where: { memberId: member.id } }),
+    prisma.workspaceMember.update({
+      where: { id: member.id },
+      data: {
+        allAccounts: input.allAccounts,
+        grants: {
+          create: input.grants.map((grant) => ({ accountId: grant.accountId, role: grant.role })),
+        },
+      },
+    }),
+  ])
+  return (await getMembership(memberUserId, workspaceId)) as Membership
+}
+
+/**
+ * Moves a connected account into a workspace, or back out to whoever
+ * connected it when `workspaceId` is null. Managing accounts is required on
+ * both sides; grants on the account do not follow it.
+ */
+export async function moveAccount(
+  userId: string,
+  accountId: string,
+  workspaceId: string | null
+): Promise<Account> {
+  const account = await prisma.account.findUnique({
+    where: { id: accountId },
+  })
+  if (!account || (!account.workspaceId && account.userId !== userId)) {
+    throw new Error(`Account ${accountId} not found`)
+  }
+  if (account.workspaceId === workspaceId) return account
+
+  if (account.workspaceId) {
+    await requireWorkspacePermission(userId, account.workspaceId, 'accounts:manage')
+  }
+  if (workspaceId) {
+    await requireWorkspacePermission(userId, workspaceId, 'accounts:manage')
+  }
+
+  const [, moved] = await prisma.$transaction([
+    prisma.workspaceAccountGrant.deleteMany({ where: { accountId } }),
+    prisma.account.update({
+      where: { id: accountId },
+      data: { workspaceId },
+    }),
+  ])
+  return moved
+}
+
+// The actor must manage members and outrank the member; a new role must
+// also be one the actor can hand out
+async function getManagedMember(
+  userId: string,
+  workspaceId: string,
+  memberUserId: string,
+  role?: WorkspaceRole
+): Promise<{ actor: Membership; member: Membership }> {
+  const actor = await requireWorkspacePermission(userId, workspaceId, 'members:manage')
+  const member = await getMembership(memberUserId, workspaceId)
+  if (!member) {
+    throw new Error(`User ${memberUserId} is not a member of this workspace`)
+  }
+  if (member.role === WorkspaceRole.OWNER) {
+    throw new Error('The workspace owner cannot be changed or removed')
+  }
+  if (!outranks(actor.role, member.role)) {
+    throw new WorkspaceAccessError('members:manage', 'You can only manage members below your own role')
+  }
+  if (role && !canAssignRole(actor.role, role)) {
+    throw new WorkspaceAccessError('members:manage', `You cannot make members ${role}`)
+  }
+  return { actor, member }
+}
+
+async function validateGrants(
+  actor: Membership,
+  workspaceId: string,
+  grants: AccountGrantInput[]
+): Promise<void> {
+  if (grants.length === 0) return
+
+  const accounts = await prisma.account.findMany({
+    where: {
+      id: { in: grants.map((grant) => grant.accountId) },
+      workspaceId,
+    },
+    select: { id: true },
+  })
+  if (accounts.length !== new Set(grants.map((grant) => grant.accountId)).size) {
+    throw new Error('Grants can only be given on accounts in this workspace')
+  }
+
+  const denied = grants.find((grant) => !canAssignRole(actor.role, grant.role))
+  if (denied) {
+    throw new WorkspaceAccessError('members:manage', `You cannot grant ${denied.role} on an account`)
+  }
+}
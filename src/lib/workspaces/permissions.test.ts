@@ -0,0 +1,27 @@
+import { WorkspaceRole } from '@prisma/client'
+import { canAssignRole, roleCan } from './permissions'
+
+jest.mock('@prisma/client', () => ({
+  WorkspaceRole: { OWNER: 'OWNER', ADMIN: 'ADMIN', EDITOR: 'EDITOR', CONTRIBUTOR: 'CONTRIBUTOR', VIEWER: 'VIEWER' }
+}))
+
+const role = (name: string) => name as WorkspaceRole
+
+describe('workspace permissions', () => {
+  it('lets higher roles do everything lower ones may', () => {
+    expect(roleCan(role('ADMIN'), 'posts:publish')).toBe(true)
+    expect(roleCan(role('EDITOR'), 'inbox:reply')).toBe(true)
+    expect(roleCan(role('CONTRIBUTOR'), 'posts:draft')).toBe(true)
+    expect(roleCan(role('CONTRIBUTOR'), 'posts:publish')).toBe(false)
+    expect(roleCan(role('VIEWER'), 'content:view')).toBe(true)
+    expect(roleCan(role('ADMIN'), 'workspace:manage')).toBe(false)
+  })
+
+  it('only hands out roles below the actor\'s own, and never ownership', () => {
+    expect(canAssignRole(role('OWNER'), role('ADMIN'))).toBe(true)
+    expect(canAssignRole(role('ADMIN'), role('EDITOR'))).toBe(true)
+    expect(canAssignRole(role('ADMIN'), role('ADMIN'))).toBe(false)
+    expect(canAssignRole(role('EDITOR'), role('ADMIN'))).toBe(false)
+    expect(canAssignRole(role('OWNER'), role('OWNER'))).toBe(false)
+  })
+})
@@ -0,0 +1,58 @@
+import { WorkspaceRole } from '@prisma/client'
+
+export type WorkspacePermission =
+  | 'workspace:manage' // rename or delete the workspace
+  | 'members:manage' // invitations, roles and account grants
+  | 'accounts:manage' // connect, move and disconnect accounts
+  | 'posts:publish' // publish, schedule and run post queues
+  | 'posts:draft' // calendar entries and slots
+  | 'inbox:reply' // answer comments and messages as the account
+  | 'content:view' // posts, schedules and analytics
+
+// Higher ranks include everything lower ones may do
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  OWNER: 4,
+  ADMIN: 3,
+  EDITOR: 2,
+  CONTRIBUTOR: 1,
+  VIEWER: 0,
+}
+
+const REQUIRED_ROLE: Record<WorkspacePermission, WorkspaceRole> = {
+  'workspace:manage': WorkspaceRole.OWNER,
+  'members:manage': WorkspaceRole.ADMIN,
+  'accounts:manage': WorkspaceRole.ADMIN,
+  'posts:publish': WorkspaceRole.EDITOR,
+  'inbox:reply': WorkspaceRole.EDITOR,
+  'posts:draft': WorkspaceRole.CONTRIBUTOR,
+  'content:view': WorkspaceRole.VIEWER,
+}
+
+// Thrown when the user is a member but their role falls short. Callers map
+// it to a 403; records the user cannot see at all are reported as not found.
+export class WorkspaceAccessError extends Error {
+  readonly status = 403
+
+  constructor(readonly permission: WorkspacePermission, message?: string) {
+    super(message || `Your role does not allow ${permission}`)
+    this.name = 'WorkspaceAccessError'
+  }
+}
+
+export function roleCan(role: WorkspaceRole, permission: WorkspacePermission): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[REQUIRED_ROLE[permission]]
+}
+
+// Members hand out roles below their own, so only the owner makes admins.
+// Ownership itself is never handed out this way.
+export function canAssignRole(actorRole: WorkspaceRole, role: WorkspaceRole): boolean {
+  return role !== WorkspaceRole.OWNER && ROLE_RANK[actorRole] > ROLE_RANK[role]
+}
+
+export function outranks(role: WorkspaceRole, other: WorkspaceRole): boolean {
+  return ROLE_RANK[role] > ROLE_RANK[other]
+}
+
+export function hasRole(role: WorkspaceRole, minimum: WorkspaceRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minimum]
+}
@@ -0,0 +1,63 @@
+import { IncomingHttpHeaders } from 'http'
+import { Request, Response, NextFunction } from 'express'
+import { UserRole } from '@prisma/client'
+import { Membership, getMembership } from '../lib/workspaces/access'
+import { WorkspacePermission, roleCan } from '../lib/workspaces/permissions'
+
+// The parts of the request the middleware reads are declared so it does not
+// depend on how the service types its authenticated user
+export interface WorkspaceRequest extends Request {
+  user?: { id: string; role?: UserRole }
+  params: Record<string, string>
+  headers: IncomingHttpHeaders
+  workspace?: Membership
+}
+
+/**
+ * Lets the request through when the signed-in user's role in the workspace
+ * allows `permission`. The workspace comes from the `workspaceId` route
+ * parameter or the `x-workspace-id` header; the membership is left on
+ * `req.workspace`. With `optional`, a request without a workspace works in
+ * the user's personal scope and is let through. Must run after
+ * authentication.
+ */
+export function requireWorkspacePermission(
+  permission: WorkspacePermission,
+  options: { optional?: boolean } = {}
+) {
+  return async (req: WorkspaceRequest, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.id
+    const workspaceId = req.params.workspaceId || (req.headers['x-workspace-id'] as string)
+
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' })
+      return
+    }
+    if (!workspaceId) {
+      if (options.optional) {
+        next()
+        return
+      }
+      res.status(400).json({ error: 'Workspace is required' })
+      return
+    }
+
+    try {
+      const membership = await getMembership(userId, workspaceId)
+      if (!membership) {
+        res.status(404).json({ error: 'Workspace not found' })
+        return
+      }
+      if (!roleCan(membership.role, permission)) {
+        res.status(403).json({ error: `Your role does not allow ${permission}` })
+        return
+      }
+
+      req.workspace = membership
+      next()
+    } catch (error) {
+      console.error('Workspace access error:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  }
+}